@@ -1,6 +1,8 @@
 import { redirect } from "next/navigation"
 import { createClient } from "@/lib/supabase/server"
 import { ClaimDetailPage } from "@/components/admin/ClaimDetailPage"
+import { getClaim } from "@/lib/supabase/claims"
+import { getSettlementTerms } from "@/lib/supabase/claim-settlements"
 import type { Profile } from "@/types/auth"
 
 export default async function ClaimPage({ params }: { params: Promise<{ id: string }> }) {
@@ -8,7 +10,6 @@ export default async function ClaimPage({ params }: { params: Promise<{ id: stri
 
   // Await params as per Next.js 15+ requirements
   const { id } = await params
-  console.log('Claim page route - ID from params:', id)
 
   // Get current user
   const { data: { user }, error: userError } = await supabase.auth.getUser()
@@ -32,9 +33,15 @@ export default async function ClaimPage({ params }: { params: Promise<{ id: stri
     redirect('/dashboard')
   }
 
-  // In a real app, fetch claim from database
-  // For now, we'll pass the claim ID and let the client component handle mock data
-  console.log('Passing claimId to ClaimDetailPage:', id)
+  const claim = await getClaim(id)
 
-  return <ClaimDetailPage claimId={id} profile={profile} />
+  // A claim whose policy or coverage type is gone can still be viewed, just not settled
+  const settlementTerms = claim
+    ? await getSettlementTerms(id).catch((error) => {
+        console.error('Failed to load settlement terms:', error)
+        return null
+      })
+    : null
+
+  return <ClaimDetailPage claim={claim} profile={profile} settlementTerms={settlementTerms} />
 }
@@ -0,0 +1,164 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
+import { addClaimMessage, getClaimEvaluationInput, transitionClaimStatus } from '@/lib/supabase/claims'
+import { saveClaimSettlement } from '@/lib/supabase/claim-settlements'
+import { getEvaluationRuleSet } from '@/lib/supabase/rule-set-versions'
+import { getCoverageType } from '@/lib/supabase/coverage-types'
+import { createRulesEngine } from '@/lib/rules/engine'
+import { getRuleDateSettings } from '@/lib/rules/dates'
+import type { ClaimTransitionAction, ClaimTransitionInput, SettlementLineItem } from '@/types/claims'
+
+/**
+ * Get the signed-in user if they are an admin
+ */
+async function getAdminUser() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return null
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('is_admin')
+    .eq('id', user.id)
+    .single<{ is_admin: boolean }>()
+
+  return profile?.is_admin ? user : null
+}
+
+/**
+ * Re-run the rules a claim was evaluated against in explain mode and return
+ * the execution trace ("why was this claim blocked?"). The claim's stored
+ * answers and submission metadata are replayed, so the rules see what they
+ * saw at submission. Without a recorded version the currently published rule
+ * set is used.
+ */
+export async function explainClaimRulesAction(claimId: string) {
+  try {
+    const user = await getAdminUser()
+    if (!user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const claim = await getClaimEvaluationInput(claimId)
+    if (!claim) {
+      return { success: false, error: 'Claim not found' }
+    }
+
+    const { coverageTypeId, answers, metadata, ruleSetVersionId } = claim
+    const [{ rules, version }, coverageType] = await Promise.all([
+      getEvaluationRuleSet(coverageTypeId, ruleSetVersionId),
+      getCoverageType(coverageTypeId),
+    ])
+    // Time zone and holiday calendar are configured per coverage type
+    const result = createRulesEngine(rules, getRuleDateSettings(coverageType?.metadata)).evaluate(
+      { answers, metadata: { ...metadata, coverageTypeId } },
+      { explain: true }
+    )
+
+    return {
+      success: true,
+      trace: {
+        passed: result.passed,
+        errors: result.errors,
+        warnings: result.warnings,
+        blockedSubmission: result.blockedSubmission,
+        blockReason: result.blockReason,
+        ruleErrors: result.ruleErrors || [],
+        iterations: result.iterations,
+        executionLog: result.executionLog || [],
+        ruleSetVersion: version?.version ?? null,
+      },
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to explain rules',
+    }
+  }
+}
+
+/**
+ * Move a claim through the workflow (start review, approve, reject, mark
+ * paid, ...). Only admins can change a claim's status; the transition is
+ * recorded with the admin, the reason and any notes.
+ */
+export async function transitionClaimStatusAction(
+  claimId: string,
+  action: ClaimTransitionAction,
+  input: ClaimTransitionInput = {}
+) {
+  try {
+    const user = await getAdminUser()
+    if (!user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const { claim, change } = await transitionClaimStatus(claimId, action, user.id, input)
+    revalidatePath('/admin')
+    revalidatePath(`/admin/claims/${claimId}`)
+    return { success: true, status: claim.status, change }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update claim status',
+    }
+  }
+}
+
+/**
+ * Save an adjuster's settlement of a claim (line items with any overrides).
+ * The payable amount is recalculated on the server and stored as the
+ * claim's settled amount, which approval then reserves.
+ */
+export async function saveClaimSettlementAction(claimId: string, lineItems: SettlementLineItem[]) {
+  try {
+    const user = await getAdminUser()
+    if (!user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const settlement = await saveClaimSettlement(claimId, lineItems, user.id)
+    revalidatePath(`/admin/claims/${claimId}`)
+    return { success: true, settlement }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save settlement',
+    }
+  }
+}
+
+/**
+ * Reply to the claimant in a claim's conversation. Only admins can post
+ * admin replies.
+ */
+export async function sendClaimMessageAction(claimId: string, content: string) {
+  try {
+    const user = await getAdminUser()
+    if (!user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const message = await addClaimMessage({
+      claim_id: claimId,
+      sender_id: user.id,
+      role: 'admin',
+      content,
+    })
+    revalidatePath(`/admin/claims/${claimId}`)
+    return { success: true, message }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send message',
+    }
+  }
+}
@@ -1,6 +1,7 @@
 'use server'
 
 import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
 import {
   getCoverageTypes,
   getActiveCoverageTypes,
@@ -27,7 +28,57 @@ import {
   deleteRule,
   toggleRuleActive,
 } from '@/lib/supabase/rules'
-import type { CoverageType, CoverageTypeInsert, CoverageTypeUpdate, Question, QuestionInsert, QuestionUpdate, Rule, RuleInsert, RuleUpdate } from '@/types/policies'
+import {
+  createRuleTestCase,
+  updateRuleTestCase,
+  deleteRuleTestCase,
+} from '@/lib/supabase/rule-test-cases'
+import {
+  getEvaluationRuleSet,
+  publishRuleSetVersion,
+  rollbackRuleSetVersion,
+} from '@/lib/supabase/rule-set-versions'
+import {
+  exportCoverageTypeBundle,
+  previewCoverageTypeBundleImport,
+  importCoverageTypeBundle,
+} from '@/lib/supabase/rule-bundles'
+import {
+  createRuleTemplate,
+  updateRuleTemplate,
+  deleteRuleTemplate,
+} from '@/lib/supabase/rule-templates'
+import { getClaimsForSimulation } from '@/lib/supabase/claims'
+import { parseRuleBundle } from '@/lib/rules/bundles'
+import { simulateRuleImpact } from '@/lib/rules/simulation'
+import { getRuleDateSettings } from '@/lib/rules/dates'
+import type { CoverageType, CoverageTypeInsert, CoverageTypeUpdate, Question, QuestionInsert, QuestionUpdate, Rule, RuleInsert, RuleUpdate, RuleTestCaseRecord, RuleTestCaseInsert, RuleTestCaseUpdate, RuleSetVersion, RuleBundle, RuleBundleConflictStrategy, RuleBundleImportPlan, RuleTemplateRecord, RuleTemplateInsert, RuleTemplateUpdate } from '@/types/policies'
+import type { RuleSimulationReport } from '@/types/rules'
+
+/**
+ * Get the signed-in user, throwing unless they are an admin
+ */
+async function requireAdmin() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('Unauthorized')
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('is_admin')
+    .eq('id', user.id)
+    .single<{ is_admin: boolean }>()
+
+  if (!profile?.is_admin) {
+    throw new Error('Unauthorized')
+  }
+  return user
+}
 
 /**
  * Fetch all coverage types
@@ -207,3 +258,193 @@ export async function toggleRule(id: string, isActive: boolean): Promise<Rule> {
   revalidatePath('/admin/coverage-types')
   return result
 }
+
+// ============================================
+// Rule Test Case Actions
+// ============================================
+
+/**
+ * Add a new rule test case
+ */
+export async function addRuleTestCase(data: RuleTestCaseInsert): Promise<RuleTestCaseRecord> {
+  await requireAdmin()
+  const result = await createRuleTestCase(data)
+  revalidatePath('/admin/coverage-types')
+  return result
+}
+
+/**
+ * Edit an existing rule test case
+ */
+export async function editRuleTestCase(
+  id: string,
+  data: RuleTestCaseUpdate
+): Promise<RuleTestCaseRecord> {
+  await requireAdmin()
+  const result = await updateRuleTestCase(id, data)
+  revalidatePath('/admin/coverage-types')
+  return result
+}
+
+/**
+ * Remove a rule test case
+ */
+export async function removeRuleTestCase(id: string): Promise<void> {
+  await requireAdmin()
+  await deleteRuleTestCase(id)
+  revalidatePath('/admin/coverage-types')
+}
+
+// ============================================
+// Rule Set Version Actions
+// ============================================
+
+/**
+ * Publish the draft rules and questions of a coverage type as a new version
+ */
+export async function publishRuleSet(
+  coverageTypeId: string,
+  notes?: string
+): Promise<RuleSetVersion> {
+  const user = await requireAdmin()
+
+  const result = await publishRuleSetVersion(coverageTypeId, {
+    notes: notes?.trim() || null,
+    publishedBy: user.id,
+  })
+  revalidatePath('/admin/coverage-types')
+  return result
+}
+
+/**
+ * Roll back to an earlier version (published as a new version)
+ */
+export async function rollbackRuleSet(versionId: string): Promise<RuleSetVersion> {
+  const user = await requireAdmin()
+
+  const result = await rollbackRuleSetVersion(versionId, { publishedBy: user.id })
+  revalidatePath('/admin/coverage-types')
+  return result
+}
+
+// ============================================
+// Rule Bundle Actions
+// ============================================
+
+/**
+ * Export a coverage type's questions and rules as a portable bundle
+ */
+export async function exportRuleBundle(coverageTypeId: string): Promise<RuleBundle> {
+  await requireAdmin()
+  return exportCoverageTypeBundle(coverageTypeId)
+}
+
+/**
+ * Dry-run a bundle import: validation errors and what would happen to each
+ * question and rule
+ */
+export async function previewRuleBundleImport(
+  coverageTypeId: string,
+  bundle: unknown,
+  strategy: RuleBundleConflictStrategy
+): Promise<RuleBundleImportPlan> {
+  await requireAdmin()
+  const { bundle: parsed, errors } = parseRuleBundle(bundle)
+
+  if (!parsed) {
+    return { errors, warnings: [], questions: [], rules: [] }
+  }
+
+  return previewCoverageTypeBundleImport(coverageTypeId, parsed, strategy)
+}
+
+/**
+ * Import a bundle into a coverage type; returns its questions and rules afterwards
+ */
+export async function importRuleBundle(
+  coverageTypeId: string,
+  bundle: unknown,
+  strategy: RuleBundleConflictStrategy
+): Promise<{ plan: RuleBundleImportPlan; questions: Question[]; rules: Rule[] }> {
+  await requireAdmin()
+  const { bundle: parsed, errors } = parseRuleBundle(bundle)
+
+  if (!parsed) {
+    throw new Error(`Invalid rule bundle: ${errors.join('; ')}`)
+  }
+
+  const result = await importCoverageTypeBundle(coverageTypeId, parsed, strategy)
+  revalidatePath('/admin/coverage-types')
+  return result
+}
+
+// ============================================
+// Rule Template Actions
+// ============================================
+
+/**
+ * Save a rule template to the shared library
+ */
+export async function addRuleTemplate(data: RuleTemplateInsert): Promise<RuleTemplateRecord> {
+  const user = await requireAdmin()
+
+  const result = await createRuleTemplate({ ...data, created_by: user.id })
+  revalidatePath('/admin/coverage-types')
+  return result
+}
+
+/**
+ * Update a rule template
+ */
+export async function editRuleTemplate(id: string, data: RuleTemplateUpdate): Promise<RuleTemplateRecord> {
+  await requireAdmin()
+  const result = await updateRuleTemplate(id, data)
+  revalidatePath('/admin/coverage-types')
+  return result
+}
+
+/**
+ * Remove a rule template
+ */
+export async function removeRuleTemplate(id: string): Promise<void> {
+  await requireAdmin()
+  await deleteRuleTemplate(id)
+  revalidatePath('/admin/coverage-types')
+}
+
+// ============================================
+// Rule Impact Simulation Actions
+// ============================================
+
+// Most claims one simulation replays
+const MAX_SIMULATION_CLAIMS = 500
+
+/**
+ * Replay recent claims of a coverage type against draft rules and report how
+ * their outcomes differ from the published rule set. Nothing is written.
+ * Admins only: the report includes claim numbers and messages built from
+ * claimants' answers.
+ */
+export async function simulateRuleSetImpact(
+  coverageTypeId: string,
+  draftRules: Rule[],
+  options: { days?: number | null; limit?: number } = {}
+): Promise<RuleSimulationReport> {
+  await requireAdmin()
+
+  const limit =
+    options.limit && Number.isFinite(options.limit)
+      ? Math.min(Math.max(1, Math.floor(options.limit)), MAX_SIMULATION_CLAIMS)
+      : MAX_SIMULATION_CLAIMS
+  const since = options.days
+    ? new Date(Date.now() - options.days * 24 * 60 * 60 * 1000).toISOString()
+    : undefined
+
+  const [coverageType, { rules }, claims] = await Promise.all([
+    getCoverageType(coverageTypeId),
+    getEvaluationRuleSet(coverageTypeId),
+    getClaimsForSimulation(coverageTypeId, { since, limit }),
+  ])
+
+  return simulateRuleImpact(rules, draftRules, claims, getRuleDateSettings(coverageType?.metadata))
+}
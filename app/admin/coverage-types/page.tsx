@@ -4,6 +4,9 @@ import { CoverageTypesPage } from '@/components/admin/coverage-types/CoverageTyp
 import { fetchCoverageTypes } from './actions'
 import { getRules } from '@/lib/supabase/rules'
 import { getAllQuestions } from '@/lib/supabase/questions'
+import { getRuleTestCases } from '@/lib/supabase/rule-test-cases'
+import { getRuleSetVersions } from '@/lib/supabase/rule-set-versions'
+import { getRuleTemplates } from '@/lib/supabase/rule-templates'
 import type { Profile } from '@/types/auth'
 
 export const metadata = {
@@ -39,10 +42,13 @@ export default async function CoverageTypesAdminPage() {
     redirect('/dashboard')
   }
 
-  // Fetch coverage types, rules, and questions from database
+  // Fetch coverage types, rules, questions, test cases, published versions, and rule templates from database
   const coverageTypes = await fetchCoverageTypes()
   const rules = await getRules()
   const questions = await getAllQuestions()
+  const testCases = await getRuleTestCases()
+  const ruleSetVersions = await getRuleSetVersions()
+  const ruleTemplates = await getRuleTemplates()
 
   return (
     <CoverageTypesPage
@@ -50,6 +56,9 @@ export default async function CoverageTypesAdminPage() {
       initialCoverageTypes={coverageTypes}
       initialRules={rules}
       initialQuestions={questions}
+      initialTestCases={testCases}
+      initialRuleSetVersions={ruleSetVersions}
+      initialRuleTemplates={ruleTemplates}
     />
   )
 }
@@ -1,9 +1,15 @@
 import { redirect } from "next/navigation"
 import { createClient } from "@/lib/supabase/server"
 import { AdminDashboard } from "@/components/admin/AdminDashboard"
+import { getClaims, getClaimStatusCounts } from "@/lib/supabase/claims"
+import { CLAIM_STATUSES } from "@/lib/claims/workflow"
 import type { Profile } from "@/types/auth"
 
-export default async function AdminPage() {
+export default async function AdminPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ page?: string; status?: string; q?: string }>
+}) {
   const supabase = await createClient()
 
   // Get current user
@@ -38,5 +44,16 @@ export default async function AdminPage() {
   }
 
   console.log('[Admin Page] Admin access granted!')
-  return <AdminDashboard profile={profile} />
+
+  const { page, status, q } = await searchParams
+  const filters = {
+    status: CLAIM_STATUSES.find((s) => s === status),
+    search: q?.trim() || undefined,
+  }
+  const [claims, counts] = await Promise.all([
+    getClaims(filters, { page: Number(page) || 1 }),
+    getClaimStatusCounts(),
+  ])
+
+  return <AdminDashboard profile={profile} claims={claims} counts={counts} filters={filters} />
 }
@@ -0,0 +1,387 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
+import { getEvaluationRuleSet } from '@/lib/supabase/rule-set-versions'
+import { getCoverageType } from '@/lib/supabase/coverage-types'
+import { getActiveUserPolicies, getUserPolicy } from '@/lib/supabase/user-policies'
+import {
+  getPolicyCoverageType,
+  getPolicyCoverageTypesWithDetails,
+} from '@/lib/supabase/policy-coverage-types'
+import { addClaimDocument, addClaimStatusChange, createClaim, deleteClaim } from '@/lib/supabase/claims'
+import {
+  archiveChatSession,
+  archiveChatSessionIfOpen,
+  getChatSession,
+  reopenChatSession,
+} from '@/lib/supabase/chat-sessions'
+import { getSignedUrl } from '@/lib/supabase/storage'
+import { createRulesEngine } from '@/lib/rules/engine'
+import { getRuleDateSettings } from '@/lib/rules/dates'
+import { buildProfileMetadata, serializeRuleEvaluationResult } from '@/lib/rules/helpers'
+import { findMissingAnswers, findMissingDocuments, generateClaimNumber } from '@/lib/claims/submission'
+import type { Profile } from '@/types/auth'
+import type { RuleEvaluationContext, RuleEvaluationResult } from '@/types/rules'
+import type { ChatSession } from '@/types/chat'
+import type { Question } from '@/types/policies'
+import type { UserPolicy } from '@/types/user-policies'
+import type { ClaimPolicyOption, ClaimRecord, ClaimSubmission } from '@/types/claims'
+import type { Json } from '@/types/database'
+
+type ClaimEvaluation =
+  | { error: string }
+  | {
+      result: RuleEvaluationResult
+      metadata: NonNullable<RuleEvaluationContext['metadata']>
+      answers: Record<string, unknown> // Only answers to the version's questions
+      questions: Question[]
+      ruleSetVersionId: string | null
+      userPolicy: UserPolicy
+    }
+
+/**
+ * Check that the user may claim under the policy and coverage type, then run
+ * the published rules with server-side metadata (see evaluateClaimAction)
+ */
+async function evaluateClaim(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  coverageTypeId: string,
+  userPolicyId: string,
+  answers: Record<string, unknown>,
+  locale?: string
+): Promise<ClaimEvaluation> {
+  const [{ data: profile }, coverageType, userPolicy] = await Promise.all([
+    supabase.from('profiles').select('*').eq('id', userId).single<Profile>(),
+    getCoverageType(coverageTypeId),
+    getUserPolicy(userPolicyId),
+  ])
+
+  if (!profile) {
+    return { error: 'Profile not found' }
+  }
+
+  if (!coverageType || !coverageType.is_active) {
+    return { error: 'Coverage type not found' }
+  }
+
+  if (!userPolicy || userPolicy.user_id !== userId) {
+    return { error: 'Policy not found' }
+  }
+
+  if (userPolicy.status !== 'active') {
+    return { error: `Policy is ${userPolicy.status}` }
+  }
+
+  if (userPolicy.expires_at && new Date(userPolicy.expires_at) < new Date()) {
+    return { error: 'Policy has expired' }
+  }
+
+  const [policyCoverage, { rules, questions, version }] = await Promise.all([
+    getPolicyCoverageType(userPolicy.policy_id, coverageTypeId),
+    getEvaluationRuleSet(coverageTypeId),
+  ])
+
+  if (!policyCoverage) {
+    return { error: `Your policy does not cover ${coverageType.name}` }
+  }
+
+  // Keys that are not questions of the evaluated version are dropped, so
+  // they are neither seen by the rules nor stored with the claim
+  const questionIds = new Set(questions.map((q) => q.id))
+  const knownAnswers = Object.fromEntries(Object.entries(answers).filter(([id]) => questionIds.has(id)))
+
+  const dateSettings = getRuleDateSettings(coverageType.metadata)
+  const metadata: NonNullable<RuleEvaluationContext['metadata']> = {
+    ...buildProfileMetadata(profile, new Date(), dateSettings.timeZone),
+    policyId: userPolicy.policy_id,
+    coverageTypeId,
+    submissionDate: new Date().toISOString(),
+    policyStartDate: userPolicy.enrolled_at,
+    ...(policyCoverage.coverage_limit != null && { coverageLimit: policyCoverage.coverage_limit }),
+    ...(locale && { locale }),
+  }
+
+  const result = createRulesEngine(rules, dateSettings).evaluate({
+    answers: knownAnswers,
+    metadata,
+  })
+
+  return { result, metadata, answers: knownAnswers, questions, ruleSetVersionId: version?.id ?? null, userPolicy }
+}
+
+/**
+ * Evaluate a claim's answers against the coverage type's rules on the server.
+ *
+ * This is the authoritative check at submission time: the client may run the
+ * same rules for instant feedback, but only this result counts. Metadata
+ * (user, age, policy dates, coverage limit) is loaded here rather than taken
+ * from the client. Rules come from the published rule set, falling back to
+ * the active rules while the coverage type was never published.
+ *
+ * Submissions with errors or a blocked submission are rejected; the full
+ * result is returned either way so the client can show what to fix. Messages
+ * are in `locale` when given, otherwise the profile country's locale.
+ */
+export async function evaluateClaimAction(
+  coverageTypeId: string,
+  userPolicyId: string,
+  answers: Record<string, unknown>,
+  locale?: string
+) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const evaluation = await evaluateClaim(supabase, user.id, coverageTypeId, userPolicyId, answers, locale)
+    if ('error' in evaluation) {
+      return { success: false, error: evaluation.error }
+    }
+
+    const { result, ruleSetVersionId } = evaluation
+    const serialized = serializeRuleEvaluationResult(result)
+
+    if (result.blockedSubmission) {
+      return {
+        success: false,
+        error: result.blockReason || 'Submission blocked',
+        result: serialized,
+        ruleSetVersionId,
+      }
+    }
+
+    if (!result.passed || result.errors.length > 0) {
+      return {
+        success: false,
+        error: result.errors[0] || 'Claim has validation errors',
+        result: serialized,
+        ruleSetVersionId,
+      }
+    }
+
+    return { success: true, result: serialized, ruleSetVersionId }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to evaluate claim',
+    }
+  }
+}
+
+/**
+ * Get the claimant's active policies with the coverage types they can claim under
+ */
+export async function getClaimPolicyOptionsAction() {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const userPolicies = await getActiveUserPolicies(user.id)
+    const policies: ClaimPolicyOption[] = await Promise.all(
+      userPolicies.map(async (userPolicy) => {
+        const coverages = await getPolicyCoverageTypesWithDetails(userPolicy.policy_id)
+        return {
+          userPolicyId: userPolicy.id,
+          policyName: userPolicy.policy_name,
+          currency: userPolicy.currency,
+          coverageTypes: coverages
+            .filter((coverage) => coverage.coverage_type?.is_active)
+            .map((coverage) => ({
+              id: coverage.coverage_type.id,
+              name: coverage.coverage_type.name,
+              description: coverage.coverage_type.description,
+              coverageLimit: coverage.coverage_limit,
+            })),
+        }
+      })
+    )
+
+    return { success: true, policies }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load policies',
+    }
+  }
+}
+
+/**
+ * Get the questions a claim under a coverage type has to answer: those of
+ * the published version the rules come from, so drafts never reach claimants
+ */
+export async function getClaimQuestionsAction(coverageTypeId: string) {
+  try {
+    const { questions } = await getEvaluationRuleSet(coverageTypeId)
+    return { success: true, questions }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load questions',
+    }
+  }
+}
+
+/**
+ * Submit a claim from a claim-mode chat.
+ *
+ * The answers are evaluated like evaluateClaimAction; on top of that every
+ * visible required question must be answered and every document the rules
+ * require must be attached. The chat session is then archived (only one
+ * submission per chat gets past this), the claim is created with a new claim
+ * number, the documents are attached to it and the session is linked to the
+ * claim. If creating the claim fails, it is removed and the session reopened
+ * so the claimant can retry without a duplicate claim.
+ */
+export async function submitClaimAction(sessionId: string, submission: ClaimSubmission) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const session = await getChatSession(sessionId)
+    if (!session || session.user_id !== user.id || session.mode !== 'claim') {
+      return { success: false, error: 'Chat session not found' }
+    }
+    if (session.is_archived) {
+      return { success: false, error: 'A claim was already submitted from this chat' }
+    }
+
+    if (!(submission.amount > 0)) {
+      return { success: false, error: 'Please enter the amount you are claiming' }
+    }
+
+    // Uploads are stored under the uploader's ID (see lib/supabase/storage.ts)
+    if (submission.documents.some((doc) => !doc.path.startsWith(`${user.id}/`))) {
+      return { success: false, error: 'Documents must be uploaded by you' }
+    }
+
+    const evaluation = await evaluateClaim(
+      supabase,
+      user.id,
+      submission.coverageTypeId,
+      submission.userPolicyId,
+      submission.answers,
+      submission.locale
+    )
+    if ('error' in evaluation) {
+      return { success: false, error: evaluation.error }
+    }
+
+    const { result, metadata, answers, questions, ruleSetVersionId, userPolicy } = evaluation
+    const serialized = serializeRuleEvaluationResult(result)
+
+    if (result.blockedSubmission) {
+      return { success: false, error: result.blockReason || 'Submission blocked', result: serialized }
+    }
+
+    if (!result.passed || result.errors.length > 0) {
+      return { success: false, error: result.errors[0] || 'Claim has validation errors', result: serialized }
+    }
+
+    const missingAnswers = findMissingAnswers(questions, answers, result.hiddenQuestions)
+    if (missingAnswers.length > 0) {
+      return {
+        success: false,
+        error: `Please answer: ${missingAnswers.map((m) => m.questionText).join(', ')}`,
+        result: serialized,
+      }
+    }
+
+    const missingDocuments = findMissingDocuments(result.requiredDocuments, submission.documents)
+    if (missingDocuments.length > 0) {
+      return { success: false, error: missingDocuments[0].message, result: serialized }
+    }
+
+    // Admins open these links, so they are signed here from the checked paths
+    // rather than taken from the client
+    const documentUrls = await Promise.all(submission.documents.map((doc) => getSignedUrl(doc.path)))
+
+    if (!(await archiveChatSessionIfOpen(sessionId))) {
+      return { success: false, error: 'A claim was already submitted from this chat' }
+    }
+
+    let claim: ClaimRecord | null = null
+    let archivedSession: ChatSession
+    try {
+      claim = await createClaim({
+        claim_number: generateClaimNumber(),
+        user_id: user.id,
+        user_policy_id: userPolicy.id,
+        coverage_type_id: submission.coverageTypeId,
+        status: 'submitted',
+        amount: submission.amount,
+        currency: userPolicy.currency,
+        description: submission.description.trim() || null,
+        answers: answers as Json,
+        metadata: metadata as Json,
+        eligibility: (result.eligibility ?? null) as unknown as Json,
+        rule_set_version_id: ruleSetVersionId,
+        submitted_at: metadata.submissionDate,
+      })
+      const claimId = claim.id
+
+      await Promise.all([
+        addClaimStatusChange({
+          claim_id: claimId,
+          from_status: null,
+          to_status: 'submitted',
+          action: 'submit',
+          changed_by: user.id,
+        }),
+        ...submission.documents.map((doc, index) =>
+          addClaimDocument({
+            claim_id: claimId,
+            question_id: doc.questionId,
+            name: doc.name,
+            file_type: doc.type,
+            storage_path: doc.path,
+            url: documentUrls[index],
+            size: doc.size,
+            uploaded_by: user.id,
+          })
+        ),
+      ])
+
+      archivedSession = await archiveChatSession(sessionId, claimId)
+    } catch (error) {
+      // Best effort: the original error is what the claimant needs to see
+      if (claim) await deleteClaim(claim.id).catch(() => undefined)
+      await reopenChatSession(sessionId).catch(() => undefined)
+      throw error
+    }
+    revalidatePath('/admin')
+
+    return {
+      success: true,
+      claim: { id: claim.id, claimNumber: claim.claim_number },
+      session: archivedSession,
+      result: serialized,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to submit claim',
+    }
+  }
+}
@@ -1,272 +1,72 @@
 'use client'
 
+import { useState } from 'react'
 import { useRouter } from 'next/navigation'
-import { Shield, Clock, CheckCircle, XCircle, FileText, Settings } from 'lucide-react'
+import {
+  Shield,
+  Clock,
+  CheckCircle,
+  XCircle,
+  FileText,
+  Settings,
+  Search,
+  ChevronLeft,
+  ChevronRight,
+} from 'lucide-react'
 import { TopBar } from './TopBar'
 import { StatCard } from './StatCard'
 import { ActionCard } from './ActionCard'
 import { ClaimCard } from './ClaimCard'
+import { ClaimTransitionDialog } from './ClaimTransitionDialog'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { CLAIM_STATUSES, getClaimStatusDisplayName } from '@/lib/claims/workflow'
 import type { Profile } from '@/types/auth'
-
-interface ClaimMessage {
-  id: string
-  role: 'customer' | 'admin' | 'ai'
-  content: string
-  timestamp: Date
-}
-
-interface ClaimDocument {
-  id: string
-  name: string
-  type: string
-  url: string
-  uploadedAt: Date
-}
-
-interface Claim {
-  id: string
-  claimNumber: string
-  customerId: string
-  customerName: string
-  customerEmail: string
-  type: 'travel' | 'medical' | 'baggage' | 'flight'
-  status: 'pending' | 'approved' | 'rejected' | 'under-review'
-  amount: number
-  currency: string
-  submittedAt: Date
-  description: string
-  documents: ClaimDocument[]
-  messages: ClaimMessage[]
-}
-
-// Mock data
-const mockClaims: Claim[] = [
-  {
-    id: '1',
-    claimNumber: 'CLM-2024-001',
-    customerId: 'user-123',
-    customerName: 'John Doe',
-    customerEmail: 'john@example.com',
-    type: 'travel',
-    status: 'pending',
-    amount: 1500,
-    currency: 'USD',
-    submittedAt: new Date('2024-01-15'),
-    description: 'Flight was delayed by 6 hours due to mechanical issues. Requesting compensation for meals and accommodation as per policy terms.',
-    documents: [
-      {
-        id: 'd1',
-        name: 'boarding-pass.pdf',
-        type: 'application/pdf',
-        url: '/mock/boarding-pass.pdf',
-        uploadedAt: new Date('2024-01-15'),
-      },
-      {
-        id: 'd2',
-        name: 'hotel-receipt.jpg',
-        type: 'image/jpeg',
-        url: '/mock/hotel-receipt.jpg',
-        uploadedAt: new Date('2024-01-15'),
-      },
-    ],
-    messages: [
-      {
-        id: 'm1',
-        role: 'customer',
-        content: 'My flight was delayed by 6 hours due to mechanical problems. I had to book a hotel for the night and buy meals. I have all the receipts attached.',
-        timestamp: new Date('2024-01-15T10:00:00'),
-      },
-      {
-        id: 'm2',
-        role: 'ai',
-        content: 'Based on the claim details, this appears to be a valid travel delay claim. The policy covers delays over 4 hours with accommodation and meal expenses up to $2000. Recommend approval.',
-        timestamp: new Date('2024-01-15T10:30:00'),
-      },
-    ],
-  },
-  {
-    id: '2',
-    claimNumber: 'CLM-2024-002',
-    customerId: 'user-456',
-    customerName: 'Sarah Smith',
-    customerEmail: 'sarah@example.com',
-    type: 'baggage',
-    status: 'approved',
-    amount: 800,
-    currency: 'USD',
-    submittedAt: new Date('2024-01-10'),
-    description: 'Checked baggage was lost during international flight. Contains personal items and electronics valued at $800.',
-    documents: [
-      {
-        id: 'd3',
-        name: 'baggage-claim.pdf',
-        type: 'application/pdf',
-        url: '/mock/baggage-claim.pdf',
-        uploadedAt: new Date('2024-01-10'),
-      },
-    ],
-    messages: [
-      {
-        id: 'm3',
-        role: 'customer',
-        content: 'My checked baggage was lost during my flight from New York to London. The airline has confirmed it is missing. I had valuable electronics and clothing inside.',
-        timestamp: new Date('2024-01-10T14:00:00'),
-      },
-      {
-        id: 'm4',
-        role: 'admin',
-        content: 'Thank you for submitting your claim. I have reviewed your documentation and approved your claim for $800. You should receive payment within 5-7 business days.',
-        timestamp: new Date('2024-01-11T09:00:00'),
-      },
-    ],
-  },
-  {
-    id: '3',
-    claimNumber: 'CLM-2024-003',
-    customerId: 'user-789',
-    customerName: 'Michael Johnson',
-    customerEmail: 'michael@example.com',
-    type: 'medical',
-    status: 'under-review',
-    amount: 3500,
-    currency: 'USD',
-    submittedAt: new Date('2024-01-12'),
-    description: 'Required emergency medical treatment while traveling abroad. Hospitalized for 2 days with food poisoning.',
-    documents: [
-      {
-        id: 'd4',
-        name: 'hospital-bill.pdf',
-        type: 'application/pdf',
-        url: '/mock/hospital-bill.pdf',
-        uploadedAt: new Date('2024-01-12'),
-      },
-      {
-        id: 'd5',
-        name: 'prescription.jpg',
-        type: 'image/jpeg',
-        url: '/mock/prescription.jpg',
-        uploadedAt: new Date('2024-01-12'),
-      },
-      {
-        id: 'd6',
-        name: 'doctors-note.pdf',
-        type: 'application/pdf',
-        url: '/mock/doctors-note.pdf',
-        uploadedAt: new Date('2024-01-12'),
-      },
-    ],
-    messages: [
-      {
-        id: 'm5',
-        role: 'customer',
-        content: 'I was hospitalized in Thailand for severe food poisoning. I have attached all medical bills and prescriptions.',
-        timestamp: new Date('2024-01-12T16:00:00'),
-      },
-      {
-        id: 'm6',
-        role: 'admin',
-        content: 'Thank you for your submission. We are currently reviewing your medical documents. We may need additional information from the hospital.',
-        timestamp: new Date('2024-01-13T10:00:00'),
-      },
-      {
-        id: 'm7',
-        role: 'ai',
-        content: 'Medical claim review: Emergency treatment is covered under the policy. Recommend requesting itemized bill and verification of treatment necessity.',
-        timestamp: new Date('2024-01-13T10:15:00'),
-      },
-    ],
-  },
-  {
-    id: '4',
-    claimNumber: 'CLM-2024-004',
-    customerId: 'user-101',
-    customerName: 'Emily Davis',
-    customerEmail: 'emily@example.com',
-    type: 'flight',
-    status: 'rejected',
-    amount: 500,
-    currency: 'USD',
-    submittedAt: new Date('2024-01-08'),
-    description: 'Missed connecting flight due to traffic. Requesting reimbursement for rebooking.',
-    documents: [
-      {
-        id: 'd7',
-        name: 'original-ticket.pdf',
-        type: 'application/pdf',
-        url: '/mock/original-ticket.pdf',
-        uploadedAt: new Date('2024-01-08'),
-      },
-    ],
-    messages: [
-      {
-        id: 'm8',
-        role: 'customer',
-        content: 'I missed my connecting flight because of heavy traffic on the way to the airport. Can I get reimbursed for the new ticket I had to buy?',
-        timestamp: new Date('2024-01-08T11:00:00'),
-      },
-      {
-        id: 'm9',
-        role: 'admin',
-        content: 'Unfortunately, our policy does not cover missed flights due to traffic or other personal delays. The policy only covers airline-caused delays. Your claim has been rejected.',
-        timestamp: new Date('2024-01-09T09:00:00'),
-      },
-    ],
-  },
-  {
-    id: '5',
-    claimNumber: 'CLM-2024-005',
-    customerId: 'user-202',
-    customerName: 'David Wilson',
-    customerEmail: 'david@example.com',
-    type: 'travel',
-    status: 'pending',
-    amount: 2200,
-    currency: 'USD',
-    submittedAt: new Date('2024-01-14'),
-    description: 'Trip cancellation due to family emergency. Requesting refund for non-refundable hotel and flight bookings.',
-    documents: [
-      {
-        id: 'd8',
-        name: 'hotel-booking.pdf',
-        type: 'application/pdf',
-        url: '/mock/hotel-booking.pdf',
-        uploadedAt: new Date('2024-01-14'),
-      },
-      {
-        id: 'd9',
-        name: 'flight-confirmation.pdf',
-        type: 'application/pdf',
-        url: '/mock/flight-confirmation.pdf',
-        uploadedAt: new Date('2024-01-14'),
-      },
-    ],
-    messages: [
-      {
-        id: 'm10',
-        role: 'customer',
-        content: 'I had to cancel my trip due to a family emergency (my father was hospitalized). I lost money on non-refundable bookings. I have attached all documentation.',
-        timestamp: new Date('2024-01-14T08:00:00'),
-      },
-    ],
-  },
-]
+import type {
+  ClaimFilters,
+  ClaimListItem,
+  ClaimStatus,
+  ClaimStatusCounts,
+  ClaimTransition,
+  PaginatedClaims,
+} from '@/types/claims'
 
 interface AdminDashboardProps {
   profile: Profile
+  claims: PaginatedClaims
+  counts: ClaimStatusCounts
+  filters: Pick<ClaimFilters, 'status' | 'search'>
 }
 
-export function AdminDashboard({ profile }: AdminDashboardProps) {
+const statusFilters: { value: ClaimStatus | null; label: string }[] = [
+  { value: null, label: 'All' },
+  ...CLAIM_STATUSES.map((status) => ({ value: status, label: getClaimStatusDisplayName(status) })),
+]
+
+export function AdminDashboard({ profile, claims: claimPage, counts, filters }: AdminDashboardProps) {
   const router = useRouter()
-  // Using mockClaims directly since claims are not yet editable
-  // TODO: Implement claim update functionality using setClaims when backend is ready
-  const claims = mockClaims
+  const [search, setSearch] = useState(filters.search || '')
+  const [pendingTransition, setPendingTransition] = useState<{
+    claim: ClaimListItem
+    transition: ClaimTransition
+  } | null>(null)
+  const { claims, total, page, pageSize } = claimPage
+  const pageCount = Math.max(1, Math.ceil(total / pageSize))
+
+  // Filters and page live in the URL so the list survives a refresh
+  const navigate = (updates: { status?: ClaimStatus | null; q?: string; page?: number }) => {
+    const next = {
+      status: updates.status !== undefined ? updates.status : filters.status,
+      q: updates.q !== undefined ? updates.q : filters.search,
+      page: updates.page ?? 1,
+    }
+    const params = new URLSearchParams()
+    if (next.status) params.set('status', next.status)
+    if (next.q) params.set('q', next.q)
+    if (next.page > 1) params.set('page', String(next.page))
 
-  // Calculate stats with null safety
-  const stats = {
-    total: (claims || []).length,
-    pending: (claims || []).filter((c) => c.status === 'pending').length,
-    approved: (claims || []).filter((c) => c.status === 'approved').length,
-    rejected: (claims || []).filter((c) => c.status === 'rejected').length,
+    const query = params.toString()
+    router.push(query ? `/admin?${query}` : '/admin')
   }
 
   return (
@@ -277,10 +77,10 @@ export function AdminDashboard({ profile }: AdminDashboardProps) {
         <div className="max-w-7xl mx-auto p-4 md:p-6 space-y-6">
           {/* Stats Cards */}
           <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-            <StatCard label="Total Claims" value={stats.total} icon={Shield} />
-            <StatCard label="Pending" value={stats.pending} icon={Clock} trend={{ value: 12, positive: true }} />
-            <StatCard label="Approved" value={stats.approved} icon={CheckCircle} trend={{ value: 8, positive: true }} />
-            <StatCard label="Rejected" value={stats.rejected} icon={XCircle} />
+            <StatCard label="Total Claims" value={counts.total} icon={Shield} />
+            <StatCard label="Submitted" value={counts.submitted} icon={Clock} />
+            <StatCard label="Approved" value={counts.approved} icon={CheckCircle} />
+            <StatCard label="Rejected" value={counts.rejected} icon={XCircle} />
           </div>
 
           {/* Action Cards */}
@@ -302,16 +102,51 @@ export function AdminDashboard({ profile }: AdminDashboardProps) {
           {/* Claims List */}
           <div className="border border-black/10 dark:border-white/10 rounded-xl overflow-hidden bg-white dark:bg-black">
             <div className="p-6">
-              <div className="flex items-center justify-between mb-4">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
                 <h2 className="text-lg font-bold text-black dark:text-white">
-                  All Claims ({claims.length})
+                  {filters.status || filters.search ? 'Matching Claims' : 'All Claims'} ({total})
                 </h2>
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    navigate({ q: search.trim() })
+                  }}
+                  className="relative md:w-72"
+                >
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-black/40 dark:text-white/40" />
+                  <input
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search claim number or description..."
+                    className="w-full pl-10 pr-4 py-2 rounded-lg bg-black/5 dark:bg-white/5 border-0 text-sm focus:outline-none focus:ring-2 focus:ring-black/20 dark:focus:ring-white/20 text-black dark:text-white placeholder:text-black/40 dark:placeholder:text-white/40"
+                  />
+                </form>
+              </div>
+
+              <div className="flex flex-wrap gap-2 mb-4">
+                {statusFilters.map((option) => (
+                  <button
+                    key={option.label}
+                    onClick={() => navigate({ status: option.value })}
+                    className={cn(
+                      'px-3 py-1 rounded-full text-xs font-medium border transition-colors',
+                      (filters.status ?? null) === option.value
+                        ? 'bg-black text-white border-black dark:bg-white dark:text-black dark:border-white'
+                        : 'border-black/10 dark:border-white/10 text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/5'
+                    )}
+                  >
+                    {option.label} ({option.value ? counts[option.value] : counts.total})
+                  </button>
+                ))}
               </div>
 
               {claims.length === 0 ? (
                 <div className="flex flex-col items-center justify-center py-12 text-center">
                   <Shield className="h-12 w-12 text-black/20 dark:text-white/20 mb-3" />
-                  <p className="text-black/60 dark:text-white/60">No claims yet</p>
+                  <p className="text-black/60 dark:text-white/60">
+                    {filters.status || filters.search ? 'No claims match these filters' : 'No claims yet'}
+                  </p>
                 </div>
               ) : (
                 <div className="space-y-3">
@@ -321,14 +156,54 @@ export function AdminDashboard({ profile }: AdminDashboardProps) {
                       claim={claim}
                       isActive={false}
                       onClick={() => router.push(`/admin/claims/${claim.id}`)}
+                      onTransition={(transition) => setPendingTransition({ claim, transition })}
                     />
                   ))}
                 </div>
               )}
+
+              {pageCount > 1 && (
+                <div className="flex items-center justify-between mt-4 pt-4 border-t border-black/10 dark:border-white/10">
+                  <span className="text-sm text-black/60 dark:text-white/60">
+                    Page {page} of {pageCount}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={page <= 1}
+                      onClick={() => navigate({ page: page - 1 })}
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={page >= pageCount}
+                      onClick={() => navigate({ page: page + 1 })}
+                    >
+                      Next
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </div>
       </div>
+
+      {pendingTransition && (
+        <ClaimTransitionDialog
+          claim={pendingTransition.claim}
+          transition={pendingTransition.transition}
+          onOpenChange={(open) => {
+            if (!open) setPendingTransition(null)
+          }}
+          onTransitioned={() => router.refresh()}
+        />
+      )}
     </div>
   )
 }
@@ -1,56 +1,35 @@
 'use client'
 
-import { Clock, CheckCircle, XCircle, AlertCircle } from 'lucide-react'
 import { cn } from '@/lib/utils'
-
-interface Claim {
-  id: string
-  claimNumber: string
-  customerName: string
-  status: 'pending' | 'approved' | 'rejected' | 'under-review'
-  amount: number
-  currency: string
-  submittedAt: Date
-}
+import { ClaimStatusBadge } from './ClaimStatusBadge'
+import { ClaimStatusTimeline } from './ClaimStatusTimeline'
+import { ClaimTransitionButtons } from './ClaimTransitionButtons'
+import type { ClaimListItem, ClaimTransition } from '@/types/claims'
 
 interface ClaimCardProps {
-  claim: Claim
+  claim: ClaimListItem
   isActive: boolean
   onClick: () => void
+  onTransition?: (transition: ClaimTransition) => void // Show the workflow actions
 }
 
-const statusConfig = {
-  pending: {
-    icon: Clock,
-    className: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20',
-    label: 'Pending',
-  },
-  approved: {
-    icon: CheckCircle,
-    className: 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20',
-    label: 'Approved',
-  },
-  rejected: {
-    icon: XCircle,
-    className: 'bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20',
-    label: 'Rejected',
-  },
-  'under-review': {
-    icon: AlertCircle,
-    className: 'bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20',
-    label: 'Under Review',
-  },
-}
-
-export function ClaimCard({ claim, isActive, onClick }: ClaimCardProps) {
-  const status = statusConfig[claim.status]
-  const StatusIcon = status.icon
+// Status changes shown on the card (most recent)
+const TIMELINE_LENGTH = 3
 
+export function ClaimCard({ claim, isActive, onClick, onTransition }: ClaimCardProps) {
   return (
-    <button
+    <div
+      role="button"
+      tabIndex={0}
       onClick={onClick}
+      onKeyDown={(e) => {
+        if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) {
+          e.preventDefault()
+          onClick()
+        }
+      }}
       className={cn(
-        'w-full text-left p-4 rounded-lg border transition-all duration-200',
+        'w-full text-left p-4 rounded-lg border transition-all duration-200 cursor-pointer',
         'hover:bg-black/2 dark:hover:bg-white/2',
         isActive
           ? 'border-black dark:border-white bg-black/3 dark:bg-white/3'
@@ -66,15 +45,7 @@ export function ClaimCard({ claim, isActive, onClick }: ClaimCardProps) {
             {claim.customerName}
           </p>
         </div>
-        <span
-          className={cn(
-            'inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium border shrink-0',
-            status.className
-          )}
-        >
-          <StatusIcon className="h-3 w-3" />
-          <span className="hidden sm:inline">{status.label}</span>
-        </span>
+        <ClaimStatusBadge status={claim.status} compact className="shrink-0" />
       </div>
 
       <div className="flex items-center justify-between text-xs">
@@ -85,6 +56,14 @@ export function ClaimCard({ claim, isActive, onClick }: ClaimCardProps) {
           {claim.submittedAt.toLocaleDateString()}
         </span>
       </div>
-    </button>
+
+      {claim.statusHistory.length > 0 && (
+        <div className="mt-3 pt-3 border-t border-black/5 dark:border-white/5">
+          <ClaimStatusTimeline history={claim.statusHistory.slice(-TIMELINE_LENGTH)} compact />
+        </div>
+      )}
+
+      {onTransition && <ClaimTransitionButtons status={claim.status} onSelect={onTransition} className="mt-3" />}
+    </div>
   )
 }
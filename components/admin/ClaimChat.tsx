@@ -4,13 +4,7 @@ import { useEffect, useRef } from 'react'
 import { User, Bot, Shield, MessageCircle } from 'lucide-react'
 import { ChatInput } from '@/components/chat/ChatInput'
 import { cn } from '@/lib/utils'
-
-interface ClaimMessage {
-  id: string
-  role: 'customer' | 'admin' | 'ai'
-  content: string
-  timestamp: Date
-}
+import type { ClaimMessage } from '@/types/claims'
 
 interface ClaimChatProps {
   messages: ClaimMessage[]
@@ -4,199 +4,56 @@ import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import {
   ArrowLeft,
-  CheckCircle,
-  XCircle,
-  Clock,
-  AlertCircle,
   MessageCircle,
   DollarSign,
   FileText,
   Image as ImageIcon,
   Eye,
-  Download
+  Download,
+  ListChecks
 } from 'lucide-react'
 import { ClaimChat } from './ClaimChat'
+import { RuleTracePanel } from './RuleTracePanel'
+import { ClaimStatusBadge } from './ClaimStatusBadge'
+import { ClaimStatusTimeline } from './ClaimStatusTimeline'
+import { ClaimTransitionButtons } from './ClaimTransitionButtons'
+import { ClaimTransitionDialog } from './ClaimTransitionDialog'
+import { SettlementCalculator } from './SettlementCalculator'
+import { explainClaimRulesAction, sendClaimMessageAction } from '@/app/admin/claims/actions'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
 import type { Profile } from '@/types/auth'
+import type { RuleExecutionError, RuleExecutionLog } from '@/types/rules'
+import type {
+  Claim,
+  ClaimSettlement,
+  ClaimStatus,
+  ClaimStatusChange,
+  ClaimTransition,
+  SettlementTerms,
+} from '@/types/claims'
 
-interface ClaimMessage {
-  id: string
-  role: 'customer' | 'admin' | 'ai'
-  content: string
-  timestamp: Date
-}
-
-interface ClaimDocument {
-  id: string
-  name: string
-  type: string
-  url: string
-  uploadedAt: Date
-}
-
-interface Claim {
-  id: string
-  claimNumber: string
-  customerId: string
-  customerName: string
-  customerEmail: string
-  type: 'travel' | 'medical' | 'baggage' | 'flight'
-  status: 'pending' | 'approved' | 'rejected' | 'under-review'
-  amount: number
-  currency: string
-  submittedAt: Date
-  description: string
-  documents: ClaimDocument[]
-  messages: ClaimMessage[]
-}
-
-// Mock data (same as AdminDashboard)
-const mockClaims: Claim[] = [
-  {
-    id: '1',
-    claimNumber: 'CLM-2024-001',
-    customerId: 'user-123',
-    customerName: 'John Doe',
-    customerEmail: 'john@example.com',
-    type: 'travel',
-    status: 'pending',
-    amount: 1500,
-    currency: 'USD',
-    submittedAt: new Date('2024-01-15'),
-    description: 'Flight was delayed by 6 hours due to mechanical issues. Requesting compensation for meals and accommodation as per policy terms.',
-    documents: [
-      { id: 'd1', name: 'boarding-pass.pdf', type: 'application/pdf', url: '/mock/boarding-pass.pdf', uploadedAt: new Date('2024-01-15') },
-      { id: 'd2', name: 'hotel-receipt.jpg', type: 'image/jpeg', url: '/mock/hotel-receipt.jpg', uploadedAt: new Date('2024-01-15') },
-    ],
-    messages: [
-      { id: 'm1', role: 'customer', content: 'My flight was delayed by 6 hours due to mechanical problems. I had to book a hotel for the night and buy meals. I have all the receipts attached.', timestamp: new Date('2024-01-15T10:00:00') },
-      { id: 'm2', role: 'ai', content: 'Based on the claim details, this appears to be a valid travel delay claim. The policy covers delays over 4 hours with accommodation and meal expenses up to $2000. Recommend approval.', timestamp: new Date('2024-01-15T10:30:00') },
-    ],
-  },
-  {
-    id: '2',
-    claimNumber: 'CLM-2024-002',
-    customerId: 'user-456',
-    customerName: 'Sarah Smith',
-    customerEmail: 'sarah@example.com',
-    type: 'baggage',
-    status: 'approved',
-    amount: 800,
-    currency: 'USD',
-    submittedAt: new Date('2024-01-10'),
-    description: 'Checked baggage was lost during international flight. Contains personal items and electronics valued at $800.',
-    documents: [
-      { id: 'd3', name: 'baggage-claim.pdf', type: 'application/pdf', url: '/mock/baggage-claim.pdf', uploadedAt: new Date('2024-01-10') },
-    ],
-    messages: [
-      { id: 'm3', role: 'customer', content: 'My checked baggage was lost during my flight from New York to London. The airline has confirmed it is missing. I had valuable electronics and clothing inside.', timestamp: new Date('2024-01-10T14:00:00') },
-      { id: 'm4', role: 'admin', content: 'Thank you for submitting your claim. I have reviewed your documentation and approved your claim for $800. You should receive payment within 5-7 business days.', timestamp: new Date('2024-01-11T09:00:00') },
-    ],
-  },
-  {
-    id: '3',
-    claimNumber: 'CLM-2024-003',
-    customerId: 'user-789',
-    customerName: 'Michael Johnson',
-    customerEmail: 'michael@example.com',
-    type: 'medical',
-    status: 'under-review',
-    amount: 3500,
-    currency: 'USD',
-    submittedAt: new Date('2024-01-12'),
-    description: 'Required emergency medical treatment while traveling abroad. Hospitalized for 2 days with food poisoning.',
-    documents: [
-      { id: 'd4', name: 'hospital-bill.pdf', type: 'application/pdf', url: '/mock/hospital-bill.pdf', uploadedAt: new Date('2024-01-12') },
-      { id: 'd5', name: 'prescription.jpg', type: 'image/jpeg', url: '/mock/prescription.jpg', uploadedAt: new Date('2024-01-12') },
-      { id: 'd6', name: 'doctors-note.pdf', type: 'application/pdf', url: '/mock/doctors-note.pdf', uploadedAt: new Date('2024-01-12') },
-    ],
-    messages: [
-      { id: 'm5', role: 'customer', content: 'I was hospitalized in Thailand for severe food poisoning. I have attached all medical bills and prescriptions.', timestamp: new Date('2024-01-12T16:00:00') },
-      { id: 'm6', role: 'admin', content: 'Thank you for your submission. We are currently reviewing your medical documents. We may need additional information from the hospital.', timestamp: new Date('2024-01-13T10:00:00') },
-      { id: 'm7', role: 'ai', content: 'Medical claim review: Emergency treatment is covered under the policy. Recommend requesting itemized bill and verification of treatment necessity.', timestamp: new Date('2024-01-13T10:15:00') },
-    ],
-  },
-  {
-    id: '4',
-    claimNumber: 'CLM-2024-004',
-    customerId: 'user-101',
-    customerName: 'Emily Davis',
-    customerEmail: 'emily@example.com',
-    type: 'flight',
-    status: 'rejected',
-    amount: 500,
-    currency: 'USD',
-    submittedAt: new Date('2024-01-08'),
-    description: 'Missed connecting flight due to traffic. Requesting reimbursement for rebooking.',
-    documents: [
-      { id: 'd7', name: 'original-ticket.pdf', type: 'application/pdf', url: '/mock/original-ticket.pdf', uploadedAt: new Date('2024-01-08') },
-    ],
-    messages: [
-      { id: 'm8', role: 'customer', content: 'I missed my connecting flight because of heavy traffic on the way to the airport. Can I get reimbursed for the new ticket I had to buy?', timestamp: new Date('2024-01-08T11:00:00') },
-      { id: 'm9', role: 'admin', content: 'Unfortunately, our policy does not cover missed flights due to traffic or other personal delays. The policy only covers airline-caused delays. Your claim has been rejected.', timestamp: new Date('2024-01-09T09:00:00') },
-    ],
-  },
-  {
-    id: '5',
-    claimNumber: 'CLM-2024-005',
-    customerId: 'user-202',
-    customerName: 'David Wilson',
-    customerEmail: 'david@example.com',
-    type: 'travel',
-    status: 'pending',
-    amount: 2200,
-    currency: 'USD',
-    submittedAt: new Date('2024-01-14'),
-    description: 'Trip cancellation due to family emergency. Requesting refund for non-refundable hotel and flight bookings.',
-    documents: [
-      { id: 'd8', name: 'hotel-booking.pdf', type: 'application/pdf', url: '/mock/hotel-booking.pdf', uploadedAt: new Date('2024-01-14') },
-      { id: 'd9', name: 'flight-confirmation.pdf', type: 'application/pdf', url: '/mock/flight-confirmation.pdf', uploadedAt: new Date('2024-01-14') },
-    ],
-    messages: [
-      { id: 'm10', role: 'customer', content: 'I had to cancel my trip due to a family emergency (my father was hospitalized). I lost money on non-refundable bookings. I have attached all documentation.', timestamp: new Date('2024-01-14T08:00:00') },
-    ],
-  },
-]
-
-const statusConfig = {
-  pending: {
-    icon: Clock,
-    className: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20',
-    label: 'Pending',
-  },
-  approved: {
-    icon: CheckCircle,
-    className: 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20',
-    label: 'Approved',
-  },
-  rejected: {
-    icon: XCircle,
-    className: 'bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20',
-    label: 'Rejected',
-  },
-  'under-review': {
-    icon: AlertCircle,
-    className: 'bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20',
-    label: 'Under Review',
-  },
+interface RuleTrace {
+  executionLog: RuleExecutionLog[]
+  ruleErrors: RuleExecutionError[]
+  iterations?: number
+  ruleSetVersion: number | null
 }
 
 interface ClaimDetailPageProps {
-  claimId: string
+  claim: Claim | null
   profile: Profile
+  settlementTerms: SettlementTerms | null
 }
 
-export function ClaimDetailPage({ claimId, profile: _profile }: ClaimDetailPageProps) {
+export function ClaimDetailPage({ claim: initialClaim, profile: _profile, settlementTerms }: ClaimDetailPageProps) {
   const router = useRouter()
-  const [claim, setClaim] = useState<Claim | undefined>(() => {
-    console.log('Looking for claim with ID:', claimId)
-    console.log('Available claim IDs:', mockClaims.map(c => c.id))
-    const foundClaim = mockClaims.find((c) => c.id === claimId)
-    console.log('Found claim:', foundClaim)
-    return foundClaim
-  })
+  const [claim, setClaim] = useState<Claim | null>(initialClaim)
   const [chatMode, setChatMode] = useState<'claimant' | 'ai'>('claimant')
+  const [ruleTrace, setRuleTrace] = useState<RuleTrace | null>(null)
+  const [traceError, setTraceError] = useState<string | null>(null)
+  const [isExplaining, setIsExplaining] = useState(false)
+  const [pendingTransition, setPendingTransition] = useState<ClaimTransition | null>(null)
 
   if (!claim) {
     return (
@@ -210,25 +67,42 @@ export function ClaimDetailPage({ claimId, profile: _profile }: ClaimDetailPageP
     )
   }
 
-  const status = statusConfig[claim.status]
-  const StatusIcon = status.icon
+  const hasAnswers = Object.keys(claim.answers).length > 0
 
-  const handleSendMessage = (content: string, _files: File[]) => {
-    if (!claim) return
+  const handleSendMessage = async (content: string, _files: File[]) => {
+    const result = await sendClaimMessageAction(claim.id, content)
 
-    const newMessage: ClaimMessage = {
-      id: `m${Date.now()}`,
-      role: 'admin',
-      content,
-      timestamp: new Date(),
+    if (result.success && result.message) {
+      setClaim((current) => current && { ...current, messages: [...current.messages, result.message] })
+    } else {
+      console.error('Failed to send message:', result.error)
+      alert('Failed to send message. Please try again.')
     }
+  }
 
-    setClaim({ ...claim, messages: [...claim.messages, newMessage] })
+  const handleTransitioned = (status: ClaimStatus, change: ClaimStatusChange) => {
+    setClaim(
+      (current) => current && { ...current, status, statusHistory: [...current.statusHistory, change] }
+    )
   }
 
-  const handleUpdateStatus = (newStatus: Claim['status']) => {
-    if (!claim) return
-    setClaim({ ...claim, status: newStatus })
+  const handleSettlementSaved = (settlement: ClaimSettlement) => {
+    setClaim((current) => current && { ...current, settlement })
+  }
+
+  const handleExplainRules = async () => {
+    if (!hasAnswers) return
+
+    setIsExplaining(true)
+    setTraceError(null)
+    const result = await explainClaimRulesAction(claim.id)
+    setIsExplaining(false)
+
+    if (result.success && result.trace) {
+      setRuleTrace(result.trace)
+    } else {
+      setTraceError(result.error || 'Failed to explain rules')
+    }
   }
 
   return (
@@ -253,15 +127,7 @@ export function ClaimDetailPage({ claimId, profile: _profile }: ClaimDetailPageP
                   <h1 className="text-lg md:text-xl font-bold text-black dark:text-white">
                     {claim.claimNumber}
                   </h1>
-                  <span
-                    className={cn(
-                      'inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium border',
-                      status.className
-                    )}
-                  >
-                    <StatusIcon className="h-3 w-3" />
-                    {status.label}
-                  </span>
+                  <ClaimStatusBadge status={claim.status} />
                 </div>
                 <p className="text-sm text-black/60 dark:text-white/60 mt-0.5">
                   {claim.customerName} • {claim.customerEmail}
@@ -269,28 +135,12 @@ export function ClaimDetailPage({ claimId, profile: _profile }: ClaimDetailPageP
               </div>
             </div>
 
-            {/* Action Buttons */}
-            {claim.status === 'pending' && (
-              <div className="flex items-center gap-2 shrink-0">
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={() => handleUpdateStatus('rejected')}
-                  className="text-red-600 border-red-600/20 hover:bg-red-600/10"
-                >
-                  <XCircle className="h-4 w-4 mr-1.5" />
-                  Reject
-                </Button>
-                <Button
-                  size="sm"
-                  onClick={() => handleUpdateStatus('approved')}
-                  className="bg-green-600 hover:bg-green-700 text-white border-0"
-                >
-                  <CheckCircle className="h-4 w-4 mr-1.5" />
-                  Approve
-                </Button>
-              </div>
-            )}
+            {/* Workflow Actions */}
+            <ClaimTransitionButtons
+              status={claim.status}
+              onSelect={setPendingTransition}
+              className="justify-end shrink-0"
+            />
           </div>
 
           {/* Mode Switch */}
@@ -342,7 +192,7 @@ export function ClaimDetailPage({ claimId, profile: _profile }: ClaimDetailPageP
                 <div>
                   <p className="text-xs text-black/60 dark:text-white/60">Type</p>
                   <p className="text-sm font-medium text-black dark:text-white capitalize mt-0.5">
-                    {claim.type}
+                    {claim.coverageTypeName}
                   </p>
                 </div>
                 <div className="h-8 w-px bg-black/10 dark:bg-white/10" />
@@ -410,6 +260,57 @@ export function ClaimDetailPage({ claimId, profile: _profile }: ClaimDetailPageP
                 </div>
               </div>
             )}
+
+            {/* Settlement */}
+            <SettlementCalculator claim={claim} terms={settlementTerms} onSaved={handleSettlementSaved} />
+
+            {/* Status Timeline */}
+            <div>
+              <h3 className="text-sm font-semibold text-black dark:text-white mb-3">
+                Status Timeline
+              </h3>
+              <ClaimStatusTimeline history={claim.statusHistory} />
+            </div>
+
+            {/* Rules Trace */}
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold text-black dark:text-white">
+                  Rules Evaluation
+                </h3>
+                {hasAnswers && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleExplainRules}
+                    disabled={isExplaining}
+                  >
+                    <ListChecks className="h-4 w-4 mr-1.5" />
+                    {isExplaining ? 'Explaining...' : 'Explain rules'}
+                  </Button>
+                )}
+              </div>
+              {!hasAnswers ? (
+                <p className="text-sm text-black/60 dark:text-white/60">
+                  No questionnaire answers recorded for this claim
+                </p>
+              ) : traceError ? (
+                <p className="text-sm text-red-600 dark:text-red-400">{traceError}</p>
+              ) : ruleTrace ? (
+                <>
+                  <p className="text-xs text-black/60 dark:text-white/60 mb-2">
+                    {ruleTrace.ruleSetVersion !== null
+                      ? `Rule set v${ruleTrace.ruleSetVersion}`
+                      : 'Unpublished rule set'}
+                  </p>
+                  <RuleTracePanel
+                    executionLog={ruleTrace.executionLog}
+                    ruleErrors={ruleTrace.ruleErrors}
+                    iterations={ruleTrace.iterations}
+                  />
+                </>
+              ) : null}
+            </div>
           </div>
         </div>
 
@@ -418,6 +319,17 @@ export function ClaimDetailPage({ claimId, profile: _profile }: ClaimDetailPageP
           <ClaimChat messages={claim.messages} mode={chatMode} onSendMessage={handleSendMessage} />
         </div>
       </div>
+
+      {pendingTransition && (
+        <ClaimTransitionDialog
+          claim={claim}
+          transition={pendingTransition}
+          onOpenChange={(open) => {
+            if (!open) setPendingTransition(null)
+          }}
+          onTransitioned={handleTransitioned}
+        />
+      )}
     </div>
   )
 }
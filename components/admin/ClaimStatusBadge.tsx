@@ -0,0 +1,80 @@
+'use client'
+
+import {
+  AlertCircle,
+  Archive,
+  Banknote,
+  CheckCircle,
+  CircleDot,
+  Clock,
+  HelpCircle,
+  RotateCcw,
+  XCircle,
+  LucideIcon,
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { getClaimStatusDisplayName } from '@/lib/claims/workflow'
+import type { ClaimStatus } from '@/types/claims'
+
+export const claimStatusConfig: Record<ClaimStatus, { icon: LucideIcon; className: string }> = {
+  submitted: {
+    icon: Clock,
+    className: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20',
+  },
+  'under-review': {
+    icon: AlertCircle,
+    className: 'bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20',
+  },
+  'info-requested': {
+    icon: HelpCircle,
+    className: 'bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20',
+  },
+  approved: {
+    icon: CheckCircle,
+    className: 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20',
+  },
+  'partially-approved': {
+    icon: CircleDot,
+    className: 'bg-teal-500/10 text-teal-600 dark:text-teal-400 border-teal-500/20',
+  },
+  rejected: {
+    icon: XCircle,
+    className: 'bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20',
+  },
+  appealed: {
+    icon: RotateCcw,
+    className: 'bg-purple-500/10 text-purple-600 dark:text-purple-400 border-purple-500/20',
+  },
+  paid: {
+    icon: Banknote,
+    className: 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 border-emerald-500/20',
+  },
+  closed: {
+    icon: Archive,
+    className: 'bg-black/5 text-black/60 dark:bg-white/5 dark:text-white/60 border-black/10 dark:border-white/10',
+  },
+}
+
+interface ClaimStatusBadgeProps {
+  status: ClaimStatus
+  compact?: boolean // Hide the label on small screens
+  className?: string
+}
+
+export function ClaimStatusBadge({ status, compact = false, className }: ClaimStatusBadgeProps) {
+  const config = claimStatusConfig[status]
+  const StatusIcon = config.icon
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium border',
+        config.className,
+        className
+      )}
+    >
+      <StatusIcon className="h-3 w-3" />
+      <span className={cn(compact && 'hidden sm:inline')}>{getClaimStatusDisplayName(status)}</span>
+    </span>
+  )
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import { cn } from '@/lib/utils'
+import { getClaimStatusDisplayName, getClaimTransitionDisplayName } from '@/lib/claims/workflow'
+import { claimStatusConfig } from './ClaimStatusBadge'
+import type { ClaimStatusChange } from '@/types/claims'
+
+interface ClaimStatusTimelineProps {
+  history: ClaimStatusChange[] // Oldest first
+  compact?: boolean // One line per change, without reasons and notes
+}
+
+export function ClaimStatusTimeline({ history, compact = false }: ClaimStatusTimelineProps) {
+  if (history.length === 0) {
+    return <p className="text-sm text-black/60 dark:text-white/60">No status changes recorded</p>
+  }
+
+  // Most recent change first
+  const changes = [...history].reverse()
+
+  if (compact) {
+    return (
+      <ol className="space-y-1">
+        {changes.map((change) => (
+          <li key={change.id} className="flex items-center gap-2 text-xs text-black/60 dark:text-white/60">
+            <span
+              className={cn('h-2 w-2 rounded-full border shrink-0', claimStatusConfig[change.toStatus].className)}
+            />
+            <span className="truncate">
+              {getClaimStatusDisplayName(change.toStatus)}
+              {change.changedBy && ` by ${change.changedBy.name}`}
+            </span>
+            <span className="ml-auto shrink-0 text-black/40 dark:text-white/40">
+              {change.changedAt.toLocaleDateString()}
+            </span>
+          </li>
+        ))}
+      </ol>
+    )
+  }
+
+  return (
+    <ol className="relative border-l border-black/10 dark:border-white/10 ml-1.5 space-y-4">
+      {changes.map((change) => {
+        const StatusIcon = claimStatusConfig[change.toStatus].icon
+
+        return (
+          <li key={change.id} className="pl-5 relative">
+            <span
+              className={cn(
+                'absolute -left-2.5 top-0 h-5 w-5 rounded-full border flex items-center justify-center bg-white dark:bg-black',
+                claimStatusConfig[change.toStatus].className
+              )}
+            >
+              <StatusIcon className="h-3 w-3" />
+            </span>
+            <p className="text-sm font-medium text-black dark:text-white">
+              {getClaimTransitionDisplayName(change.action)}
+              {change.fromStatus && (
+                <span className="font-normal text-black/60 dark:text-white/60">
+                  {' '}
+                  · {getClaimStatusDisplayName(change.fromStatus)} → {getClaimStatusDisplayName(change.toStatus)}
+                </span>
+              )}
+            </p>
+            <p className="text-xs text-black/40 dark:text-white/40 mt-0.5">
+              {change.changedBy?.name || 'System'} · {change.changedAt.toLocaleString()}
+            </p>
+            {change.reason && (
+              <p className="text-sm text-black/80 dark:text-white/80 mt-1">{change.reason}</p>
+            )}
+            {change.notes && (
+              <p className="text-xs text-black/60 dark:text-white/60 mt-1 whitespace-pre-wrap">{change.notes}</p>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
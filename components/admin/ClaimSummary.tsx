@@ -1,33 +1,101 @@
 'use client'
 
 import { useState } from 'react'
-import { ChevronDown, ChevronUp, User, Calendar, DollarSign, FileText } from 'lucide-react'
+import { ChevronDown, ChevronUp, User, Calendar, DollarSign, FileText, ShieldCheck } from 'lucide-react'
 import { DocumentsGrid } from './DocumentsGrid'
+import { cn } from '@/lib/utils'
+import {
+  getEligibilityReasonLabel,
+  getEligibilityStatusDisplayName,
+  getEligibleAmount,
+} from '@/lib/rules/helpers'
+import type { EligibilityStatus, EligibilitySummary } from '@/types/rules'
+import type { Claim } from '@/types/claims'
 
-interface ClaimDocument {
-  id: string
-  name: string
-  type: string
-  url: string
-  uploadedAt: Date
+interface ClaimSummaryProps {
+  claim: Claim
+}
+
+const eligibilityStyles: Record<EligibilityStatus, string> = {
+  eligible: 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20',
+  partially_eligible: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20',
+  ineligible: 'bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20',
 }
 
-interface Claim {
-  id: string
-  claimNumber: string
-  customerName: string
-  customerEmail: string
-  type: 'travel' | 'medical' | 'baggage' | 'flight'
-  status: 'pending' | 'approved' | 'rejected' | 'under-review'
+function EligibilitySection({
+  eligibility,
+  amount,
+  currency,
+}: {
+  eligibility: EligibilitySummary
   amount: number
   currency: string
-  submittedAt: Date
-  description: string
-  documents: ClaimDocument[]
-}
+}) {
+  const limits = [
+    eligibility.coveragePercentage !== undefined && `${eligibility.coveragePercentage}% covered`,
+    eligibility.coverageCap !== undefined && `capped at ${currency} ${eligibility.coverageCap.toLocaleString()}`,
+  ].filter(Boolean)
 
-interface ClaimSummaryProps {
-  claim: Claim
+  return (
+    <div className="rounded-lg bg-black/2 dark:bg-white/2 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          <ShieldCheck className="h-4 w-4 text-black/60 dark:text-white/60" />
+          <span className="font-medium text-black dark:text-white">Eligibility</span>
+        </div>
+        <span
+          className={cn(
+            'px-2 py-0.5 rounded-full border text-xs font-medium',
+            eligibilityStyles[eligibility.status]
+          )}
+        >
+          {getEligibilityStatusDisplayName(eligibility.status)}
+        </span>
+      </div>
+
+      <div className="pl-6 space-y-3">
+        {eligibility.status !== 'eligible' && (
+          <div className="text-sm">
+            <span className="text-black/60 dark:text-white/60">Eligible amount: </span>
+            <span className="font-semibold text-black dark:text-white">
+              {currency} {getEligibleAmount(amount, eligibility).toLocaleString()}
+            </span>
+            {limits.length > 0 && (
+              <span className="text-black/60 dark:text-white/60"> ({limits.join(', ')})</span>
+            )}
+          </div>
+        )}
+
+        {eligibility.reasonCodes.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {eligibility.reasonCodes.map((code) => (
+              <span
+                key={code}
+                title={code}
+                className="px-2 py-0.5 rounded bg-black/5 dark:bg-white/5 text-xs font-mono text-black/80 dark:text-white/80"
+              >
+                {code}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <ul className="space-y-1.5">
+          {eligibility.decisions.map((decision, index) => (
+            <li key={`${decision.ruleId}-${index}`} className="text-xs text-black/60 dark:text-white/60">
+              <span className="font-medium text-black/80 dark:text-white/80">{decision.ruleName}</span>
+              {decision.itemIndex !== undefined && ` (item ${decision.itemIndex + 1})`}
+              {': '}
+              {getEligibilityStatusDisplayName(decision.status)}
+              {decision.reasonCodes.length > 0 &&
+                ` - ${decision.reasonCodes.map(getEligibilityReasonLabel).join(', ')}`}
+              {decision.message && <p className="mt-0.5 text-black/80 dark:text-white/80">{decision.message}</p>}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
 }
 
 export function ClaimSummary({ claim }: ClaimSummaryProps) {
@@ -61,6 +129,15 @@ export function ClaimSummary({ claim }: ClaimSummaryProps) {
             </div>
           </div>
 
+          {/* Eligibility */}
+          {claim.eligibility && (
+            <EligibilitySection
+              eligibility={claim.eligibility}
+              amount={claim.amount}
+              currency={claim.currency}
+            />
+          )}
+
           {/* Claim Details */}
           <div className="grid grid-cols-2 gap-4">
             <div>
@@ -87,7 +164,7 @@ export function ClaimSummary({ claim }: ClaimSummaryProps) {
                 <span>Type</span>
               </div>
               <p className="text-sm font-medium text-black dark:text-white capitalize">
-                {claim.type}
+                {claim.coverageTypeName}
               </p>
             </div>
           </div>
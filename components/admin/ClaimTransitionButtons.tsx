@@ -0,0 +1,47 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { getAvailableTransitions } from '@/lib/claims/workflow'
+import type { ClaimStatus, ClaimTransition } from '@/types/claims'
+
+const toneClassName: Record<ClaimTransition['tone'], string> = {
+  default: '',
+  positive: 'text-green-600 border-green-600/20 hover:bg-green-600/10',
+  negative: 'text-red-600 border-red-600/20 hover:bg-red-600/10',
+}
+
+interface ClaimTransitionButtonsProps {
+  status: ClaimStatus
+  onSelect: (transition: ClaimTransition) => void
+  className?: string
+}
+
+/**
+ * The workflow actions allowed from a claim's current status
+ */
+export function ClaimTransitionButtons({ status, onSelect, className }: ClaimTransitionButtonsProps) {
+  const transitions = getAvailableTransitions(status)
+  if (transitions.length === 0) return null
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2', className)}>
+      {transitions.map((transition) => (
+        <Button
+          key={transition.action}
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={(e) => {
+            // Cards are clickable as a whole
+            e.stopPropagation()
+            onSelect(transition)
+          }}
+          className={toneClassName[transition.tone]}
+        >
+          {transition.label}
+        </Button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { transitionClaimStatusAction } from '@/app/admin/claims/actions'
+import { getClaimStatusDisplayName } from '@/lib/claims/workflow'
+import type { ClaimStatus, ClaimStatusChange, ClaimTransition } from '@/types/claims'
+
+interface ClaimTransitionDialogProps {
+  claim: { id: string; claimNumber: string; status: ClaimStatus }
+  transition: ClaimTransition
+  onOpenChange: (open: boolean) => void
+  onTransitioned: (status: ClaimStatus, change: ClaimStatusChange) => void
+}
+
+export function ClaimTransitionDialog({
+  claim,
+  transition,
+  onOpenChange,
+  onTransitioned,
+}: ClaimTransitionDialogProps) {
+  const [reason, setReason] = useState('')
+  const [notes, setNotes] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (transition.requiresReason && !reason.trim()) {
+      setError('Please give a reason')
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+    const result = await transitionClaimStatusAction(claim.id, transition.action, { reason, notes })
+    setIsSubmitting(false)
+
+    if (result.success && result.status && result.change) {
+      onTransitioned(result.status, result.change)
+      onOpenChange(false)
+    } else {
+      setError(result.error || 'Failed to update claim status')
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>
+              {transition.label} {claim.claimNumber}
+            </DialogTitle>
+            <DialogDescription>
+              {getClaimStatusDisplayName(claim.status)} → {getClaimStatusDisplayName(transition.to)}. The
+              change is recorded in the claim&apos;s timeline.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="transition-reason">
+                Reason {transition.requiresReason && <span className="text-red-500">*</span>}
+              </Label>
+              <Input
+                id="transition-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={transition.requiresReason ? 'Why is this needed?' : 'Optional'}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transition-notes">Notes</Label>
+              <Textarea
+                id="transition-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Internal notes (optional)"
+                rows={3}
+              />
+            </div>
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : transition.label}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
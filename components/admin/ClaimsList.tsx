@@ -2,39 +2,10 @@
 
 import { Search, Inbox } from 'lucide-react'
 import { ClaimCard } from './ClaimCard'
-
-interface ClaimDocument {
-  id: string
-  name: string
-  type: string
-  url: string
-  uploadedAt: Date
-}
-
-interface ClaimMessage {
-  id: string
-  role: 'customer' | 'admin' | 'ai'
-  content: string
-  timestamp: Date
-}
-
-interface Claim {
-  id: string
-  claimNumber: string
-  customerName: string
-  customerEmail: string
-  type: 'travel' | 'medical' | 'baggage' | 'flight'
-  status: 'pending' | 'approved' | 'rejected' | 'under-review'
-  amount: number
-  currency: string
-  submittedAt: Date
-  description: string
-  documents: ClaimDocument[]
-  messages: ClaimMessage[]
-}
+import type { ClaimListItem } from '@/types/claims'
 
 interface ClaimsListProps {
-  claims: Claim[]
+  claims: ClaimListItem[]
   selectedClaimId: string | null
   onSelectClaim: (claimId: string) => void
 }
@@ -1,14 +1,7 @@
 'use client'
 
 import { FileText, Image as ImageIcon, Download, Eye } from 'lucide-react'
-
-interface ClaimDocument {
-  id: string
-  name: string
-  type: string
-  url: string
-  uploadedAt: Date
-}
+import type { ClaimDocument } from '@/types/claims'
 
 interface DocumentsGridProps {
   documents: ClaimDocument[]
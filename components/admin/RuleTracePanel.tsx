@@ -0,0 +1,184 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, CheckCircle, XCircle, AlertCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { ConditionTrace, RuleExecutionError, RuleExecutionLog } from '@/types/rules'
+
+interface RuleTracePanelProps {
+  executionLog: RuleExecutionLog[]
+  ruleErrors?: RuleExecutionError[]
+  iterations?: number
+}
+
+function formatTraceValue(value: unknown): string {
+  if (value === undefined) return '(no answer)'
+  if (value === null) return 'null'
+  if (typeof value === 'string') return `"${value}"`
+  return JSON.stringify(value)
+}
+
+function ConditionTraceNode({ trace, depth = 0 }: { trace: ConditionTrace; depth?: number }) {
+  const marker = trace.matched ? (
+    <CheckCircle className="h-3 w-3 text-green-600 dark:text-green-400 shrink-0" />
+  ) : (
+    <XCircle className="h-3 w-3 text-red-600 dark:text-red-400 shrink-0" />
+  )
+
+  if (trace.type === 'group') {
+    return (
+      <div className={cn(depth > 0 && 'pl-3 border-l border-black/10 dark:border-white/10')}>
+        <div className="flex items-center gap-1.5 text-xs font-medium text-black/70 dark:text-white/70">
+          {marker}
+          {trace.operator === 'OR' ? 'Any of' : 'All of'}
+        </div>
+        <div className="mt-1 space-y-1">
+          {trace.children.length === 0 ? (
+            <p className="text-xs text-black/40 dark:text-white/40 pl-3">(no conditions)</p>
+          ) : (
+            trace.children.map((child, index) => (
+              <ConditionTraceNode key={index} trace={child} depth={depth + 1} />
+            ))
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  if (trace.type === 'not') {
+    return (
+      <div className="pl-3 border-l border-black/10 dark:border-white/10">
+        <div className="flex items-center gap-1.5 text-xs font-medium text-black/70 dark:text-white/70">
+          {marker}
+          NOT
+        </div>
+        <div className="mt-1">
+          <ConditionTraceNode trace={trace.child} depth={depth + 1} />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-start gap-1.5 text-xs">
+      <span className="mt-0.5">{marker}</span>
+      <span className="font-mono text-black/80 dark:text-white/80 break-all">
+        {trace.aggregate ? `${trace.aggregate}(${trace.field})` : trace.field} {trace.operator}{' '}
+        {formatTraceValue(trace.expected)}
+        <span className="text-black/40 dark:text-white/40"> (actual: {formatTraceValue(trace.actual)})</span>
+      </span>
+    </div>
+  )
+}
+
+function RuleTraceRow({ log }: { log: RuleExecutionLog }) {
+  const [expanded, setExpanded] = useState(false)
+
+  return (
+    <div className="rounded-lg border border-black/10 dark:border-white/10">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 p-3 text-left hover:bg-black/2 dark:hover:bg-white/2"
+      >
+        {expanded ? (
+          <ChevronDown className="h-4 w-4 text-black/40 dark:text-white/40 shrink-0" />
+        ) : (
+          <ChevronRight className="h-4 w-4 text-black/40 dark:text-white/40 shrink-0" />
+        )}
+        <span className="flex-1 min-w-0 text-sm font-medium text-black dark:text-white truncate">
+          {log.ruleName}
+          {log.itemIndex !== undefined && (
+            <span className="text-black/40 dark:text-white/40 font-normal"> · item {log.itemIndex + 1}</span>
+          )}
+        </span>
+        <span
+          className={cn(
+            'px-2 py-0.5 rounded-full text-xs font-medium border shrink-0',
+            log.error
+              ? 'bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20'
+              : log.conditionsMet
+                ? 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20'
+                : 'bg-black/5 text-black/60 dark:bg-white/5 dark:text-white/60 border-black/10 dark:border-white/10'
+          )}
+        >
+          {log.error ? 'Error' : log.conditionsMet ? 'Matched' : 'Skipped'}
+        </span>
+        <span className="text-xs text-black/40 dark:text-white/40 shrink-0">
+          {log.executionTimeMs.toFixed(2)}ms
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="px-3 pb-3 space-y-3">
+          {log.error && (
+            <p className="text-xs text-red-600 dark:text-red-400">{log.error}</p>
+          )}
+
+          {log.conditionTrace && <ConditionTraceNode trace={log.conditionTrace} />}
+
+          {log.actionsApplied.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-black/70 dark:text-white/70 mb-1">
+                Actions fired
+              </p>
+              <ul className="space-y-0.5">
+                {log.actionsApplied.map((action, index) => (
+                  <li key={index} className="text-xs text-black/80 dark:text-white/80">
+                    {action}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Rule Trace Panel - renders an explain-mode rules evaluation
+ */
+export function RuleTracePanel({ executionLog, ruleErrors = [], iterations }: RuleTracePanelProps) {
+  if (executionLog.length === 0) {
+    return (
+      <p className="text-sm text-black/60 dark:text-white/60">
+        No active rules for this coverage type
+      </p>
+    )
+  }
+
+  const matched = executionLog.filter((log) => log.conditionsMet).length
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-black/60 dark:text-white/60">
+        {matched} of {executionLog.length} rule{executionLog.length !== 1 ? 's' : ''} matched
+        {iterations !== undefined && ` • ${iterations} pass${iterations !== 1 ? 'es' : ''}`}
+      </p>
+
+      {ruleErrors.length > 0 && (
+        <div className="space-y-1">
+          {ruleErrors.map((error, index) => (
+            <div
+              key={index}
+              className="flex items-start gap-1.5 text-xs text-red-600 dark:text-red-400"
+            >
+              <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+              <span>
+                {error.ruleName}: {error.message}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {executionLog.map((log) => (
+          <RuleTraceRow key={`${log.ruleId}:${log.itemIndex ?? ''}`} log={log} />
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,275 @@
+'use client'
+
+import { useState } from 'react'
+import { Calculator, Plus, X } from 'lucide-react'
+import { saveClaimSettlementAction } from '@/app/admin/claims/actions'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { cn } from '@/lib/utils'
+import { SETTLEMENT_STATUSES, calculateSettlement, getLineItemCoveredAmount } from '@/lib/claims/settlement'
+import type { Claim, ClaimSettlement, SettlementLineItem, SettlementTerms } from '@/types/claims'
+
+interface SettlementCalculatorProps {
+  claim: Pick<Claim, 'id' | 'amount' | 'currency' | 'status' | 'eligibility' | 'settlement'>
+  terms: SettlementTerms | null
+  onSaved: (settlement: ClaimSettlement) => void
+}
+
+const formatBasis = (basis: SettlementTerms['deductibleBasis']) =>
+  basis === 'annual' ? 'per policy year' : 'per incident'
+
+export function SettlementCalculator({ claim, terms, onSaved }: SettlementCalculatorProps) {
+  const [lineItems, setLineItems] = useState<SettlementLineItem[]>(claim.settlement?.lineItems || [])
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const isEditable = terms !== null && SETTLEMENT_STATUSES.includes(claim.status)
+  const shownTerms = terms || claim.settlement?.terms
+  const formatAmount = (amount: number) => `${claim.currency} ${amount.toLocaleString()}`
+
+  // Preview while editing; the server recalculates on save
+  const breakdown = isEditable
+    ? calculateSettlement(claim.amount, lineItems, terms, claim.eligibility)
+    : claim.settlement
+
+  const updateItem = (id: string, updates: Partial<SettlementLineItem>) => {
+    setLineItems((items) => items.map((item) => (item.id === id ? { ...item, ...updates } : item)))
+  }
+
+  const addItem = () => {
+    setLineItems((items) => [
+      ...items,
+      // The first item starts out as the whole claim
+      { id: crypto.randomUUID(), description: '', amount: items.length === 0 ? claim.amount : 0, covered: true },
+    ])
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    const result = await saveClaimSettlementAction(claim.id, lineItems)
+    setIsSaving(false)
+
+    if (result.success && result.settlement) {
+      setLineItems(result.settlement.lineItems)
+      onSaved(result.settlement)
+    } else {
+      setError(result.error || 'Failed to save settlement')
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-black dark:text-white">Settlement</h3>
+        {claim.settlement && (
+          <span className="text-xs text-black/60 dark:text-white/60">
+            Saved {new Date(claim.settlement.settledAt).toLocaleDateString()}
+          </span>
+        )}
+      </div>
+
+      {!terms && !claim.settlement ? (
+        <p className="text-sm text-black/60 dark:text-white/60">
+          Policy terms for this claim could not be loaded
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {/* Line Items */}
+          {isEditable ? (
+            <div className="space-y-2">
+              {lineItems.map((item) => (
+                <div
+                  key={item.id}
+                  className="rounded-lg border border-black/10 dark:border-white/10 p-2 space-y-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={item.description}
+                      onChange={(e) => updateItem(item.id, { description: e.target.value })}
+                      placeholder="Item"
+                      className="h-8 text-sm"
+                    />
+                    <button
+                      onClick={() => setLineItems((items) => items.filter((i) => i.id !== item.id))}
+                      className="h-8 w-8 shrink-0 rounded-md hover:bg-black/5 dark:hover:bg-white/5 flex items-center justify-center"
+                    >
+                      <X className="h-4 w-4 text-black/60 dark:text-white/60" />
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={item.amount}
+                      onChange={(e) => updateItem(item.id, { amount: Number(e.target.value) || 0 })}
+                      className="h-8 text-sm"
+                    />
+                    <label className="flex items-center gap-1.5 text-xs text-black/60 dark:text-white/60 shrink-0">
+                      <input
+                        type="checkbox"
+                        checked={item.covered}
+                        onChange={(e) => updateItem(item.id, { covered: e.target.checked })}
+                        className="h-3.5 w-3.5"
+                      />
+                      Covered
+                    </label>
+                    <label className="flex items-center gap-1.5 text-xs text-black/60 dark:text-white/60 shrink-0">
+                      <input
+                        type="checkbox"
+                        checked={!!item.override}
+                        onChange={(e) =>
+                          updateItem(item.id, {
+                            override: e.target.checked
+                              ? { amount: getLineItemCoveredAmount(item), justification: '' }
+                              : undefined,
+                          })
+                        }
+                        className="h-3.5 w-3.5"
+                      />
+                      Override
+                    </label>
+                  </div>
+                  {item.override && (
+                    <div className="space-y-2 pl-2 border-l-2 border-orange-500/40">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={item.override.amount}
+                        onChange={(e) =>
+                          updateItem(item.id, {
+                            override: { ...item.override!, amount: Number(e.target.value) || 0 },
+                          })
+                        }
+                        placeholder="Covered amount"
+                        className="h-8 text-sm"
+                      />
+                      <Input
+                        value={item.override.justification}
+                        onChange={(e) =>
+                          updateItem(item.id, {
+                            override: { ...item.override!, justification: e.target.value },
+                          })
+                        }
+                        placeholder="Justification (required)"
+                        className="h-8 text-sm"
+                      />
+                    </div>
+                  )}
+                </div>
+              ))}
+              <Button size="sm" variant="outline" onClick={addItem} className="w-full">
+                <Plus className="h-4 w-4 mr-1.5" />
+                Add line item
+              </Button>
+            </div>
+          ) : (
+            claim.settlement &&
+            claim.settlement.lineItems.length > 0 && (
+              <div className="space-y-1">
+                {claim.settlement.lineItems.map((item) => (
+                  <div key={item.id} className="text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span
+                        className={cn(
+                          'truncate text-black dark:text-white',
+                          !item.covered && !item.override && 'line-through text-black/40 dark:text-white/40'
+                        )}
+                      >
+                        {item.description}
+                      </span>
+                      <span className="shrink-0 text-black/60 dark:text-white/60">
+                        {formatAmount(getLineItemCoveredAmount(item))}
+                      </span>
+                    </div>
+                    {item.override && (
+                      <p className="text-xs text-orange-600 dark:text-orange-400">
+                        Overridden from {formatAmount(item.covered ? item.amount : 0)}: {item.override.justification}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+
+          {/* Calculation Breakdown */}
+          {breakdown ? (
+            <div className="rounded-lg bg-black/3 dark:bg-white/3 border border-black/5 dark:border-white/5 p-3 space-y-1.5">
+              {breakdown.steps.map((step, index) => (
+                <div key={index}>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-black/80 dark:text-white/80">{step.label}</span>
+                    <span className="text-black/60 dark:text-white/60">
+                      {index === 0
+                        ? formatAmount(step.total)
+                        : `${step.amount < 0 ? '−' : '+'} ${formatAmount(Math.abs(step.amount))}`}
+                    </span>
+                  </div>
+                  {step.note && <p className="text-xs text-black/40 dark:text-white/40">{step.note}</p>}
+                </div>
+              ))}
+              <div className="flex items-center justify-between pt-2 mt-1 border-t border-black/10 dark:border-white/10">
+                <span className="text-sm font-semibold text-black dark:text-white">Payable</span>
+                <span className="text-sm font-bold text-black dark:text-white">
+                  {formatAmount(breakdown.payableAmount)}
+                </span>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-black/60 dark:text-white/60">No settlement recorded</p>
+          )}
+
+          {/* Policy Terms */}
+          {shownTerms && <SettlementTermsSummary terms={shownTerms} formatAmount={formatAmount} />}
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          {isEditable && (
+            <Button size="sm" onClick={handleSave} disabled={isSaving} className="w-full">
+              <Calculator className="h-4 w-4 mr-1.5" />
+              {isSaving ? 'Saving...' : 'Save settlement'}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function SettlementTermsSummary({
+  terms,
+  formatAmount,
+}: {
+  terms: SettlementTerms
+  formatAmount: (amount: number) => string
+}) {
+  return (
+    <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+      <dt className="text-black/60 dark:text-white/60">Deductible</dt>
+      <dd className="text-black dark:text-white text-right">
+        {terms.deductible > 0
+          ? `${formatAmount(terms.deductible)} ${formatBasis(terms.deductibleBasis)}`
+          : 'None'}
+      </dd>
+      <dt className="text-black/60 dark:text-white/60">Coverage limit</dt>
+      <dd className="text-black dark:text-white text-right">
+        {terms.coverageLimit !== null
+          ? `${formatAmount(terms.coverageLimit)} ${formatBasis(terms.limitBasis)}`
+          : 'None'}
+      </dd>
+      <dt className="text-black/60 dark:text-white/60">Co-insurance</dt>
+      <dd className="text-black dark:text-white text-right">
+        {terms.coinsurancePercentage !== null ? `Insurer pays ${terms.coinsurancePercentage}%` : 'None'}
+      </dd>
+      {terms.remainingPolicyLimit !== null && (
+        <>
+          <dt className="text-black/60 dark:text-white/60">Policy limit left</dt>
+          <dd className="text-black dark:text-white text-right">{formatAmount(terms.remainingPolicyLimit)}</dd>
+        </>
+      )}
+    </dl>
+  )
+}
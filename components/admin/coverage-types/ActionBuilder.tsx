@@ -4,7 +4,6 @@ import { Plus, X } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { Textarea } from '@/components/ui/textarea'
 import {
   Select,
   SelectContent,
@@ -12,6 +11,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
+import { LocalizedMessageEditor } from './LocalizedMessageEditor'
+import { validateFormula, FORMULA_FUNCTIONS } from '@/lib/rules/formula'
+import { eligibilityReasonCodes } from '@/lib/rules/helpers'
 import type { RuleAction, ActionType } from '@/types/rules'
 
 interface ActionBuilderProps {
@@ -45,6 +47,21 @@ const actionTypes: { value: ActionType; label: string; description: string }[] =
     label: 'Calculate Value',
     description: 'Calculate field values based on formulas',
   },
+  {
+    value: 'mark_eligible',
+    label: 'Mark Eligible',
+    description: 'Record that the claim is covered',
+  },
+  {
+    value: 'mark_ineligible',
+    label: 'Mark Ineligible',
+    description: 'Record that the claim is not covered',
+  },
+  {
+    value: 'mark_partially_eligible',
+    label: 'Mark Partially Eligible',
+    description: 'Cover the claim up to an amount or percentage',
+  },
 ]
 
 export function ActionBuilder({ actions, onChange }: ActionBuilderProps) {
@@ -65,9 +82,48 @@ export function ActionBuilder({ actions, onChange }: ActionBuilderProps) {
     onChange(actions.filter((_, i) => i !== index))
   }
 
+  const renderReasonCodes = (action: RuleAction, index: number) => {
+    const codes = action.reasonCodes || []
+
+    return (
+      <div>
+        <Label className="text-xs">Reason Codes</Label>
+        <Input
+          value={codes.join(', ')}
+          onChange={(e) =>
+            updateAction(index, {
+              reasonCodes: e.target.value
+                .split(',')
+                .map((v) => v.trim().toUpperCase().replace(/\s+/g, '_')),
+            })
+          }
+          placeholder="PRE_EXISTING_CONDITION, OUTSIDE_COVERAGE_PERIOD"
+          className="font-mono"
+        />
+        <div className="flex flex-wrap gap-1 mt-2">
+          {eligibilityReasonCodes
+            .filter((reason) => !codes.includes(reason.code))
+            .map((reason) => (
+              <button
+                key={reason.code}
+                type="button"
+                onClick={() =>
+                  updateAction(index, { reasonCodes: [...codes.filter(Boolean), reason.code] })
+                }
+                className="px-2 py-0.5 rounded-full border border-black/10 dark:border-white/10 text-xs text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/5"
+              >
+                + {reason.label}
+              </button>
+            ))}
+        </div>
+      </div>
+    )
+  }
+
   const renderActionFields = (action: RuleAction, index: number) => {
     switch (action.type) {
-      case 'calculate_value':
+      case 'calculate_value': {
+        const formulaCheck = action.formula ? validateFormula(action.formula) : null
         return (
           <div className="space-y-2">
             <Label className="text-xs">Target Field</Label>
@@ -80,24 +136,35 @@ export function ActionBuilder({ actions, onChange }: ActionBuilderProps) {
             />
             <Label className="text-xs">Formula</Label>
             <Input
-              placeholder="e.g., fieldA + fieldB * 0.1"
+              placeholder="e.g., min(claim_amount - deductible, coverage_limit)"
               value={action.formula || ''}
               onChange={(e) =>
                 updateAction(index, { formula: e.target.value })
               }
+              className={formulaCheck && !formulaCheck.valid ? 'border-red-500 font-mono' : 'font-mono'}
             />
+            {formulaCheck && !formulaCheck.valid ? (
+              <p className="text-xs text-red-500">{formulaCheck.error}</p>
+            ) : (
+              <p className="text-xs text-black/60 dark:text-white/60">
+                Reference answers by question ID (use {'{id}'} for IDs with dashes) or
+                metadata.field. Supports + - * / %, comparisons, cond ? a : b and{' '}
+                {FORMULA_FUNCTIONS.join(', ')}.
+              </p>
+            )}
           </div>
         )
+      }
 
       case 'validate':
         return (
           <div className="space-y-2">
-            <Label className="text-xs">Error Message</Label>
-            <Textarea
+            <LocalizedMessageEditor
+              label="Error Message"
               value={action.errorMessage || ''}
-              onChange={(e) => updateAction(index, { errorMessage: e.target.value })}
+              translations={action.errorMessages}
+              onChange={(errorMessage, errorMessages) => updateAction(index, { errorMessage, errorMessages })}
               placeholder="e.g., Value must be between $100 and $50,000"
-              rows={2}
             />
           </div>
         )
@@ -185,47 +252,109 @@ export function ActionBuilder({ actions, onChange }: ActionBuilderProps) {
               </p>
             </div>
 
-            <div>
-              <Label className="text-xs">Error Message (optional)</Label>
-              <Textarea
-                value={action.errorMessage || ''}
-                onChange={(e) =>
-                  updateAction(index, { errorMessage: e.target.value })
-                }
-                placeholder="e.g., Please upload medical bills for claims over $1,000"
-                rows={2}
-              />
-            </div>
+            <LocalizedMessageEditor
+              label="Error Message (optional)"
+              value={action.errorMessage || ''}
+              translations={action.errorMessages}
+              onChange={(errorMessage, errorMessages) => updateAction(index, { errorMessage, errorMessages })}
+              placeholder="e.g., Please upload medical bills for claims over $1,000"
+            />
           </div>
         )
 
       case 'block_submission':
         return (
           <div className="space-y-2">
-            <Label className="text-xs">Block Message</Label>
-            <Textarea
+            <LocalizedMessageEditor
+              label="Block Message"
               value={action.errorMessage || ''}
-              onChange={(e) => updateAction(index, { errorMessage: e.target.value })}
+              translations={action.errorMessages}
+              onChange={(errorMessage, errorMessages) => updateAction(index, { errorMessage, errorMessages })}
               placeholder="e.g., Claims must be filed within 90 days of incident"
-              rows={2}
+              hint="Message shown when user tries to submit."
             />
-            <p className="text-xs text-black/60 dark:text-white/60">
-              Message shown when user tries to submit
-            </p>
           </div>
         )
 
       case 'show_warning':
         return (
           <div className="space-y-2">
-            <Label className="text-xs">Warning Message</Label>
-            <Textarea
+            <LocalizedMessageEditor
+              label="Warning Message"
               value={action.warningMessage || action.errorMessage || ''}
-              onChange={(e) =>
-                updateAction(index, { warningMessage: e.target.value })
-              }
+              translations={action.warningMessages}
+              onChange={(warningMessage, warningMessages) => updateAction(index, { warningMessage, warningMessages })}
               placeholder="e.g., Processing may take longer for international claims"
-              rows={2}
+            />
+          </div>
+        )
+
+      case 'mark_eligible':
+      case 'mark_ineligible':
+        return (
+          <div className="space-y-3">
+            {renderReasonCodes(action, index)}
+            <LocalizedMessageEditor
+              label="Reason (optional)"
+              value={action.errorMessage || ''}
+              translations={action.errorMessages}
+              onChange={(errorMessage, errorMessages) => updateAction(index, { errorMessage, errorMessages })}
+              placeholder={
+                action.type === 'mark_ineligible'
+                  ? 'e.g., Treatment relates to a condition diagnosed before the policy started'
+                  : 'e.g., Incident is within the coverage period'
+              }
+              hint="Shown to adjusters with the eligibility decision."
+            />
+          </div>
+        )
+
+      case 'mark_partially_eligible':
+        return (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="text-xs">Coverage Cap</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={action.coverageCap ?? ''}
+                  onChange={(e) =>
+                    updateAction(index, {
+                      coverageCap: e.target.value ? parseFloat(e.target.value) : undefined,
+                    })
+                  }
+                  placeholder="No cap"
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Coverage Percentage</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={action.coveragePercentage ?? ''}
+                  onChange={(e) =>
+                    updateAction(index, {
+                      coveragePercentage: e.target.value ? parseFloat(e.target.value) : undefined,
+                    })
+                  }
+                  placeholder="100"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-black/60 dark:text-white/60">
+              The percentage applies first, then the cap. When several rules limit coverage the
+              lowest cap and percentage are used.
+            </p>
+            {renderReasonCodes(action, index)}
+            <LocalizedMessageEditor
+              label="Reason (optional)"
+              value={action.errorMessage || ''}
+              translations={action.errorMessages}
+              onChange={(errorMessage, errorMessages) => updateAction(index, { errorMessage, errorMessages })}
+              placeholder="e.g., Dental treatment is covered up to {dental_limit}"
+              hint="Shown to adjusters with the eligibility decision."
             />
           </div>
         )
@@ -278,12 +407,19 @@ export function ActionBuilder({ actions, onChange }: ActionBuilderProps) {
                         // Reset action-specific fields
                         targetQuestionId: undefined,
                         errorMessage: undefined,
+                        errorMessages: undefined,
                         warningMessage: undefined,
+                        warningMessages: undefined,
                         documentTypes: undefined,
                         minFiles: undefined,
                         maxFiles: undefined,
                         maxFileSize: undefined,
                         allowedFormats: undefined,
+                        targetField: undefined,
+                        formula: undefined,
+                        reasonCodes: undefined,
+                        coverageCap: undefined,
+                        coveragePercentage: undefined,
                       })
                     }
                   >
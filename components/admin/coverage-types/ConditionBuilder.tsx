@@ -1,21 +1,44 @@
 'use client'
 
-import { Plus, X } from 'lucide-react'
+import { Plus, X, FolderPlus } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
+  SelectSeparator,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import type { RuleCondition, RuleOperator, LogicalOperator } from '@/types/rules'
+import {
+  createConditionGroup,
+  flattenConditions,
+  isConditionGroup,
+  isNotCondition,
+  isConditionReference,
+} from '@/lib/rules/conditions'
+import { validateFormula } from '@/lib/rules/formula'
+import { getCustomOperators } from '@/lib/rules/operators'
+import type {
+  RuleCondition,
+  RuleOperator,
+  LogicalOperator,
+  ConditionGroup,
+  ConditionNode,
+  ConditionReference,
+  AggregateFunction,
+  DateOperand,
+  WithinDaysValue,
+  DurationValue,
+} from '@/types/rules'
 
 interface ConditionBuilderProps {
-  conditions: RuleCondition[]
-  onChange: (conditions: RuleCondition[]) => void
+  conditions: ConditionGroup
+  onChange: (conditions: ConditionGroup) => void
 }
 
 const operators: { value: RuleOperator; label: string; valueType: string }[] = [
@@ -36,50 +59,468 @@ const operators: { value: RuleOperator; label: string; valueType: string }[] = [
   { value: 'date_before', label: 'Date Before', valueType: 'date' },
   { value: 'date_after', label: 'Date After', valueType: 'date' },
   { value: 'date_between', label: 'Date Between', valueType: 'dateRange' },
+  { value: 'within_last_n_days', label: 'Within Last N Days', valueType: 'withinDays' },
+  { value: 'business_days_between', label: 'Business Days Between', valueType: 'businessDays' },
+  { value: 'age_at_date', label: 'Age At Date', valueType: 'ageRange' },
+  { value: 'duration_greater_than', label: 'Duration Greater Than', valueType: 'duration' },
+]
+
+// Deeper nesting is allowed by the engine but gets hard to read in the builder
+const MAX_GROUP_DEPTH = 3
+
+type ValueSource = 'literal' | ConditionReference['type']
+
+const valueSources: { value: ValueSource; label: string }[] = [
+  { value: 'literal', label: 'Value' },
+  { value: 'field', label: 'Field' },
+  { value: 'metadata', label: 'Metadata' },
+  { value: 'expression', label: 'Expression' },
+]
+
+// Aggregates apply to repeatable group fields (group_id.question_id)
+const aggregates: { value: AggregateFunction | 'none'; label: string }[] = [
+  { value: 'none', label: 'Single value' },
+  { value: 'any', label: 'Any item' },
+  { value: 'all', label: 'All items' },
+  { value: 'count', label: 'Count' },
+  { value: 'sum', label: 'Sum' },
+  { value: 'min', label: 'Min' },
+  { value: 'max', label: 'Max' },
+  { value: 'avg', label: 'Average' },
 ]
 
+// Metadata the claim flow provides; other keys can still be typed in
+const METADATA_SUGGESTIONS = ['submissionDate', 'policyStartDate', 'coverageLimit', 'userAge']
+
+const createReference = (source: ConditionReference['type']): ConditionReference => {
+  switch (source) {
+    case 'field':
+      return { type: 'field', field: '' }
+    case 'metadata':
+      return { type: 'metadata', path: '' }
+    case 'expression':
+      return { type: 'expression', formula: '' }
+  }
+}
+
+const createEmptyCondition = (): RuleCondition => ({
+  field: '',
+  operator: 'equals',
+  value: '',
+})
+
 export function ConditionBuilder({
   conditions,
   onChange,
 }: ConditionBuilderProps) {
+  const conditionCount = flattenConditions(conditions).length
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-semibold">Conditions</Label>
+      </div>
+
+      {conditions.conditions.length === 0 ? (
+        <div className="text-center py-8 border border-dashed border-black/10 dark:border-white/10 rounded-lg">
+          <p className="text-sm text-black/60 dark:text-white/60 mb-3">
+            No conditions yet
+          </p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange({ ...conditions, conditions: [createEmptyCondition()] })
+            }
+          >
+            Add your first condition
+          </Button>
+        </div>
+      ) : (
+        <ConditionGroupEditor group={conditions} onChange={onChange} depth={0} />
+      )}
+
+      {conditionCount > 0 && (
+        <p className="text-xs text-black/60 dark:text-white/60">
+          {conditionCount} condition{conditionCount !== 1 ? 's' : ''} defined
+        </p>
+      )}
+    </div>
+  )
+}
+
+interface ConditionGroupEditorProps {
+  group: ConditionGroup
+  onChange: (group: ConditionGroup) => void
+  depth: number
+  negated?: boolean
+  onToggleNot?: () => void
+  onRemove?: () => void
+}
+
+function ConditionGroupEditor({
+  group,
+  onChange,
+  depth,
+  negated,
+  onToggleNot,
+  onRemove,
+}: ConditionGroupEditorProps) {
+  const updateChild = (index: number, child: ConditionNode) => {
+    onChange({
+      ...group,
+      conditions: group.conditions.map((c, i) => (i === index ? child : c)),
+    })
+  }
+
+  const removeChild = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) })
+  }
+
+  const toggleChildNot = (index: number) => {
+    const child = group.conditions[index]
+    updateChild(index, isNotCondition(child) ? child.condition : { type: 'not', condition: child })
+  }
+
   const addCondition = () => {
-    const newCondition: RuleCondition = {
-      field: '',
-      operator: 'equals',
-      value: '',
-      logicalOperator: conditions.length > 0 ? 'AND' : undefined,
-    }
-    onChange([...conditions, newCondition])
+    onChange({ ...group, conditions: [...group.conditions, createEmptyCondition()] })
   }
 
-  const updateCondition = (index: number, updates: Partial<RuleCondition>) => {
-    const newConditions = conditions.map((c, i) =>
-      i === index ? { ...c, ...updates } : c
-    )
-    onChange(newConditions)
+  const addGroup = () => {
+    const nestedOperator: LogicalOperator = group.operator === 'AND' ? 'OR' : 'AND'
+    onChange({
+      ...group,
+      conditions: [
+        ...group.conditions,
+        createConditionGroup(nestedOperator, [createEmptyCondition()]),
+      ],
+    })
   }
 
-  const removeCondition = (index: number) => {
-    const newConditions = conditions.filter((_, i) => i !== index)
-    // Remove logicalOperator from first condition if it exists
-    if (newConditions.length > 0 && newConditions[0].logicalOperator) {
-      newConditions[0] = { ...newConditions[0], logicalOperator: undefined }
+  const renderChild = (child: ConditionNode, index: number) => {
+    const isNegated = isNotCondition(child)
+    const inner = isNegated ? child.condition : child
+    const replaceInner = (node: ConditionNode) =>
+      updateChild(index, isNegated ? { type: 'not', condition: node } : node)
+
+    if (isConditionGroup(inner)) {
+      return (
+        <ConditionGroupEditor
+          group={inner}
+          onChange={replaceInner}
+          depth={depth + 1}
+          negated={isNegated}
+          onToggleNot={() => toggleChildNot(index)}
+          onRemove={() => removeChild(index)}
+        />
+      )
     }
-    onChange(newConditions)
+
+    if (isNotCondition(inner)) {
+      // Double negation - unwrap it rather than nesting NOT badges
+      return renderChild(inner.condition, index)
+    }
+
+    return (
+      <ConditionRow
+        condition={inner}
+        onChange={(updates) => replaceInner({ ...inner, ...updates })}
+        negated={isNegated}
+        onToggleNot={() => toggleChildNot(index)}
+        onRemove={() => removeChild(index)}
+      />
+    )
   }
 
+  return (
+    <div
+      className={
+        depth === 0
+          ? 'space-y-3'
+          : 'p-3 border-l-2 border-blue-500/40 bg-black/2 dark:bg-white/2 rounded-r-lg space-y-3'
+      }
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          {depth > 0 && onToggleNot && (
+            <NotToggle negated={!!negated} onToggle={onToggleNot} />
+          )}
+          <Label className="text-xs text-black/60 dark:text-white/60">Match</Label>
+          <Select
+            value={group.operator}
+            onValueChange={(value) => onChange({ ...group, operator: value as LogicalOperator })}
+          >
+            <SelectTrigger className="w-40 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="AND">All (AND)</SelectItem>
+              <SelectItem value="OR">Any (OR)</SelectItem>
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-black/60 dark:text-white/60">of the following</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={addCondition}
+            className="gap-1"
+          >
+            <Plus className="h-3 w-3" />
+            Add Condition
+          </Button>
+          {depth < MAX_GROUP_DEPTH && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={addGroup}
+              className="gap-1"
+            >
+              <FolderPlus className="h-3 w-3" />
+              Add Group
+            </Button>
+          )}
+          {onRemove && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={onRemove}
+              className="h-8 w-8 p-0 text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
+              title="Remove group"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {group.conditions.length === 0 ? (
+        <p className="text-xs text-black/60 dark:text-white/60 italic">
+          Empty group (always matches)
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {group.conditions.map((child, index) => (
+            <div key={index} className="space-y-2">
+              {index > 0 && (
+                <div className="text-xs font-semibold text-blue-600 dark:text-blue-400">
+                  {group.operator}
+                </div>
+              )}
+              {renderChild(child, index)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ConditionRowProps {
+  condition: RuleCondition
+  onChange: (updates: Partial<RuleCondition>) => void
+  negated: boolean
+  onToggleNot: () => void
+  onRemove: () => void
+}
+
+function ConditionRow({ condition, onChange, negated, onToggleNot, onRemove }: ConditionRowProps) {
+  // Validators and other registered operators are offered after the built-in ones
+  const customOperators = getCustomOperators().map((op) => ({
+    value: op.name,
+    label: op.label,
+    valueType: op.valueType,
+  }))
+
   const getValueType = (operator: RuleOperator): string => {
-    const op = operators.find((o) => o.value === operator)
+    const op = [...operators, ...customOperators].find((o) => o.value === operator)
     return op?.valueType || 'any'
   }
 
-  const renderValueInput = (condition: RuleCondition, index: number) => {
+  // Lists and ranges take literals only; single values can point elsewhere
+  const supportsReferences = ['any', 'string', 'number', 'date'].includes(
+    getValueType(condition.operator)
+  )
+  const valueSource: ValueSource = isConditionReference(condition.value)
+    ? condition.value.type
+    : 'literal'
+
+  const handleSourceChange = (source: ValueSource) => {
+    onChange({ value: source === 'literal' ? '' : createReference(source) })
+  }
+
+  const renderReferenceInput = (reference: ConditionReference) => {
+    switch (reference.type) {
+      case 'field':
+        return (
+          <Input
+            placeholder="Question ID, e.g., return_date"
+            value={reference.field}
+            onChange={(e) => onChange({ value: { ...reference, field: e.target.value } })}
+            className="font-mono"
+          />
+        )
+
+      case 'metadata':
+        return (
+          <>
+            <Input
+              list="condition-metadata-paths"
+              placeholder="e.g., policyStartDate"
+              value={reference.path}
+              onChange={(e) => onChange({ value: { ...reference, path: e.target.value } })}
+              className="font-mono"
+            />
+            <datalist id="condition-metadata-paths">
+              {METADATA_SUGGESTIONS.map((path) => (
+                <option key={path} value={path} />
+              ))}
+            </datalist>
+          </>
+        )
+
+      case 'expression': {
+        const formulaCheck = reference.formula ? validateFormula(reference.formula) : null
+        return (
+          <div>
+            <Input
+              placeholder="e.g., receipt_total * 1.1"
+              value={reference.formula}
+              onChange={(e) => onChange({ value: { ...reference, formula: e.target.value } })}
+              className={formulaCheck && !formulaCheck.valid ? 'border-red-500 font-mono' : 'font-mono'}
+            />
+            {formulaCheck && !formulaCheck.valid && (
+              <p className="text-xs text-red-500 mt-1">{formulaCheck.error}</p>
+            )}
+          </div>
+        )
+      }
+    }
+  }
+
+  const renderValueInput = () => {
     const valueType = getValueType(condition.operator)
 
     if (valueType === 'none') {
       return null
     }
 
+    if (isConditionReference(condition.value)) {
+      return renderReferenceInput(condition.value)
+    }
+
+    // Duration operators store an object; start from an empty one after an operator change
+    const spec: Record<string, unknown> =
+      typeof condition.value === 'object' && condition.value !== null && !Array.isArray(condition.value)
+        ? (condition.value as Record<string, unknown>)
+        : {}
+    const updateSpec = (updates: Record<string, unknown>) => onChange({ value: { ...spec, ...updates } })
+
+    if (valueType === 'withinDays') {
+      const within = spec as Partial<WithinDaysValue>
+      return (
+        <div className="space-y-2">
+          <Input
+            type="number"
+            min={0}
+            value={within.days ?? ''}
+            onChange={(e) => updateSpec({ days: e.target.value === '' ? undefined : Number(e.target.value) })}
+            placeholder="Days, e.g., 30"
+          />
+          <Select
+            value={within.from || 'submission_date'}
+            onValueChange={(value) => updateSpec({ from: value })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="submission_date">Before submission date</SelectItem>
+              <SelectItem value="now">Before today</SelectItem>
+              <SelectItem value="policy_start_date">Before policy start date</SelectItem>
+            </SelectContent>
+          </Select>
+          <label className="flex items-center gap-2 text-xs text-black/70 dark:text-white/70">
+            <input
+              type="checkbox"
+              checked={!!within.businessDays}
+              onChange={(e) => updateSpec({ businessDays: e.target.checked })}
+              className="h-3.5 w-3.5 rounded border-black/20 dark:border-white/20"
+            />
+            Count business days only
+          </label>
+        </div>
+      )
+    }
+
+    if (valueType === 'businessDays' || valueType === 'ageRange') {
+      const dateKey = valueType === 'ageRange' ? 'at' : 'to'
+      return (
+        <div className="space-y-2">
+          <DateOperandInput
+            label={valueType === 'ageRange' ? 'Age on' : 'Until'}
+            value={spec[dateKey] as DateOperand | undefined}
+            onChange={(operand) => updateSpec({ [dateKey]: operand })}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="number"
+              value={spec.min === undefined ? '' : String(spec.min)}
+              onChange={(e) => updateSpec({ min: e.target.value === '' ? undefined : Number(e.target.value) })}
+              placeholder="Min"
+            />
+            <Input
+              type="number"
+              value={spec.max === undefined ? '' : String(spec.max)}
+              onChange={(e) => updateSpec({ max: e.target.value === '' ? undefined : Number(e.target.value) })}
+              placeholder="Max"
+            />
+          </div>
+        </div>
+      )
+    }
+
+    if (valueType === 'duration') {
+      const duration = spec as Partial<DurationValue>
+      return (
+        <div className="space-y-2">
+          <DateOperandInput
+            label="Until"
+            value={duration.to}
+            onChange={(operand) => updateSpec({ to: operand })}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="number"
+              min={0}
+              value={duration.amount ?? ''}
+              onChange={(e) => updateSpec({ amount: e.target.value === '' ? undefined : Number(e.target.value) })}
+              placeholder="Amount"
+            />
+            <Select
+              value={duration.unit || 'days'}
+              onValueChange={(value) => updateSpec({ unit: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="days">Days</SelectItem>
+                <SelectItem value="business_days">Business days</SelectItem>
+                <SelectItem value="months">Months</SelectItem>
+                <SelectItem value="years">Years</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )
+    }
+
     if (valueType === 'range' || valueType === 'dateRange') {
       const [min, max] = Array.isArray(condition.value) ? condition.value : ['', '']
       return (
@@ -89,11 +530,7 @@ export function ConditionBuilder({
             <Input
               type={valueType === 'dateRange' ? 'date' : 'number'}
               value={min}
-              onChange={(e) =>
-                updateCondition(index, {
-                  value: [e.target.value, max],
-                })
-              }
+              onChange={(e) => onChange({ value: [e.target.value, max] })}
               placeholder="Minimum"
             />
           </div>
@@ -102,11 +539,7 @@ export function ConditionBuilder({
             <Input
               type={valueType === 'dateRange' ? 'date' : 'number'}
               value={max}
-              onChange={(e) =>
-                updateCondition(index, {
-                  value: [min, e.target.value],
-                })
-              }
+              onChange={(e) => onChange({ value: [min, e.target.value] })}
               placeholder="Maximum"
             />
           </div>
@@ -123,9 +556,7 @@ export function ConditionBuilder({
           <Input
             value={arrayValue}
             onChange={(e) =>
-              updateCondition(index, {
-                value: e.target.value.split(',').map((v) => v.trim()),
-              })
+              onChange({ value: e.target.value.split(',').map((v) => v.trim()) })
             }
             placeholder="value1, value2, value3"
           />
@@ -148,7 +579,7 @@ export function ConditionBuilder({
         type={inputType}
         value={String(condition.value || '')}
         onChange={(e) =>
-          updateCondition(index, {
+          onChange({
             value: inputType === 'number' ? Number(e.target.value) : e.target.value,
           })
         }
@@ -166,132 +597,179 @@ export function ConditionBuilder({
   }
 
   return (
-    <div className="space-y-3">
+    <div className="p-4 border border-black/10 dark:border-white/10 rounded-lg space-y-3 bg-white dark:bg-black">
       <div className="flex items-center justify-between">
-        <Label className="text-sm font-semibold">Conditions</Label>
+        <NotToggle negated={negated} onToggle={onToggleNot} />
         <Button
           type="button"
-          variant="outline"
+          variant="ghost"
           size="sm"
-          onClick={addCondition}
-          className="gap-1"
+          onClick={onRemove}
+          className="h-6 w-6 p-0 text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
         >
-          <Plus className="h-3 w-3" />
-          Add Condition
+          <X className="h-4 w-4" />
         </Button>
       </div>
 
-      {conditions.length === 0 ? (
-        <div className="text-center py-8 border border-dashed border-black/10 dark:border-white/10 rounded-lg">
-          <p className="text-sm text-black/60 dark:text-white/60 mb-3">
-            No conditions yet
-          </p>
-          <Button
-            type="button"
-            variant="outline"
-            size="sm"
-            onClick={addCondition}
-          >
-            Add your first condition
-          </Button>
-        </div>
-      ) : (
-        <div className="space-y-3">
-          {conditions.map((condition, index) => (
-            <div
-              key={index}
-              className="p-4 border border-black/10 dark:border-white/10 rounded-lg space-y-3"
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {/* Field */}
+        <div className="space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <Label className="text-xs">Field</Label>
+            <Select
+              value={condition.aggregate || 'none'}
+              onValueChange={(value) =>
+                onChange({ aggregate: value === 'none' ? undefined : (value as AggregateFunction) })
+              }
             >
-              {/* Logical Operator */}
-              {index > 0 && (
-                <div className="flex items-center gap-2">
-                  <Label className="text-xs text-black/60 dark:text-white/60">
-                    Operator
-                  </Label>
-                  <Select
-                    value={condition.logicalOperator || 'AND'}
-                    onValueChange={(value) =>
-                      updateCondition(index, {
-                        logicalOperator: value as LogicalOperator,
-                      })
-                    }
-                  >
-                    <SelectTrigger className="w-24 h-8">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="AND">AND</SelectItem>
-                      <SelectItem value="OR">OR</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+              <SelectTrigger className="h-6 w-auto gap-1 px-2 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {aggregates.map((aggregate) => (
+                  <SelectItem key={aggregate.value} value={aggregate.value}>
+                    {aggregate.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            placeholder={
+              condition.aggregate ? 'e.g., receipts.amount' : 'e.g., claim_amount, coverage_limit'
+            }
+            value={condition.field}
+            onChange={(e) => onChange({ field: e.target.value })}
+          />
+        </div>
+
+        {/* Operator */}
+        <div className="space-y-1">
+          <Label className="text-xs">Operator</Label>
+          <Select
+            value={condition.operator}
+            onValueChange={(value) =>
+              onChange({
+                operator: value as RuleOperator,
+                value: '', // Reset value when operator changes
+              })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {operators.map((op) => (
+                <SelectItem key={op.value} value={op.value}>
+                  {op.label}
+                </SelectItem>
+              ))}
+              {customOperators.length > 0 && (
+                <>
+                  <SelectSeparator />
+                  <SelectGroup>
+                    <SelectLabel>Validators</SelectLabel>
+                    {customOperators.map((op) => (
+                      <SelectItem key={op.value} value={op.value}>
+                        {op.label}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </>
               )}
+            </SelectContent>
+          </Select>
+        </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-                {/* Field */}
-                <div className="space-y-1">
-                  <Label className="text-xs">Field</Label>
-                  <Input
-                    placeholder="e.g., claim_amount, coverage_limit"
-                    value={condition.field}
-                    onChange={(e) =>
-                      updateCondition(index, { field: e.target.value })
-                    }
-                  />
-                </div>
+        {/* Value */}
+        <div className="space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <Label className="text-xs">Value</Label>
+            {supportsReferences && (
+              <Select value={valueSource} onValueChange={(value) => handleSourceChange(value as ValueSource)}>
+                <SelectTrigger className="h-6 w-auto gap-1 px-2 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {valueSources.map((source) => (
+                    <SelectItem key={source.value} value={source.value}>
+                      {source.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          {renderValueInput()}
+        </div>
+      </div>
+    </div>
+  )
+}
 
-                {/* Operator */}
-                <div className="space-y-1">
-                  <Label className="text-xs">Operator</Label>
-                  <Select
-                    value={condition.operator}
-                    onValueChange={(value) =>
-                      updateCondition(index, {
-                        operator: value as RuleOperator,
-                        value: '', // Reset value when operator changes
-                      })
-                    }
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {operators.map((op) => (
-                        <SelectItem key={op.value} value={op.value}>
-                          {op.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+/**
+ * The other end of a duration: the submission date (default), another date
+ * answer, or a fixed calendar date
+ */
+function DateOperandInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string
+  value: DateOperand | undefined
+  onChange: (value: DateOperand | undefined) => void
+}) {
+  const mode = isConditionReference(value) && value.type === 'field' ? 'field' : typeof value === 'string' ? 'date' : 'submission'
 
-                {/* Value */}
-                <div className="space-y-1">
-                  <div className="flex items-center justify-between">
-                    <Label className="text-xs">Value</Label>
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeCondition(index)}
-                      className="h-6 w-6 p-0 text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
-                  </div>
-                  {renderValueInput(condition, index)}
-                </div>
-              </div>
-            </div>
-          ))}
-        </div>
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-black/60 dark:text-white/60">{label}</span>
+        <Select
+          value={mode}
+          onValueChange={(next) =>
+            onChange(next === 'field' ? { type: 'field', field: '' } : next === 'date' ? '' : undefined)
+          }
+        >
+          <SelectTrigger className="h-6 w-auto gap-1 px-2 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="submission">Submission date</SelectItem>
+            <SelectItem value="field">Field</SelectItem>
+            <SelectItem value="date">Date</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {mode === 'field' && isConditionReference(value) && value.type === 'field' && (
+        <Input
+          placeholder="Question ID, e.g., departure_date"
+          value={value.field}
+          onChange={(e) => onChange({ type: 'field', field: e.target.value })}
+          className="font-mono"
+        />
       )}
-
-      {conditions.length > 0 && (
-        <p className="text-xs text-black/60 dark:text-white/60">
-          {conditions.length} condition{conditions.length !== 1 ? 's' : ''} defined
-        </p>
+      {mode === 'date' && (
+        <Input type="date" value={value as string} onChange={(e) => onChange(e.target.value)} />
       )}
     </div>
   )
 }
+
+function NotToggle({ negated, onToggle }: { negated: boolean; onToggle: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      title={negated ? 'Remove NOT' : 'Negate (NOT)'}
+      className={`px-2 py-0.5 rounded text-xs font-semibold border transition-colors ${
+        negated
+          ? 'bg-red-100 text-red-700 border-red-300 dark:bg-red-900/30 dark:text-red-400 dark:border-red-800'
+          : 'text-black/40 dark:text-white/40 border-black/10 dark:border-white/10 hover:text-black/70 dark:hover:text-white/70'
+      }`}
+    >
+      NOT
+    </button>
+  )
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { Edit, ArrowLeft } from 'lucide-react'
+import { Edit, ArrowLeft, Download, Upload } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { CoverageTypeDialog } from './CoverageTypeDialog'
@@ -9,12 +9,26 @@ import { RulesTab } from './RulesTab'
 import { RuleEditor } from './RuleEditor'
 import { QuestionsTab } from './QuestionsTab'
 import { QuestionEditor } from './QuestionEditor'
-import type { CoverageType, Rule, Question, QuestionInsert } from '@/types/policies'
+import { RuleTestsTab } from './RuleTestsTab'
+import { RuleTestCaseEditor } from './RuleTestCaseEditor'
+import { RuleImpactTab } from './RuleImpactTab'
+import { VersionsTab } from './VersionsTab'
+import { RuleBundleImportDialog } from './RuleBundleImportDialog'
+import { SaveRuleTemplateDialog } from './SaveRuleTemplateDialog'
+import { findBrokenTestCases, toRuleTestCase } from '@/lib/rules/test-runner'
+import { getRuleDateSettings } from '@/lib/rules/dates'
+import { ruleTemplates as builtInTemplates } from '@/lib/rules/helpers'
+import { toRuleTemplate } from '@/lib/rules/templates'
+import type { CoverageType, Rule, Question, QuestionInsert, RuleTestCaseRecord, RuleTestCaseInsert, RuleTestCaseUpdate, RuleSetVersion, RuleBundleConflictStrategy, RuleBundleImportPlan, RuleTemplateRecord, RuleTemplateInsert } from '@/types/policies'
+import type { RuleSimulationReport } from '@/types/rules'
 
 interface CoverageTypeDetailViewProps {
   coverageType: CoverageType
   rules: Rule[]
   questions: Question[]
+  testCases: RuleTestCaseRecord[]
+  ruleSetVersions: RuleSetVersion[]
+  ruleTemplates: RuleTemplateRecord[]
   onUpdateCoverageType: (data: Partial<CoverageType>) => void
   onAddRule: (data: Omit<Rule, 'id' | 'created_at' | 'updated_at'>) => void
   onUpdateRule: (id: string, data: Partial<Rule>) => void
@@ -24,12 +38,26 @@ interface CoverageTypeDetailViewProps {
   onUpdateQuestion: (id: string, data: Partial<Question>) => void
   onDeleteQuestion: (id: string) => void
   onReorderQuestions: (coverageTypeId: string, reorderedQuestions: Question[]) => void
+  onAddTestCase: (data: RuleTestCaseInsert) => void
+  onUpdateTestCase: (id: string, data: RuleTestCaseUpdate) => void
+  onDeleteTestCase: (id: string) => void
+  onPublishRuleSet: (notes: string) => void
+  onRollbackRuleSet: (versionId: string) => void
+  onExportBundle: () => void
+  onPreviewBundleImport: (bundle: unknown, strategy: RuleBundleConflictStrategy) => Promise<RuleBundleImportPlan>
+  onImportBundle: (bundle: unknown, strategy: RuleBundleConflictStrategy) => Promise<void>
+  onSaveRuleTemplate: (data: RuleTemplateInsert) => void
+  onDeleteRuleTemplate: (id: string) => void
+  onSimulateRuleImpact: (draftRules: Rule[], options: { days: number | null }) => Promise<RuleSimulationReport>
 }
 
 export function CoverageTypeDetailView({
   coverageType,
   rules,
   questions,
+  testCases,
+  ruleSetVersions,
+  ruleTemplates,
   onUpdateCoverageType,
   onAddRule,
   onUpdateRule,
@@ -39,13 +67,47 @@ export function CoverageTypeDetailView({
   onUpdateQuestion,
   onDeleteQuestion,
   onReorderQuestions,
+  onAddTestCase,
+  onUpdateTestCase,
+  onDeleteTestCase,
+  onPublishRuleSet,
+  onRollbackRuleSet,
+  onExportBundle,
+  onPreviewBundleImport,
+  onImportBundle,
+  onSaveRuleTemplate,
+  onDeleteRuleTemplate,
+  onSimulateRuleImpact,
 }: CoverageTypeDetailViewProps) {
-  const [activeTab, setActiveTab] = useState<'details' | 'rules' | 'questions'>('details')
+  const [activeTab, setActiveTab] = useState<'details' | 'rules' | 'questions' | 'tests' | 'impact' | 'versions'>('details')
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false)
   const [isRuleEditorOpen, setIsRuleEditorOpen] = useState(false)
   const [editingRule, setEditingRule] = useState<Rule | null>(null)
+  const [templateRule, setTemplateRule] = useState<Rule | null>(null)
   const [isQuestionEditorOpen, setIsQuestionEditorOpen] = useState(false)
   const [editingQuestion, setEditingQuestion] = useState<Question | null>(null)
+  const [isTestCaseEditorOpen, setIsTestCaseEditorOpen] = useState(false)
+  const [editingTestCase, setEditingTestCase] = useState<RuleTestCaseRecord | null>(null)
+
+  const groupQuestions = questions.filter((q) => q.field_type === 'group')
+  const templates = [...builtInTemplates, ...ruleTemplates.map(toRuleTemplate)]
+  const engineOptions = getRuleDateSettings(coverageType.metadata)
+
+  /**
+   * Warn before a rule change breaks test cases that currently pass.
+   * Returns false if the admin cancels the change.
+   */
+  const confirmRuleChange = (proposedRules: Rule[]): boolean => {
+    const broken = findBrokenTestCases(rules, proposedRules, testCases.map(toRuleTestCase), engineOptions)
+    if (broken.length === 0) return true
+
+    return confirm(
+      `This change breaks ${broken.length} passing test case${broken.length !== 1 ? 's' : ''}:\n` +
+        broken.map((result) => `- ${result.name}`).join('\n') +
+        '\n\nSave anyway?'
+    )
+  }
 
   const handleAddRule = () => {
     setEditingRule(null)
@@ -58,6 +120,14 @@ export function CoverageTypeDetailView({
   }
 
   const handleRuleSubmit = (data: Omit<Rule, 'id' | 'created_at' | 'updated_at'>) => {
+    const proposedRules = editingRule
+      ? rules.map((r) => (r.id === editingRule.id ? { ...r, ...data } : r))
+      : [
+          ...rules,
+          { ...data, id: 'draft', created_at: new Date().toISOString(), updated_at: new Date().toISOString() },
+        ]
+    if (!confirmRuleChange(proposedRules)) return
+
     if (editingRule) {
       onUpdateRule(editingRule.id, data)
     } else {
@@ -67,6 +137,37 @@ export function CoverageTypeDetailView({
     setEditingRule(null)
   }
 
+  const handleToggleRule = (id: string, isActive: boolean) => {
+    const proposedRules = rules.map((r) => (r.id === id ? { ...r, is_active: isActive } : r))
+    if (!confirmRuleChange(proposedRules)) return
+    onToggleRule(id, isActive)
+  }
+
+  const handleDeleteRule = (id: string) => {
+    if (!confirmRuleChange(rules.filter((r) => r.id !== id))) return
+    onDeleteRule(id)
+  }
+
+  const handleAddTestCase = () => {
+    setEditingTestCase(null)
+    setIsTestCaseEditorOpen(true)
+  }
+
+  const handleEditTestCase = (testCase: RuleTestCaseRecord) => {
+    setEditingTestCase(testCase)
+    setIsTestCaseEditorOpen(true)
+  }
+
+  const handleTestCaseSubmit = (data: Omit<RuleTestCaseInsert, 'coverage_type_id'>) => {
+    if (editingTestCase) {
+      onUpdateTestCase(editingTestCase.id, data)
+    } else {
+      onAddTestCase({ ...data, coverage_type_id: coverageType.id })
+    }
+    setIsTestCaseEditorOpen(false)
+    setEditingTestCase(null)
+  }
+
   const handleAddQuestion = () => {
     setEditingQuestion(null)
     setIsQuestionEditorOpen(true)
@@ -133,14 +234,24 @@ export function CoverageTypeDetailView({
               )}
             </div>
           </div>
-          <Button
-            variant="outline"
-            onClick={() => setIsEditDialogOpen(true)}
-            className="gap-2"
-          >
-            <Edit className="h-4 w-4" />
-            Edit Details
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={onExportBundle} className="gap-2">
+              <Download className="h-4 w-4" />
+              Export
+            </Button>
+            <Button variant="outline" onClick={() => setIsImportDialogOpen(true)} className="gap-2">
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setIsEditDialogOpen(true)}
+              className="gap-2"
+            >
+              <Edit className="h-4 w-4" />
+              Edit Details
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -178,6 +289,36 @@ export function CoverageTypeDetailView({
             >
               Questions ({questions.length})
             </button>
+            <button
+              onClick={() => setActiveTab('tests')}
+              className={`px-6 py-3 font-medium transition-colors ${
+                activeTab === 'tests'
+                  ? 'border-b-2 border-primary text-primary'
+                  : 'text-black/60 dark:text-white/60 hover:text-black dark:hover:text-white'
+              }`}
+            >
+              Tests ({testCases.length})
+            </button>
+            <button
+              onClick={() => setActiveTab('impact')}
+              className={`px-6 py-3 font-medium transition-colors ${
+                activeTab === 'impact'
+                  ? 'border-b-2 border-primary text-primary'
+                  : 'text-black/60 dark:text-white/60 hover:text-black dark:hover:text-white'
+              }`}
+            >
+              Impact
+            </button>
+            <button
+              onClick={() => setActiveTab('versions')}
+              className={`px-6 py-3 font-medium transition-colors ${
+                activeTab === 'versions'
+                  ? 'border-b-2 border-primary text-primary'
+                  : 'text-black/60 dark:text-white/60 hover:text-black dark:hover:text-white'
+              }`}
+            >
+              Versions{ruleSetVersions.length > 0 && ` (v${ruleSetVersions[0].version})`}
+            </button>
           </div>
         </div>
 
@@ -231,10 +372,13 @@ export function CoverageTypeDetailView({
             <RulesTab
               coverageTypeId={coverageType.id}
               rules={rules}
+              questions={questions}
+              timeZone={engineOptions.timeZone}
               onAddRule={handleAddRule}
               onEditRule={handleEditRule}
-              onDeleteRule={onDeleteRule}
-              onToggleRule={onToggleRule}
+              onSaveAsTemplate={setTemplateRule}
+              onDeleteRule={handleDeleteRule}
+              onToggleRule={handleToggleRule}
             />
           )}
 
@@ -248,6 +392,31 @@ export function CoverageTypeDetailView({
               onReorderQuestions={(reorderedQuestions) => onReorderQuestions(coverageType.id, reorderedQuestions)}
             />
           )}
+
+          {activeTab === 'tests' && (
+            <RuleTestsTab
+              rules={rules}
+              testCases={testCases}
+              engineOptions={engineOptions}
+              onAddTestCase={handleAddTestCase}
+              onEditTestCase={handleEditTestCase}
+              onDeleteTestCase={onDeleteTestCase}
+            />
+          )}
+
+          {activeTab === 'impact' && (
+            <RuleImpactTab rules={rules} questions={questions} onSimulate={onSimulateRuleImpact} />
+          )}
+
+          {activeTab === 'versions' && (
+            <VersionsTab
+              rules={rules}
+              questions={questions}
+              versions={ruleSetVersions}
+              onPublish={onPublishRuleSet}
+              onRollback={onRollbackRuleSet}
+            />
+          )}
         </div>
       </div>
 
@@ -269,16 +438,46 @@ export function CoverageTypeDetailView({
         onOpenChange={setIsRuleEditorOpen}
         coverageTypeId={coverageType.id}
         rule={editingRule || undefined}
+        groupQuestions={groupQuestions}
+        questions={questions}
+        templates={templates}
+        onDeleteTemplate={onDeleteRuleTemplate}
         onSubmit={handleRuleSubmit}
       />
 
+      {/* Save Rule as Template Dialog */}
+      <SaveRuleTemplateDialog
+        open={!!templateRule}
+        onOpenChange={(open) => !open && setTemplateRule(null)}
+        rule={templateRule}
+        questions={questions}
+        onSave={onSaveRuleTemplate}
+      />
+
       {/* Question Editor Dialog */}
       <QuestionEditor
         open={isQuestionEditorOpen}
         onOpenChange={setIsQuestionEditorOpen}
         question={editingQuestion || undefined}
+        groupQuestions={groupQuestions}
         onSubmit={handleQuestionSubmit}
       />
+
+      {/* Test Case Editor Dialog */}
+      <RuleTestCaseEditor
+        open={isTestCaseEditorOpen}
+        onOpenChange={setIsTestCaseEditorOpen}
+        testCase={editingTestCase || undefined}
+        onSubmit={handleTestCaseSubmit}
+      />
+
+      {/* Rule Bundle Import Dialog */}
+      <RuleBundleImportDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        onPreview={onPreviewBundleImport}
+        onImport={onImportBundle}
+      />
     </div>
   )
 }
@@ -2,6 +2,9 @@
 
 import { useState, useEffect } from 'react'
 import { X } from 'lucide-react'
+import { isValidTimeZone, getRuleDateSettings } from '@/lib/rules/dates'
+import { getSettlementSettings } from '@/lib/claims/settlement'
+import type { SettlementBasis } from '@/types/claims'
 import type { CoverageType, CoverageTypeInsert } from '@/types/policies'
 
 interface CoverageTypeDialogProps {
@@ -28,6 +31,13 @@ export function CoverageTypeDialog({
     metadata: {},
   })
 
+  // Rule date settings live in metadata (see getRuleDateSettings)
+  const [timeZone, setTimeZone] = useState('')
+  const [holidays, setHolidays] = useState('')
+  // Settlement settings live in metadata too (see getSettlementSettings)
+  const [coinsurance, setCoinsurance] = useState('')
+  const [deductibleBasis, setDeductibleBasis] = useState<SettlementBasis>('per_incident')
+  const [limitBasis, setLimitBasis] = useState<SettlementBasis>('per_incident')
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
 
@@ -43,6 +53,13 @@ export function CoverageTypeDialog({
         display_order: coverageType.display_order,
         metadata: coverageType.metadata,
       })
+      const { timeZone, holidayCalendar } = getRuleDateSettings(coverageType.metadata)
+      setTimeZone(timeZone || '')
+      setHolidays((holidayCalendar?.holidays || []).join(', '))
+      const settlement = getSettlementSettings(coverageType.metadata)
+      setCoinsurance(settlement.coinsurancePercentage?.toString() ?? '')
+      setDeductibleBasis(settlement.deductibleBasis)
+      setLimitBasis(settlement.limitBasis)
     }
   }, [coverageType])
 
@@ -75,10 +92,54 @@ export function CoverageTypeDialog({
       newErrors.slug = 'Slug must contain only lowercase letters, numbers, and hyphens'
     }
 
+    if (timeZone.trim() && !isValidTimeZone(timeZone.trim())) {
+      newErrors.timeZone = 'Unknown time zone'
+    }
+
+    if (parseHolidays(holidays).some((date) => !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+      newErrors.holidays = 'Holidays must be dates in YYYY-MM-DD format'
+    }
+
+    const coinsurancePercentage = Number(coinsurance)
+    if (coinsurance.trim() && !(coinsurancePercentage >= 0 && coinsurancePercentage <= 100)) {
+      newErrors.coinsurance = 'Co-insurance must be a percentage between 0 and 100'
+    }
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
 
+  const buildMetadata = (): Record<string, unknown> => {
+    const metadata: Record<string, unknown> = { ...formData.metadata }
+    const holidayDates = parseHolidays(holidays)
+    delete metadata.timeZone
+    delete metadata.holidayCalendar
+    delete metadata.coinsurancePercentage
+    delete metadata.deductibleBasis
+    delete metadata.limitBasis
+
+    if (timeZone.trim()) {
+      metadata.timeZone = timeZone.trim()
+    }
+    if (holidayDates.length > 0) {
+      // Keep other calendar settings (e.g. weekendDays) set outside this form
+      const existing = formData.metadata?.holidayCalendar as Record<string, unknown> | undefined
+      metadata.holidayCalendar = { ...existing, holidays: holidayDates }
+    }
+    if (coinsurance.trim()) {
+      metadata.coinsurancePercentage = Number(coinsurance)
+    }
+    // Per incident is the default, so only the annual basis is stored
+    if (deductibleBasis === 'annual') {
+      metadata.deductibleBasis = deductibleBasis
+    }
+    if (limitBasis === 'annual') {
+      metadata.limitBasis = limitBasis
+    }
+
+    return metadata
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -94,7 +155,7 @@ export function CoverageTypeDialog({
         description: formData.description || null,
         category: formData.category || null,
         icon: formData.icon || null,
-        metadata: formData.metadata || {},
+        metadata: buildMetadata(),
         is_active: formData.is_active ?? true,
         display_order: formData.display_order ?? 0,
         created_at: coverageType?.created_at || new Date().toISOString(),
@@ -237,6 +298,86 @@ export function CoverageTypeDialog({
             </p>
           </div>
 
+          {/* Rule Dates */}
+          <div>
+            <label className="block text-sm font-medium mb-1.5">Rules Time Zone</label>
+            <input
+              type="text"
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+              className="w-full px-3 py-2 border rounded-md bg-background font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+              placeholder="UTC"
+            />
+            {errors.timeZone && (
+              <p className="text-sm text-destructive mt-1">{errors.timeZone}</p>
+            )}
+            <p className="text-xs text-muted-foreground mt-1">
+              IANA time zone rule dates are evaluated in, e.g., Europe/London
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1.5">Holidays</label>
+            <textarea
+              value={holidays}
+              onChange={(e) => setHolidays(e.target.value)}
+              rows={2}
+              className="w-full px-3 py-2 border rounded-md bg-background font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary resize-none"
+              placeholder="2025-12-25, 2026-01-01"
+            />
+            {errors.holidays && (
+              <p className="text-sm text-destructive mt-1">{errors.holidays}</p>
+            )}
+            <p className="text-xs text-muted-foreground mt-1">
+              Non-working days skipped by business day rules (weekends are always skipped)
+            </p>
+          </div>
+
+          {/* Settlement */}
+          <div>
+            <label className="block text-sm font-medium mb-1.5">Co-insurance (%)</label>
+            <input
+              type="number"
+              value={coinsurance}
+              onChange={(e) => setCoinsurance(e.target.value)}
+              className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+              min="0"
+              max="100"
+              placeholder="100"
+            />
+            {errors.coinsurance && (
+              <p className="text-sm text-destructive mt-1">{errors.coinsurance}</p>
+            )}
+            <p className="text-xs text-muted-foreground mt-1">
+              Share of the claim the insurer pays after the deductible
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-1.5">Deductible Applies</label>
+              <select
+                value={deductibleBasis}
+                onChange={(e) => setDeductibleBasis(e.target.value as SettlementBasis)}
+                className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="per_incident">Per incident</option>
+                <option value="annual">Per policy year</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1.5">Coverage Limit Applies</label>
+              <select
+                value={limitBasis}
+                onChange={(e) => setLimitBasis(e.target.value as SettlementBasis)}
+                className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="per_incident">Per incident</option>
+                <option value="annual">Per policy year</option>
+              </select>
+            </div>
+          </div>
+
           {/* Active Status */}
           <div className="flex items-center gap-2">
             <input
@@ -276,3 +417,9 @@ export function CoverageTypeDialog({
     </div>
   )
 }
+
+const parseHolidays = (value: string): string[] =>
+  value
+    .split(/[\s,]+/)
+    .map((v) => v.trim())
+    .filter(Boolean)
@@ -4,7 +4,7 @@ import { useState } from 'react'
 import { Plus, Search, Filter, ArrowLeft } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { TopBar } from '../TopBar'
-import type { CoverageType, Rule, Question, QuestionInsert } from '@/types/policies'
+import type { CoverageType, Rule, Question, QuestionInsert, RuleTestCaseRecord, RuleTestCaseInsert, RuleTestCaseUpdate, RuleSetVersion, RuleBundleConflictStrategy, RuleTemplateRecord, RuleTemplateInsert } from '@/types/policies'
 import type { Profile } from '@/types/auth'
 import { CoverageTypeCard } from './CoverageTypeCard'
 import { CoverageTypeDialog } from './CoverageTypeDialog'
@@ -18,6 +18,17 @@ import {
   editRule,
   removeRule,
   toggleRule,
+  addRuleTestCase,
+  editRuleTestCase,
+  removeRuleTestCase,
+  publishRuleSet,
+  rollbackRuleSet,
+  exportRuleBundle,
+  previewRuleBundleImport,
+  importRuleBundle,
+  addRuleTemplate,
+  removeRuleTemplate,
+  simulateRuleSetImpact,
 } from '@/app/admin/coverage-types/actions'
 
 interface CoverageTypesPageProps {
@@ -25,12 +36,18 @@ interface CoverageTypesPageProps {
   initialCoverageTypes: CoverageType[]
   initialRules: Rule[]
   initialQuestions: Question[]
+  initialTestCases: RuleTestCaseRecord[]
+  initialRuleSetVersions: RuleSetVersion[]
+  initialRuleTemplates: RuleTemplateRecord[]
 }
 
-export function CoverageTypesPage({ profile, initialCoverageTypes, initialRules, initialQuestions }: CoverageTypesPageProps) {
+export function CoverageTypesPage({ profile, initialCoverageTypes, initialRules, initialQuestions, initialTestCases, initialRuleSetVersions, initialRuleTemplates }: CoverageTypesPageProps) {
   const [coverageTypes, setCoverageTypes] = useState<CoverageType[]>(initialCoverageTypes)
   const [rules, setRules] = useState<Rule[]>(initialRules)
   const [questions, setQuestions] = useState<Question[]>(initialQuestions)
+  const [testCases, setTestCases] = useState<RuleTestCaseRecord[]>(initialTestCases)
+  const [ruleSetVersions, setRuleSetVersions] = useState<RuleSetVersion[]>(initialRuleSetVersions)
+  const [ruleTemplates, setRuleTemplates] = useState<RuleTemplateRecord[]>(initialRuleTemplates)
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedCategory, setSelectedCategory] = useState<string>('all')
   const [isDialogOpen, setIsDialogOpen] = useState(false)
@@ -109,6 +126,114 @@ export function CoverageTypesPage({ profile, initialCoverageTypes, initialRules,
     }
   }
 
+  // Rule test case handlers
+  const handleAddTestCase = async (data: RuleTestCaseInsert) => {
+    try {
+      const newTestCase = await addRuleTestCase(data)
+      setTestCases([...testCases, newTestCase])
+    } catch (error) {
+      console.error('Failed to add test case:', error)
+      alert('Failed to add test case. Please try again.')
+    }
+  }
+
+  const handleUpdateTestCase = async (id: string, data: RuleTestCaseUpdate) => {
+    try {
+      const updated = await editRuleTestCase(id, data)
+      setTestCases(testCases.map((t) => (t.id === id ? updated : t)))
+    } catch (error) {
+      console.error('Failed to update test case:', error)
+      alert('Failed to update test case. Please try again.')
+    }
+  }
+
+  const handleDeleteTestCase = async (id: string) => {
+    try {
+      await removeRuleTestCase(id)
+      setTestCases(testCases.filter((t) => t.id !== id))
+    } catch (error) {
+      console.error('Failed to delete test case:', error)
+      alert('Failed to delete test case. Please try again.')
+    }
+  }
+
+  // Rule set version handlers
+  const handlePublishRuleSet = async (coverageTypeId: string, notes: string) => {
+    try {
+      const version = await publishRuleSet(coverageTypeId, notes)
+      setRuleSetVersions([version, ...ruleSetVersions])
+    } catch (error) {
+      console.error('Failed to publish rule set:', error)
+      alert('Failed to publish rule set. Please try again.')
+    }
+  }
+
+  const handleRollbackRuleSet = async (versionId: string) => {
+    try {
+      const version = await rollbackRuleSet(versionId)
+      setRuleSetVersions([version, ...ruleSetVersions])
+    } catch (error) {
+      console.error('Failed to roll back rule set:', error)
+      alert('Failed to roll back rule set. Please try again.')
+    }
+  }
+
+  // Rule bundle handlers
+  const handleExportBundle = async (coverageType: CoverageType) => {
+    try {
+      const bundle = await exportRuleBundle(coverageType.id)
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${coverageType.slug}-rules.json`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Failed to export rule bundle:', error)
+      alert('Failed to export rules. Please try again.')
+    }
+  }
+
+  const handleImportBundle = async (
+    coverageTypeId: string,
+    bundle: unknown,
+    strategy: RuleBundleConflictStrategy
+  ) => {
+    try {
+      const imported = await importRuleBundle(coverageTypeId, bundle, strategy)
+      setQuestions([
+        ...questions.filter((q) => q.coverage_type_id !== coverageTypeId),
+        ...imported.questions,
+      ])
+      setRules([...rules.filter((r) => r.coverage_type_id !== coverageTypeId), ...imported.rules])
+    } catch (error) {
+      console.error('Failed to import rule bundle:', error)
+      alert('Failed to import rules. Please try again.')
+    }
+  }
+
+  // Rule template handlers
+  const handleSaveRuleTemplate = async (data: RuleTemplateInsert) => {
+    try {
+      const template = await addRuleTemplate(data)
+      setRuleTemplates([...ruleTemplates, template].sort((a, b) => a.name.localeCompare(b.name)))
+    } catch (error) {
+      console.error('Failed to save rule template:', error)
+      alert('Failed to save template. Please try again.')
+    }
+  }
+
+  const handleDeleteRuleTemplate = async (id: string) => {
+    try {
+      await removeRuleTemplate(id)
+      setRuleTemplates(ruleTemplates.filter((t) => t.id !== id))
+    } catch (error) {
+      console.error('Failed to delete rule template:', error)
+      alert('Failed to delete template. Please try again.')
+    }
+  }
+
   // Question handlers
   const handleAddQuestion = async (data: QuestionInsert) => {
     try {
@@ -218,6 +343,12 @@ export function CoverageTypesPage({ profile, initialCoverageTypes, initialRules,
     const coverageTypeQuestions = questions.filter(
       (q) => q.coverage_type_id === selectedCoverageType.id
     ).sort((a, b) => a.order_index - b.order_index)
+    const coverageTypeTestCases = testCases.filter(
+      (t) => t.coverage_type_id === selectedCoverageType.id
+    )
+    const coverageTypeVersions = ruleSetVersions
+      .filter((v) => v.coverage_type_id === selectedCoverageType.id)
+      .sort((a, b) => b.version - a.version)
 
     return (
       <div className="flex flex-col h-screen bg-white dark:bg-black overflow-hidden">
@@ -237,6 +368,9 @@ export function CoverageTypesPage({ profile, initialCoverageTypes, initialRules,
               coverageType={selectedCoverageType}
               rules={coverageTypeRules}
               questions={coverageTypeQuestions}
+              testCases={coverageTypeTestCases}
+              ruleSetVersions={coverageTypeVersions}
+              ruleTemplates={ruleTemplates}
               onUpdateCoverageType={(data) =>
                 handleUpdateCoverageType(selectedCoverageType.id, data)
               }
@@ -248,6 +382,23 @@ export function CoverageTypesPage({ profile, initialCoverageTypes, initialRules,
               onUpdateQuestion={handleUpdateQuestion}
               onDeleteQuestion={handleDeleteQuestion}
               onReorderQuestions={handleReorderQuestions}
+              onAddTestCase={handleAddTestCase}
+              onUpdateTestCase={handleUpdateTestCase}
+              onDeleteTestCase={handleDeleteTestCase}
+              onPublishRuleSet={(notes) => handlePublishRuleSet(selectedCoverageType.id, notes)}
+              onRollbackRuleSet={handleRollbackRuleSet}
+              onExportBundle={() => handleExportBundle(selectedCoverageType)}
+              onPreviewBundleImport={(bundle, strategy) =>
+                previewRuleBundleImport(selectedCoverageType.id, bundle, strategy)
+              }
+              onImportBundle={(bundle, strategy) =>
+                handleImportBundle(selectedCoverageType.id, bundle, strategy)
+              }
+              onSaveRuleTemplate={handleSaveRuleTemplate}
+              onDeleteRuleTemplate={handleDeleteRuleTemplate}
+              onSimulateRuleImpact={(draftRules, options) =>
+                simulateRuleSetImpact(selectedCoverageType.id, draftRules, options)
+              }
             />
           </div>
         </div>
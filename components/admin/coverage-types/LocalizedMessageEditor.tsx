@@ -0,0 +1,97 @@
+'use client'
+
+import { Languages, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import type { LocalizedMessages } from '@/types/rules'
+
+interface LocalizedMessageEditorProps {
+  label: string
+  value: string
+  translations?: LocalizedMessages | null
+  onChange: (value: string, translations: LocalizedMessages | undefined) => void
+  placeholder?: string
+  hint?: string
+}
+
+// Offered in order when adding a translation
+const SUGGESTED_LOCALES = ['es', 'fr', 'de', 'hi', 'zh', 'pt', 'ar', 'ja']
+
+export function LocalizedMessageEditor({
+  label,
+  value,
+  translations,
+  onChange,
+  placeholder,
+  hint,
+}: LocalizedMessageEditorProps) {
+  const entries = Object.entries(translations || {})
+
+  const emit = (next: Array<[string, string]>) => {
+    onChange(value, next.length > 0 ? Object.fromEntries(next) : undefined)
+  }
+
+  const addTranslation = () => {
+    const used = new Set(entries.map(([locale]) => locale))
+    const locale = SUGGESTED_LOCALES.find((l) => !used.has(l)) ?? `locale-${entries.length + 1}`
+    emit([...entries, [locale, '']])
+  }
+
+  const renameLocale = (index: number, locale: string) => {
+    // Locales are keys, so a rename onto an existing one is ignored
+    if (entries.some(([existing], i) => i !== index && existing === locale)) return
+    emit(entries.map((entry, i) => (i === index ? [locale, entry[1]] : entry)))
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs">{label}</Label>
+        <Button type="button" variant="ghost" size="sm" onClick={addTranslation} className="h-7 gap-1 text-xs">
+          <Languages className="h-3 w-3" />
+          Add Translation
+        </Button>
+      </div>
+      <Textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value, translations || undefined)}
+        placeholder={placeholder}
+        rows={2}
+      />
+
+      {entries.map(([locale, message], index) => (
+        <div key={index} className="flex items-start gap-2">
+          <Input
+            value={locale}
+            onChange={(e) => renameLocale(index, e.target.value.trim())}
+            placeholder="fr-CA"
+            className="w-24 shrink-0 font-mono text-xs"
+          />
+          <Textarea
+            value={message}
+            onChange={(e) => emit(entries.map((entry, i) => (i === index ? [entry[0], e.target.value] : entry)))}
+            placeholder={`Message in ${locale || 'this language'}`}
+            rows={2}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => emit(entries.filter((_, i) => i !== index))}
+            className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <p className="text-xs text-black/60 dark:text-white/60">
+        {hint && `${hint} `}
+        Use {'{question_id}'} or {'{coverage_limit}'} to insert answers and limits. The default
+        message is shown when no translation matches the claimant&apos;s language.
+      </p>
+    </div>
+  )
+}
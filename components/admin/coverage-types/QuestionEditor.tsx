@@ -27,6 +27,7 @@ interface QuestionEditorProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   question?: Question
+  groupQuestions?: Question[] // Repeatable groups a question can belong to
   onSubmit: (data: Omit<QuestionInsert, 'coverage_type_id' | 'order_index'>) => void
 }
 
@@ -36,12 +37,14 @@ const fieldTypes: { value: FieldType; label: string; description: string }[] = [
   { value: 'date', label: 'Date', description: 'Date picker' },
   { value: 'file', label: 'File', description: 'File upload field' },
   { value: 'select', label: 'Select', description: 'Dropdown selection' },
+  { value: 'group', label: 'Repeatable Group', description: 'A set of questions answered once per item (receipts, bags, travellers)' },
 ]
 
 export function QuestionEditor({
   open,
   onOpenChange,
   question,
+  groupQuestions = [],
   onSubmit,
 }: QuestionEditorProps) {
   // Initialize state from question prop directly (state initializers only run once per mount)
@@ -53,6 +56,8 @@ export function QuestionEditor({
   const [helpText, setHelpText] = useState(question?.help_text || '')
   const [options, setOptions] = useState<string[]>(question?.options || [])
   const [newOption, setNewOption] = useState('')
+  const [parentQuestionId, setParentQuestionId] = useState(question?.parent_question_id || '')
+  const [maxItems, setMaxItems] = useState(question?.max_items?.toString() || '')
   const [errors, setErrors] = useState<Record<string, string>>({})
 
   const validate = () => {
@@ -66,6 +71,10 @@ export function QuestionEditor({
       newErrors.options = 'At least one option is required for select fields'
     }
 
+    if (fieldType === 'group' && maxItems && !(Number(maxItems) >= 1)) {
+      newErrors.maxItems = 'Max items must be at least 1'
+    }
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
@@ -103,6 +112,9 @@ export function QuestionEditor({
       placeholder: placeholder.trim() || null,
       help_text: helpText.trim() || null,
       options: fieldType === 'select' ? options : null,
+      // Groups don't nest - a group question is always top-level
+      parent_question_id: fieldType === 'group' ? null : parentQuestionId || null,
+      max_items: fieldType === 'group' && maxItems ? Number(maxItems) : null,
     })
   }
 
@@ -217,6 +229,56 @@ export function QuestionEditor({
             </div>
           )}
 
+          {fieldType === 'group' && (
+            <div className="space-y-2">
+              <Label htmlFor="max_items">Max Items</Label>
+              <Input
+                id="max_items"
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                value={maxItems}
+                onChange={(e) => setMaxItems(e.target.value)}
+                className={errors.maxItems ? 'border-red-500' : ''}
+              />
+              {errors.maxItems ? (
+                <p className="text-sm text-red-500">{errors.maxItems}</p>
+              ) : (
+                <p className="text-xs text-black/60 dark:text-white/60">
+                  Add questions to this group by choosing it as their group. Rules reference item
+                  fields as group_id.question_id.
+                </p>
+              )}
+            </div>
+          )}
+
+          {fieldType !== 'group' && groupQuestions.some((g) => g.id !== question?.id) && (
+            <div className="space-y-2">
+              <Label htmlFor="parent_question">Group</Label>
+              <Select
+                value={parentQuestionId || 'none'}
+                onValueChange={(v) => setParentQuestionId(v === 'none' ? '' : v)}
+              >
+                <SelectTrigger id="parent_question">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None (asked once)</SelectItem>
+                  {groupQuestions
+                    .filter((g) => g.id !== question?.id)
+                    .map((g) => (
+                      <SelectItem key={g.id} value={g.id}>
+                        {g.question_text}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-black/60 dark:text-white/60">
+                Questions in a group are answered once per item
+              </p>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="placeholder">Placeholder Text</Label>
             <Input
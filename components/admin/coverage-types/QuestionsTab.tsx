@@ -177,6 +177,19 @@ export function QuestionsTab({
                         {question.options.join(', ')}
                       </div>
                     )}
+                    {question.field_type === 'group' && (
+                      <div>
+                        <span className="font-medium">Items:</span>{' '}
+                        {question.max_items ? `up to ${question.max_items}` : 'unlimited'}
+                      </div>
+                    )}
+                    {question.parent_question_id && (
+                      <div>
+                        <span className="font-medium">Group:</span>{' '}
+                        {questions.find((q) => q.id === question.parent_question_id)?.question_text ||
+                          question.parent_question_id}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
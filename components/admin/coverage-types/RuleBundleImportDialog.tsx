@@ -0,0 +1,236 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { AlertCircle, AlertTriangle } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type {
+  RuleBundleConflictStrategy,
+  RuleBundleImportEntry,
+  RuleBundleImportPlan,
+} from '@/types/policies'
+
+interface RuleBundleImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onPreview: (bundle: unknown, strategy: RuleBundleConflictStrategy) => Promise<RuleBundleImportPlan>
+  onImport: (bundle: unknown, strategy: RuleBundleConflictStrategy) => Promise<void>
+}
+
+const actionStyles: Record<RuleBundleImportEntry['action'], string> = {
+  create: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  update: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+  duplicate: 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400',
+  skip: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+  unchanged: 'bg-black/5 text-black/60 dark:bg-white/5 dark:text-white/60',
+}
+
+function PlanEntries({ title, entries }: { title: string; entries: RuleBundleImportEntry[] }) {
+  if (entries.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-black/60 dark:text-white/60">
+        {title} ({entries.length})
+      </p>
+      <div className="border border-black/10 dark:border-white/10 rounded-lg divide-y divide-black/10 dark:divide-white/10">
+        {entries.map((entry) => (
+          <div key={entry.key} className="flex items-center gap-3 px-3 py-2">
+            <Badge className={actionStyles[entry.action]}>{entry.action}</Badge>
+            <span className="flex-1 min-w-0 text-sm text-black dark:text-white truncate">{entry.label}</span>
+            <span className="text-xs font-mono text-black/40 dark:text-white/40 truncate">{entry.key}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function RuleBundleImportDialog({
+  open,
+  onOpenChange,
+  onPreview,
+  onImport,
+}: RuleBundleImportDialogProps) {
+  const [bundleText, setBundleText] = useState('')
+  const [strategy, setStrategy] = useState<RuleBundleConflictStrategy>('skip')
+  const [plan, setPlan] = useState<RuleBundleImportPlan | null>(null)
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  // Start fresh each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setBundleText('')
+      setStrategy('skip')
+      setPlan(null)
+      setParseError(null)
+    }
+  }, [open])
+
+  const parseBundle = (): unknown => {
+    try {
+      setParseError(null)
+      return JSON.parse(bundleText)
+    } catch {
+      setParseError('Bundle is not valid JSON')
+      return undefined
+    }
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setBundleText(await file.text())
+    setPlan(null)
+  }
+
+  const handlePreview = async () => {
+    const bundle = parseBundle()
+    if (bundle === undefined) return
+
+    setIsWorking(true)
+    try {
+      setPlan(await onPreview(bundle, strategy))
+    } catch (error) {
+      console.error('Failed to preview import:', error)
+      setParseError('Failed to preview the import. Please try again.')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleImport = async () => {
+    const bundle = parseBundle()
+    if (bundle === undefined) return
+
+    setIsWorking(true)
+    try {
+      await onImport(bundle, strategy)
+      onOpenChange(false)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const changeCount = plan
+    ? [...plan.questions, ...plan.rules].filter((entry) => entry.action !== 'unchanged' && entry.action !== 'skip')
+        .length
+    : 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Rule Bundle</DialogTitle>
+          <DialogDescription>
+            Import questions and rules exported from another environment. Questions are matched by
+            key and rules by name; preview the changes before importing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="bundle_file">Bundle File</Label>
+            <input
+              id="bundle_file"
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="block w-full text-sm text-black/60 dark:text-white/60"
+            />
+            <Textarea
+              value={bundleText}
+              onChange={(e) => {
+                setBundleText(e.target.value)
+                setPlan(null)
+              }}
+              placeholder="...or paste the bundle JSON"
+              rows={6}
+              className={parseError ? 'border-red-500 font-mono text-xs' : 'font-mono text-xs'}
+            />
+            {parseError && <p className="text-sm text-red-500">{parseError}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>When a question or rule already exists and differs</Label>
+            <Select
+              value={strategy}
+              onValueChange={(v) => {
+                setStrategy(v as RuleBundleConflictStrategy)
+                setPlan(null)
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="skip">Skip - keep the existing one</SelectItem>
+                <SelectItem value="overwrite">Overwrite - replace it with the bundle</SelectItem>
+                <SelectItem value="duplicate">Duplicate - import a copy alongside it</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {plan && (
+            <div className="border-t border-black/10 dark:border-white/10 pt-4 space-y-4">
+              {plan.errors.length > 0 && (
+                <div className="p-3 rounded-lg bg-red-500/5 border border-red-500/20 space-y-1">
+                  {plan.errors.map((error) => (
+                    <p key={error} className="flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+                      <AlertCircle className="h-4 w-4 shrink-0 mt-0.5" />
+                      {error}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {plan.warnings.length > 0 && (
+                <div className="p-3 rounded-lg bg-yellow-500/5 border border-yellow-500/20 space-y-1">
+                  {plan.warnings.map((warning) => (
+                    <p key={warning} className="flex items-start gap-2 text-sm text-yellow-700 dark:text-yellow-400">
+                      <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                      {warning}
+                    </p>
+                  ))}
+                </div>
+              )}
+              <PlanEntries title="Questions" entries={plan.questions} />
+              <PlanEntries title="Rules" entries={plan.rules} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {plan && plan.errors.length === 0 ? (
+            <Button type="button" onClick={handleImport} disabled={isWorking || changeCount === 0}>
+              {changeCount === 0 ? 'Nothing to import' : `Import ${changeCount} change${changeCount !== 1 ? 's' : ''}`}
+            </Button>
+          ) : (
+            <Button type="button" onClick={handlePreview} disabled={isWorking || !bundleText.trim()}>
+              Preview
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { LayoutTemplate } from 'lucide-react'
 import {
   Dialog,
   DialogContent,
@@ -22,14 +23,29 @@ import {
 } from '@/components/ui/select'
 import { ConditionBuilder } from './ConditionBuilder'
 import { ActionBuilder } from './ActionBuilder'
-import type { Rule } from '@/types/policies'
-import type { RuleType, RuleCondition, RuleAction } from '@/types/rules'
+import { RuleTemplateGallery } from './RuleTemplateGallery'
+import { LocalizedMessageEditor } from './LocalizedMessageEditor'
+import { validateFormula } from '@/lib/rules/formula'
+import {
+  createConditionGroup,
+  flattenConditions,
+  normalizeConditionTree,
+  serializeConditionTree,
+  isConditionReference,
+} from '@/lib/rules/conditions'
+import { getRuleConfiguration, operatorRequiresNoValue } from '@/lib/rules/helpers'
+import type { Rule, Question } from '@/types/policies'
+import type { RuleType, RuleAction, ConditionGroup, RuleCategory, RuleTemplate, StoredRuleConditions, LocalizedMessages } from '@/types/rules'
 
 interface RuleEditorProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   coverageTypeId: string
   rule?: Rule
+  groupQuestions?: Question[] // Repeatable group questions a rule can run for each item of
+  questions?: Question[] // For filling in template question placeholders
+  templates?: RuleTemplate[]
+  onDeleteTemplate?: (id: string) => void
   onSubmit: (data: Omit<Rule, 'id' | 'created_at' | 'updated_at'>) => void
 }
 
@@ -56,22 +72,53 @@ const ruleTypes: { value: RuleType; label: string; description: string }[] = [
   },
 ]
 
+const ruleCategories: { value: RuleCategory; label: string }[] = [
+  { value: 'eligibility', label: 'Eligibility' },
+  { value: 'validation', label: 'Validation' },
+  { value: 'conditional_display', label: 'Conditional Display' },
+  { value: 'document_requirements', label: 'Document Requirements' },
+  { value: 'calculation', label: 'Calculation' },
+  { value: 'custom', label: 'Custom' },
+]
+
+const parseList = (value: string): string[] =>
+  value
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean)
+
 export function RuleEditor({
   open,
   onOpenChange,
   coverageTypeId,
   rule,
+  groupQuestions = [],
+  questions = [],
+  templates = [],
+  onDeleteTemplate,
   onSubmit,
 }: RuleEditorProps) {
   const isEdit = !!rule
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false)
 
   const [name, setName] = useState('')
   const [description, setDescription] = useState('')
   const [ruleType, setRuleType] = useState<RuleType>('conditional')
-  const [conditions, setConditions] = useState<RuleCondition[]>([])
+  const [questionId, setQuestionId] = useState('')
+  const [conditions, setConditions] = useState<ConditionGroup>(() => createConditionGroup())
   const [actions, setActions] = useState<RuleAction[]>([])
   const [priority, setPriority] = useState(10)
   const [isActive, setIsActive] = useState(true)
+  const [category, setCategory] = useState<RuleCategory | 'default'>('default')
+  const [tags, setTags] = useState('')
+  const [effectiveFrom, setEffectiveFrom] = useState('')
+  const [effectiveUntil, setEffectiveUntil] = useState('')
+  const [userTypes, setUserTypes] = useState('')
+  const [scopedQuestionIds, setScopedQuestionIds] = useState('')
+  const [scopedCoverageTypes, setScopedCoverageTypes] = useState('')
+  const [forEach, setForEach] = useState('')
+  const [errorMessage, setErrorMessage] = useState('')
+  const [errorMessages, setErrorMessages] = useState<LocalizedMessages | undefined>()
   const [errors, setErrors] = useState<Record<string, string>>({})
 
   // Initialize form from rule prop
@@ -81,10 +128,22 @@ export function RuleEditor({
       setName(rule.name)
       setDescription(rule.description || '')
       setRuleType(rule.rule_type)
-      setConditions((rule.conditions as RuleCondition[]) || [])
+      setQuestionId(rule.question_id || '')
+      setConditions(normalizeConditionTree(rule.conditions))
       setActions((rule.actions as RuleAction[]) || [])
       setPriority(rule.priority || 10)
       setIsActive(rule.is_active ?? true)
+      const { appliesTo } = getRuleConfiguration(rule)
+      setCategory((rule.category as RuleCategory) || 'default')
+      setTags((rule.tags || []).join(', '))
+      setEffectiveFrom(rule.effective_from?.slice(0, 10) || '')
+      setEffectiveUntil(rule.effective_until?.slice(0, 10) || '')
+      setUserTypes((appliesTo?.userTypes || []).join(', '))
+      setScopedQuestionIds((appliesTo?.questionIds || []).join(', '))
+      setScopedCoverageTypes((appliesTo?.coverageTypes || []).join(', '))
+      setForEach(rule.for_each || '')
+      setErrorMessage(rule.error_message || '')
+      setErrorMessages(rule.error_messages || undefined)
       /* eslint-enable react-hooks/set-state-in-effect */
     } else {
       /* eslint-disable react-hooks/set-state-in-effect */
@@ -92,16 +151,39 @@ export function RuleEditor({
       setName('')
       setDescription('')
       setRuleType('conditional')
-      setConditions([])
+      setQuestionId('')
+      setConditions(createConditionGroup())
       setActions([])
       setPriority(10)
       setIsActive(true)
+      setCategory('default')
+      setTags('')
+      setEffectiveFrom('')
+      setEffectiveUntil('')
+      setUserTypes('')
+      setScopedQuestionIds('')
+      setScopedCoverageTypes('')
+      setForEach('')
+      setErrorMessage('')
+      setErrorMessages(undefined)
       /* eslint-enable react-hooks/set-state-in-effect */
     }
     /* eslint-disable-next-line react-hooks/set-state-in-effect */
     setErrors({})
   }, [rule, open])
 
+  const handleApplyTemplate = (
+    template: RuleTemplate,
+    result: { conditions: StoredRuleConditions; actions: RuleAction[] }
+  ) => {
+    if (!name.trim()) setName(template.name)
+    if (!description.trim()) setDescription(template.description)
+    setRuleType(template.ruleType)
+    setConditions(normalizeConditionTree(result.conditions))
+    setActions(result.actions)
+    setErrors({})
+  }
+
   const validate = (): boolean => {
     const newErrors: Record<string, string> = {}
 
@@ -109,7 +191,9 @@ export function RuleEditor({
       newErrors.name = 'Rule name is required'
     }
 
-    if (conditions.length === 0) {
+    const leafConditions = flattenConditions(conditions)
+
+    if (leafConditions.length === 0) {
       newErrors.conditions = 'At least one condition is required'
     }
 
@@ -117,18 +201,50 @@ export function RuleEditor({
       newErrors.actions = 'At least one action is required'
     }
 
+    if (effectiveFrom && effectiveUntil && effectiveUntil < effectiveFrom) {
+      newErrors.effectiveUntil = 'Effective until must be on or after effective from'
+    }
+
     // Validate that all conditions have required fields
-    conditions.forEach((condition, index) => {
+    leafConditions.forEach((condition, index) => {
       if (!condition.field) {
         newErrors[`condition_${index}_field`] = 'Field is required'
       }
       if (
-        condition.operator !== 'is_empty' &&
-        condition.operator !== 'is_not_empty' &&
+        !operatorRequiresNoValue(condition.operator) &&
         (condition.value === '' || condition.value === null || condition.value === undefined)
       ) {
         newErrors[`condition_${index}_value`] = 'Value is required'
       }
+      const spec = (condition.value || {}) as Record<string, unknown>
+      if (
+        (condition.operator === 'business_days_between' || condition.operator === 'age_at_date') &&
+        spec.min === undefined &&
+        spec.max === undefined
+      ) {
+        newErrors[`condition_${index}_value`] = 'Set a minimum or maximum'
+      }
+      if (condition.operator === 'within_last_n_days' && typeof condition.value === 'object' && spec.days === undefined) {
+        newErrors[`condition_${index}_value`] = 'Number of days is required'
+      }
+      if (condition.operator === 'duration_greater_than' && spec.amount === undefined) {
+        newErrors[`condition_${index}_value`] = 'Duration amount is required'
+      }
+      if (isConditionReference(condition.value)) {
+        const reference = condition.value
+        if (reference.type === 'field' && !reference.field.trim()) {
+          newErrors[`condition_${index}_value`] = 'Referenced field is required'
+        }
+        if (reference.type === 'metadata' && !reference.path.trim()) {
+          newErrors[`condition_${index}_value`] = 'Metadata path is required'
+        }
+        if (reference.type === 'expression') {
+          const formulaCheck = validateFormula(reference.formula)
+          if (!formulaCheck.valid) {
+            newErrors[`condition_${index}_value`] = formulaCheck.error || 'Invalid expression'
+          }
+        }
+      }
     })
 
     // Validate that all actions have required fields
@@ -149,6 +265,31 @@ export function RuleEditor({
       if (action.type === 'require_document' && (!action.documentTypes || action.documentTypes.length === 0)) {
         newErrors[`action_${index}_documents`] = 'At least one document type is required'
       }
+      if (action.type === 'calculate_value') {
+        if (!action.targetField) {
+          newErrors[`action_${index}_target`] = 'Target field is required'
+        }
+        const formulaCheck = validateFormula(action.formula || '')
+        if (!formulaCheck.valid) {
+          newErrors[`action_${index}_formula`] = formulaCheck.error || 'Invalid formula'
+        }
+      }
+      if (
+        (action.type === 'mark_ineligible' || action.type === 'mark_partially_eligible') &&
+        !action.reasonCodes?.some(Boolean)
+      ) {
+        newErrors[`action_${index}_reasons`] = 'At least one reason code is required'
+      }
+      if (action.type === 'mark_partially_eligible') {
+        if (action.coverageCap === undefined && action.coveragePercentage === undefined) {
+          newErrors[`action_${index}_coverage`] = 'A coverage cap or percentage is required'
+        } else if (
+          action.coveragePercentage !== undefined &&
+          (action.coveragePercentage < 0 || action.coveragePercentage > 100)
+        ) {
+          newErrors[`action_${index}_coverage`] = 'Coverage percentage must be between 0 and 100'
+        }
+      }
     })
 
     setErrors(newErrors)
@@ -164,14 +305,26 @@ export function RuleEditor({
 
     onSubmit({
       coverage_type_id: coverageTypeId,
+      question_id: questionId || null,
       rule_type: ruleType,
       name: name.trim(),
       description: description.trim() || null,
-      conditions,
+      conditions: serializeConditionTree(conditions),
       actions,
       priority,
       is_active: isActive,
-      error_message: null,
+      error_message: errorMessage.trim() || null,
+      error_messages: errorMessages || null,
+      category: category === 'default' ? null : category,
+      tags: parseList(tags),
+      effective_from: effectiveFrom || null,
+      effective_until: effectiveUntil || null,
+      applies_to: {
+        ...(parseList(scopedCoverageTypes).length > 0 && { coverageTypes: parseList(scopedCoverageTypes) }),
+        ...(parseList(scopedQuestionIds).length > 0 && { questionIds: parseList(scopedQuestionIds) }),
+        ...(parseList(userTypes).length > 0 && { userTypes: parseList(userTypes) }),
+      },
+      for_each: forEach || null,
     })
 
     onOpenChange(false)
@@ -187,6 +340,14 @@ export function RuleEditor({
               ? 'Update the rule details below.'
               : 'Create a new rule to control questionnaire behavior.'}
           </DialogDescription>
+          {!isEdit && templates.length > 0 && (
+            <div>
+              <Button type="button" variant="outline" size="sm" onClick={() => setIsGalleryOpen(true)} className="gap-2">
+                <LayoutTemplate className="h-4 w-4" />
+                Start from Template
+              </Button>
+            </div>
+          )}
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-6">
@@ -242,6 +403,26 @@ export function RuleEditor({
                   </SelectContent>
                 </Select>
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="question_id">Linked Question</Label>
+                <Select value={questionId || 'none'} onValueChange={(v) => setQuestionId(v === 'none' ? '' : v)}>
+                  <SelectTrigger id="question_id">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None (form-level)</SelectItem>
+                    {questions.map((q) => (
+                      <SelectItem key={q.id} value={q.id}>
+                        {q.question_text}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-black/60 dark:text-white/60">
+                  Errors and warnings of this rule are shown on this question
+                </p>
+              </div>
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -277,6 +458,127 @@ export function RuleEditor({
             </div>
           </div>
 
+          {/* Scheduling & Scope */}
+          <div className="border-t border-black/10 dark:border-white/10 pt-6 space-y-4">
+            <div>
+              <Label className="text-sm font-semibold">Scheduling & Scope</Label>
+              <p className="text-xs text-black/60 dark:text-white/60 mt-1">
+                Dates are compared against the claim submission date. Leave blank to always apply.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="category">Category</Label>
+                <Select
+                  value={category}
+                  onValueChange={(v) => setCategory(v as RuleCategory | 'default')}
+                >
+                  <SelectTrigger id="category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Same as rule type</SelectItem>
+                    {ruleCategories.map((c) => (
+                      <SelectItem key={c.value} value={c.value}>
+                        {c.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tags">Tags</Label>
+                <Input
+                  id="tags"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  placeholder="e.g., regulatory, 2025-update"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="effective_from">Effective From</Label>
+                <Input
+                  id="effective_from"
+                  type="date"
+                  value={effectiveFrom}
+                  onChange={(e) => setEffectiveFrom(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="effective_until">Effective Until</Label>
+                <Input
+                  id="effective_until"
+                  type="date"
+                  value={effectiveUntil}
+                  onChange={(e) => setEffectiveUntil(e.target.value)}
+                  className={errors.effectiveUntil ? 'border-red-500' : ''}
+                />
+                {errors.effectiveUntil && (
+                  <p className="text-sm text-red-500">{errors.effectiveUntil}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="user_types">User Types</Label>
+                <Input
+                  id="user_types"
+                  value={userTypes}
+                  onChange={(e) => setUserTypes(e.target.value)}
+                  placeholder="e.g., individual, business"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="scoped_questions">Question IDs</Label>
+                <Input
+                  id="scoped_questions"
+                  value={scopedQuestionIds}
+                  onChange={(e) => setScopedQuestionIds(e.target.value)}
+                  placeholder="Only when answered"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="scoped_coverage_types">Coverage Type IDs</Label>
+                <Input
+                  id="scoped_coverage_types"
+                  value={scopedCoverageTypes}
+                  onChange={(e) => setScopedCoverageTypes(e.target.value)}
+                  placeholder="Any"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-black/60 dark:text-white/60">
+              Comma-separated. Rules scoped to user types only apply when the user type is known.
+            </p>
+
+            {groupQuestions.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="for_each">Repeat For Each Item Of</Label>
+                <Select value={forEach || 'none'} onValueChange={(v) => setForEach(v === 'none' ? '' : v)}>
+                  <SelectTrigger id="for_each">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Evaluate once per claim</SelectItem>
+                    {groupQuestions.map((q) => (
+                      <SelectItem key={q.id} value={q.id}>
+                        {q.question_text}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-black/60 dark:text-white/60">
+                  Conditions read the current item&apos;s fields as group.field, and errors name the item number.
+                </p>
+              </div>
+            )}
+          </div>
+
           {/* Conditions */}
           <div className="border-t border-black/10 dark:border-white/10 pt-6">
             <ConditionBuilder
@@ -299,6 +601,21 @@ export function RuleEditor({
             )}
           </div>
 
+          {/* Fallback Message */}
+          <div className="border-t border-black/10 dark:border-white/10 pt-6">
+            <LocalizedMessageEditor
+              label="Fallback Error Message"
+              value={errorMessage}
+              translations={errorMessages}
+              onChange={(value, translations) => {
+                setErrorMessage(value)
+                setErrorMessages(translations)
+              }}
+              placeholder="e.g., This claim does not meet the policy requirements"
+              hint="Used by validate and block actions that have no message of their own."
+            />
+          </div>
+
           <DialogFooter>
             <Button
               type="button"
@@ -310,6 +627,15 @@ export function RuleEditor({
             <Button type="submit">{isEdit ? 'Update' : 'Create'} Rule</Button>
           </DialogFooter>
         </form>
+
+        <RuleTemplateGallery
+          open={isGalleryOpen}
+          onOpenChange={setIsGalleryOpen}
+          templates={templates}
+          questions={questions}
+          onApply={handleApplyTemplate}
+          onDeleteTemplate={onDeleteTemplate}
+        />
       </DialogContent>
     </Dialog>
   )
@@ -0,0 +1,299 @@
+'use client'
+
+import { useState } from 'react'
+import { Play, ChevronDown, ChevronRight, AlertCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { Rule, Question } from '@/types/policies'
+import type {
+  DocumentRequirement,
+  RuleClaimImpact,
+  RuleSimulationOutcome,
+  RuleSimulationReport,
+} from '@/types/rules'
+
+interface RuleImpactTabProps {
+  rules: Rule[]
+  questions: Question[]
+  onSimulate: (draftRules: Rule[], options: { days: number | null }) => Promise<RuleSimulationReport>
+}
+
+const outcomeStyles: Record<RuleSimulationOutcome, string> = {
+  passed: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  failed: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+  blocked: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+}
+
+function ChangeList({ title, items, className }: { title: string; items: string[]; className: string }) {
+  if (items.length === 0) return null
+
+  return (
+    <div className="text-xs">
+      <span className="font-medium text-black/80 dark:text-white/80">{title}:</span>
+      <ul className={`mt-1 ml-4 list-disc space-y-0.5 ${className}`}>
+        {items.map((item) => (
+          <li key={item}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function ClaimImpactRow({
+  impact,
+  rules,
+  formatDocument,
+}: {
+  impact: RuleClaimImpact
+  rules: Rule[]
+  formatDocument: (requirement: DocumentRequirement) => string
+}) {
+  const [expanded, setExpanded] = useState(false)
+  const triggeredRules = impact.triggeredRuleIds
+    .map((id) => rules.find((r) => r.id === id)?.name)
+    .filter((name): name is string => !!name)
+
+  return (
+    <div className="border border-black/10 dark:border-white/10 rounded-lg bg-white dark:bg-black">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-3 px-4 py-3 text-left"
+      >
+        {expanded ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+        <span className="font-mono text-sm text-black dark:text-white">{impact.claimNumber}</span>
+        <span className="text-xs text-black/40 dark:text-white/40">
+          {new Date(impact.submittedAt).toLocaleDateString()}
+        </span>
+        <div className="flex-1" />
+        {impact.error ? (
+          <Badge variant="outline" className="text-red-600 dark:text-red-400">Evaluation failed</Badge>
+        ) : (
+          <div className="flex items-center gap-1 text-xs">
+            <Badge className={outcomeStyles[impact.before]}>{impact.before}</Badge>
+            <span className="text-black/40 dark:text-white/40">→</span>
+            <Badge className={outcomeStyles[impact.after]}>{impact.after}</Badge>
+          </div>
+        )}
+      </button>
+
+      {expanded && (
+        <div className="border-t border-black/10 dark:border-white/10 px-4 py-3 space-y-2">
+          {impact.error && <p className="text-xs text-red-600 dark:text-red-400">{impact.error}</p>}
+          {impact.blockReason && (
+            <p className="text-xs text-red-600 dark:text-red-400">Blocked: {impact.blockReason}</p>
+          )}
+          <ChangeList title="New errors" items={impact.newErrors} className="text-red-600 dark:text-red-400" />
+          <ChangeList title="Resolved errors" items={impact.resolvedErrors} className="text-green-600 dark:text-green-400" />
+          <ChangeList title="New warnings" items={impact.newWarnings} className="text-orange-600 dark:text-orange-400" />
+          <ChangeList title="Resolved warnings" items={impact.resolvedWarnings} className="text-green-600 dark:text-green-400" />
+          <ChangeList
+            title="Newly required documents"
+            items={impact.addedDocuments.map(formatDocument)}
+            className="text-orange-600 dark:text-orange-400"
+          />
+          <ChangeList
+            title="No longer required documents"
+            items={impact.removedDocuments.map(formatDocument)}
+            className="text-green-600 dark:text-green-400"
+          />
+          {triggeredRules.length > 0 && (
+            <p className="text-xs text-black/60 dark:text-white/60">
+              Triggered changed rules: {triggeredRules.join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function RuleImpactTab({ rules, questions, onSimulate }: RuleImpactTabProps) {
+  const [includedIds, setIncludedIds] = useState<Set<string>>(
+    () => new Set(rules.filter((r) => r.is_active).map((r) => r.id))
+  )
+  const [days, setDays] = useState('90')
+  const [report, setReport] = useState<RuleSimulationReport | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggleRule = (id: string) => {
+    const next = new Set(includedIds)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setIncludedIds(next)
+  }
+
+  const formatDocument = (requirement: DocumentRequirement): string => {
+    const question = questions.find((q) => q.id === requirement.questionId)
+    const types = requirement.documentTypes.join(', ') || 'documents'
+    return question ? `${types} (${question.question_text})` : types
+  }
+
+  const handleSimulate = async () => {
+    // The draft is the live rules with the chosen rules switched on
+    const draftRules = rules.map((rule) => ({ ...rule, is_active: includedIds.has(rule.id) }))
+
+    setIsRunning(true)
+    setError(null)
+    try {
+      setReport(await onSimulate(draftRules, { days: days === 'all' ? null : Number(days) }))
+    } catch (err) {
+      console.error('Failed to simulate rule impact:', err)
+      setError('Failed to run the simulation. Please try again.')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const stats = report
+    ? [
+        { label: 'Claims Replayed', value: report.total, className: '' },
+        { label: 'Newly Blocked', value: report.newlyBlocked, className: 'text-red-600 dark:text-red-400' },
+        { label: 'Newly Failing', value: report.newlyFailed, className: 'text-yellow-600 dark:text-yellow-400' },
+        { label: 'Newly Passing', value: report.newlyPassed, className: 'text-green-600 dark:text-green-400' },
+        { label: 'New Warnings', value: report.withNewWarnings, className: 'text-orange-600 dark:text-orange-400' },
+        { label: 'Document Changes', value: report.withDocumentChanges, className: 'text-blue-600 dark:text-blue-400' },
+      ]
+    : []
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-black/60 dark:text-white/60">
+        Replay past claims against the draft rules and compare the outcome with the published rule
+        set. Choose which rules are active in the draft before running.
+      </p>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-semibold">Draft Rules</Label>
+        {rules.length === 0 ? (
+          <p className="text-sm text-black/60 dark:text-white/60">This coverage type has no rules yet.</p>
+        ) : (
+          <div className="border border-black/10 dark:border-white/10 rounded-lg divide-y divide-black/10 dark:divide-white/10 max-h-64 overflow-y-auto">
+            {rules.map((rule) => (
+              <label key={rule.id} className="flex items-center gap-3 px-3 py-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includedIds.has(rule.id)}
+                  onChange={() => toggleRule(rule.id)}
+                  className="h-4 w-4 rounded border-black/20 dark:border-white/20"
+                />
+                <span className="flex-1 min-w-0 text-sm text-black dark:text-white truncate">{rule.name}</span>
+                <Badge variant="secondary" className="text-xs">{rule.rule_type}</Badge>
+                {includedIds.has(rule.id) !== rule.is_active && (
+                  <Badge variant="outline" className="text-xs">
+                    {rule.is_active ? 'deactivated' : 'activated'}
+                  </Badge>
+                )}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-end justify-between gap-4">
+        <div className="space-y-2 w-48">
+          <Label>Claims submitted in</Label>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+              <SelectItem value="365">Last year</SelectItem>
+              <SelectItem value="all">All time</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={handleSimulate} disabled={isRunning} className="gap-2">
+          <Play className="h-4 w-4" />
+          {isRunning ? 'Simulating...' : 'Run Simulation'}
+        </Button>
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </p>
+      )}
+
+      {report && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+            {stats.map((stat) => (
+              <div key={stat.label} className="p-4 border border-black/10 dark:border-white/10 rounded-lg">
+                <div className="text-sm text-black/60 dark:text-white/60">{stat.label}</div>
+                <div className={`text-2xl font-bold mt-1 ${stat.className}`}>{stat.value}</div>
+              </div>
+            ))}
+          </div>
+
+          {report.failedToEvaluate > 0 && (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              {report.failedToEvaluate} claim{report.failedToEvaluate !== 1 ? 's' : ''} could not be
+              evaluated.
+            </p>
+          )}
+
+          {report.ruleTriggers.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold">Changed Rules</Label>
+              <div className="border border-black/10 dark:border-white/10 rounded-lg divide-y divide-black/10 dark:divide-white/10">
+                {report.ruleTriggers.map((trigger) => (
+                  <div key={trigger.ruleId} className="flex items-center gap-3 px-3 py-2">
+                    <Badge variant="outline" className="text-xs">{trigger.change}</Badge>
+                    <span className="flex-1 min-w-0 text-sm text-black dark:text-white truncate">
+                      {trigger.ruleName}
+                    </span>
+                    <span className="text-sm text-black/60 dark:text-white/60">
+                      matches {trigger.triggered} of {report.total} claims
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold">
+              Affected Claims ({report.claims.length})
+            </Label>
+            {report.claims.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center border border-dashed border-black/10 dark:border-white/10 rounded-lg">
+                <p className="text-black/60 dark:text-white/60">
+                  {report.total === 0
+                    ? 'No claims were submitted in this period'
+                    : 'No claim would change outcome under the draft rules'}
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {report.claims.map((impact) => (
+                  <ClaimImpactRow
+                    key={impact.claimId}
+                    impact={impact}
+                    rules={rules}
+                    formatDocument={formatDocument}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
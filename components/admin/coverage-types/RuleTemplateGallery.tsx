@@ -0,0 +1,268 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Search, Trash2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { RuleTemplatePreview } from './RuleTemplatePreview'
+import { applyTemplate, getTemplateValues } from '@/lib/rules/helpers'
+import { searchRuleTemplates, getMissingTemplateValues } from '@/lib/rules/templates'
+import type { Question } from '@/types/policies'
+import type { RuleTemplate, RuleTemplatePlaceholder, RuleAction, StoredRuleConditions } from '@/types/rules'
+
+interface RuleTemplateGalleryProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  templates: RuleTemplate[]
+  questions: Question[]
+  onApply: (template: RuleTemplate, rule: { conditions: StoredRuleConditions; actions: RuleAction[] }) => void
+  onDeleteTemplate?: (id: string) => void
+}
+
+export function RuleTemplateGallery({
+  open,
+  onOpenChange,
+  templates,
+  questions,
+  onApply,
+  onDeleteTemplate,
+}: RuleTemplateGalleryProps) {
+  const [query, setQuery] = useState('')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [values, setValues] = useState<Record<string, unknown>>({})
+
+  // Start fresh each time the gallery opens
+  useEffect(() => {
+    if (open) {
+      /* eslint-disable react-hooks/set-state-in-effect */
+      setQuery('')
+      setSelectedId(null)
+      setValues({})
+      /* eslint-enable react-hooks/set-state-in-effect */
+    }
+  }, [open])
+
+  const filtered = searchRuleTemplates(templates, query)
+  const selected = templates.find((t) => t.id === selectedId) || null
+  const merged = selected ? getTemplateValues(selected, values) : {}
+  const missing = selected ? getMissingTemplateValues(selected, values) : []
+  const result = selected ? applyTemplate(selected, values) : null
+
+  const selectTemplate = (id: string) => {
+    setSelectedId(id)
+    setValues({})
+  }
+
+  const handleDelete = (template: RuleTemplate) => {
+    if (confirm(`Delete template "${template.name}"? Rules created from it are not affected.`)) {
+      onDeleteTemplate?.(template.id)
+      if (selectedId === template.id) setSelectedId(null)
+    }
+  }
+
+  const renderInput = (placeholder: RuleTemplatePlaceholder) => {
+    const value = merged[placeholder.key]
+    const setValue = (next: unknown) => setValues({ ...values, [placeholder.key]: next })
+
+    switch (placeholder.type) {
+      case 'question': {
+        const isKnown = questions.some((q) => q.id === value)
+        return (
+          <Select value={typeof value === 'string' ? value : ''} onValueChange={setValue}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a question" />
+            </SelectTrigger>
+            <SelectContent>
+              {typeof value === 'string' && value && !isKnown && (
+                <SelectItem value={value}>{value}</SelectItem>
+              )}
+              {questions.map((q) => (
+                <SelectItem key={q.id} value={q.id}>
+                  {q.question_text}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )
+      }
+
+      case 'number':
+        return (
+          <Input
+            type="number"
+            value={typeof value === 'number' ? value : ''}
+            onChange={(e) => setValue(e.target.value === '' ? undefined : Number(e.target.value))}
+          />
+        )
+
+      case 'date':
+        return (
+          <Input
+            type="date"
+            value={typeof value === 'string' ? value.slice(0, 10) : ''}
+            onChange={(e) => setValue(e.target.value)}
+          />
+        )
+
+      case 'document_types':
+        return (
+          <Input
+            value={Array.isArray(value) ? value.join(', ') : ''}
+            onChange={(e) =>
+              setValue(
+                e.target.value
+                  .split(',')
+                  .map((v) => v.trim())
+                  .filter(Boolean)
+              )
+            }
+            placeholder="e.g., receipt, invoice"
+          />
+        )
+
+      default:
+        return <Input value={value !== undefined ? String(value) : ''} onChange={(e) => setValue(e.target.value)} />
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rule Templates</DialogTitle>
+          <DialogDescription>
+            Start a rule from a built-in or saved template, then fill in its values.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-5 gap-6">
+          {/* Template list */}
+          <div className="col-span-2 space-y-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-black/40 dark:text-white/40" />
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search templates..."
+                className="pl-9"
+              />
+            </div>
+
+            <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+              {filtered.length === 0 && (
+                <p className="text-sm text-black/60 dark:text-white/60 py-4 text-center">No templates found</p>
+              )}
+              {filtered.map((template) => (
+                <div
+                  key={template.id}
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => selectTemplate(template.id)}
+                  onKeyDown={(e) => e.key === 'Enter' && selectTemplate(template.id)}
+                  className={`group p-3 rounded-lg border cursor-pointer transition-colors ${
+                    template.id === selectedId
+                      ? 'border-black dark:border-white bg-black/5 dark:bg-white/5'
+                      : 'border-black/10 dark:border-white/10 hover:bg-black/5 dark:hover:bg-white/5'
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="text-sm font-medium text-black dark:text-white">{template.name}</p>
+                    {!template.builtIn && onDeleteTemplate && (
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          handleDelete(template)
+                        }}
+                        className="opacity-0 group-hover:opacity-100 text-red-600 dark:text-red-400"
+                        title="Delete template"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                  {template.description && (
+                    <p className="text-xs text-black/60 dark:text-white/60 mt-1">{template.description}</p>
+                  )}
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    <Badge variant="secondary">{template.ruleType}</Badge>
+                    <Badge variant="secondary">{template.builtIn ? 'Built-in' : 'Custom'}</Badge>
+                    {template.tags?.map((tag) => (
+                      <Badge key={tag} variant="outline">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Values and preview */}
+          <div className="col-span-3 space-y-4">
+            {!selected ? (
+              <p className="text-sm text-black/60 dark:text-white/60 py-12 text-center">
+                Select a template to fill in its values and preview the rule
+              </p>
+            ) : (
+              <>
+                {(selected.placeholders || []).length > 0 && (
+                  <div className="space-y-3">
+                    {(selected.placeholders || []).map((placeholder) => (
+                      <div key={placeholder.key} className="space-y-1">
+                        <Label>{placeholder.label}</Label>
+                        {renderInput(placeholder)}
+                        {placeholder.description && (
+                          <p className="text-xs text-black/60 dark:text-white/60">{placeholder.description}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {result && (
+                  <RuleTemplatePreview conditions={result.conditions} actions={result.actions} questions={questions} />
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={!selected || missing.length > 0}
+            title={missing.length > 0 ? `Fill in: ${missing.map((p) => p.label).join(', ')}` : undefined}
+            onClick={() => {
+              if (selected && result) {
+                onApply(selected, result)
+                onOpenChange(false)
+              }
+            }}
+          >
+            Use Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
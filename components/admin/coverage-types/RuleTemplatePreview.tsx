@@ -0,0 +1,75 @@
+'use client'
+
+import { Label } from '@/components/ui/label'
+import { normalizeConditionTree, flattenConditions, formatConditionTree } from '@/lib/rules/conditions'
+import { formatConditionForDisplay, formatActionForDisplay } from '@/lib/rules/helpers'
+import type { Question } from '@/types/policies'
+import type { RuleAction } from '@/types/rules'
+
+interface RuleTemplatePreviewProps {
+  conditions: unknown
+  actions: unknown
+  questions: Question[]
+}
+
+/**
+ * Readable conditions and actions of a template (or a filled-in template),
+ * with question IDs shown as question text
+ */
+export function RuleTemplatePreview({ conditions, actions, questions }: RuleTemplatePreviewProps) {
+  const questionText = new Map(questions.map((q) => [q.id, q.question_text]))
+  const label = (id: string | undefined) =>
+    id
+      ? id
+          .split('.')
+          .map((part) => questionText.get(part) || part)
+          .join(' › ')
+      : id
+
+  let conditionSummary: string
+  try {
+    const tree = normalizeConditionTree(conditions)
+    conditionSummary =
+      flattenConditions(tree).length === 0
+        ? 'No conditions'
+        : formatConditionTree(tree, (condition) =>
+            formatConditionForDisplay({ ...condition, field: label(condition.field) || condition.field })
+          )
+  } catch (error) {
+    console.error('Error formatting template conditions:', error)
+    conditionSummary = 'Invalid conditions'
+  }
+
+  const actionList = Array.isArray(actions) ? (actions as RuleAction[]) : []
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-sm font-semibold">Preview</Label>
+      <div className="p-3 rounded-lg bg-black/5 dark:bg-white/5 space-y-2 text-sm">
+        <p className="text-black dark:text-white">
+          <span className="font-medium">When </span>
+          <span className="font-mono text-xs">{conditionSummary}</span>
+        </p>
+        {actionList.length === 0 ? (
+          <p className="text-black/60 dark:text-white/60">No actions</p>
+        ) : (
+          <ul className="space-y-1">
+            {actionList.map((action, index) => (
+              <li key={index} className="text-black/80 dark:text-white/80">
+                →{' '}
+                {formatActionForDisplay({
+                  ...action,
+                  targetQuestionId: label(action.targetQuestionId),
+                  targetField: label(action.targetField),
+                  // An unfilled `{document_types}` placeholder is still a string
+                  documentTypes:
+                    typeof action.documentTypes === 'string' ? [action.documentTypes] : action.documentTypes,
+                })}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
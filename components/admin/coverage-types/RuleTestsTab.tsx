@@ -0,0 +1,180 @@
+'use client'
+
+import { Plus, Edit, Trash2, CheckCircle, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { runRuleTestCase, toRuleTestCase } from '@/lib/rules/test-runner'
+import type { Rule, RuleTestCaseRecord } from '@/types/policies'
+import type { RuleTestCaseResult, RuleTestDiff, RulesEngineOptions } from '@/types/rules'
+
+interface RuleTestsTabProps {
+  rules: Rule[]
+  testCases: RuleTestCaseRecord[]
+  engineOptions?: RulesEngineOptions // Coverage type time zone and holiday calendar
+  onAddTestCase: () => void
+  onEditTestCase: (testCase: RuleTestCaseRecord) => void
+  onDeleteTestCase: (id: string) => void
+}
+
+const diffLabels: Record<RuleTestDiff['field'], string> = {
+  passed: 'Passed',
+  blockedSubmission: 'Blocked submission',
+  visibleQuestions: 'Visible questions',
+  hiddenQuestions: 'Hidden questions',
+  errors: 'Errors',
+  warnings: 'Warnings',
+}
+
+function TestDiff({ diff }: { diff: RuleTestDiff }) {
+  return (
+    <div className="text-xs">
+      <span className="font-medium text-black/80 dark:text-white/80">
+        {diffLabels[diff.field]}:
+      </span>{' '}
+      {diff.missing || diff.unexpected ? (
+        <span className="font-mono">
+          {diff.missing && diff.missing.length > 0 && (
+            <span className="text-red-600 dark:text-red-400">
+              missing {diff.missing.map((v) => JSON.stringify(v)).join(', ')}
+            </span>
+          )}
+          {diff.missing && diff.missing.length > 0 && diff.unexpected && diff.unexpected.length > 0 && '; '}
+          {diff.unexpected && diff.unexpected.length > 0 && (
+            <span className="text-orange-600 dark:text-orange-400">
+              unexpected {diff.unexpected.map((v) => JSON.stringify(v)).join(', ')}
+            </span>
+          )}
+        </span>
+      ) : (
+        <span className="font-mono">
+          expected {JSON.stringify(diff.expected)}, got {JSON.stringify(diff.actual)}
+        </span>
+      )}
+    </div>
+  )
+}
+
+export function RuleTestsTab({
+  rules,
+  testCases,
+  engineOptions,
+  onAddTestCase,
+  onEditTestCase,
+  onDeleteTestCase,
+}: RuleTestsTabProps) {
+  // Cases are cheap to run, so results always reflect the current rules
+  const results: Array<{ testCase: RuleTestCaseRecord; result: RuleTestCaseResult }> =
+    testCases.map((testCase) => ({
+      testCase,
+      result: runRuleTestCase(rules, toRuleTestCase(testCase), engineOptions),
+    }))
+
+  const passing = results.filter(({ result }) => result.passed).length
+  const failing = results.length - passing
+
+  const handleDelete = (id: string, name: string) => {
+    if (confirm(`Are you sure you want to delete the test case "${name}"?`)) {
+      onDeleteTestCase(id)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="p-4 border border-black/10 dark:border-white/10 rounded-lg">
+          <div className="text-sm text-black/60 dark:text-white/60">Test Cases</div>
+          <div className="text-2xl font-bold mt-1">{results.length}</div>
+        </div>
+        <div className="p-4 border border-black/10 dark:border-white/10 rounded-lg">
+          <div className="text-sm text-black/60 dark:text-white/60">Passing</div>
+          <div className="text-2xl font-bold mt-1 text-green-600 dark:text-green-400">
+            {passing}
+          </div>
+        </div>
+        <div className="p-4 border border-black/10 dark:border-white/10 rounded-lg">
+          <div className="text-sm text-black/60 dark:text-white/60">Failing</div>
+          <div className="text-2xl font-bold mt-1 text-red-600 dark:text-red-400">
+            {failing}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-black/60 dark:text-white/60">
+          Test cases run against the active rules of this coverage type.
+        </p>
+        <Button onClick={onAddTestCase} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Add Test Case
+        </Button>
+      </div>
+
+      {results.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center border border-dashed border-black/10 dark:border-white/10 rounded-lg">
+          <p className="text-black/60 dark:text-white/60 mb-4">No test cases yet</p>
+          <Button onClick={onAddTestCase} variant="outline">
+            Add your first test case
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {results.map(({ testCase, result }) => (
+            <div
+              key={testCase.id}
+              className="group p-4 border border-black/10 dark:border-white/10 rounded-lg hover:border-black/20 dark:hover:border-white/20 transition-colors bg-white dark:bg-black"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-2">
+                    {result.passed ? (
+                      <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400" />
+                    ) : (
+                      <XCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
+                    )}
+                    <h4 className="font-semibold text-black dark:text-white">{testCase.name}</h4>
+                    <Badge variant={result.passed ? 'active' : 'outline'} className={result.passed ? 'text-xs' : 'text-xs text-red-600 dark:text-red-400'}>
+                      {result.passed ? 'Pass' : 'Fail'}
+                    </Badge>
+                  </div>
+
+                  {testCase.description && (
+                    <p className="text-sm text-black/60 dark:text-white/60 mb-2">
+                      {testCase.description}
+                    </p>
+                  )}
+
+                  {result.error && (
+                    <p className="text-xs text-red-600 dark:text-red-400">{result.error}</p>
+                  )}
+
+                  {result.diffs.length > 0 && (
+                    <div className="space-y-1 mt-2">
+                      {result.diffs.map((diff) => (
+                        <TestDiff key={diff.field} diff={diff} />
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button variant="ghost" size="sm" onClick={() => onEditTestCase(testCase)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(testCase.id, testCase.name)}
+                    className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
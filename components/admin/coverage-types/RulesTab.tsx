@@ -1,17 +1,30 @@
 'use client'
 
 import { useState } from 'react'
-import { Plus, Edit, Trash2, Power, PowerOff } from 'lucide-react'
+import { Plus, Edit, Trash2, Power, PowerOff, AlertCircle, AlertTriangle, LayoutTemplate } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import type { Rule } from '@/types/policies'
-import type { RuleType, RuleCondition, RuleAction } from '@/types/rules'
+import type { Rule, Question } from '@/types/policies'
+import {
+  normalizeConditionTree,
+  flattenConditions,
+  formatConditionTree,
+  formatConditionValue,
+  formatConditionField,
+} from '@/lib/rules/conditions'
+import { getRuleScheduleStatus } from '@/lib/rules/helpers'
+import { analyzeRules, groupFindingsByRule } from '@/lib/rules/analyzer'
+import type { RuleType, RuleCondition, RuleAction, RuleLintFinding } from '@/types/rules'
 
 interface RulesTabProps {
   coverageTypeId: string
   rules: Rule[]
+  questions: Question[]
+  // Rule dates are shown as of today in the coverage type's time zone
+  timeZone?: string
   onAddRule: () => void
   onEditRule: (rule: Rule) => void
+  onSaveAsTemplate: (rule: Rule) => void
   onDeleteRule: (id: string) => void
   onToggleRule: (id: string, isActive: boolean) => void
 }
@@ -35,14 +48,23 @@ const ruleTypeLabels: Record<RuleType, string> = {
 export function RulesTab({
   coverageTypeId: _coverageTypeId,
   rules,
+  questions,
+  timeZone,
   onAddRule,
   onEditRule,
+  onSaveAsTemplate,
   onDeleteRule,
   onToggleRule,
 }: RulesTabProps) {
   const [filterType, setFilterType] = useState<RuleType | 'all'>('all')
   const [showInactive, setShowInactive] = useState(true)
 
+  // Static analysis of the whole rule set
+  const findings = analyzeRules(rules, questions)
+  const findingsByRule = groupFindingsByRule(findings)
+  const errorCount = findings.filter((f) => f.severity === 'error').length
+  const warningCount = findings.length - errorCount
+
   // Filter rules
   const filteredRules = rules.filter((rule) => {
     const matchesType = filterType === 'all' || rule.rule_type === filterType
@@ -84,29 +106,16 @@ export function RulesTab({
 
   const formatConditionSummary = (rule: Rule): string => {
     try {
-      // Handle database structure: { all: [...] } or { any: [...] } or direct array
-      let conditions: any[] = []
-      const rawConditions = rule.conditions as any
-
-      if (Array.isArray(rawConditions)) {
-        conditions = rawConditions
-      } else if (rawConditions?.all) {
-        conditions = rawConditions.all
-      } else if (rawConditions?.any) {
-        conditions = rawConditions.any
-      }
-
-      if (conditions.length === 0) return 'No conditions'
+      // Handles legacy flat arrays, { all/any: [...] } objects and nested groups
+      const tree = normalizeConditionTree(rule.conditions)
 
-      const first = conditions[0]
-      const more = conditions.length > 1 ? ` +${conditions.length - 1} more` : ''
+      if (flattenConditions(tree).length === 0) return 'No conditions'
 
-      // Handle both 'field' and 'question_order' properties
-      const field = first.field || `Q${first.question_order}` || 'unknown'
-      const operator = first.operator || 'unknown'
-      const value = first.value !== undefined ? JSON.stringify(first.value) : 'null'
-
-      return `${field} ${operator} ${value}${more}`
+      return formatConditionTree(
+        tree,
+        (condition) =>
+          `${formatConditionField(condition)} ${condition.operator} ${formatConditionValue(condition.value)}`
+      )
     } catch (error) {
       console.error('Error formatting condition summary:', error)
       return 'Invalid conditions'
@@ -166,6 +175,25 @@ export function RulesTab({
         </div>
       </div>
 
+      {/* Lint Summary */}
+      {findings.length > 0 && (
+        <div className="flex items-center gap-3 p-3 border border-black/10 dark:border-white/10 rounded-lg text-sm">
+          <span className="text-black/60 dark:text-white/60">Rule analysis:</span>
+          {errorCount > 0 && (
+            <span className="inline-flex items-center gap-1 text-red-600 dark:text-red-400">
+              <AlertCircle className="h-4 w-4" />
+              {errorCount} error{errorCount !== 1 ? 's' : ''}
+            </span>
+          )}
+          {warningCount > 0 && (
+            <span className="inline-flex items-center gap-1 text-yellow-600 dark:text-yellow-400">
+              <AlertTriangle className="h-4 w-4" />
+              {warningCount} warning{warningCount !== 1 ? 's' : ''}
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Filters and Actions */}
       <div className="flex items-center justify-between gap-4">
         <div className="flex items-center gap-3">
@@ -252,6 +280,21 @@ export function RulesTab({
                             <Badge variant="outline" className="text-xs">
                               Priority: {rule.priority || 0}
                             </Badge>
+                            {getRuleScheduleStatus(rule, new Date(), timeZone) === 'scheduled' && (
+                              <Badge variant="required" className="text-xs">
+                                Starts {new Date(rule.effective_from!).toLocaleDateString()}
+                              </Badge>
+                            )}
+                            {getRuleScheduleStatus(rule, new Date(), timeZone) === 'expired' && (
+                              <Badge variant="inactive" className="text-xs">
+                                Expired {new Date(rule.effective_until!).toLocaleDateString()}
+                              </Badge>
+                            )}
+                            {(rule.tags || []).map((tag) => (
+                              <Badge key={tag} variant="secondary" className="text-xs">
+                                {tag}
+                              </Badge>
+                            ))}
                           </div>
 
                           {rule.description && (
@@ -260,6 +303,10 @@ export function RulesTab({
                             </p>
                           )}
 
+                          {findingsByRule[rule.id] && (
+                            <RuleLintBadges findings={findingsByRule[rule.id]} />
+                          )}
+
                           <div className="space-y-2 text-sm">
                             <div>
                               <span className="text-black/60 dark:text-white/60">
@@ -301,6 +348,14 @@ export function RulesTab({
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onSaveAsTemplate(rule)}
+                            title="Save as template"
+                          >
+                            <LayoutTemplate className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -322,3 +377,27 @@ export function RulesTab({
     </div>
   )
 }
+
+function RuleLintBadges({ findings }: { findings: RuleLintFinding[] }) {
+  return (
+    <div className="flex flex-col gap-1 mb-3">
+      {findings.map((finding, index) => (
+        <div
+          key={index}
+          className={`inline-flex items-start gap-1.5 text-xs ${
+            finding.severity === 'error'
+              ? 'text-red-600 dark:text-red-400'
+              : 'text-yellow-600 dark:text-yellow-400'
+          }`}
+        >
+          {finding.severity === 'error' ? (
+            <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+          ) : (
+            <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+          )}
+          <span>{finding.message}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,218 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { RuleTemplatePreview } from './RuleTemplatePreview'
+import { createTemplateFromRule, getTemplateParameters } from '@/lib/rules/templates'
+import type { Rule, Question, RuleTemplateInsert } from '@/types/policies'
+import type { RuleTemplateParameter, RuleTemplatePlaceholderType } from '@/types/rules'
+
+interface SaveRuleTemplateDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  rule: Rule | null
+  questions: Question[]
+  onSave: (data: RuleTemplateInsert) => void
+}
+
+const placeholderTypeLabels: Record<RuleTemplatePlaceholderType, string> = {
+  question: 'Question',
+  number: 'Number',
+  date: 'Date',
+  document_types: 'Document types',
+  text: 'Text',
+}
+
+const formatParameterValue = (parameter: RuleTemplateParameter, questions: Question[]): string => {
+  if (parameter.type === 'question') {
+    return questions.find((q) => q.id === parameter.value)?.question_text || String(parameter.value)
+  }
+  return Array.isArray(parameter.value) ? parameter.value.join(', ') : String(parameter.value)
+}
+
+export function SaveRuleTemplateDialog({
+  open,
+  onOpenChange,
+  rule,
+  questions,
+  onSave,
+}: SaveRuleTemplateDialogProps) {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [tags, setTags] = useState('')
+  const [parameters, setParameters] = useState<RuleTemplateParameter[]>([])
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set())
+  const [error, setError] = useState<string | null>(null)
+
+  // Initialize form from the rule being saved
+  useEffect(() => {
+    if (!rule) return
+
+    /* eslint-disable react-hooks/set-state-in-effect */
+    const found = getTemplateParameters(rule, questions)
+    setName(rule.name)
+    setDescription(rule.description || '')
+    setTags((rule.tags || []).join(', '))
+    setParameters(found)
+    // Questions differ between coverage types, so they are placeholders by default
+    setSelectedKeys(new Set(found.filter((p) => p.type === 'question').map((p) => p.key)))
+    setError(null)
+    /* eslint-enable react-hooks/set-state-in-effect */
+  }, [rule, questions, open])
+
+  if (!rule) return null
+
+  const selected = parameters.filter((p) => selectedKeys.has(p.key))
+  const template = createTemplateFromRule(
+    rule,
+    { name, description, tags: tags.split(',').map((t) => t.trim()).filter(Boolean) },
+    selected,
+    questions
+  )
+
+  const toggleParameter = (key: string) => {
+    const next = new Set(selectedKeys)
+    if (next.has(key)) {
+      next.delete(key)
+    } else {
+      next.add(key)
+    }
+    setSelectedKeys(next)
+  }
+
+  const updateLabel = (key: string, label: string) => {
+    setParameters(parameters.map((p) => (p.key === key ? { ...p, label } : p)))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!name.trim()) {
+      setError('Template name is required')
+      return
+    }
+    if (selected.some((p) => !p.label.trim())) {
+      setError('Every placeholder needs a label')
+      return
+    }
+
+    onSave({ ...template, name: name.trim(), description: description.trim() || null })
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Save Rule as Template</DialogTitle>
+          <DialogDescription>
+            Templates are shared across coverage types. Choose which values are filled in each
+            time the template is used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template_name">
+                Template Name <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="template_name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={error && !name.trim() ? 'border-red-500' : ''}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template_description">Description</Label>
+              <Textarea
+                id="template_description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template_tags">Tags</Label>
+              <Input
+                id="template_tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="e.g., travel, deadlines"
+              />
+            </div>
+          </div>
+
+          <div className="border-t border-black/10 dark:border-white/10 pt-6 space-y-3">
+            <div>
+              <Label className="text-sm font-semibold">Placeholders</Label>
+              <p className="text-xs text-black/60 dark:text-white/60 mt-1">
+                Unchecked values are saved as they are. Checked numbers, dates and text keep this
+                rule&apos;s value as the default.
+              </p>
+            </div>
+
+            {parameters.length === 0 ? (
+              <p className="text-sm text-black/60 dark:text-white/60">
+                This rule has no values that can become placeholders.
+              </p>
+            ) : (
+              <div className="border border-black/10 dark:border-white/10 rounded-lg divide-y divide-black/10 dark:divide-white/10">
+                {parameters.map((parameter) => (
+                  <div key={parameter.key} className="flex items-center gap-3 px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedKeys.has(parameter.key)}
+                      onChange={() => toggleParameter(parameter.key)}
+                      className="h-4 w-4 rounded border-black/20 dark:border-white/20"
+                    />
+                    <Badge variant="secondary" className="shrink-0">
+                      {placeholderTypeLabels[parameter.type]}
+                    </Badge>
+                    <span className="w-40 shrink-0 text-sm text-black/60 dark:text-white/60 truncate">
+                      {formatParameterValue(parameter, questions)}
+                      {parameter.occurrences > 1 && ` (×${parameter.occurrences})`}
+                    </span>
+                    <Input
+                      value={parameter.label}
+                      onChange={(e) => updateLabel(parameter.key, e.target.value)}
+                      disabled={!selectedKeys.has(parameter.key)}
+                      placeholder="Label shown when filling in the template"
+                      className="h-8"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="border-t border-black/10 dark:border-white/10 pt-6">
+            <RuleTemplatePreview conditions={template.conditions} actions={template.actions} questions={questions} />
+          </div>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">Save Template</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,227 @@
+'use client'
+
+import { useState } from 'react'
+import { Upload, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { diffRuleSets, hasRuleSetChanges } from '@/lib/rules/versioning'
+import type { Rule, Question, RuleSetVersion, RuleSetDiffEntry } from '@/types/policies'
+
+interface VersionsTabProps {
+  rules: Rule[]
+  questions: Question[]
+  versions: RuleSetVersion[] // Newest first
+  onPublish: (notes: string) => void
+  onRollback: (versionId: string) => void
+}
+
+const changeStyles: Record<RuleSetDiffEntry<unknown>['change'], string> = {
+  added: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  removed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  changed: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+}
+
+function DiffEntry<T>({ entry }: { entry: RuleSetDiffEntry<T> }) {
+  const [expanded, setExpanded] = useState(false)
+  const before = entry.before as Record<string, unknown> | null
+  const after = entry.after as Record<string, unknown> | null
+
+  return (
+    <div className="border border-black/10 dark:border-white/10 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 p-3 text-left hover:bg-black/2 dark:hover:bg-white/2"
+      >
+        {expanded ? (
+          <ChevronDown className="h-4 w-4 text-black/40 dark:text-white/40 shrink-0" />
+        ) : (
+          <ChevronRight className="h-4 w-4 text-black/40 dark:text-white/40 shrink-0" />
+        )}
+        <Badge className={changeStyles[entry.change]}>{entry.change}</Badge>
+        <span className="flex-1 min-w-0 text-sm font-medium text-black dark:text-white truncate">
+          {entry.name}
+        </span>
+        {entry.fields.length > 0 && (
+          <span className="text-xs text-black/60 dark:text-white/60 font-mono">
+            {entry.fields.join(', ')}
+          </span>
+        )}
+      </button>
+
+      {expanded && (
+        <div className="px-3 pb-3 space-y-3">
+          {(entry.change === 'changed' ? entry.fields : ['*']).map((field) => (
+            <div key={field} className="grid grid-cols-2 gap-2">
+              <div>
+                <p className="text-xs text-black/60 dark:text-white/60 mb-1">
+                  Published{field !== '*' && ` · ${field}`}
+                </p>
+                <pre className="text-xs font-mono p-2 rounded bg-red-500/5 border border-red-500/10 overflow-x-auto">
+                  {before ? JSON.stringify(field === '*' ? before : before[field], null, 2) : '—'}
+                </pre>
+              </div>
+              <div>
+                <p className="text-xs text-black/60 dark:text-white/60 mb-1">
+                  Draft{field !== '*' && ` · ${field}`}
+                </p>
+                <pre className="text-xs font-mono p-2 rounded bg-green-500/5 border border-green-500/10 overflow-x-auto">
+                  {after ? JSON.stringify(field === '*' ? after : after[field], null, 2) : '—'}
+                </pre>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function VersionsTab({ rules, questions, versions, onPublish, onRollback }: VersionsTabProps) {
+  const [notes, setNotes] = useState('')
+
+  const published = versions[0] || null
+  const diff = diffRuleSets(published, { rules, questions })
+  const hasChanges = hasRuleSetChanges(diff)
+
+  const handlePublish = () => {
+    const next = (published?.version ?? 0) + 1
+    if (confirm(`Publish the draft as version ${next}? New claims will be evaluated against it immediately.`)) {
+      onPublish(notes)
+      setNotes('')
+    }
+  }
+
+  const handleRollback = (version: RuleSetVersion) => {
+    if (
+      confirm(
+        `Roll back to version ${version.version}? Its rules will be republished as version ${
+          (published?.version ?? 0) + 1
+        }. Your draft is not changed.`
+      )
+    ) {
+      onRollback(version.id)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Published status */}
+      <div className="p-4 border border-black/10 dark:border-white/10 rounded-lg space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <div className="text-sm text-black/60 dark:text-white/60">Published Version</div>
+            <div className="text-2xl font-bold mt-1">
+              {published ? `v${published.version}` : 'None'}
+            </div>
+            <p className="text-xs text-black/60 dark:text-white/60 mt-1">
+              {published
+                ? `Published ${new Date(published.created_at).toLocaleString()}`
+                : 'Never published - claims are evaluated against the draft rules'}
+            </p>
+          </div>
+          <Badge
+            className={
+              hasChanges
+                ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400'
+                : 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+            }
+          >
+            {hasChanges
+              ? `${diff.rules.length + diff.questions.length} unpublished change${
+                  diff.rules.length + diff.questions.length !== 1 ? 's' : ''
+                }`
+              : 'Draft matches published'}
+          </Badge>
+        </div>
+
+        <div className="flex items-end gap-3">
+          <Textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Release notes (optional)"
+            rows={2}
+            className="flex-1"
+          />
+          <Button onClick={handlePublish} disabled={!hasChanges} className="gap-2">
+            <Upload className="h-4 w-4" />
+            Publish
+          </Button>
+        </div>
+      </div>
+
+      {/* Diff against published */}
+      {hasChanges && (
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold text-black/70 dark:text-white/70">
+            Draft changes {published && `since v${published.version}`}
+          </h3>
+          {diff.rules.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-black/60 dark:text-white/60">
+                Rules ({diff.rules.length})
+              </p>
+              {diff.rules.map((entry) => (
+                <DiffEntry key={entry.id} entry={entry} />
+              ))}
+            </div>
+          )}
+          {diff.questions.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-black/60 dark:text-white/60">
+                Questions ({diff.questions.length})
+              </p>
+              {diff.questions.map((entry) => (
+                <DiffEntry key={entry.id} entry={entry} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* History */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-black/70 dark:text-white/70">History</h3>
+        {versions.length === 0 ? (
+          <div className="py-8 text-center border border-dashed border-black/10 dark:border-white/10 rounded-lg">
+            <p className="text-sm text-black/60 dark:text-white/60">No versions published yet</p>
+          </div>
+        ) : (
+          versions.map((version, index) => (
+            <div
+              key={version.id}
+              className="flex items-center justify-between gap-4 p-4 border border-black/10 dark:border-white/10 rounded-lg"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-black dark:text-white">v{version.version}</span>
+                  {index === 0 && <Badge variant="active">Published</Badge>}
+                  <span className="text-xs text-black/40 dark:text-white/40">
+                    {new Date(version.created_at).toLocaleString()} · {version.rules.length} rule
+                    {version.rules.length !== 1 ? 's' : ''}, {version.questions.length} question
+                    {version.questions.length !== 1 ? 's' : ''}
+                  </span>
+                </div>
+                {version.notes && (
+                  <p className="text-sm text-black/60 dark:text-white/60 mt-1">{version.notes}</p>
+                )}
+              </div>
+              {index > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRollback(version)}
+                  className="gap-1 shrink-0"
+                >
+                  <RotateCcw className="h-3 w-3" />
+                  Roll back
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
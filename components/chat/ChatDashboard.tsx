@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Menu, FileStack } from 'lucide-react'
+import { Menu, FileStack, FileCheck } from 'lucide-react'
 import { toast } from 'sonner'
 import { ChatSidebar } from './ChatSidebar'
 import { UserMenu } from './UserMenu'
@@ -11,6 +11,7 @@ import { ModeSwitch } from './ModeSwitch'
 import { ModeSwitchDialog } from './ModeSwitchDialog'
 import { NewChatButton } from './NewChatButton'
 import { UploadedFilesDialog } from './UploadedFilesDialog'
+import { ClaimSubmissionDialog } from './ClaimSubmissionDialog'
 import { uploadFilesAction } from '@/app/upload/actions'
 import type { Profile } from '@/types/auth'
 import type { UploadedFile } from '@/lib/supabase/storage'
@@ -38,6 +39,7 @@ export function ChatDashboard({ profile }: ChatDashboardProps) {
   const [isUploading, setIsUploading] = useState(false)
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([])
   const [isFilesDialogOpen, setIsFilesDialogOpen] = useState(false)
+  const [isClaimDialogOpen, setIsClaimDialogOpen] = useState(false)
 
   // Chat state
   const [messages, setMessages] = useState<Message[]>([])
@@ -240,6 +242,23 @@ export function ChatDashboard({ profile }: ChatDashboardProps) {
     }, 1000)
   }
 
+  // Claim submitted: the session is now archived and linked to the claim
+  const handleClaimSubmitted = async (
+    claim: { id: string; claimNumber: string },
+    session: ChatSession
+  ) => {
+    setCurrentSession(session)
+
+    const confirmation: Message = {
+      id: crypto.randomUUID(),
+      role: 'assistant',
+      content: `Your claim ${claim.claimNumber} has been submitted. We'll review it and get back to you here.`,
+      timestamp: new Date(),
+    }
+    setMessages((prev) => [...prev, confirmation])
+    await addClaimMessageAction(session.id, confirmation.content, 'assistant')
+  }
+
   const handleSuggestedPrompt = (prompt: string) => {
     handleSendMessage(prompt, [])
   }
@@ -273,6 +292,17 @@ export function ChatDashboard({ profile }: ChatDashboardProps) {
 
             {/* New Chat Button */}
             <NewChatButton onClick={handleNewChat} />
+
+            {/* Submit Claim - claim mode, until the chat is archived */}
+            {mode === 'claim' && currentSessionId && !currentSession?.is_archived && (
+              <button
+                onClick={() => setIsClaimDialogOpen(true)}
+                className="flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-xl bg-black dark:bg-white text-white dark:text-black hover:bg-black/90 dark:hover:bg-white/90 transition-colors"
+              >
+                <FileCheck className="h-4 w-4" />
+                <span className="hidden sm:inline">Submit Claim</span>
+              </button>
+            )}
           </div>
 
           {/* Mode Switch - visible on mobile, centered */}
@@ -325,6 +355,17 @@ export function ChatDashboard({ profile }: ChatDashboardProps) {
           }}
         />
 
+        {/* Claim Submission Dialog - mounted while open so it loads fresh policies */}
+        {isClaimDialogOpen && currentSessionId && (
+          <ClaimSubmissionDialog
+            open={isClaimDialogOpen}
+            onOpenChange={setIsClaimDialogOpen}
+            sessionId={currentSessionId}
+            uploadedFiles={uploadedFiles}
+            onSubmitted={handleClaimSubmitted}
+          />
+        )}
+
         {/* Mode Switch Dialog */}
         <ModeSwitchDialog
           open={showModeSwitchDialog}
@@ -0,0 +1,598 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { AlertCircle, AlertTriangle, CheckCircle, Paperclip, Plus, X } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  evaluateClaimAction,
+  getClaimPolicyOptionsAction,
+  getClaimQuestionsAction,
+  submitClaimAction,
+} from '@/app/claims/actions'
+import { uploadFilesAction } from '@/app/upload/actions'
+import { getEligibilityStatusDisplayName, getValidationErrorsByQuestion } from '@/lib/rules/helpers'
+import { findMissingAnswers, findMissingDocuments } from '@/lib/claims/submission'
+import type { UploadedFile } from '@/lib/supabase/storage'
+import type { Question } from '@/types/policies'
+import type { ChatSession } from '@/types/chat'
+import type { SerializedRuleEvaluationResult } from '@/types/rules'
+import type { ClaimPolicyOption, ClaimSubmissionDocument } from '@/types/claims'
+
+interface ClaimSubmissionDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  sessionId: string
+  uploadedFiles: UploadedFile[]
+  onSubmitted: (claim: { id: string; claimNumber: string }, session: ChatSession) => void
+}
+
+type GroupItem = Record<string, unknown>
+
+// A file question, or a file question on one item of a repeatable group
+type DocumentSlot = { questionId: string; itemIndex?: number }
+
+const toDocument = (file: UploadedFile, slot: DocumentSlot): ClaimSubmissionDocument => ({
+  questionId: slot.questionId,
+  ...(slot.itemIndex !== undefined && { itemIndex: slot.itemIndex }),
+  name: file.filename,
+  type: file.type,
+  path: file.path,
+  size: file.size,
+})
+
+const inSlot = (doc: ClaimSubmissionDocument, slot: DocumentSlot) =>
+  doc.questionId === slot.questionId && doc.itemIndex === slot.itemIndex
+
+function AnswerInput({
+  question,
+  value,
+  onChange,
+}: {
+  question: Question
+  value: unknown
+  onChange: (value: unknown) => void
+}) {
+  switch (question.field_type) {
+    case 'number':
+      return (
+        <Input
+          type="number"
+          value={typeof value === 'number' ? value : ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+          placeholder={question.placeholder || undefined}
+        />
+      )
+
+    case 'date':
+      return (
+        <Input type="date" value={typeof value === 'string' ? value : ''} onChange={(e) => onChange(e.target.value)} />
+      )
+
+    case 'select':
+      return (
+        <Select value={typeof value === 'string' ? value : ''} onValueChange={onChange}>
+          <SelectTrigger>
+            <SelectValue placeholder={question.placeholder || 'Select an option'} />
+          </SelectTrigger>
+          <SelectContent>
+            {(question.options || []).map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )
+
+    default:
+      return (
+        <Input
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={question.placeholder || undefined}
+        />
+      )
+  }
+}
+
+export function ClaimSubmissionDialog({
+  open,
+  onOpenChange,
+  sessionId,
+  uploadedFiles,
+  onSubmitted,
+}: ClaimSubmissionDialogProps) {
+  const [policies, setPolicies] = useState<ClaimPolicyOption[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [userPolicyId, setUserPolicyId] = useState('')
+  const [coverageTypeId, setCoverageTypeId] = useState('')
+  const [questions, setQuestions] = useState<Question[]>([])
+  const [answers, setAnswers] = useState<Record<string, unknown>>({})
+  const [documents, setDocuments] = useState<ClaimSubmissionDocument[]>([])
+  const [files, setFiles] = useState<UploadedFile[]>(uploadedFiles)
+  const [amount, setAmount] = useState('')
+  const [description, setDescription] = useState('')
+  const [result, setResult] = useState<SerializedRuleEvaluationResult | null>(null)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [uploadingFor, setUploadingFor] = useState<DocumentSlot | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    const loadPolicies = async () => {
+      const response = await getClaimPolicyOptionsAction()
+      if (response.success && response.policies) {
+        setPolicies(response.policies)
+        if (response.policies.length === 1) setUserPolicyId(response.policies[0].userPolicyId)
+      } else {
+        toast.error(response.error || 'Failed to load your policies')
+      }
+      setIsLoading(false)
+    }
+
+    loadPolicies()
+  }, [])
+
+  const policy = policies.find((p) => p.userPolicyId === userPolicyId)
+  const hidden = new Set(result?.hiddenQuestions || [])
+  const topLevelQuestions = questions.filter((q) => !q.parent_question_id && !hidden.has(q.id))
+  const errorsByQuestion = result ? getValidationErrorsByQuestion(result) : {}
+
+  // Any change invalidates the last check
+  const updateAnswer = (questionId: string, value: unknown) => {
+    setAnswers((prev) => ({ ...prev, [questionId]: value }))
+    setResult(null)
+  }
+
+  const setSlotDocuments = (slot: DocumentSlot, next: ClaimSubmissionDocument[]) => {
+    const others = documents.filter((doc) => !inSlot(doc, slot))
+    setDocuments([...others, ...next])
+
+    const paths = next.length > 0 ? next.map((doc) => doc.path) : undefined
+    const groupId = questions.find((q) => q.id === slot.questionId)?.parent_question_id
+    if (slot.itemIndex === undefined || !groupId) {
+      updateAnswer(slot.questionId, paths)
+      return
+    }
+
+    const items = Array.isArray(answers[groupId]) ? (answers[groupId] as GroupItem[]) : []
+    updateAnswer(
+      groupId,
+      items.map((item, i) => (i === slot.itemIndex ? { ...item, [slot.questionId]: paths } : item))
+    )
+  }
+
+  // Files of later items move up with their item
+  const removeGroupItem = (groupId: string, index: number) => {
+    const items = Array.isArray(answers[groupId]) ? (answers[groupId] as GroupItem[]) : []
+    const childIds = new Set(questions.filter((q) => q.parent_question_id === groupId).map((q) => q.id))
+    setDocuments(
+      documents
+        .filter((doc) => !(childIds.has(doc.questionId) && doc.itemIndex === index))
+        .map((doc) =>
+          childIds.has(doc.questionId) && doc.itemIndex !== undefined && doc.itemIndex > index
+            ? { ...doc, itemIndex: doc.itemIndex - 1 }
+            : doc
+        )
+    )
+    updateAnswer(groupId, items.filter((_, i) => i !== index))
+  }
+
+  const handlePolicyChange = (id: string) => {
+    setUserPolicyId(id)
+    setCoverageTypeId('')
+    setQuestions([])
+    setAnswers({})
+    setDocuments([])
+    setResult(null)
+  }
+
+  const handleCoverageTypeChange = async (id: string) => {
+    setCoverageTypeId(id)
+    setAnswers({})
+    setDocuments([])
+    setResult(null)
+    setFormError(null)
+
+    const response = await getClaimQuestionsAction(id)
+    if (response.success && response.questions) {
+      setQuestions(response.questions)
+    } else {
+      setQuestions([])
+      toast.error(response.error || 'Failed to load questions')
+    }
+  }
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const slot = uploadingFor
+    const selected = Array.from(e.target.files || [])
+    if (fileInputRef.current) fileInputRef.current.value = ''
+    if (!slot || selected.length === 0) return
+
+    const formData = new FormData()
+    selected.forEach((file) => formData.append('files', file))
+
+    const response = await uploadFilesAction(formData)
+    setUploadingFor(null)
+
+    if (!response.success || !response.files) {
+      toast.error(response.error || 'Failed to upload files')
+      return
+    }
+
+    setFiles((prev) => [...prev, ...response.files!])
+    setSlotDocuments(slot, [
+      ...documents.filter((doc) => inSlot(doc, slot)),
+      ...response.files.map((file) => toDocument(file, slot)),
+    ])
+  }
+
+  const toggleFile = (slot: DocumentSlot, file: UploadedFile) => {
+    const current = documents.filter((doc) => inSlot(doc, slot))
+    const next = current.some((doc) => doc.path === file.path)
+      ? current.filter((doc) => doc.path !== file.path)
+      : [...current, toDocument(file, slot)]
+    setSlotDocuments(slot, next)
+  }
+
+  const handleCheck = async () => {
+    if (!policy || !coverageTypeId) return
+
+    setIsChecking(true)
+    setFormError(null)
+    const response = await evaluateClaimAction(coverageTypeId, policy.userPolicyId, answers)
+    setIsChecking(false)
+
+    if (!response.result) {
+      setFormError(response.error || 'Failed to check your answers')
+      return
+    }
+
+    setResult(response.result)
+    const missing = [
+      ...findMissingAnswers(questions, answers, response.result.hiddenQuestions).map(
+        (m) => `Please answer: ${m.questionText}${m.itemIndex !== undefined ? ` (item ${m.itemIndex + 1})` : ''}`
+      ),
+      ...findMissingDocuments(response.result.requiredDocuments, documents).map((m) => m.message),
+    ]
+    setFormError(response.success ? missing[0] || null : response.error || 'Claim has validation errors')
+  }
+
+  const handleSubmit = async () => {
+    if (!policy || !coverageTypeId) return
+
+    setIsSubmitting(true)
+    setFormError(null)
+    const response = await submitClaimAction(sessionId, {
+      userPolicyId: policy.userPolicyId,
+      coverageTypeId,
+      amount: Number(amount),
+      description,
+      answers,
+      documents,
+    })
+    setIsSubmitting(false)
+
+    if (response.success && response.claim && response.session) {
+      toast.success(`Claim ${response.claim.claimNumber} submitted`)
+      onSubmitted(response.claim, response.session)
+      onOpenChange(false)
+    } else {
+      if (response.result) setResult(response.result)
+      setFormError(response.error || 'Failed to submit claim')
+    }
+  }
+
+  const renderFileQuestion = (question: Question, itemIndex?: number) => {
+    const slot: DocumentSlot = { questionId: question.id, itemIndex }
+    const selected = documents.filter((doc) => inSlot(doc, slot))
+    const requirement = result?.requiredDocuments.find(
+      (r) => r.questionId === question.id && r.itemIndex === itemIndex
+    )
+    const isUploading = uploadingFor?.questionId === question.id && uploadingFor.itemIndex === itemIndex
+
+    return (
+      <div className="space-y-2">
+        {requirement && (
+          <p className="text-xs text-orange-600 dark:text-orange-400">
+            {requirement.message || `Required: ${requirement.documentTypes.filter(Boolean).join(', ') || 'documents'}`}
+          </p>
+        )}
+        {files.length > 0 && (
+          <div className="space-y-1">
+            {files.map((file) => (
+              <label key={file.path} className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.some((doc) => doc.path === file.path)}
+                  onChange={() => toggleFile(slot, file)}
+                  className="h-4 w-4 rounded border-black/20 dark:border-white/20"
+                />
+                <span className="truncate text-black dark:text-white">{file.filename}</span>
+              </label>
+            ))}
+          </div>
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={uploadingFor !== null}
+          onClick={() => {
+            setUploadingFor(slot)
+            fileInputRef.current?.click()
+          }}
+          className="gap-1"
+        >
+          <Paperclip className="h-3 w-3" />
+          {isUploading ? 'Uploading...' : 'Upload files'}
+        </Button>
+      </div>
+    )
+  }
+
+  const renderGroupQuestion = (question: Question) => {
+    const items = Array.isArray(answers[question.id]) ? (answers[question.id] as GroupItem[]) : []
+    const children = questions.filter((q) => q.parent_question_id === question.id)
+    const canAdd = question.max_items === null || items.length < question.max_items
+
+    return (
+      <div className="space-y-3">
+        {items.map((item, index) => (
+          <div key={index} className="p-3 border border-black/10 dark:border-white/10 rounded-lg space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-black/60 dark:text-white/60">Item {index + 1}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeGroupItem(question.id, index)}
+                className="text-red-600 dark:text-red-400"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            {children.map((child) => (
+              <div key={child.id} className="space-y-1">
+                <Label className="text-xs">
+                  {child.question_text}
+                  {child.is_required && <span className="text-red-500"> *</span>}
+                </Label>
+                {child.field_type === 'file' ? (
+                  renderFileQuestion(child, index)
+                ) : (
+                  <AnswerInput
+                    question={child}
+                    value={item[child.id]}
+                    onChange={(value) =>
+                      updateAnswer(
+                        question.id,
+                        items.map((existing, i) => (i === index ? { ...existing, [child.id]: value } : existing))
+                      )
+                    }
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={!canAdd}
+          onClick={() => updateAnswer(question.id, [...items, {}])}
+          className="gap-1"
+        >
+          <Plus className="h-3 w-3" />
+          Add item
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Submit a Claim</DialogTitle>
+          <DialogDescription>
+            Choose the policy and coverage you are claiming under and answer the questions. This chat
+            is attached to the claim once it is submitted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept="image/*,.pdf"
+          className="hidden"
+          onChange={handleUpload}
+        />
+
+        {isLoading ? (
+          <p className="py-8 text-center text-sm text-black/60 dark:text-white/60">Loading your policies...</p>
+        ) : policies.length === 0 ? (
+          <p className="py-8 text-center text-sm text-black/60 dark:text-white/60">
+            You have no active policies to claim under.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Policy</Label>
+                <Select value={userPolicyId} onValueChange={handlePolicyChange}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a policy" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {policies.map((p) => (
+                      <SelectItem key={p.userPolicyId} value={p.userPolicyId}>
+                        {p.policyName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Coverage</Label>
+                <Select value={coverageTypeId} onValueChange={handleCoverageTypeChange} disabled={!policy}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select coverage" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(policy?.coverageTypes || []).map((coverage) => (
+                      <SelectItem key={coverage.id} value={coverage.id}>
+                        {coverage.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {coverageTypeId && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>
+                      Amount Claimed ({policy?.currency}) <span className="text-red-500">*</span>
+                    </Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      placeholder="0.00"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>What happened?</Label>
+                  <Textarea
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    placeholder="Describe the incident and what you are claiming for"
+                    rows={3}
+                  />
+                </div>
+
+                {topLevelQuestions.map((question) => (
+                  <div key={question.id} className="space-y-2">
+                    <Label>
+                      {question.question_text}
+                      {question.is_required && <span className="text-red-500"> *</span>}
+                    </Label>
+                    {question.field_type === 'file' ? (
+                      renderFileQuestion(question)
+                    ) : question.field_type === 'group' ? (
+                      renderGroupQuestion(question)
+                    ) : (
+                      <AnswerInput
+                        question={question}
+                        value={answers[question.id]}
+                        onChange={(value) => updateAnswer(question.id, value)}
+                      />
+                    )}
+                    {question.help_text && (
+                      <p className="text-xs text-black/60 dark:text-white/60">{question.help_text}</p>
+                    )}
+                    {(errorsByQuestion[question.id] || []).map((error, index) => (
+                      <p
+                        key={index}
+                        className={
+                          error.severity === 'error'
+                            ? 'text-xs text-red-600 dark:text-red-400'
+                            : 'text-xs text-orange-600 dark:text-orange-400'
+                        }
+                      >
+                        {error.itemIndex !== undefined && `Item ${error.itemIndex + 1}: `}
+                        {error.message}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+
+                {result && (
+                  <div className="space-y-2">
+                    {(errorsByQuestion[''] || []).map((error, index) => (
+                      <p
+                        key={index}
+                        className={
+                          error.severity === 'error'
+                            ? 'flex items-center gap-2 text-sm text-red-600 dark:text-red-400'
+                            : 'flex items-center gap-2 text-sm text-orange-600 dark:text-orange-400'
+                        }
+                      >
+                        <AlertTriangle className="h-4 w-4 shrink-0" />
+                        {error.message}
+                      </p>
+                    ))}
+                    {result.eligibility && (
+                      <p className="text-sm text-black/60 dark:text-white/60">
+                        Eligibility: {getEligibilityStatusDisplayName(result.eligibility.status)}
+                      </p>
+                    )}
+                    {result.passed && !result.blockedSubmission && !formError && (
+                      <p className="flex items-center gap-2 text-sm text-green-600 dark:text-green-400">
+                        <CheckCircle className="h-4 w-4" />
+                        Your answers look good
+                      </p>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+
+            {formError && (
+              <p className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                {formError}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleCheck}
+            disabled={!coverageTypeId || isChecking || isSubmitting}
+          >
+            {isChecking ? 'Checking...' : 'Check Answers'}
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={!coverageTypeId || !amount || isSubmitting}>
+            {isSubmitting ? 'Submitting...' : 'Submit Claim'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { Shield, Calendar, DollarSign } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
+import { getAvailableLimit } from '@/lib/claims/coverage'
 import type { UserPolicyWithPolicy, CoverageItem } from '@/types/user-policies'
 
 interface PoliciesCardProps {
@@ -97,8 +98,10 @@ export function PoliciesCard({ userPolicies }: PoliciesCardProps) {
                   Coverage & Usage
                 </div>
                 {(userPolicy.coverage_items as CoverageItem[]).map((item, idx) => {
+                  const reservedLimit = item.reserved_limit ?? 0
                   const usagePercent = (item.used_limit / item.total_limit) * 100
-                  const remainingLimit = item.total_limit - item.used_limit
+                  const reservedPercent = (reservedLimit / item.total_limit) * 100
+                  const remainingLimit = getAvailableLimit(item)
 
                   return (
                     <div key={idx} className="bg-black/5 dark:bg-white/5 rounded p-3">
@@ -109,26 +112,33 @@ export function PoliciesCard({ userPolicies }: PoliciesCardProps) {
                         </span>
                       </div>
 
-                      {/* Progress Bar */}
-                      <div className="w-full h-2 bg-black/10 dark:bg-white/10 rounded-full overflow-hidden">
+                      {/* Progress Bar: used, then reserved for approved claims */}
+                      <div className="w-full h-2 bg-black/10 dark:bg-white/10 rounded-full overflow-hidden flex">
                         <div
                           className={`h-full transition-all ${
-                            usagePercent > 80
+                            usagePercent + reservedPercent > 80
                               ? 'bg-red-500'
-                              : usagePercent > 50
+                              : usagePercent + reservedPercent > 50
                               ? 'bg-yellow-500'
                               : 'bg-green-500'
                           }`}
                           style={{ width: `${usagePercent}%` }}
                         />
+                        {reservedLimit > 0 && (
+                          <div
+                            className="h-full bg-black/30 dark:bg-white/30 transition-all"
+                            style={{ width: `${reservedPercent}%` }}
+                          />
+                        )}
                       </div>
 
                       <div className="flex items-center justify-between mt-1 text-xs text-black/50 dark:text-white/50">
                         <span>
                           Used: ${item.used_limit.toLocaleString()} of $
                           {item.total_limit.toLocaleString()}
+                          {reservedLimit > 0 && ` • $${reservedLimit.toLocaleString()} pending payout`}
                         </span>
-                        <span>{usagePercent.toFixed(1)}%</span>
+                        <span>{(usagePercent + reservedPercent).toFixed(1)}%</span>
                       </div>
                     </div>
                   )
@@ -0,0 +1,38 @@
+import type { CoverageItem, CoverageUsageEntry } from '@/types/user-policies'
+
+/**
+ * Coverage limit arithmetic for the policy views and payouts. The usage
+ * ledger applies the same rules in the database (apply_coverage_usage in
+ * supabase/migrations).
+ */
+
+export const roundAmount = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * Get the remaining limit of a coverage item (total minus used and reserved)
+ */
+export function getAvailableLimit(item: CoverageItem): number {
+  return roundAmount(item.total_limit - item.used_limit - (item.reserved_limit ?? 0))
+}
+
+/**
+ * Find a policy's coverage item for a coverage type (items are named after it)
+ */
+export function findCoverageItem(items: CoverageItem[], coverageName: string): CoverageItem | undefined {
+  const name = coverageName.trim().toLowerCase()
+  return items.find((item) => item.name.trim().toLowerCase() === name)
+}
+
+/**
+ * Get the limit a claim has taken, paid or still reserved (reserved minus
+ * released; consuming only turns a reservation into used limit)
+ */
+export function getCommittedAmount(entries: CoverageUsageEntry[]): number {
+  return roundAmount(
+    entries.reduce(
+      (total, entry) =>
+        total + (entry.entry_type === 'reserve' ? entry.amount : entry.entry_type === 'release' ? -entry.amount : 0),
+      0
+    )
+  )
+}
@@ -0,0 +1,192 @@
+import { getEligibleAmount } from '@/lib/rules/helpers'
+import { roundAmount } from './coverage'
+import type { EligibilitySummary } from '@/types/rules'
+import type {
+  ClaimStatus,
+  SettlementBasis,
+  SettlementBreakdown,
+  SettlementLineItem,
+  SettlementStep,
+  SettlementTerms,
+} from '@/types/claims'
+
+/**
+ * Claim settlement: what the insurer pays on a claim.
+ *
+ *   claimed amount
+ *   - non-covered line items (± adjuster overrides)
+ *   - rule eligibility (partial coverage caps and percentages)
+ *   - deductible (per incident, or what is left of the annual deductible)
+ *   × co-insurance share
+ *   capped by the coverage limit (per incident, or what is left of the
+ *   annual aggregate) and by what is left of the policy's coverage item
+ */
+
+// Statuses a settlement can be (re)calculated in: after approval the amount
+// is reserved against the coverage limit and must not change
+export const SETTLEMENT_STATUSES: ClaimStatus[] = ['under-review', 'info-requested']
+
+/**
+ * Read the settlement settings stored in a coverage type's metadata
+ * (`coinsurancePercentage`, `deductibleBasis`, `limitBasis`), ignoring
+ * malformed values
+ */
+export function getSettlementSettings(metadata: Record<string, unknown> | null | undefined): {
+  coinsurancePercentage: number | null
+  deductibleBasis: SettlementBasis
+  limitBasis: SettlementBasis
+} {
+  const coinsurance = metadata?.coinsurancePercentage
+  const isBasis = (value: unknown): value is SettlementBasis => value === 'per_incident' || value === 'annual'
+
+  return {
+    coinsurancePercentage:
+      typeof coinsurance === 'number' && coinsurance >= 0 && coinsurance <= 100 ? coinsurance : null,
+    deductibleBasis: isBasis(metadata?.deductibleBasis) ? metadata.deductibleBasis : 'per_incident',
+    limitBasis: isBasis(metadata?.limitBasis) ? metadata.limitBasis : 'per_incident',
+  }
+}
+
+/**
+ * Get the covered amount of a line item (the adjuster's override wins)
+ */
+export function getLineItemCoveredAmount(item: SettlementLineItem): number {
+  if (item.override) return item.override.amount
+  return item.covered ? item.amount : 0
+}
+
+/**
+ * Get the start of the policy year a date falls in (the last anniversary of
+ * the enrollment date on or before it)
+ */
+export function getPolicyYearStart(enrolledAt: string, date: string): Date {
+  const enrolled = new Date(enrolledAt)
+  const target = new Date(date)
+  const start = new Date(enrolled)
+  start.setUTCFullYear(target.getUTCFullYear())
+  if (start > target) start.setUTCFullYear(target.getUTCFullYear() - 1)
+  return start < enrolled ? enrolled : start
+}
+
+/**
+ * Calculate a settlement. Without line items the whole claimed amount is
+ * treated as one covered item.
+ */
+export function calculateSettlement(
+  claimedAmount: number,
+  lineItems: SettlementLineItem[],
+  terms: SettlementTerms,
+  eligibility?: EligibilitySummary
+): SettlementBreakdown {
+  const steps: SettlementStep[] = []
+  let total = 0
+
+  const addStep = (label: string, amount: number, note?: string) => {
+    const next = roundAmount(Math.max(0, amount))
+    steps.push({ label, amount: roundAmount(next - total), total: next, ...(note && { note }) })
+    total = next
+  }
+
+  const items = lineItems.length > 0 ? lineItems : null
+  const claimed = roundAmount(items ? items.reduce((sum, item) => sum + item.amount, 0) : claimedAmount)
+  const nonCovered = roundAmount(
+    items ? items.filter((item) => !item.covered && !item.override).reduce((sum, item) => sum + item.amount, 0) : 0
+  )
+  const adjustment = roundAmount(
+    items
+      ? items
+          .filter((item) => item.override)
+          .reduce((sum, item) => sum + getLineItemCoveredAmount(item) - (item.covered ? item.amount : 0), 0)
+      : 0
+  )
+
+  addStep('Claimed amount', claimed)
+  if (nonCovered > 0) {
+    addStep('Non-covered items', total - nonCovered)
+  }
+  if (adjustment !== 0) {
+    const count = items!.filter((item) => item.override).length
+    addStep('Adjuster overrides', total + adjustment, `${count} item${count !== 1 ? 's' : ''} overridden`)
+  }
+  const covered = total
+
+  const eligible = roundAmount(getEligibleAmount(covered, eligibility))
+  if (eligible !== covered) {
+    addStep('Eligibility', eligible, eligibility?.reasonCodes.join(', ') || undefined)
+  }
+
+  const deductibleDue =
+    terms.deductibleBasis === 'annual'
+      ? Math.max(0, terms.deductible - terms.deductibleMetToDate)
+      : terms.deductible
+  const deductibleApplied = roundAmount(Math.min(deductibleDue, total))
+  if (deductibleApplied > 0) {
+    addStep(
+      'Deductible',
+      total - deductibleApplied,
+      terms.deductibleBasis === 'annual'
+        ? `${terms.deductibleMetToDate.toLocaleString()} of ${terms.deductible.toLocaleString()} annual deductible already met`
+        : undefined
+    )
+  }
+
+  if (terms.coinsurancePercentage !== null && terms.coinsurancePercentage < 100) {
+    addStep('Co-insurance', (total * terms.coinsurancePercentage) / 100, `Insurer pays ${terms.coinsurancePercentage}%`)
+  }
+
+  if (terms.coverageLimit !== null) {
+    const limit =
+      terms.limitBasis === 'annual' ? Math.max(0, terms.coverageLimit - terms.paidToDate) : terms.coverageLimit
+    if (total > limit) {
+      addStep(
+        terms.limitBasis === 'annual' ? 'Annual limit' : 'Per-incident limit',
+        limit,
+        terms.limitBasis === 'annual'
+          ? `${terms.paidToDate.toLocaleString()} of ${terms.coverageLimit.toLocaleString()} already paid this policy year`
+          : undefined
+      )
+    }
+  }
+
+  if (terms.remainingPolicyLimit !== null && total > terms.remainingPolicyLimit) {
+    addStep('Remaining policy limit', terms.remainingPolicyLimit)
+  }
+
+  return {
+    claimedAmount: claimed,
+    nonCoveredAmount: nonCovered,
+    adjustmentAmount: adjustment,
+    coveredAmount: covered,
+    deductibleApplied,
+    payableAmount: total,
+    steps,
+  }
+}
+
+/**
+ * Check line items before a settlement is saved: amounts must be valid, every
+ * override needs a justification and together the items cannot exceed the
+ * claimed amount (paying more than was claimed takes a justified override)
+ */
+export function validateSettlementLineItems(lineItems: SettlementLineItem[], claimedAmount: number): string | null {
+  for (const item of lineItems) {
+    const name = item.description.trim()
+    if (!name) return 'Every line item needs a description'
+    if (!Number.isFinite(item.amount) || item.amount < 0) return `${name}: amount must be zero or more`
+    if (item.override) {
+      if (!Number.isFinite(item.override.amount) || item.override.amount < 0) {
+        return `${name}: override amount must be zero or more`
+      }
+      if (!item.override.justification.trim()) return `${name}: explain why the amount is overridden`
+    }
+  }
+
+  const total = roundAmount(lineItems.reduce((sum, item) => sum + item.amount, 0))
+  if (total > roundAmount(claimedAmount)) {
+    return (
+      `Line items total ${total.toLocaleString()}, more than the ${claimedAmount.toLocaleString()} claimed. ` +
+      'Override an item with a justification to pay more.'
+    )
+  }
+  return null
+}
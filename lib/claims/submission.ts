@@ -0,0 +1,122 @@
+import type { Question } from '@/types/policies'
+import type { DocumentRequirement } from '@/types/rules'
+import type { ClaimSubmissionDocument } from '@/types/claims'
+
+/**
+ * Claim submission checks shared by the claim form and submitClaimAction.
+ * The rules engine decides what is valid; these cover what the engine does
+ * not: required questions and the document uploads rules asked for.
+ */
+
+// No 0/O or 1/I, so claim numbers can be read out over the phone
+const CLAIM_NUMBER_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+/**
+ * Generate a claim number like CLM-2026-7KQ2XM
+ */
+export function generateClaimNumber(date: Date = new Date()): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(6))
+  const suffix = Array.from(bytes, (byte) => CLAIM_NUMBER_ALPHABET[byte % CLAIM_NUMBER_ALPHABET.length]).join('')
+  return `CLM-${date.getFullYear()}-${suffix}`
+}
+
+/**
+ * Check whether an answer counts as given
+ */
+export function isAnswered(value: unknown): boolean {
+  if (value === null || value === undefined) return false
+  if (typeof value === 'string') return value.trim() !== ''
+  if (Array.isArray(value)) return value.length > 0
+  if (typeof value === 'number') return !Number.isNaN(value)
+  return true
+}
+
+/**
+ * Find required questions without an answer. Questions hidden by the rules
+ * are skipped; required questions of a repeatable group are checked on
+ * every item (reported as `<group id>.<question id>` with the item index).
+ */
+export function findMissingAnswers(
+  questions: Question[],
+  answers: Record<string, unknown>,
+  hiddenQuestions: Iterable<string> = []
+): Array<{ questionId: string; questionText: string; itemIndex?: number }> {
+  const hidden = new Set(hiddenQuestions)
+  const missing: Array<{ questionId: string; questionText: string; itemIndex?: number }> = []
+
+  for (const question of questions) {
+    if (question.parent_question_id || hidden.has(question.id)) continue
+
+    if (question.is_required && !isAnswered(answers[question.id])) {
+      missing.push({ questionId: question.id, questionText: question.question_text })
+      continue
+    }
+
+    if (question.field_type !== 'group' || !Array.isArray(answers[question.id])) continue
+
+    const children = questions.filter((q) => q.parent_question_id === question.id && q.is_required)
+    ;(answers[question.id] as Array<Record<string, unknown>>).forEach((item, itemIndex) => {
+      for (const child of children) {
+        if (!isAnswered(item?.[child.id])) {
+          missing.push({ questionId: `${question.id}.${child.id}`, questionText: child.question_text, itemIndex })
+        }
+      }
+    })
+  }
+
+  return missing
+}
+
+/**
+ * Find document requirements that the attached documents do not meet: too
+ * few or too many files for the question, or files of a format it does not
+ * allow. A requirement from a per-item rule only counts the files attached
+ * to its item of the repeatable group.
+ */
+export function findMissingDocuments(
+  requirements: DocumentRequirement[],
+  documents: ClaimSubmissionDocument[]
+): Array<{ requirement: DocumentRequirement; message: string }> {
+  const missing: Array<{ requirement: DocumentRequirement; message: string }> = []
+
+  for (const requirement of requirements) {
+    const attached = documents.filter(
+      (doc) =>
+        doc.questionId === requirement.questionId &&
+        (requirement.itemIndex === undefined || doc.itemIndex === requirement.itemIndex)
+    )
+    const types = requirement.documentTypes.filter(Boolean).join(', ') || 'documents'
+
+    if (attached.length < requirement.minFiles) {
+      missing.push({
+        requirement,
+        message:
+          requirement.message ||
+          `Please upload ${requirement.minFiles} file${requirement.minFiles !== 1 ? 's' : ''} (${types})`,
+      })
+      continue
+    }
+
+    if (attached.length > requirement.maxFiles) {
+      missing.push({
+        requirement,
+        message: `Please upload at most ${requirement.maxFiles} file${requirement.maxFiles !== 1 ? 's' : ''} (${types})`,
+      })
+      continue
+    }
+
+    const formats = requirement.allowedFormats.map((f) => f.replace(/^\./, '').toLowerCase()).filter(Boolean)
+    const wrongFormat = attached.find((doc) => {
+      const extension = doc.name.split('.').pop()?.toLowerCase() || ''
+      return formats.length > 0 && !formats.includes(extension)
+    })
+    if (wrongFormat) {
+      missing.push({
+        requirement,
+        message: `${wrongFormat.name}: only ${formats.join(', ')} files are accepted`,
+      })
+    }
+  }
+
+  return missing
+}
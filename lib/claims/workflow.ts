@@ -0,0 +1,168 @@
+import type { ClaimStatus, ClaimTransition, ClaimTransitionAction } from '@/types/claims'
+
+/**
+ * Claim workflow: submitted → under review (→ info requested → under review)
+ * → approved / partially approved / rejected → paid → closed. Rejected and
+ * partially approved claims can be appealed back into review, and closed
+ * claims reopened. Only the transitions listed here are allowed; the server
+ * checks them again before changing a claim.
+ *
+ * Approving reserves the claim's settled amount (its eligible amount when no
+ * settlement was calculated) from the policy's coverage limit, paying
+ * consumes the reservation and leaving the approved states any other way
+ * releases it.
+ */
+
+export const CLAIM_STATUSES: ClaimStatus[] = [
+  'submitted',
+  'under-review',
+  'info-requested',
+  'approved',
+  'partially-approved',
+  'rejected',
+  'appealed',
+  'paid',
+  'closed',
+]
+
+const claimStatusNames: Record<ClaimStatus, string> = {
+  submitted: 'Submitted',
+  'under-review': 'Under Review',
+  'info-requested': 'Info Requested',
+  approved: 'Approved',
+  'partially-approved': 'Partially Approved',
+  rejected: 'Rejected',
+  appealed: 'Appealed',
+  paid: 'Paid',
+  closed: 'Closed',
+}
+
+export const CLAIM_TRANSITIONS: ClaimTransition[] = [
+  {
+    action: 'start_review',
+    label: 'Start Review',
+    from: ['submitted'],
+    to: 'under-review',
+    requiresReason: false,
+    tone: 'default',
+  },
+  {
+    action: 'request_info',
+    label: 'Request Info',
+    from: ['under-review'],
+    to: 'info-requested',
+    requiresReason: true,
+    tone: 'default',
+  },
+  {
+    action: 'provide_info',
+    label: 'Info Received',
+    from: ['info-requested'],
+    to: 'under-review',
+    requiresReason: false,
+    tone: 'default',
+  },
+  {
+    action: 'approve',
+    label: 'Approve',
+    from: ['under-review'],
+    to: 'approved',
+    requiresReason: false,
+    tone: 'positive',
+    coverage: 'reserve',
+  },
+  {
+    action: 'partially_approve',
+    label: 'Partially Approve',
+    from: ['under-review'],
+    to: 'partially-approved',
+    requiresReason: true,
+    tone: 'positive',
+    coverage: 'reserve',
+  },
+  {
+    action: 'reject',
+    label: 'Reject',
+    from: ['under-review'],
+    to: 'rejected',
+    requiresReason: true,
+    tone: 'negative',
+    coverage: 'release',
+  },
+  {
+    action: 'mark_paid',
+    label: 'Mark Paid',
+    from: ['approved', 'partially-approved'],
+    to: 'paid',
+    requiresReason: false,
+    tone: 'positive',
+    coverage: 'consume',
+  },
+  {
+    action: 'close',
+    label: 'Close',
+    from: ['info-requested', 'rejected', 'paid'],
+    to: 'closed',
+    requiresReason: false,
+    tone: 'default',
+    coverage: 'release',
+  },
+  {
+    action: 'appeal',
+    label: 'Record Appeal',
+    from: ['rejected', 'partially-approved'],
+    to: 'appealed',
+    requiresReason: true,
+    tone: 'default',
+    coverage: 'release',
+  },
+  {
+    action: 'review_appeal',
+    label: 'Review Appeal',
+    from: ['appealed'],
+    to: 'under-review',
+    requiresReason: false,
+    tone: 'default',
+  },
+  {
+    action: 'reopen',
+    label: 'Reopen',
+    from: ['closed'],
+    to: 'under-review',
+    requiresReason: true,
+    tone: 'default',
+    coverage: 'release',
+  },
+]
+
+/**
+ * Get display name for a claim status
+ */
+export function getClaimStatusDisplayName(status: ClaimStatus): string {
+  return claimStatusNames[status] || status
+}
+
+/**
+ * Get display name for a transition, including the initial submission
+ */
+export function getClaimTransitionDisplayName(action: ClaimTransitionAction): string {
+  if (action === 'submit') return 'Submitted'
+  return CLAIM_TRANSITIONS.find((t) => t.action === action)?.label || action
+}
+
+/**
+ * Get the transitions that can be made from a status
+ */
+export function getAvailableTransitions(status: ClaimStatus): ClaimTransition[] {
+  return CLAIM_TRANSITIONS.filter((t) => t.from.includes(status))
+}
+
+/**
+ * Get a transition if it can be made from the status
+ */
+export function findTransition(
+  status: ClaimStatus,
+  action: ClaimTransitionAction
+): ClaimTransition | undefined {
+  return CLAIM_TRANSITIONS.find((t) => t.action === action && t.from.includes(status))
+}
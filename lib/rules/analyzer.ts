@@ -0,0 +1,478 @@
+import type { Rule, Question } from '@/types/policies'
+import type {
+  RuleAction,
+  RuleCondition,
+  ConditionNode,
+  RuleLintFinding,
+} from '@/types/rules'
+import {
+  normalizeConditionTree,
+  flattenConditions,
+  isConditionGroup,
+  isNotCondition,
+  isConditionReference,
+  formatConditionField,
+} from './conditions'
+import { parseFormula, getFormulaReferences } from './formula'
+import { getOperatorsForFieldType, getOperatorDisplayName } from './helpers'
+import { isKnownOperator } from './operators'
+
+/**
+ * Static rule-set analyzer
+ *
+ * Checks a coverage type's rules against its questions without evaluating
+ * anything:
+ * - Unknown references: condition fields, field/expression values, action
+ *   targets and formula references that are neither a question nor a
+ *   calculated field
+ * - Contradictory show/hide pairs between rules of equal priority
+ * - Shadowed rules whose visibility actions are always undone by a later rule
+ *   with the same conditions, or that duplicate another rule outright
+ * - Unreachable conditions (between with min > max, empty `in` lists,
+ *   contradictory leaves in the same AND group, ...)
+ * - Invalid regex patterns
+ * - Operators that do not apply to the question's field type
+ * - Aggregates over non-group fields and per-item rules over unknown groups
+ */
+
+const ACTIONS_WITH_QUESTION_TARGET = new Set<RuleAction['type']>([
+  'show_question',
+  'hide_question',
+  'set_value',
+  'require_document',
+])
+
+/**
+ * Analyze a rule set and return every finding, errors first
+ */
+export function analyzeRules(rules: Rule[], questions: Question[]): RuleLintFinding[] {
+  const findings: RuleLintFinding[] = []
+  const questionsById = new Map(questions.map((q) => [q.id, q]))
+
+  // Fields written by set_value / calculate_value can be referenced like answers
+  const computedFields = new Set<string>()
+  for (const rule of rules) {
+    for (const action of parseActions(rule.actions)) {
+      if (action.type === 'set_value' && action.targetQuestionId) computedFields.add(action.targetQuestionId)
+      if (action.type === 'calculate_value' && action.targetField) computedFields.add(action.targetField)
+    }
+  }
+
+  const isKnownField = (field: string) =>
+    questionsById.has(field) || computedFields.has(field) || !!getGroupItemQuestion(field, questionsById)
+
+  for (const rule of rules) {
+    const tree = normalizeConditionTree(rule.conditions)
+    const actions = parseActions(rule.actions)
+
+    if (rule.for_each && questionsById.get(rule.for_each)?.field_type !== 'group') {
+      findings.push({
+        ruleId: rule.id,
+        code: 'unknown_reference',
+        severity: 'error',
+        message: `Rule repeats for each item of "${rule.for_each}", which is not a repeatable group question`,
+      })
+    }
+
+    for (const condition of flattenConditions(tree)) {
+      checkCondition(rule, condition, questionsById, isKnownField, findings)
+    }
+
+    for (const message of findUnreachableGroups(tree)) {
+      findings.push({ ruleId: rule.id, code: 'unreachable_condition', severity: 'error', message })
+    }
+
+    for (const action of actions) {
+      checkActionReferences(rule, action, questionsById, isKnownField, findings)
+    }
+  }
+
+  findVisibilityConflicts(rules.filter((rule) => rule.is_active), findings)
+
+  return findings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+}
+
+/**
+ * Group findings by rule ID (for per-rule badges)
+ */
+export function groupFindingsByRule(findings: RuleLintFinding[]): Record<string, RuleLintFinding[]> {
+  return findings.reduce(
+    (acc, finding) => {
+      if (!acc[finding.ruleId]) {
+        acc[finding.ruleId] = []
+      }
+      acc[finding.ruleId].push(finding)
+      return acc
+    },
+    {} as Record<string, RuleLintFinding[]>
+  )
+}
+
+function parseActions(actions: unknown): RuleAction[] {
+  if (typeof actions === 'string') {
+    try {
+      const parsed = JSON.parse(actions)
+      return Array.isArray(parsed) ? parsed : []
+    } catch {
+      return []
+    }
+  }
+  return Array.isArray(actions) ? (actions as RuleAction[]) : []
+}
+
+function checkCondition(
+  rule: Rule,
+  condition: RuleCondition,
+  questionsById: Map<string, Question>,
+  isKnownField: (field: string) => boolean,
+  findings: RuleLintFinding[]
+): void {
+  const push = (code: RuleLintFinding['code'], severity: RuleLintFinding['severity'], message: string) =>
+    findings.push({ ruleId: rule.id, code, severity, message })
+
+  if (condition.field && !isKnownField(condition.field)) {
+    push('unknown_reference', 'error', `Condition references unknown field "${condition.field}"`)
+  }
+
+  for (const message of checkValueReferences(condition, isKnownField)) {
+    push('unknown_reference', 'error', message)
+  }
+
+  if (!isKnownOperator(condition.operator)) {
+    push('unknown_operator', 'error', `Unknown operator "${condition.operator}" - the condition never matches`)
+  }
+
+  const question = questionsById.get(condition.field) || getGroupItemQuestion(condition.field, questionsById)
+  const isGroupField =
+    questionsById.get(condition.field)?.field_type === 'group' ||
+    !!getGroupItemQuestion(condition.field, questionsById)
+
+  if (condition.aggregate && question && !isGroupField) {
+    push(
+      'operator_type_mismatch',
+      'warning',
+      `"${condition.aggregate}" only applies to repeatable group fields, but "${question.question_text}" is not one`
+    )
+  }
+
+  if (question) {
+    // count/sum/min/max/avg compare a number, whatever the item field's type
+    const fieldType =
+      condition.aggregate && condition.aggregate !== 'any' && condition.aggregate !== 'all'
+        ? 'number'
+        : question.field_type
+    const allowed = getOperatorsForFieldType(fieldType)
+    if (allowed.length > 0 && !allowed.includes(condition.operator) && isKnownOperator(condition.operator)) {
+      push(
+        'operator_type_mismatch',
+        'warning',
+        fieldType === question.field_type
+          ? `"${getOperatorDisplayName(condition.operator)}" does not apply to ${question.field_type} question "${question.question_text}"`
+          : `"${getOperatorDisplayName(condition.operator)}" does not apply to the ${condition.aggregate} of "${question.question_text}"`
+      )
+    }
+
+    if (
+      question.field_type === 'select' &&
+      question.options &&
+      question.options.length > 0 &&
+      condition.operator === 'equals' &&
+      typeof condition.value === 'string' &&
+      !question.options.includes(condition.value)
+    ) {
+      push(
+        'unreachable_condition',
+        'error',
+        `"${condition.value}" is not an option of "${question.question_text}", so this condition is never true`
+      )
+    }
+  }
+
+  const unreachable = describeUnreachableLeaf(condition)
+  if (unreachable) {
+    push('unreachable_condition', 'error', unreachable)
+  }
+
+  if (condition.operator === 'regex' && !isConditionReference(condition.value)) {
+    if (typeof condition.value !== 'string') {
+      push('invalid_regex', 'error', `Pattern for "${condition.field}" must be a string`)
+    } else {
+      try {
+        new RegExp(condition.value)
+      } catch (error) {
+        push(
+          'invalid_regex',
+          'error',
+          `Invalid pattern for "${condition.field}": ${error instanceof Error ? error.message : String(error)}`
+        )
+      }
+    }
+  }
+}
+
+/**
+ * Look up the child question behind a repeatable group item field (`group.child`)
+ */
+function getGroupItemQuestion(field: string, questionsById: Map<string, Question>): Question | undefined {
+  const dot = field.indexOf('.')
+  if (dot === -1) return undefined
+
+  const group = questionsById.get(field.slice(0, dot))
+  const child = questionsById.get(field.slice(dot + 1))
+
+  return group?.field_type === 'group' && child?.parent_question_id === group.id ? child : undefined
+}
+
+/**
+ * Check field and expression references on the value side of a condition
+ */
+function checkValueReferences(condition: RuleCondition, isKnownField: (field: string) => boolean): string[] {
+  const values = Array.isArray(condition.value) ? condition.value : [condition.value]
+  const messages: string[] = []
+
+  for (const value of values) {
+    if (!isConditionReference(value)) continue
+
+    if (value.type === 'field' && !isKnownField(value.field)) {
+      messages.push(`Condition on "${condition.field}" compares against unknown field "${value.field}"`)
+    }
+
+    if (value.type === 'expression') {
+      let references: string[]
+      try {
+        references = getFormulaReferences(parseFormula(value.formula))
+      } catch (error) {
+        messages.push(
+          `Expression for "${condition.field}" is invalid: ${error instanceof Error ? error.message : String(error)}`
+        )
+        continue
+      }
+
+      for (const name of references) {
+        if (!name.startsWith('metadata.') && !isKnownField(name)) {
+          messages.push(`Expression for "${condition.field}" references unknown field "${name}"`)
+        }
+      }
+    }
+  }
+
+  return messages
+}
+
+function checkActionReferences(
+  rule: Rule,
+  action: RuleAction,
+  questionsById: Map<string, Question>,
+  isKnownField: (field: string) => boolean,
+  findings: RuleLintFinding[]
+): void {
+  if (
+    ACTIONS_WITH_QUESTION_TARGET.has(action.type) &&
+    action.targetQuestionId &&
+    !questionsById.has(action.targetQuestionId) &&
+    !getGroupItemQuestion(action.targetQuestionId, questionsById) &&
+    // set_value may target a computed field that is only read by other rules
+    action.type !== 'set_value'
+  ) {
+    findings.push({
+      ruleId: rule.id,
+      code: 'unknown_reference',
+      severity: 'error',
+      message: `Action "${action.type}" targets unknown question "${action.targetQuestionId}"`,
+    })
+  }
+
+  if (action.type === 'calculate_value' && action.formula) {
+    let references: string[]
+    try {
+      references = getFormulaReferences(parseFormula(action.formula))
+    } catch {
+      // Syntax errors are reported by the editor and at evaluation time
+      return
+    }
+
+    for (const name of references) {
+      if (!name.startsWith('metadata.') && !isKnownField(name)) {
+        findings.push({
+          ruleId: rule.id,
+          code: 'unknown_reference',
+          severity: 'error',
+          message: `Formula for "${action.targetField}" references unknown field "${name}"`,
+        })
+      }
+    }
+  }
+}
+
+/**
+ * Explain why a single condition can never be true, if it can't
+ */
+function describeUnreachableLeaf(condition: RuleCondition): string | null {
+  const { field, operator, value } = condition
+
+  if ((operator === 'between' || operator === 'date_between') && Array.isArray(value) && value.length === 2) {
+    const [min, max] =
+      operator === 'between'
+        ? [Number(value[0]), Number(value[1])]
+        : [new Date(value[0] as string).getTime(), new Date(value[1] as string).getTime()]
+
+    if (!isNaN(min) && !isNaN(max) && min > max) {
+      return `"${field}" between ${JSON.stringify(value[0])} and ${JSON.stringify(value[1])} is never true (min is greater than max)`
+    }
+  }
+
+  if ((operator === 'between' || operator === 'date_between') && (!Array.isArray(value) || value.length !== 2)) {
+    return `"${field}" ${getOperatorDisplayName(operator)} needs exactly two values, so it is never true`
+  }
+
+  if (
+    (operator === 'business_days_between' || operator === 'age_at_date') &&
+    typeof value === 'object' &&
+    value !== null
+  ) {
+    const { min, max } = value as { min?: unknown; max?: unknown }
+    if (min != null && max != null && Number(min) > Number(max)) {
+      return `"${field}" ${getOperatorDisplayName(operator)} ${min} to ${max} is never true (min is greater than max)`
+    }
+  }
+
+  if (operator === 'in' && (!Array.isArray(value) || value.length === 0)) {
+    return `"${field}" is one of an empty list, so it is never true`
+  }
+
+  return null
+}
+
+/**
+ * Find AND groups whose leaves on the same field contradict each other
+ */
+function findUnreachableGroups(node: ConditionNode): string[] {
+  if (isNotCondition(node)) return findUnreachableGroups(node.condition)
+  if (!isConditionGroup(node)) return []
+
+  const messages = node.conditions.flatMap(findUnreachableGroups)
+  if (node.operator !== 'AND') return messages
+
+  const leavesByField = new Map<string, RuleCondition[]>()
+  for (const child of node.conditions) {
+    if (isConditionGroup(child) || isNotCondition(child)) continue
+    // sum(x) and count(x) are different quantities, so key by the aggregated field
+    const key = formatConditionField(child)
+    leavesByField.set(key, [...(leavesByField.get(key) || []), child])
+  }
+
+  for (const [field, leaves] of leavesByField) {
+    const contradiction = findContradiction(leaves)
+    if (contradiction) {
+      messages.push(`Conditions on "${field}" can never all be true: ${contradiction}`)
+    }
+  }
+
+  return messages
+}
+
+function findContradiction(leaves: RuleCondition[]): string | null {
+  const operators = new Set(leaves.map((leaf) => leaf.operator))
+
+  if (operators.has('is_empty') && leaves.some((leaf) => leaf.operator !== 'is_empty')) {
+    return 'it is required to be empty and to have a value'
+  }
+
+  // References resolve at evaluation time, so only literal values can contradict
+  leaves = leaves.filter((leaf) => !isConditionReference(leaf.value))
+
+  const equalsValues = leaves
+    .filter((leaf) => leaf.operator === 'equals')
+    .map((leaf) => JSON.stringify(leaf.value))
+  if (new Set(equalsValues).size > 1) {
+    return `it cannot equal ${equalsValues.join(' and ')} at once`
+  }
+
+  // Numeric bounds: the lowest upper bound must stay above the highest lower bound
+  let lower = -Infinity
+  let lowerInclusive = true
+  let upper = Infinity
+  let upperInclusive = true
+
+  for (const leaf of leaves) {
+    const n = Number(leaf.value)
+    if (leaf.value === null || leaf.value === '' || isNaN(n)) continue
+
+    if ((leaf.operator === 'greater_than' || leaf.operator === 'greater_than_or_equal') && n >= lower) {
+      lowerInclusive = n === lower ? lowerInclusive && leaf.operator === 'greater_than_or_equal' : leaf.operator === 'greater_than_or_equal'
+      lower = n
+    }
+    if ((leaf.operator === 'less_than' || leaf.operator === 'less_than_or_equal') && n <= upper) {
+      upperInclusive = n === upper ? upperInclusive && leaf.operator === 'less_than_or_equal' : leaf.operator === 'less_than_or_equal'
+      upper = n
+    }
+  }
+
+  if (lower > upper || (lower === upper && !(lowerInclusive && upperInclusive))) {
+    return `no number is ${lowerInclusive ? '>=' : '>'} ${lower} and ${upperInclusive ? '<=' : '<'} ${upper}`
+  }
+
+  return null
+}
+
+/**
+ * Report show/hide conflicts on the same question between active rules
+ */
+function findVisibilityConflicts(activeRules: Rule[], findings: RuleLintFinding[]): void {
+  // Same evaluation order as RulesEngine: higher priority first, stable otherwise
+  const ordered = [...activeRules].sort((a, b) => b.priority - a.priority)
+  const conditionKeys = new Map(
+    ordered.map((rule) => [rule.id, JSON.stringify(normalizeConditionTree(rule.conditions))])
+  )
+
+  const visibilityTargets = (rule: Rule) =>
+    parseActions(rule.actions)
+      .filter((a) => (a.type === 'show_question' || a.type === 'hide_question') && a.targetQuestionId)
+      .map((a) => ({ type: a.type, target: a.targetQuestionId! }))
+
+  for (let i = 0; i < ordered.length; i++) {
+    const earlier = ordered[i]
+    const earlierTargets = visibilityTargets(earlier)
+
+    for (let j = i + 1; j < ordered.length; j++) {
+      const later = ordered[j]
+      const sameConditions = conditionKeys.get(earlier.id) === conditionKeys.get(later.id)
+      const laterTargets = visibilityTargets(later)
+
+      for (const { type, target } of earlierTargets) {
+        const opposing = laterTargets.find((t) => t.target === target && t.type !== type)
+        if (!opposing) continue
+
+        if (earlier.priority === later.priority) {
+          const message = (other: Rule) =>
+            `Question "${target}" is both shown and hidden by this rule and "${other.name}" at the same priority (${earlier.priority}); the outcome depends on rule order`
+          findings.push(
+            { ruleId: earlier.id, code: 'contradictory_visibility', severity: 'warning', message: message(later), relatedRuleIds: [later.id] },
+            { ruleId: later.id, code: 'contradictory_visibility', severity: 'warning', message: message(earlier), relatedRuleIds: [earlier.id] }
+          )
+        } else if (sameConditions) {
+          findings.push({
+            ruleId: earlier.id,
+            code: 'shadowed_rule',
+            severity: 'warning',
+            message: `"${type === 'show_question' ? 'Show' : 'Hide'}" of question "${target}" is always undone by lower-priority rule "${later.name}" with the same conditions`,
+            relatedRuleIds: [later.id],
+          })
+        }
+      }
+
+      if (
+        sameConditions &&
+        JSON.stringify(parseActions(earlier.actions)) === JSON.stringify(parseActions(later.actions))
+      ) {
+        findings.push({
+          ruleId: later.id,
+          code: 'shadowed_rule',
+          severity: 'warning',
+          message: `Duplicates rule "${earlier.name}" (same conditions and actions), so it never changes the outcome`,
+          relatedRuleIds: [earlier.id],
+        })
+      }
+    }
+  }
+}
@@ -0,0 +1,546 @@
+import type {
+  CoverageType,
+  Question,
+  Rule,
+  FieldType,
+  RuleBundle,
+  RuleBundleQuestion,
+  RuleBundleRule,
+  RuleBundleConflictStrategy,
+  RuleBundleImportEntry,
+  RuleBundleImportPlan,
+} from '@/types/policies'
+import type { LocalizedMessages } from '@/types/rules'
+import { isConditionReference, isLeafCondition } from './conditions'
+import { validateRuleCondition, validateConditionNode, validateRuleAction } from './helpers'
+import { stableStringify } from './versioning'
+
+/**
+ * Rule bundles - portable import/export of a coverage type's questions and rules
+ *
+ * Question IDs differ between environments, so bundles refer to questions by
+ * a key derived from the question text (`trip_cost`). Every place a rule can
+ * name a question is remapped: condition fields (including `group.child`),
+ * field/expression references, action targets and formulas, message
+ * placeholders, the linked `question_id`, `for_each` and `applies_to`.
+ * Names that are not questions (calculated fields) are kept and never
+ * collide with a key.
+ *
+ * On import, questions are matched by key and rules by name; conflicts
+ * (a match whose content differs) are skipped, overwritten or duplicated.
+ */
+
+export const RULE_BUNDLE_FORMAT = 'claimly.rule-bundle'
+export const RULE_BUNDLE_VERSION = 1
+
+const FIELD_TYPES: FieldType[] = ['text', 'number', 'date', 'file', 'select', 'group']
+const RULE_TYPES: Rule['rule_type'][] = ['conditional', 'validation', 'document', 'eligibility', 'calculation']
+const QUESTION_TARGET_ACTIONS = ['show_question', 'hide_question', 'require_document']
+
+type NameMapper = (name: string) => string | undefined
+type CoverageTypeRef = Pick<CoverageType, 'id' | 'slug'>
+
+// ========================================
+// EXPORT
+// ========================================
+
+/**
+ * Build a bundle from a coverage type's questions and rules.
+ * `coverageTypes` resolves other coverage types named in `applies_to` to slugs.
+ */
+export function createRuleBundle(
+  coverageType: CoverageType,
+  questions: Question[],
+  rules: Rule[],
+  coverageTypes: CoverageTypeRef[] = []
+): RuleBundle {
+  const questionIds = new Set(questions.map((q) => q.id))
+  const keyById = getQuestionKeys(questions, getNonQuestionNames(rules, questionIds))
+  const slugById = new Map([...coverageTypes, coverageType].map((ct) => [ct.id, ct.slug]))
+
+  return {
+    format: RULE_BUNDLE_FORMAT,
+    version: RULE_BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    coverage_type: {
+      name: coverageType.name,
+      slug: coverageType.slug,
+      description: coverageType.description,
+      category: coverageType.category,
+      icon: coverageType.icon,
+      metadata: coverageType.metadata,
+    },
+    questions: sortQuestions(questions).map((q) => toBundleQuestion(q, keyById)),
+    rules: [...rules]
+      .sort((a, b) => b.priority - a.priority || a.name.localeCompare(b.name))
+      .map((rule) => toBundleRule(rule, keyById, slugById)),
+  }
+}
+
+/**
+ * Derive a stable key per question (question ID -> key). Keys are slugs of
+ * the question text, suffixed when two questions (or a reserved name) collide.
+ */
+export function getQuestionKeys(questions: Question[], reserved: Iterable<string> = []): Map<string, string> {
+  const used = new Set(reserved)
+  const keys = new Map<string, string>()
+
+  for (const question of sortQuestions(questions)) {
+    const base = slugify(question.question_text)
+    let key = base
+    for (let n = 2; used.has(key); n++) key = `${base}_${n}`
+
+    used.add(key)
+    keys.set(question.id, key)
+  }
+
+  return keys
+}
+
+function toBundleQuestion(question: Question, keyById: Map<string, string>): RuleBundleQuestion {
+  return {
+    key: keyById.get(question.id)!,
+    parent_key: question.parent_question_id ? (keyById.get(question.parent_question_id) ?? null) : null,
+    question_text: question.question_text,
+    field_type: question.field_type,
+    is_required: question.is_required,
+    options: question.options,
+    order_index: question.order_index,
+    placeholder: question.placeholder,
+    help_text: question.help_text,
+    max_items: question.max_items,
+  }
+}
+
+function toBundleRule(
+  rule: Rule,
+  keyById: Map<string, string>,
+  slugById: Map<string, string>
+): RuleBundleRule {
+  const mapped = mapRuleReferences(rule, (name) => keyById.get(name), (id) => slugById.get(id))
+
+  return {
+    question_id: mapped.question_id ?? null,
+    rule_type: mapped.rule_type,
+    name: mapped.name,
+    description: mapped.description,
+    conditions: mapped.conditions,
+    actions: mapped.actions,
+    priority: mapped.priority,
+    is_active: mapped.is_active,
+    error_message: mapped.error_message,
+    error_messages: mapped.error_messages ?? null,
+    category: mapped.category,
+    tags: mapped.tags || [],
+    effective_from: mapped.effective_from,
+    effective_until: mapped.effective_until,
+    applies_to: mapped.applies_to,
+    for_each: mapped.for_each,
+  }
+}
+
+// ========================================
+// VALIDATION
+// ========================================
+
+/**
+ * Validate an uploaded bundle. Returns the bundle when it is structurally
+ * valid; rule conditions and actions are checked with the same validators
+ * the rule editor uses.
+ */
+export function parseRuleBundle(input: unknown): { bundle: RuleBundle | null; errors: string[] } {
+  const errors: string[] = []
+
+  if (typeof input !== 'object' || input === null) {
+    return { bundle: null, errors: ['Bundle must be a JSON object'] }
+  }
+
+  const bundle = input as RuleBundle
+
+  if (bundle.format !== RULE_BUNDLE_FORMAT) {
+    return { bundle: null, errors: ['Not a rule bundle (missing or unknown "format")'] }
+  }
+  if (!Number.isInteger(bundle.version) || bundle.version < 1) {
+    errors.push('Bundle version is missing')
+  } else if (bundle.version > RULE_BUNDLE_VERSION) {
+    errors.push(`Bundle version ${bundle.version} is newer than supported (${RULE_BUNDLE_VERSION})`)
+  }
+  if (!Array.isArray(bundle.questions) || !Array.isArray(bundle.rules)) {
+    return { bundle: null, errors: [...errors, 'Bundle must contain "questions" and "rules" arrays'] }
+  }
+
+  const questionsByKey = new Map<string, RuleBundleQuestion>()
+
+  bundle.questions.forEach((question, index) => {
+    const label = `Question ${index + 1}`
+
+    if (typeof question?.key !== 'string' || !question.key) {
+      errors.push(`${label}: missing key`)
+      return
+    }
+    if (questionsByKey.has(question.key)) {
+      errors.push(`${label}: duplicate key "${question.key}"`)
+    }
+    questionsByKey.set(question.key, question)
+
+    if (typeof question.question_text !== 'string' || !question.question_text.trim()) {
+      errors.push(`${label} (${question.key}): missing question text`)
+    }
+    if (!FIELD_TYPES.includes(question.field_type)) {
+      errors.push(`${label} (${question.key}): unknown field type "${question.field_type}"`)
+    }
+    if (question.options != null && !(Array.isArray(question.options) && question.options.every((o) => typeof o === 'string'))) {
+      errors.push(`${label} (${question.key}): options must be a list of text`)
+    }
+  })
+
+  for (const question of bundle.questions) {
+    if (!question?.parent_key) continue
+    if (questionsByKey.get(question.parent_key)?.field_type !== 'group') {
+      errors.push(`Question "${question.key}": parent "${question.parent_key}" is not a group question in the bundle`)
+    }
+  }
+
+  const ruleNames = new Set<string>()
+
+  bundle.rules.forEach((rule, index) => {
+    if (typeof rule?.name !== 'string' || !rule.name.trim()) {
+      errors.push(`Rule ${index + 1}: missing name`)
+      return
+    }
+
+    const label = `Rule "${rule.name}"`
+
+    if (ruleNames.has(rule.name)) {
+      errors.push(`${label}: duplicate name (rules are matched by name)`)
+    }
+    ruleNames.add(rule.name)
+
+    if (!RULE_TYPES.includes(rule.rule_type)) {
+      errors.push(`${label}: unknown rule type "${rule.rule_type}"`)
+    }
+    if (typeof rule.priority !== 'number') {
+      errors.push(`${label}: priority must be a number`)
+    }
+
+    const conditionsValid = Array.isArray(rule.conditions)
+      ? rule.conditions.every(validateRuleCondition)
+      : validateConditionNode(rule.conditions)
+    if (!conditionsValid) {
+      errors.push(`${label}: invalid conditions`)
+    }
+
+    if (!Array.isArray(rule.actions) || !rule.actions.every(validateRuleAction)) {
+      errors.push(`${label}: invalid actions`)
+    } else {
+      for (const action of rule.actions) {
+        if (
+          QUESTION_TARGET_ACTIONS.includes(action.type) &&
+          action.targetQuestionId &&
+          !questionsByKey.has(action.targetQuestionId)
+        ) {
+          errors.push(`${label}: ${action.type} targets unknown question "${action.targetQuestionId}"`)
+        }
+      }
+    }
+
+    if (rule.question_id && !questionsByKey.has(rule.question_id)) {
+      errors.push(`${label}: linked to unknown question "${rule.question_id}"`)
+    }
+    if (rule.error_messages != null && !isLocalizedMessages(rule.error_messages)) {
+      errors.push(`${label}: error_messages must map locales to messages`)
+    }
+
+    if (rule.for_each && questionsByKey.get(rule.for_each)?.field_type !== 'group') {
+      errors.push(`${label}: repeats for "${rule.for_each}", which is not a group question in the bundle`)
+    }
+  })
+
+  return { bundle: errors.length === 0 ? bundle : null, errors }
+}
+
+function isLocalizedMessages(value: unknown): value is LocalizedMessages {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((message) => typeof message === 'string')
+  )
+}
+
+// ========================================
+// IMPORT
+// ========================================
+
+/**
+ * Plan (dry-run) importing a bundle into a coverage type with existing
+ * questions and rules. The same plan drives the actual import.
+ */
+export function planRuleBundleImport(
+  bundle: RuleBundle,
+  existing: { coverageTypeId: string; questions: Question[]; rules: Rule[] },
+  strategy: RuleBundleConflictStrategy,
+  coverageTypes: CoverageTypeRef[] = []
+): RuleBundleImportPlan {
+  const warnings: string[] = []
+  const reserved = getNonQuestionNames(bundle.rules, new Set(bundle.questions.map((q) => q.key)))
+  const existingKeys = getQuestionKeys(existing.questions, reserved)
+  const existingByKey = new Map(existing.questions.map((q) => [existingKeys.get(q.id)!, q]))
+  const bundleKeyById = new Map<string, string>()
+
+  const questions = bundle.questions.map((question): RuleBundleImportEntry => {
+    const match = existingByKey.get(question.key)
+    if (!match) {
+      return { key: question.key, label: question.question_text, action: 'create', existing_id: null }
+    }
+
+    bundleKeyById.set(match.id, question.key)
+    const same = stableStringify(toBundleQuestion(match, existingKeys)) === stableStringify(question)
+    return {
+      key: question.key,
+      label: question.question_text,
+      action: same ? 'unchanged' : conflictAction(strategy),
+      existing_id: match.id,
+    }
+  })
+
+  // Compare rules in bundle form so matched questions' keys line up
+  const slugById = new Map(coverageTypes.map((ct) => [ct.id, ct.slug]))
+  slugById.set(existing.coverageTypeId, bundle.coverage_type.slug)
+  const existingRules = new Map(existing.rules.map((rule) => [rule.name, rule]))
+
+  const rules = bundle.rules.map((rule): RuleBundleImportEntry => {
+    const match = existingRules.get(rule.name)
+    if (!match) {
+      return { key: rule.name, label: rule.name, action: 'create', existing_id: null }
+    }
+
+    const same =
+      stableStringify(toBundleRule(match, bundleKeyById, slugById)) === stableStringify({
+        ...rule,
+        question_id: rule.question_id ?? null,
+        tags: rule.tags || [],
+        error_messages: rule.error_messages ?? null,
+      })
+    return { key: rule.name, label: rule.name, action: same ? 'unchanged' : conflictAction(strategy), existing_id: match.id }
+  })
+
+  const knownSlugs = new Set([...coverageTypes.map((ct) => ct.slug), bundle.coverage_type.slug])
+  for (const rule of bundle.rules) {
+    const slugs = (rule.applies_to as { coverageTypes?: string[] } | null)?.coverageTypes || []
+    for (const slug of slugs.filter((s) => !knownSlugs.has(s))) {
+      warnings.push(`Rule "${rule.name}": coverage type "${slug}" does not exist here and is dropped from its scope`)
+    }
+  }
+
+  if (strategy === 'duplicate' && rules.some((entry) => entry.action === 'duplicate')) {
+    warnings.push('Duplicated rules are imported inactive so they do not run alongside the originals')
+  }
+
+  return { errors: [], warnings, questions, rules }
+}
+
+/**
+ * Resolve a bundle rule for the target environment: question keys become
+ * question IDs and coverage type slugs become IDs (unknown slugs are dropped)
+ */
+export function resolveBundleRule(
+  rule: RuleBundleRule,
+  idByKey: Map<string, string>,
+  idBySlug: Map<string, string>
+): RuleBundleRule {
+  const resolved = mapRuleReferences(rule, (name) => idByKey.get(name), (slug) => idBySlug.get(slug))
+  const appliesTo = resolved.applies_to as { coverageTypes?: string[] } | null
+
+  if (appliesTo?.coverageTypes) {
+    appliesTo.coverageTypes = appliesTo.coverageTypes.filter((id) => [...idBySlug.values()].includes(id))
+  }
+
+  return resolved
+}
+
+function conflictAction(strategy: RuleBundleConflictStrategy): RuleBundleImportEntry['action'] {
+  return strategy === 'overwrite' ? 'update' : strategy === 'duplicate' ? 'duplicate' : 'skip'
+}
+
+// ========================================
+// REFERENCE MAPPING
+// ========================================
+
+/**
+ * Rewrite every question reference in a rule. Names the mapper does not know
+ * (calculated fields, metadata paths) are left as they are.
+ */
+function mapRuleReferences<
+  T extends Pick<Rule, 'conditions' | 'actions' | 'for_each' | 'applies_to'> &
+    Partial<Pick<Rule, 'question_id' | 'error_message' | 'error_messages'>>,
+>(
+  rule: T,
+  mapName: NameMapper,
+  mapCoverageType: NameMapper
+): T {
+  const appliesTo = rule.applies_to as { coverageTypes?: string[]; questionIds?: string[] } | null
+
+  return {
+    ...rule,
+    conditions: mapConditions(rule.conditions, mapName),
+    actions: Array.isArray(rule.actions)
+      ? rule.actions.map((action) => {
+          const mapped = { ...action }
+          if (typeof mapped.targetQuestionId === 'string') {
+            mapped.targetQuestionId = mapFieldName(mapped.targetQuestionId, mapName)
+          }
+          if (typeof mapped.targetField === 'string') {
+            mapped.targetField = mapFieldName(mapped.targetField, mapName)
+          }
+          if (typeof mapped.formula === 'string') {
+            mapped.formula = mapFormula(mapped.formula, mapName)
+          }
+          if (typeof mapped.errorMessage === 'string') {
+            mapped.errorMessage = mapMessage(mapped.errorMessage, mapName)
+          }
+          if (typeof mapped.warningMessage === 'string') {
+            mapped.warningMessage = mapMessage(mapped.warningMessage, mapName)
+          }
+          if (mapped.errorMessages) {
+            mapped.errorMessages = mapMessages(mapped.errorMessages, mapName)
+          }
+          if (mapped.warningMessages) {
+            mapped.warningMessages = mapMessages(mapped.warningMessages, mapName)
+          }
+          return mapped
+        })
+      : rule.actions,
+    ...(rule.question_id && { question_id: mapFieldName(rule.question_id, mapName) }),
+    ...(rule.error_message && { error_message: mapMessage(rule.error_message, mapName) }),
+    ...(rule.error_messages && { error_messages: mapMessages(rule.error_messages, mapName) }),
+    for_each: rule.for_each ? mapFieldName(rule.for_each, mapName) : rule.for_each,
+    applies_to:
+      appliesTo && typeof appliesTo === 'object'
+        ? {
+            ...appliesTo,
+            ...(appliesTo.questionIds && {
+              questionIds: appliesTo.questionIds.map((id) => mapFieldName(id, mapName)),
+            }),
+            ...(appliesTo.coverageTypes && {
+              coverageTypes: appliesTo.coverageTypes.map((id) => mapCoverageType(id) ?? id),
+            }),
+          }
+        : rule.applies_to,
+  }
+}
+
+function mapConditions(node: unknown, mapName: NameMapper): unknown {
+  if (Array.isArray(node)) {
+    return node.map((child) => mapConditions(child, mapName))
+  }
+  if (typeof node !== 'object' || node === null) return node
+
+  if (isLeafCondition(node)) {
+    return { ...node, field: mapFieldName(node.field, mapName), value: mapConditionValue(node.value, mapName) }
+  }
+
+  // Groups, NOT and the legacy { all } / { any } / { not } shapes
+  return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, mapConditions(value, mapName)]))
+}
+
+function mapConditionValue(value: unknown, mapName: NameMapper): unknown {
+  if (isConditionReference(value)) {
+    if (value.type === 'field') return { ...value, field: mapFieldName(value.field, mapName) }
+    if (value.type === 'expression') return { ...value, formula: mapFormula(value.formula, mapName) }
+    return value
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => mapConditionValue(item, mapName))
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapConditionValue(item, mapName)]))
+  }
+  return value
+}
+
+/**
+ * Map a field name; `group.child` item fields map both parts
+ */
+function mapFieldName(field: string, mapName: NameMapper): string {
+  const mapped = mapName(field)
+  if (mapped !== undefined) return mapped
+
+  const dot = field.indexOf('.')
+  if (dot === -1) return field
+
+  const group = mapName(field.slice(0, dot))
+  const child = mapName(field.slice(dot + 1))
+  return group !== undefined && child !== undefined ? `${group}.${child}` : field
+}
+
+// String literals are matched (and kept) so their contents are never rewritten
+const FORMULA_NAME_PATTERN =
+  /'(?:\\.|[^'\\])*'|"(?:\\.|[^"\\])*"|\{([^}]*)\}|\b([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*)\b(?!\s*\()/g
+
+/**
+ * Map references inside a formula: `{id}` and bare identifiers (not function
+ * calls or metadata paths). Names that are not valid identifiers are braced.
+ */
+function mapFormula(formula: string, mapName: NameMapper): string {
+  return formula.replace(FORMULA_NAME_PATTERN, (match, braced: string | undefined, bare: string | undefined) => {
+    const name = braced !== undefined ? braced.trim() : bare
+    if (!name || name.startsWith('metadata.')) return match
+
+    const mapped = mapFieldName(name, mapName)
+    if (mapped === name) return match
+
+    return braced === undefined && /^[A-Za-z_][A-Za-z0-9_.]*$/.test(mapped) ? mapped : `{${mapped}}`
+  })
+}
+
+/**
+ * Rewrite {placeholders} in a rule message - unlike formulas, bare words are
+ * plain text and never references
+ */
+function mapMessage(message: string, mapName: NameMapper): string {
+  return message.replace(/\{([^{}]+)\}/g, (match, braced: string) => {
+    const name = braced.trim()
+    if (name.startsWith('metadata.')) return match
+
+    const mapped = mapFieldName(name, mapName)
+    return mapped === name ? match : `{${mapped}}`
+  })
+}
+
+function mapMessages(messages: LocalizedMessages, mapName: NameMapper): LocalizedMessages {
+  return Object.fromEntries(
+    Object.entries(messages).map(([locale, message]) => [locale, mapMessage(message, mapName)])
+  )
+}
+
+/**
+ * Names rules use that are not questions (calculated fields etc.) - question
+ * keys must not collide with them or references would become ambiguous
+ */
+function getNonQuestionNames(rules: Array<Pick<Rule, 'conditions' | 'actions' | 'for_each' | 'applies_to'>>, questionNames: Set<string>): Set<string> {
+  const names = new Set<string>()
+  const collect: NameMapper = (name) => {
+    if (!questionNames.has(name)) names.add(name)
+    return undefined
+  }
+
+  rules.forEach((rule) => mapRuleReferences(rule, collect, () => undefined))
+  return names
+}
+
+function sortQuestions(questions: Question[]): Question[] {
+  return [...questions].sort((a, b) => a.order_index - b.order_index || a.id.localeCompare(b.id))
+}
+
+function slugify(text: string): string {
+  const slug = text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 48)
+    .replace(/_+$/, '')
+
+  if (!slug) return 'question'
+  return /^[0-9]/.test(slug) ? `q_${slug}` : slug
+}
@@ -0,0 +1,236 @@
+import type {
+  RuleCondition,
+  ConditionGroup,
+  ConditionNode,
+  NotCondition,
+  LogicalOperator,
+  StoredRuleConditions,
+  ConditionReference,
+} from '@/types/rules'
+
+/**
+ * Condition tree utilities
+ *
+ * Rule conditions are stored in one of three shapes:
+ * - Legacy flat array: `[A, B, C]`, folded left-to-right where each
+ *   condition's `logicalOperator` joins it to the next one
+ * - Condition tree: `{ type: 'group', operator, conditions: [...] }` with
+ *   nested groups and `{ type: 'not', condition }` nodes
+ * - `{ all: [...] }` / `{ any: [...] }` / `{ not: ... }` objects (imported data)
+ *
+ * `normalizeConditionTree` turns all of them into a ConditionGroup so the
+ * engine and the builder only deal with one representation.
+ */
+
+export function isConditionGroup(node: unknown): node is ConditionGroup {
+  return (
+    typeof node === 'object' &&
+    node !== null &&
+    (node as ConditionGroup).type === 'group' &&
+    Array.isArray((node as ConditionGroup).conditions)
+  )
+}
+
+export function isNotCondition(node: unknown): node is NotCondition {
+  return (
+    typeof node === 'object' &&
+    node !== null &&
+    (node as NotCondition).type === 'not' &&
+    typeof (node as NotCondition).condition === 'object'
+  )
+}
+
+export function isLeafCondition(node: unknown): node is RuleCondition {
+  return (
+    typeof node === 'object' &&
+    node !== null &&
+    typeof (node as RuleCondition).field === 'string' &&
+    typeof (node as RuleCondition).operator === 'string'
+  )
+}
+
+export function isConditionReference(value: unknown): value is ConditionReference {
+  if (typeof value !== 'object' || value === null) return false
+  const ref = value as ConditionReference
+  return (
+    (ref.type === 'field' && typeof ref.field === 'string') ||
+    (ref.type === 'metadata' && typeof ref.path === 'string') ||
+    (ref.type === 'expression' && typeof ref.formula === 'string')
+  )
+}
+
+/**
+ * Create an empty condition group
+ */
+export function createConditionGroup(
+  operator: LogicalOperator = 'AND',
+  conditions: ConditionNode[] = []
+): ConditionGroup {
+  return { type: 'group', operator, conditions }
+}
+
+/**
+ * Normalize stored conditions (any supported shape) into a condition tree
+ */
+export function normalizeConditionTree(stored: unknown): ConditionGroup {
+  if (Array.isArray(stored)) {
+    return foldLegacyConditions(stored)
+  }
+
+  const node = normalizeNode(stored)
+  if (!node) return createConditionGroup()
+
+  return isConditionGroup(node) ? node : createConditionGroup('AND', [node])
+}
+
+function normalizeNode(raw: unknown): ConditionNode | null {
+  if (typeof raw !== 'object' || raw === null) return null
+
+  if (Array.isArray(raw)) {
+    return foldLegacyConditions(raw)
+  }
+
+  if (isConditionGroup(raw)) {
+    return createConditionGroup(
+      raw.operator === 'OR' ? 'OR' : 'AND',
+      raw.conditions.map(normalizeNode).filter((n): n is ConditionNode => n !== null)
+    )
+  }
+
+  if (isNotCondition(raw)) {
+    const inner = normalizeNode(raw.condition)
+    return inner ? { type: 'not', condition: inner } : null
+  }
+
+  const obj = raw as Record<string, unknown>
+
+  if (Array.isArray(obj.all)) {
+    return createConditionGroup('AND', obj.all.map(normalizeNode).filter((n): n is ConditionNode => n !== null))
+  }
+  if (Array.isArray(obj.any)) {
+    return createConditionGroup('OR', obj.any.map(normalizeNode).filter((n): n is ConditionNode => n !== null))
+  }
+  if ('not' in obj) {
+    const inner = normalizeNode(obj.not)
+    return inner ? { type: 'not', condition: inner } : null
+  }
+
+  if (isLeafCondition(raw)) {
+    // logicalOperator is meaningless inside a tree - the group operator applies
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { logicalOperator, ...leaf } = raw
+    return leaf
+  }
+
+  return null
+}
+
+/**
+ * Fold a legacy flat array into a tree with identical semantics.
+ * `[A, B, C]` with A.logicalOperator = OR and B.logicalOperator = AND is
+ * evaluated as `(A OR B) AND C`, so each operator change opens a new group.
+ */
+function foldLegacyConditions(items: unknown[]): ConditionGroup {
+  const nodes: Array<{ node: ConditionNode; next: LogicalOperator }> = []
+
+  for (const item of items) {
+    const node = normalizeNode(item)
+    if (!node) continue
+    const next = (item as { logicalOperator?: LogicalOperator }).logicalOperator === 'OR' ? 'OR' : 'AND'
+    nodes.push({ node, next })
+  }
+
+  if (nodes.length === 0) return createConditionGroup()
+
+  let tree = createConditionGroup('AND', [nodes[0].node])
+
+  for (let i = 1; i < nodes.length; i++) {
+    const operator = nodes[i - 1].next
+
+    if (tree.operator === operator || tree.conditions.length === 1) {
+      tree = { ...tree, operator, conditions: [...tree.conditions, nodes[i].node] }
+    } else {
+      tree = createConditionGroup(operator, [tree, nodes[i].node])
+    }
+  }
+
+  return tree
+}
+
+/**
+ * Serialize a condition tree for storage. Single-level trees are written as a
+ * legacy flat array so simple rules keep their original JSONB shape.
+ */
+export function serializeConditionTree(tree: ConditionGroup): StoredRuleConditions {
+  if (tree.conditions.every(isLeafCondition)) {
+    const leaves = tree.conditions as RuleCondition[]
+    return leaves.map((condition, index) => {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { logicalOperator, ...leaf } = condition
+      return index < leaves.length - 1 ? { ...leaf, logicalOperator: tree.operator } : leaf
+    })
+  }
+
+  return JSON.parse(JSON.stringify(tree))
+}
+
+/**
+ * Collect all leaf conditions in a tree (depth-first, in display order)
+ */
+export function flattenConditions(node: ConditionNode): RuleCondition[] {
+  if (isConditionGroup(node)) {
+    return node.conditions.flatMap(flattenConditions)
+  }
+  if (isNotCondition(node)) {
+    return flattenConditions(node.condition)
+  }
+  return [node]
+}
+
+/**
+ * Render a condition's left-hand side, e.g. `claim_amount`, `sum(receipts.amount)`
+ */
+export function formatConditionField(condition: RuleCondition): string {
+  return condition.aggregate ? `${condition.aggregate}(${condition.field})` : condition.field
+}
+
+/**
+ * Render a condition's right-hand value, e.g. `{return_date}`, `metadata.coverageLimit`
+ */
+export function formatConditionValue(value: unknown): string {
+  if (isConditionReference(value)) {
+    switch (value.type) {
+      case 'field':
+        return `{${value.field}}`
+      case 'metadata':
+        return `metadata.${value.path}`
+      case 'expression':
+        return `(${value.formula})`
+    }
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatConditionValue).join(', ')}]`
+  }
+  return value !== undefined ? JSON.stringify(value) : 'null'
+}
+
+/**
+ * Render a condition tree as a readable expression, e.g. `a = 1 AND (b > 2 OR NOT c)`
+ */
+export function formatConditionTree(
+  node: ConditionNode,
+  formatLeaf: (condition: RuleCondition) => string
+): string {
+  if (isConditionGroup(node)) {
+    const parts = node.conditions.map((child) => {
+      const text = formatConditionTree(child, formatLeaf)
+      return isConditionGroup(child) && child.conditions.length > 1 ? `(${text})` : text
+    })
+    return parts.join(` ${node.operator} `)
+  }
+  if (isNotCondition(node)) {
+    const inner = formatConditionTree(node.condition, formatLeaf)
+    return isConditionGroup(node.condition) ? `NOT (${inner})` : `NOT ${inner}`
+  }
+  return formatLeaf(node)
+}
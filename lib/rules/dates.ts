@@ -0,0 +1,232 @@
+import type { HolidayCalendar } from '@/types/rules'
+
+/**
+ * Calendar date helpers for the rules engine
+ *
+ * Rule dates are compared as calendar dates (`YYYY-MM-DD`) in an explicit
+ * time zone, never in the server's local zone:
+ * - Date-only strings ('2025-03-14') are taken as-is
+ * - Timestamps are converted to the calendar date in the evaluation time zone
+ * - Arithmetic (offsets, day counts, business days) is done on day numbers,
+ *   so daylight saving changes never shift a date
+ * - Dates outside MIN_YEAR..MAX_YEAR are treated as invalid, so claimant
+ *   input cannot make date arithmetic span hundreds of thousands of years
+ */
+
+export const DEFAULT_TIME_ZONE = 'UTC'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const DEFAULT_WEEKEND_DAYS = [0, 6] // Sunday, Saturday
+const MIN_YEAR = 1800
+const MAX_YEAR = 2200
+
+/**
+ * Check whether a string is a valid IANA time zone (e.g. 'Europe/London')
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    // Builds (and caches) the formatter dates are converted with
+    getDateFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Convert a date-like value to a calendar date in the given time zone.
+ * Returns null for empty or unparseable values.
+ */
+export function toCalendarDate(value: unknown, timeZone: string = DEFAULT_TIME_ZONE): string | null {
+  if (value == null || value === '') return null
+
+  if (typeof value === 'string') {
+    const match = DATE_ONLY_PATTERN.exec(value)
+    if (match) {
+      return isRealDate(Number(match[1]), Number(match[2]), Number(match[3])) ? value : null
+    }
+  }
+
+  const date =
+    value instanceof Date ? value : typeof value === 'string' || typeof value === 'number' ? new Date(value) : null
+  if (!date || isNaN(date.getTime())) return null
+
+  const parts = getDateFormatter(timeZone).formatToParts(date)
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? ''
+  const year = Number(part('year'))
+  if (!(year >= MIN_YEAR && year <= MAX_YEAR)) return null
+
+  return `${part('year')}-${part('month')}-${part('day')}`
+}
+
+/**
+ * Today's calendar date in the given time zone
+ */
+export function todayInTimeZone(timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): string {
+  return toCalendarDate(now, timeZone)!
+}
+
+/**
+ * Add a day/month/year offset to a calendar date. Month and year offsets keep
+ * the day of month, clamped to the target month (Jan 31 + 1 month = Feb 28/29).
+ */
+export function addToCalendarDate(
+  date: string,
+  offset: { days?: number; months?: number; years?: number }
+): string {
+  const [year, month, day] = splitDate(date)
+  const totalMonths = year * 12 + (month - 1) + (offset.months || 0) + (offset.years || 0) * 12
+  const targetYear = Math.floor(totalMonths / 12)
+  const targetMonth = totalMonths - targetYear * 12 + 1
+  const clampedDay = Math.min(day, daysInMonth(targetYear, targetMonth))
+
+  return fromDayNumber(toDayNumber(formatDate(targetYear, targetMonth, clampedDay)) + (offset.days || 0))
+}
+
+/**
+ * Calendar days from start to end (negative when end is before start)
+ */
+export function daysBetween(start: string, end: string): number {
+  return toDayNumber(end) - toDayNumber(start)
+}
+
+/**
+ * Whole months from start to end (a month counts once its day of month is reached)
+ */
+export function monthsBetween(start: string, end: string): number {
+  if (end < start) return -monthsBetween(end, start)
+
+  const [startYear, startMonth, startDay] = splitDate(start)
+  const [endYear, endMonth, endDay] = splitDate(end)
+  let months = (endYear - startYear) * 12 + (endMonth - startMonth)
+
+  // Clamped to month end, so Jan 31 -> Feb 28 counts as a full month
+  if (endDay < Math.min(startDay, daysInMonth(endYear, endMonth))) months--
+
+  return months
+}
+
+/**
+ * Age in whole years on a date
+ */
+export function ageAtDate(birthDate: string, at: string): number {
+  return Math.floor(monthsBetween(birthDate, at) / 12)
+}
+
+/**
+ * Check whether a calendar date is a working day under a holiday calendar
+ */
+export function isBusinessDay(date: string, calendar?: HolidayCalendar): boolean {
+  const weekday = getWeekday(toDayNumber(date))
+  const weekendDays = calendar?.weekendDays || DEFAULT_WEEKEND_DAYS
+
+  return !weekendDays.includes(weekday) && !(calendar?.holidays || []).includes(date)
+}
+
+/**
+ * Business days from start to end: working days after start, up to and
+ * including end (so Friday -> Monday is 1). Negative when end is before start.
+ * Counted per whole week plus the remaining days, so the cost does not grow
+ * with the span.
+ */
+export function businessDaysBetween(start: string, end: string, calendar?: HolidayCalendar): number {
+  if (end < start) return -businessDaysBetween(end, start, calendar)
+
+  const weekendDays = new Set(calendar?.weekendDays || DEFAULT_WEEKEND_DAYS)
+  const startDay = toDayNumber(start)
+  const endDay = toDayNumber(end)
+  const fullWeeks = Math.floor((endDay - startDay) / 7)
+
+  let count = fullWeeks * (7 - [0, 1, 2, 3, 4, 5, 6].filter((d) => weekendDays.has(d)).length)
+  for (let day = startDay + fullWeeks * 7 + 1; day <= endDay; day++) {
+    if (!weekendDays.has(getWeekday(day))) count++
+  }
+
+  // Holidays on working days within (start, end]
+  const holidays = new Set(calendar?.holidays || [])
+  holidays.forEach((holiday) => {
+    const day = toDayNumber(holiday)
+    if (day > startDay && day <= endDay && !weekendDays.has(getWeekday(day))) count--
+  })
+
+  return count
+}
+
+/**
+ * Read the rule date settings stored in a coverage type's metadata
+ * (`timeZone` and `holidayCalendar`), ignoring malformed values
+ */
+export function getRuleDateSettings(metadata: Record<string, unknown> | null | undefined): {
+  timeZone?: string
+  holidayCalendar?: HolidayCalendar
+} {
+  const timeZone = metadata?.timeZone
+  const calendar = metadata?.holidayCalendar as Partial<HolidayCalendar> | undefined
+
+  return {
+    ...(typeof timeZone === 'string' && isValidTimeZone(timeZone) && { timeZone }),
+    ...(calendar &&
+      Array.isArray(calendar.holidays) && {
+        holidayCalendar: {
+          name: calendar.name,
+          holidays: calendar.holidays.filter((d): d is string => typeof d === 'string' && DATE_ONLY_PATTERN.test(d)),
+          ...(Array.isArray(calendar.weekendDays) && { weekendDays: calendar.weekendDays }),
+        },
+      }),
+  }
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+// Building a formatter is far slower than using one, and rules convert dates per condition
+const dateFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function getDateFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = dateFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    dateFormatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+function splitDate(date: string): [number, number, number] {
+  const [year, month, day] = date.split('-').map(Number)
+  return [year, month, day]
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+function toDayNumber(date: string): number {
+  const [year, month, day] = splitDate(date)
+  return Date.UTC(year, month - 1, day) / MS_PER_DAY
+}
+
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * MS_PER_DAY).toISOString().slice(0, 10)
+}
+
+// Day 0 (1970-01-01) was a Thursday
+function getWeekday(dayNumber: number): number {
+  return (((dayNumber + 4) % 7) + 7) % 7
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+function isRealDate(year: number, month: number, day: number): boolean {
+  return (
+    year >= MIN_YEAR &&
+    year <= MAX_YEAR &&
+    month >= 1 &&
+    month <= 12 &&
+    day >= 1 &&
+    day <= daysInMonth(year, month)
+  )
+}
@@ -1,33 +1,254 @@
 import type { Rule } from '@/types/policies'
 import type {
   RuleCondition,
+  ConditionNode,
   RuleAction,
   RuleEvaluationContext,
   RuleEvaluationResult,
   RelativeDateValue,
+  RulesEngineOptions,
+  RuleEvaluationOptions,
+  RuleExecutionLog,
+  ConditionTrace,
+  RuleOperator,
+  AggregateFunction,
+  ConditionReference,
+  RuleEvaluationSession,
+  HolidayCalendar,
+  WithinDaysValue,
+  BusinessDaysValue,
+  AgeAtDateValue,
+  DurationValue,
+  LocalizedMessages,
+  EligibilityStatus,
 } from '@/types/rules'
+import { evaluateFormula, parseFormula, getFormulaReferences, type FormulaNode } from './formula'
+import {
+  normalizeConditionTree,
+  isConditionGroup,
+  isNotCondition,
+  isConditionReference,
+  flattenConditions,
+} from './conditions'
+import { formatActionForDisplay, isRuleApplicable, getRuleConfiguration, summarizeEligibility } from './helpers'
+import { getCustomOperator } from './operators'
+import { getEvaluationLocale, interpolateMessage, localizeMessage } from './messages'
+import {
+  DEFAULT_TIME_ZONE,
+  isValidTimeZone,
+  toCalendarDate,
+  todayInTimeZone,
+  addToCalendarDate,
+  daysBetween,
+  monthsBetween,
+  businessDaysBetween,
+  ageAtDate,
+} from './dates'
+
+const DEFAULT_MAX_ITERATIONS = 10
+
+const ELIGIBILITY_ACTION_STATUS: Record<
+  'mark_eligible' | 'mark_ineligible' | 'mark_partially_eligible',
+  EligibilityStatus
+> = {
+  mark_eligible: 'eligible',
+  mark_ineligible: 'ineligible',
+  mark_partially_eligible: 'partially_eligible',
+}
+
+/**
+ * The repeatable group item a per-item (for_each) rule is evaluating
+ */
+interface ItemScope {
+  groupId: string
+  index: number
+}
+
+/**
+ * A rule prepared once when the engine is built: parsed conditions and
+ * actions, the answer keys it reads, and the configuration error (invalid
+ * regex or expression) that keeps it from running, if any
+ */
+interface CompiledRule {
+  rule: Rule
+  conditions: ConditionNode
+  actions: RuleAction[]
+  dependencies: string[]
+  error?: string
+}
+
+/**
+ * Outcome of a rule's conditions, reused while the answers it reads are unchanged
+ */
+interface RuleOutcome {
+  conditionsMet: boolean
+  error?: string
+}
+
+/**
+ * Incremental evaluation state behind a RuleEvaluationSession: the answers
+ * of the last pass and each rule's outcome on them (one per item for per-item rules)
+ */
+interface SessionState {
+  answers: Map<string, string> | null
+  contextKey: string | null
+  outcomes: Map<string, RuleOutcome[]>
+}
 
 /**
  * RulesEngine - Core class for evaluating questionnaire rules
  *
  * Supports:
  * - 17+ operators for conditions
- * - AND/OR logical operators
+ * - Nested AND/OR/NOT condition groups (legacy flat arrays are still supported)
  * - Multiple action types (show/hide, validate, require documents, block submission)
+ * - Calculated fields via the sandboxed formula language (see ./formula)
  * - Priority-based rule evaluation
+ * - Multi-pass evaluation: values written by set_value/calculate_value are fed
+ *   back into the answers until they stop changing (fixed point)
+ * - Explain mode: a per-rule execution log with resolved condition values
+ * - Condition values may reference other answers, metadata or expressions
+ * - Repeatable groups: aggregate conditions (any/all/count/sum/...) over item
+ *   fields, and per-item rules whose messages carry the item index
+ * - Dates compare as calendar dates in an explicit time zone (default UTC),
+ *   with business-day operators over a configurable holiday calendar
+ * - Compiled once: conditions, actions, regexes and expressions are parsed at
+ *   construction and rules are indexed by the answers they read, so sessions
+ *   (see createSession) re-check only rules whose inputs changed
  */
 export class RulesEngine {
   private rules: Rule[]
-
-  constructor(rules: Rule[]) {
+  private maxIterations: number
+  private timeZone: string
+  private holidayCalendar?: HolidayCalendar
+  private compiledRules: CompiledRule[]
+  private rulesByField = new Map<string, CompiledRule[]>()
+  private regexCache = new Map<string, RegExp | null>()
+  private formulaCache = new Map<string, FormulaNode>()
+
+  constructor(rules: Rule[], options: RulesEngineOptions = {}) {
     // Sort by priority (higher priority = evaluated first)
     this.rules = [...rules].sort((a, b) => b.priority - a.priority)
+    this.maxIterations = Math.max(1, options.maxIterations ?? DEFAULT_MAX_ITERATIONS)
+    this.timeZone = options.timeZone && isValidTimeZone(options.timeZone) ? options.timeZone : DEFAULT_TIME_ZONE
+    this.holidayCalendar = options.holidayCalendar
+
+    this.compiledRules = this.rules.map((rule) => this.compileRule(rule))
+    for (const compiled of this.compiledRules) {
+      for (const field of compiled.dependencies) {
+        this.rulesByField.set(field, [...(this.rulesByField.get(field) || []), compiled])
+      }
+    }
+  }
+
+  /**
+   * Create an incremental evaluation session, e.g. one per open claim form.
+   * Each evaluate() re-checks only the rules that read an answer changed since
+   * the previous call and reuses the other rules' outcomes; the result is the
+   * same as a full evaluation. Changed metadata or evaluation date (the day
+   * rolled over in the engine's time zone) re-checks everything.
+   *
+   * Library-only for now: the claim form is checked by server actions
+   * (evaluateClaimAction), which keep no per-form state a session could live
+   * in, and the rules and metadata are not sent to the browser.
+   */
+  createSession(): RuleEvaluationSession {
+    const state: SessionState = { answers: null, contextKey: null, outcomes: new Map() }
+
+    return {
+      evaluate: (context, options = {}) => this.run(context, options, state),
+      reset: () => {
+        state.answers = null
+        state.contextKey = null
+        state.outcomes.clear()
+      },
+    }
+  }
+
+  /**
+   * Main evaluation method - evaluates all rules against the provided context.
+   *
+   * Rules are re-run with the previous pass's fieldValues merged into the
+   * answers until fieldValues stop changing. Values carry over between passes,
+   * so a rule that fills in a default does not undo itself on the next pass.
+   * Rules that never settle (a cycle of states, or still changing after
+   * maxIterations passes) are reported in ruleErrors.
+   *
+   * With `{ explain: true }` the result carries an executionLog describing
+   * the final pass: per rule, the condition trace, fired actions and timing.
+   */
+  evaluate(
+    context: RuleEvaluationContext,
+    options: RuleEvaluationOptions = {}
+  ): RuleEvaluationResult {
+    return this.run(context, options, null)
+  }
+
+  private run(
+    context: RuleEvaluationContext,
+    options: RuleEvaluationOptions,
+    session: SessionState | null
+  ): RuleEvaluationResult {
+    const seenStates = new Map<string, Record<string, unknown>>()
+    let fieldValues: Record<string, unknown> = {}
+    let previousKey = stableSerialize(fieldValues)
+    seenStates.set(previousKey, fieldValues)
+
+    for (let iteration = 1; ; iteration++) {
+      const passContext: RuleEvaluationContext = {
+        ...context,
+        answers: { ...context.answers, ...fieldValues },
+      }
+      const result = this.evaluatePass(passContext, fieldValues, iteration, !!options.explain, session)
+      result.iterations = iteration
+
+      const nextValues = result.fieldValues!
+      const key = stableSerialize(nextValues)
+
+      // Converged - this pass produced exactly the values it started from
+      if (key === previousKey) {
+        return result
+      }
+
+      // Revisiting an earlier state means the rules will cycle forever
+      if (seenStates.has(key)) {
+        const cycleFields = changedFields(fieldValues, nextValues)
+        this.reportUnsettledRules(
+          result,
+          cycleFields,
+          `oscillates and never settles (fields: ${cycleFields.join(', ')})`
+        )
+        return result
+      }
+
+      if (iteration >= this.maxIterations) {
+        const pendingFields = changedFields(fieldValues, nextValues)
+        this.reportUnsettledRules(
+          result,
+          pendingFields,
+          `did not converge after ${this.maxIterations} passes (fields: ${pendingFields.join(', ')})`
+        )
+        return result
+      }
+
+      seenStates.set(key, nextValues)
+      previousKey = key
+      fieldValues = nextValues
+    }
   }
 
   /**
-   * Main evaluation method - evaluates all rules against the provided context
+   * Run every active rule once, in priority order. In a session, rules whose
+   * inputs did not change since the last pass reuse their condition outcome
+   * (explain mode always re-checks, as the trace needs the resolved values).
    */
-  evaluate(context: RuleEvaluationContext): RuleEvaluationResult {
+  private evaluatePass(
+    context: RuleEvaluationContext,
+    carriedValues: Record<string, unknown>,
+    iteration: number,
+    explain: boolean,
+    session: SessionState | null
+  ): RuleEvaluationResult {
     const result: RuleEvaluationResult = {
       passed: true,
       errors: [],
@@ -36,39 +257,199 @@ export class RulesEngine {
       hiddenQuestions: new Set<string>(),
       requiredDocuments: [],
       blockedSubmission: false,
-      fieldValues: {},
+      fieldValues: { ...carriedValues },
+      ruleErrors: [],
+      itemErrors: [],
+      validationErrors: [],
+      ...(explain && { executionLog: [] as RuleExecutionLog[] }),
     }
 
-    // Filter active rules
-    const activeRules = this.rules.filter((rule) => rule.is_active)
+    const dirtyRules = session ? this.findDirtyRules(session, context) : null
 
-    // Evaluate each rule
-    for (const rule of activeRules) {
-      try {
-        const conditions = this.parseConditions(rule.conditions)
-        const conditionsMet = this.evaluateConditions(conditions, context)
+    for (const compiled of this.compiledRules) {
+      const { rule } = compiled
+      let cached: RuleOutcome[] | undefined
+
+      if (session) {
+        if (dirtyRules && !explain && !dirtyRules.has(rule.id)) {
+          cached = session.outcomes.get(rule.id)
+        }
+        session.outcomes.delete(rule.id)
+      }
+
+      // Skip rules that are inactive, not yet/no longer in effect or out of scope
+      if (!rule.is_active || !isRuleApplicable(rule, context, this.timeZone)) continue
+
+      // Evaluate each rule - per-item rules once for every item of their group
+      if (!rule.for_each) {
+        const outcome = this.runRule(compiled, context, result, iteration, explain, undefined, cached?.[0])
+        session?.outcomes.set(rule.id, [outcome])
+        continue
+      }
+
+      const items = context.answers[rule.for_each]
+      if (!Array.isArray(items)) continue
+
+      const outcomes = items.map((item, index) => {
+        const scope: ItemScope = { groupId: rule.for_each!, index }
+        return this.runRule(
+          compiled,
+          createItemContext(context, scope.groupId, item),
+          result,
+          iteration,
+          explain,
+          scope,
+          cached?.[index]
+        )
+      })
+      session?.outcomes.set(rule.id, outcomes)
+    }
+
+    return result
+  }
+
+  /**
+   * Find the rules that read an answer changed since the session's last pass.
+   * Returns null (re-check everything) on the first pass or when the metadata
+   * or evaluation date changed, since any rule may depend on those.
+   */
+  private findDirtyRules(session: SessionState, context: RuleEvaluationContext): Set<string> | null {
+    const answers = new Map(
+      Object.entries(context.answers).map(([key, value]) => [key, JSON.stringify(value) ?? 'undefined'])
+    )
+    const contextKey = `${todayInTimeZone(this.getTimeZone(context))}|${stableSerialize(context.metadata || {})}`
+    const previous = session.answers
+
+    session.answers = answers
+
+    if (!previous || session.contextKey !== contextKey) {
+      session.contextKey = contextKey
+      session.outcomes.clear()
+      return null
+    }
+
+    const dirtyRules = new Set<string>()
+    for (const key of new Set([...previous.keys(), ...answers.keys()])) {
+      if (previous.get(key) === answers.get(key)) continue
+      for (const compiled of this.rulesByField.get(key) || []) {
+        dirtyRules.add(compiled.rule.id)
+      }
+    }
+    return dirtyRules
+  }
 
-        if (conditionsMet) {
-          const actions = this.parseActions(rule.actions)
-          this.applyActions(rule, actions, result, context)
+  /**
+   * Evaluate one rule (or one item of a per-item rule) and apply its actions.
+   * A cached outcome skips the conditions; actions are always re-applied.
+   */
+  private runRule(
+    compiled: CompiledRule,
+    context: RuleEvaluationContext,
+    result: RuleEvaluationResult,
+    iteration: number,
+    explain: boolean,
+    item?: ItemScope,
+    cached?: RuleOutcome
+  ): RuleOutcome {
+    const { rule } = compiled
+    const startedAt = explain ? performance.now() : 0
+    let outcome: RuleOutcome = cached ?? { conditionsMet: false, error: compiled.error }
+    let conditionTrace: ConditionTrace | undefined
+    let actions: RuleAction[] = []
+
+    if (!cached && !compiled.error) {
+      try {
+        if (explain) {
+          conditionTrace = this.explainConditions(compiled.conditions, context)
+          outcome = { conditionsMet: conditionTrace.matched }
+        } else {
+          outcome = { conditionsMet: this.evaluateConditions(compiled.conditions, context) }
         }
       } catch (error) {
-        console.error(`Error evaluating rule ${rule.id}:`, error)
         // Continue with other rules even if one fails
+        console.error(`Error evaluating rule ${rule.id}:`, error)
+        outcome = { conditionsMet: false, error: error instanceof Error ? error.message : String(error) }
       }
     }
 
-    return result
+    let errorMessage = outcome.error
+
+    if (outcome.conditionsMet) {
+      try {
+        actions = compiled.actions
+        this.applyActions(rule, actions, result, context, item)
+      } catch (error) {
+        console.error(`Error applying actions of rule ${rule.id}:`, error)
+        errorMessage = error instanceof Error ? error.message : String(error)
+      }
+    }
+
+    if (errorMessage) {
+      result.ruleErrors!.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        message: `Rule failed to evaluate${item ? ` for item ${item.index + 1}` : ''}: ${errorMessage}`,
+      })
+    }
+
+    if (explain) {
+      result.executionLog!.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        executedAt: new Date().toISOString(),
+        conditionsMet: outcome.conditionsMet,
+        actionsApplied: actions.map(formatActionForDisplay),
+        executionTimeMs: performance.now() - startedAt,
+        context,
+        conditionTrace,
+        error: errorMessage,
+        iteration,
+        itemIndex: item?.index,
+      })
+    }
+
+    return outcome
   }
 
   /**
-   * Parse conditions from JSONB storage
+   * Report every active rule that writes one of the unsettled fields
    */
-  private parseConditions(conditionsJson: unknown): RuleCondition[] {
-    if (Array.isArray(conditionsJson)) {
-      return conditionsJson as RuleCondition[]
+  private reportUnsettledRules(
+    result: RuleEvaluationResult,
+    fields: string[],
+    reason: string
+  ): void {
+    const involved = this.compiledRules
+      .filter(
+        ({ rule, actions }) =>
+          rule.is_active &&
+          actions.some((action) => {
+            const target =
+              action.type === 'set_value'
+                ? action.targetQuestionId
+                : action.type === 'calculate_value'
+                  ? action.targetField
+                  : undefined
+            return target !== undefined && fields.includes(target)
+          })
+      )
+      .map(({ rule }) => rule)
+    const ruleIds = involved.map((rule) => rule.id)
+
+    for (const rule of involved) {
+      result.ruleErrors!.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        message: `Rule ${reason}; involved rules: ${ruleIds.join(', ')}`,
+      })
     }
-    return []
+  }
+
+  /**
+   * Parse conditions from JSONB storage into a condition tree
+   */
+  private parseConditions(conditionsJson: unknown): ConditionNode {
+    return normalizeConditionTree(conditionsJson)
   }
 
   /**
@@ -82,30 +463,251 @@ export class RulesEngine {
   }
 
   /**
-   * Evaluate multiple conditions with AND/OR logic
+   * Prepare a rule for evaluation: parse its conditions and actions once,
+   * precompile regexes and expressions, and record the answer keys it reads
+   * (condition fields, field/expression references, its group and scoping
+   * questions). An item field `group.child` also depends on `group`.
+   */
+  private compileRule(rule: Rule): CompiledRule {
+    const conditions = this.parseConditions(rule.conditions)
+    const actions = this.parseActions(rule.actions)
+    const dependencies = new Set<string>()
+    const problems: string[] = []
+
+    const addField = (field: string) => {
+      dependencies.add(field)
+      if (field.includes('.')) dependencies.add(field.slice(0, field.indexOf('.')))
+    }
+
+    for (const condition of flattenConditions(conditions)) {
+      addField(condition.field)
+
+      collectReferences(condition.value, (reference) => {
+        if (reference.type === 'field') {
+          addField(reference.field)
+        } else if (reference.type === 'expression') {
+          try {
+            getFormulaReferences(this.getFormula(reference.formula))
+              .filter((name) => !name.startsWith('metadata.'))
+              .forEach(addField)
+          } catch (error) {
+            problems.push(
+              `Invalid expression "${reference.formula}": ${error instanceof Error ? error.message : String(error)}`
+            )
+          }
+        }
+      })
+
+      if (condition.operator === 'regex' && typeof condition.value === 'string' && !this.getRegex(condition.value)) {
+        problems.push(`Invalid regex pattern: ${condition.value}`)
+      }
+    }
+
+    if (rule.for_each) dependencies.add(rule.for_each)
+    getRuleConfiguration(rule).appliesTo?.questionIds?.forEach((id) => dependencies.add(id))
+
+    for (const action of actions) {
+      if (action.type === 'calculate_value' && action.formula) {
+        try {
+          this.getFormula(action.formula)
+        } catch {
+          // Formula errors in actions are reported each time the action runs
+        }
+      }
+    }
+
+    if (problems.length > 0) {
+      console.error(`Rule ${rule.id} cannot be evaluated:`, problems.join('; '))
+    }
+
+    return {
+      rule,
+      conditions,
+      actions,
+      dependencies: [...dependencies],
+      ...(problems.length > 0 && { error: problems.join('; ') }),
+    }
+  }
+
+  /**
+   * Parse a formula, reusing the AST for formulas seen before
+   * @throws Error when the formula does not parse
+   */
+  private getFormula(source: string): FormulaNode {
+    let node = this.formulaCache.get(source)
+    if (!node) {
+      node = parseFormula(source)
+      this.formulaCache.set(source, node)
+    }
+    return node
+  }
+
+  /**
+   * Compile a regex pattern once; invalid patterns are cached as null
+   */
+  private getRegex(pattern: string): RegExp | null {
+    if (!this.regexCache.has(pattern)) {
+      try {
+        this.regexCache.set(pattern, new RegExp(pattern))
+      } catch {
+        console.error('Invalid regex pattern:', pattern)
+        this.regexCache.set(pattern, null)
+      }
+    }
+    return this.regexCache.get(pattern) ?? null
+  }
+
+  /**
+   * Evaluate a condition tree recursively.
+   * Empty groups are treated as "no constraint" and evaluate to true.
    */
   private evaluateConditions(
-    conditions: RuleCondition[],
+    node: ConditionNode,
     context: RuleEvaluationContext
   ): boolean {
-    if (conditions.length === 0) return true
+    if (isNotCondition(node)) {
+      return !this.evaluateConditions(node.condition, context)
+    }
 
-    let result = this.evaluateSingleCondition(conditions[0], context)
+    if (isConditionGroup(node)) {
+      if (node.conditions.length === 0) return true
 
-    for (let i = 1; i < conditions.length; i++) {
-      const condition = conditions[i]
-      const conditionResult = this.evaluateSingleCondition(condition, context)
+      if (node.operator === 'OR') {
+        return node.conditions.some((child) => this.evaluateConditions(child, context))
+      }
+      return node.conditions.every((child) => this.evaluateConditions(child, context))
+    }
 
-      const operator = conditions[i - 1].logicalOperator || 'AND'
+    return this.evaluateSingleCondition(node, context)
+  }
 
-      if (operator === 'AND') {
-        result = result && conditionResult
-      } else {
-        result = result || conditionResult
-      }
+  /**
+   * Evaluate a condition tree while recording every node's outcome.
+   * Unlike evaluateConditions this does not short-circuit, so the trace shows
+   * the resolved values of all conditions; the overall outcome is identical.
+   */
+  private explainConditions(
+    node: ConditionNode,
+    context: RuleEvaluationContext
+  ): ConditionTrace {
+    if (isNotCondition(node)) {
+      const child = this.explainConditions(node.condition, context)
+      return { type: 'not', matched: !child.matched, child }
     }
 
-    return result
+    if (isConditionGroup(node)) {
+      const children = node.conditions.map((child) => this.explainConditions(child, context))
+      const matched =
+        children.length === 0 ||
+        (node.operator === 'OR'
+          ? children.some((child) => child.matched)
+          : children.every((child) => child.matched))
+      return { type: 'group', operator: node.operator, matched, children }
+    }
+
+    const actual = this.resolveFieldValue(node.field, context)
+
+    return {
+      type: 'condition',
+      field: node.field,
+      operator: node.operator,
+      aggregate: node.aggregate,
+      // Numeric aggregates show the number that was compared, any/all the item values
+      actual:
+        node.aggregate && node.aggregate !== 'any' && node.aggregate !== 'all'
+          ? aggregateValues(node.aggregate, Array.isArray(actual) ? actual : [])
+          : actual,
+      expected: this.resolveExpectedValue(node, context),
+      matched: this.evaluateSingleCondition(node, context),
+    }
+  }
+
+  /**
+   * Resolve a condition's right-hand value for display (relative dates and the
+   * `to`/`at` of duration operators become the calendar date compared against)
+   */
+  private resolveExpectedValue(condition: RuleCondition, context: RuleEvaluationContext): unknown {
+    const value = this.resolveConditionValue(condition.value, context)
+
+    switch (condition.operator) {
+      case 'date_before':
+      case 'date_after':
+        return isPlainObject(value) ? (this.parseRelativeOrAbsoluteDate(value, context) ?? value) : value
+
+      case 'date_between':
+        return Array.isArray(value)
+          ? value.map((date) => this.parseRelativeOrAbsoluteDate(date, context) ?? date)
+          : value
+
+      case 'business_days_between':
+      case 'duration_greater_than':
+        return isPlainObject(value)
+          ? { ...value, to: this.resolveDateOperand((value as BusinessDaysValue).to, context) }
+          : value
+
+      case 'age_at_date':
+        return isPlainObject(value)
+          ? { ...value, at: this.resolveDateOperand((value as AgeAtDateValue).at, context) }
+          : value
+
+      default:
+        return value
+    }
+  }
+
+  /**
+   * Resolve field/metadata/expression references in a condition's value.
+   * Range operators hold a pair, so each element is resolved on its own.
+   */
+  private resolveConditionValue(value: unknown, context: RuleEvaluationContext): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.resolveConditionValue(item, context))
+    }
+
+    if (!isConditionReference(value)) return value
+
+    switch (value.type) {
+      case 'field':
+        return this.resolveFieldValue(value.field, context)
+
+      case 'metadata':
+        return getPath(context.metadata, value.path)
+
+      case 'expression':
+        return evaluateFormula(
+          this.getFormula(value.formula),
+          (name) =>
+            name.startsWith('metadata.')
+              ? getPath(context.metadata, name.slice('metadata.'.length))
+              : this.resolveFieldValue(name, context),
+          { timeZone: this.getTimeZone(context) }
+        )
+    }
+  }
+
+  /**
+   * Read a field from the answers. An item field of a repeatable group
+   * (`receipts.amount`) resolves to that field's value on every item, or to
+   * the current item's value inside a per-item rule.
+   */
+  private resolveFieldValue(field: string, context: RuleEvaluationContext): unknown {
+    if (field in context.answers) {
+      return context.answers[field]
+    }
+
+    const dot = field.indexOf('.')
+    if (dot === -1) return undefined
+
+    const group = context.answers[field.slice(0, dot)]
+    const key = field.slice(dot + 1)
+
+    if (Array.isArray(group)) {
+      return group.map((item) =>
+        typeof item === 'object' && item !== null ? (item as Record<string, unknown>)[key] : undefined
+      )
+    }
+
+    return typeof group === 'object' && group !== null ? (group as Record<string, unknown>)[key] : undefined
   }
 
   /**
@@ -115,44 +717,78 @@ export class RulesEngine {
     condition: RuleCondition,
     context: RuleEvaluationContext
   ): boolean {
-    const fieldValue = context.answers[condition.field]
+    const fieldValue = this.resolveFieldValue(condition.field, context)
+    const expected = this.resolveConditionValue(condition.value, context)
+
+    if (condition.aggregate) {
+      const items = Array.isArray(fieldValue) ? fieldValue : []
+
+      switch (condition.aggregate) {
+        case 'any':
+          return items.some((item) => this.applyOperator(condition.operator, item, expected, context))
+
+        case 'all':
+          // Vacuously true for an empty group - combine with count > 0 if items are required
+          return items.every((item) => this.applyOperator(condition.operator, item, expected, context))
+
+        default:
+          return this.applyOperator(
+            condition.operator,
+            aggregateValues(condition.aggregate, items),
+            expected,
+            context
+          )
+      }
+    }
 
-    switch (condition.operator) {
+    return this.applyOperator(condition.operator, fieldValue, expected, context)
+  }
+
+  /**
+   * Apply an operator to a resolved field value and expected value
+   */
+  private applyOperator(
+    operator: RuleOperator,
+    fieldValue: unknown,
+    expected: unknown,
+    context: RuleEvaluationContext
+  ): boolean {
+    switch (operator) {
       case 'equals':
-        return this.operatorEquals(fieldValue, condition.value)
+        return this.operatorEquals(fieldValue, expected)
 
       case 'not_equals':
-        return !this.operatorEquals(fieldValue, condition.value)
+        return !this.operatorEquals(fieldValue, expected)
 
       case 'contains':
-        return this.operatorContains(fieldValue, condition.value)
+        return this.operatorContains(fieldValue, expected)
 
       case 'not_contains':
-        return !this.operatorContains(fieldValue, condition.value)
+        return !this.operatorContains(fieldValue, expected)
 
       case 'greater_than':
-        return this.operatorGreaterThan(fieldValue, condition.value)
+        return this.operatorGreaterThan(fieldValue, expected)
 
       case 'greater_than_or_equal':
-        return this.operatorGreaterThanOrEqual(fieldValue, condition.value)
+        return this.operatorGreaterThanOrEqual(fieldValue, expected)
 
       case 'less_than':
-        return this.operatorLessThan(fieldValue, condition.value)
+        return this.operatorLessThan(fieldValue, expected)
 
       case 'less_than_or_equal':
-        return this.operatorLessThanOrEqual(fieldValue, condition.value)
+        return this.operatorLessThanOrEqual(fieldValue, expected)
 
       case 'in':
-        return this.operatorIn(fieldValue, condition.value)
+        return this.operatorIn(fieldValue, expected)
 
       case 'not_in':
-        return !this.operatorIn(fieldValue, condition.value)
+        return !this.operatorIn(fieldValue, expected)
 
       case 'between':
-        return this.operatorBetween(fieldValue, condition.value)
+        return this.operatorBetween(fieldValue, expected)
 
       case 'regex':
-        return this.operatorRegex(fieldValue, condition.value)
+        return this.operatorRegex(fieldValue, expected)
 
       case 'is_empty':
         return this.operatorIsEmpty(fieldValue)
@@ -161,17 +797,34 @@ export class RulesEngine {
         return !this.operatorIsEmpty(fieldValue)
 
       case 'date_before':
-        return this.operatorDateBefore(fieldValue, condition.value, context)
+        return this.operatorDateBefore(fieldValue, expected, context)
 
       case 'date_after':
-        return this.operatorDateAfter(fieldValue, condition.value, context)
+        return this.operatorDateAfter(fieldValue, expected, context)
 
       case 'date_between':
-        return this.operatorDateBetween(fieldValue, condition.value)
+        return this.operatorDateBetween(fieldValue, expected, context)
 
-      default:
-        console.warn(`Unknown operator: ${condition.operator}`)
+      case 'within_last_n_days':
+        return this.operatorWithinLastNDays(fieldValue, expected, context)
+
+      case 'business_days_between':
+        return this.operatorBusinessDaysBetween(fieldValue, expected, context)
+
+      case 'age_at_date':
+        return this.operatorAgeAtDate(fieldValue, expected, context)
+
+      case 'duration_greater_than':
+        return this.operatorDurationGreaterThan(fieldValue, expected, context)
+
+      default: {
+        const custom = getCustomOperator(operator)
+        if (custom) {
+          return custom.evaluate(fieldValue, expected, context)
+        }
+        console.warn(`Unknown operator: ${operator}`)
         return false
+      }
     }
   }
 
@@ -182,8 +835,39 @@ export class RulesEngine {
     rule: Rule,
     actions: RuleAction[],
     result: RuleEvaluationResult,
-    _context: RuleEvaluationContext
+    context: RuleEvaluationContext,
+    item?: ItemScope
   ): void {
+    // Per-item messages name the item so "each receipt over $500" errors are actionable
+    const report = (action: RuleAction, message: string, severity: 'error' | 'warning'): string => {
+      result.validationErrors!.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        questionId: action.targetQuestionId || rule.question_id || item?.groupId,
+        ...(item && { itemIndex: item.index }),
+        message,
+        severity,
+      })
+      if (!item) return message
+      result.itemErrors!.push({ ruleId: rule.id, groupId: item.groupId, index: item.index, message, severity })
+      return `${message} (item ${item.index + 1})`
+    }
+
+    // Messages are shown in the claimant's language with answers filled in;
+    // the first message that has text (in any language) wins
+    const locale = getEvaluationLocale(context.metadata)
+    const message = (
+      ...candidates: Array<[string | null | undefined, LocalizedMessages | null | undefined]>
+    ): string | undefined => {
+      for (const [text, translations] of candidates) {
+        const localized = localizeMessage(text, translations, locale)
+        if (localized) {
+          return interpolateMessage(localized, { ...context.answers, ...result.fieldValues }, context.metadata, locale)
+        }
+      }
+      return undefined
+    }
+
     for (const action of actions) {
       switch (action.type) {
         case 'show_question':
@@ -203,8 +887,10 @@ export class RulesEngine {
         case 'validate':
           // Validation failed - add error
           result.passed = false
-          const errorMsg = action.errorMessage || rule.error_message || 'Validation failed'
-          result.errors.push(errorMsg)
+          const errorMsg =
+            message([action.errorMessage, action.errorMessages], [rule.error_message, rule.error_messages]) ||
+            'Validation failed'
+          result.errors.push(report(action, errorMsg, 'error'))
           break
 
         case 'require_document':
@@ -216,14 +902,20 @@ export class RulesEngine {
               maxFiles: action.maxFiles || 10,
               allowedFormats: action.allowedFormats || ['pdf', 'jpg', 'jpeg', 'png'],
               maxFileSize: action.maxFileSize,
-              message: action.errorMessage,
+              message: message([action.errorMessage, action.errorMessages]),
+              ...(item && { itemIndex: item.index }),
             })
           }
           break
 
         case 'block_submission':
           result.blockedSubmission = true
-          result.blockReason = action.errorMessage || rule.error_message || 'Submission blocked'
+          result.blockReason = report(
+            action,
+            message([action.errorMessage, action.errorMessages], [rule.error_message, rule.error_messages]) ||
+              'Submission blocked',
+            'error'
+          )
           result.errors.push(result.blockReason)
           break
 
@@ -234,11 +926,104 @@ export class RulesEngine {
           break
 
         case 'show_warning':
-          const warningMsg = action.warningMessage || action.errorMessage || 'Warning'
-          result.warnings.push(warningMsg)
+          const warningMsg =
+            message([action.warningMessage, action.warningMessages], [action.errorMessage, action.errorMessages]) ||
+            'Warning'
+          result.warnings.push(report(action, warningMsg, 'warning'))
           break
+
+        case 'calculate_value':
+          this.applyCalculation(rule, action, result, context)
+          break
+
+        case 'mark_eligible':
+        case 'mark_ineligible':
+        case 'mark_partially_eligible': {
+          const status = ELIGIBILITY_ACTION_STATUS[action.type]
+          const partial = status === 'partially_eligible'
+          const decisions = [
+            ...(result.eligibility?.decisions || []),
+            {
+              ruleId: rule.id,
+              ruleName: rule.name,
+              status,
+              reasonCodes: (action.reasonCodes || []).filter(Boolean),
+              message: message([action.errorMessage, action.errorMessages], [rule.error_message, rule.error_messages]),
+              ...(partial && action.coverageCap !== undefined && { coverageCap: action.coverageCap }),
+              ...(partial && action.coveragePercentage !== undefined && {
+                coveragePercentage: action.coveragePercentage,
+              }),
+              ...(item && { itemIndex: item.index }),
+            },
+          ]
+          result.eligibility = summarizeEligibility(decisions)
+          break
+        }
+      }
+    }
+  }
+
+  /**
+   * Evaluate a calculate_value formula and store the result in fieldValues.
+   * Formula errors are reported against the rule rather than thrown, so the
+   * remaining actions and rules still run.
+   */
+  private applyCalculation(
+    rule: Rule,
+    action: RuleAction,
+    result: RuleEvaluationResult,
+    context: RuleEvaluationContext
+  ): void {
+    if (!action.targetField || !action.formula) {
+      result.ruleErrors!.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        message: 'Calculate value action requires a target field and a formula',
+      })
+      return
+    }
+
+    try {
+      const value = evaluateFormula(
+        this.getFormula(action.formula),
+        (name) => this.resolveFormulaReference(name, result, context),
+        { timeZone: this.getTimeZone(context) }
+      )
+
+      // Formulas over unanswered questions yield null - leave the field unset
+      if (value !== null) {
+        result.fieldValues![action.targetField] = value
       }
+    } catch (error) {
+      result.ruleErrors!.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        message: `Invalid formula for "${action.targetField}": ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      })
+    }
+  }
+
+  /**
+   * Resolve a formula reference: `metadata.*` paths read from context metadata,
+   * anything else reads values calculated earlier in this run, then answers.
+   */
+  private resolveFormulaReference(
+    name: string,
+    result: RuleEvaluationResult,
+    context: RuleEvaluationContext
+  ): unknown {
+    // Dotted paths (metadata.policy.limit) resolve like condition values do
+    if (name.startsWith('metadata.')) {
+      return getPath(context.metadata, name.slice('metadata.'.length))
     }
+
+    if (result.fieldValues && name in result.fieldValues) {
+      return result.fieldValues[name]
+    }
+
+    return this.resolveFieldValue(name, context)
   }
 
   // ========================================
@@ -321,13 +1106,8 @@ export class RulesEngine {
   private operatorRegex(fieldValue: unknown, conditionValue: unknown): boolean {
     if (fieldValue == null || typeof conditionValue !== 'string') return false
 
-    try {
-      const regex = new RegExp(conditionValue)
-      return regex.test(String(fieldValue))
-    } catch {
-      console.error('Invalid regex pattern:', conditionValue)
-      return false
-    }
+    const regex = this.getRegex(conditionValue)
+    return regex ? regex.test(String(fieldValue)) : false
   }
 
   private operatorIsEmpty(fieldValue: unknown): boolean {
@@ -344,7 +1124,7 @@ export class RulesEngine {
     conditionValue: unknown,
     context: RuleEvaluationContext
   ): boolean {
-    const fieldDate = this.parseDate(fieldValue)
+    const fieldDate = this.parseDate(fieldValue, context)
     if (!fieldDate) return false
 
     const conditionDate = this.parseRelativeOrAbsoluteDate(conditionValue, context)
@@ -358,7 +1138,7 @@ export class RulesEngine {
     conditionValue: unknown,
     context: RuleEvaluationContext
   ): boolean {
-    const fieldDate = this.parseDate(fieldValue)
+    const fieldDate = this.parseDate(fieldValue, context)
     if (!fieldDate) return false
 
     const conditionDate = this.parseRelativeOrAbsoluteDate(conditionValue, context)
@@ -367,88 +1147,165 @@ export class RulesEngine {
     return fieldDate > conditionDate
   }
 
-  private operatorDateBetween(fieldValue: unknown, conditionValue: unknown): boolean {
+  private operatorDateBetween(
+    fieldValue: unknown,
+    conditionValue: unknown,
+    context: RuleEvaluationContext
+  ): boolean {
     if (!Array.isArray(conditionValue) || conditionValue.length !== 2) return false
 
-    const fieldDate = this.parseDate(fieldValue)
+    const fieldDate = this.parseDate(fieldValue, context)
     if (!fieldDate) return false
 
-    const startDate = this.parseDate(conditionValue[0])
-    const endDate = this.parseDate(conditionValue[1])
+    const startDate = this.parseRelativeOrAbsoluteDate(conditionValue[0], context)
+    const endDate = this.parseRelativeOrAbsoluteDate(conditionValue[1], context)
 
     if (!startDate || !endDate) return false
 
     return fieldDate >= startDate && fieldDate <= endDate
   }
 
+  private operatorWithinLastNDays(
+    fieldValue: unknown,
+    conditionValue: unknown,
+    context: RuleEvaluationContext
+  ): boolean {
+    const spec: WithinDaysValue | null =
+      typeof conditionValue === 'number' || typeof conditionValue === 'string'
+        ? { days: Number(conditionValue) }
+        : isPlainObject(conditionValue)
+          ? (conditionValue as unknown as WithinDaysValue)
+          : null
+    const fieldDate = this.parseDate(fieldValue, context)
+    if (!spec || !fieldDate || conditionValue === '' || isNaN(Number(spec.days))) return false
+
+    const reference = this.getBaseDate(spec.from ?? 'submission_date', context)
+    const elapsed = spec.businessDays
+      ? businessDaysBetween(fieldDate, reference, this.holidayCalendar)
+      : daysBetween(fieldDate, reference)
+
+    return elapsed >= 0 && elapsed <= Number(spec.days)
+  }
+
+  private operatorBusinessDaysBetween(
+    fieldValue: unknown,
+    conditionValue: unknown,
+    context: RuleEvaluationContext
+  ): boolean {
+    if (!isPlainObject(conditionValue)) return false
+    const spec = conditionValue as BusinessDaysValue
+
+    const fieldDate = this.parseDate(fieldValue, context)
+    const toDate = this.resolveDateOperand(spec.to, context)
+    if (!fieldDate || !toDate) return false
+
+    return isWithinBounds(businessDaysBetween(fieldDate, toDate, this.holidayCalendar), spec.min, spec.max)
+  }
+
+  private operatorAgeAtDate(
+    fieldValue: unknown,
+    conditionValue: unknown,
+    context: RuleEvaluationContext
+  ): boolean {
+    if (!isPlainObject(conditionValue)) return false
+    const spec = conditionValue as AgeAtDateValue
+
+    const birthDate = this.parseDate(fieldValue, context)
+    const atDate = this.resolveDateOperand(spec.at, context)
+    if (!birthDate || !atDate) return false
+
+    return isWithinBounds(ageAtDate(birthDate, atDate), spec.min, spec.max)
+  }
+
+  private operatorDurationGreaterThan(
+    fieldValue: unknown,
+    conditionValue: unknown,
+    context: RuleEvaluationContext
+  ): boolean {
+    if (!isPlainObject(conditionValue)) return false
+    const spec = conditionValue as unknown as DurationValue
+    const amount = Number(spec.amount)
+
+    const fromDate = this.parseDate(fieldValue, context)
+    const toDate = this.resolveDateOperand(spec.to, context)
+    if (!fromDate || !toDate || spec.amount == null || isNaN(amount)) return false
+
+    switch (spec.unit) {
+      case 'business_days':
+        return businessDaysBetween(fromDate, toDate, this.holidayCalendar) > amount
+      case 'months':
+        return monthsBetween(fromDate, toDate) > amount
+      case 'years':
+        return Math.trunc(monthsBetween(fromDate, toDate) / 12) > amount
+      case 'days':
+      default:
+        return daysBetween(fromDate, toDate) > amount
+    }
+  }
+
   // ========================================
   // HELPER METHODS
   // ========================================
 
-  private parseDate(value: unknown): Date | null {
-    if (value == null) return null
-    if (value instanceof Date) return value
-
-    const dateStr = String(value)
-    const date = new Date(dateStr)
+  /**
+   * The time zone dates are evaluated in - context metadata wins over the
+   * engine option, so one engine can serve claims from several regions.
+   * Unknown zones fall back to the engine's instead of throwing.
+   */
+  private getTimeZone(context: RuleEvaluationContext): string {
+    const timeZone = context.metadata?.timeZone
+    return typeof timeZone === 'string' && timeZone && isValidTimeZone(timeZone) ? timeZone : this.timeZone
+  }
 
-    return isNaN(date.getTime()) ? null : date
+  /**
+   * Convert a value to a calendar date (YYYY-MM-DD) in the evaluation time zone
+   */
+  private parseDate(value: unknown, context: RuleEvaluationContext): string | null {
+    return toCalendarDate(value, this.getTimeZone(context))
   }
 
   private parseRelativeOrAbsoluteDate(
     value: unknown,
     context: RuleEvaluationContext
-  ): Date | null {
+  ): string | null {
     // Check if it's a relative date value
     if (typeof value === 'object' && value !== null && 'type' in value) {
       const relativeDate = value as RelativeDateValue
 
       if (relativeDate.type === 'relative') {
         const baseDate = this.getBaseDate(relativeDate.from, context)
-        return this.addRelativeDateOffset(baseDate, relativeDate)
+        return addToCalendarDate(baseDate, relativeDate)
       }
     }
 
     // Otherwise, parse as absolute date
-    return this.parseDate(value)
+    return this.parseDate(value, context)
   }
 
-  private getBaseDate(from: string | undefined, context: RuleEvaluationContext): Date {
+  /**
+   * Resolve the `to`/`at` date of a duration operator; defaults to the submission date
+   */
+  private resolveDateOperand(operand: unknown, context: RuleEvaluationContext): string | null {
+    if (operand == null || operand === '') {
+      return this.getBaseDate('submission_date', context)
+    }
+    return this.parseRelativeOrAbsoluteDate(this.resolveConditionValue(operand, context), context)
+  }
+
+  private getBaseDate(from: string | undefined, context: RuleEvaluationContext): string {
+    const today = todayInTimeZone(this.getTimeZone(context))
+
     switch (from) {
       case 'submission_date':
-        if (context.metadata?.submissionDate) {
-          return new Date(context.metadata.submissionDate)
-        }
-        return new Date()
+        return this.parseDate(context.metadata?.submissionDate, context) ?? today
 
       case 'policy_start_date':
-        if (context.metadata?.policyStartDate) {
-          return new Date(context.metadata.policyStartDate as string)
-        }
-        return new Date()
+        return this.parseDate(context.metadata?.policyStartDate, context) ?? today
 
       case 'now':
       default:
-        return new Date()
-    }
-  }
-
-  private addRelativeDateOffset(baseDate: Date, offset: RelativeDateValue): Date {
-    const result = new Date(baseDate)
-
-    if (offset.days) {
-      result.setDate(result.getDate() + offset.days)
-    }
-
-    if (offset.months) {
-      result.setMonth(result.getMonth() + offset.months)
-    }
-
-    if (offset.years) {
-      result.setFullYear(result.getFullYear() + offset.years)
+        return today
     }
-
-    return result
   }
 
   // ========================================
@@ -503,8 +1360,32 @@ export class RulesEngine {
 /**
  * Factory function to create a RulesEngine instance
  */
-export function createRulesEngine(rules: Rule[]): RulesEngine {
-  return new RulesEngine(rules)
+export function createRulesEngine(rules: Rule[], options?: RulesEngineOptions): RulesEngine {
+  return new RulesEngine(rules, options)
+}
+
+const compiledEngines = new WeakMap<Rule[], Map<string, RulesEngine>>()
+
+/**
+ * Get a compiled engine for a rule set, reusing the engine already built for
+ * the same rules array and options. Rules are compiled once per array, so
+ * pass a new array (rather than mutating it) when the rules change.
+ */
+export function compileRules(rules: Rule[], options: RulesEngineOptions = {}): RulesEngine {
+  const key = JSON.stringify(options)
+  let engines = compiledEngines.get(rules)
+
+  if (!engines) {
+    engines = new Map()
+    compiledEngines.set(rules, engines)
+  }
+
+  let engine = engines.get(key)
+  if (!engine) {
+    engine = new RulesEngine(rules, options)
+    engines.set(key, engine)
+  }
+  return engine
 }
 
 /**
@@ -512,8 +1393,103 @@ export function createRulesEngine(rules: Rule[]): RulesEngine {
  */
 export function evaluateQuestionnaireRules(
   rules: Rule[],
-  context: RuleEvaluationContext
+  context: RuleEvaluationContext,
+  options?: RuleEvaluationOptions
 ): RuleEvaluationResult {
-  const engine = new RulesEngine(rules)
-  return engine.evaluate(context)
+  return compileRules(rules).evaluate(context, options)
+}
+
+/**
+ * Scope a context to one item of a repeatable group: the group's answer is
+ * replaced by the current item, so `group.child` reads that item's value
+ */
+function createItemContext(
+  context: RuleEvaluationContext,
+  groupId: string,
+  item: unknown
+): RuleEvaluationContext {
+  return { ...context, answers: { ...context.answers, [groupId]: item } }
+}
+
+/**
+ * Reduce a group field's item values for count/sum/min/max/avg conditions.
+ * Empty values are skipped; min/max/avg of no values are undefined (never match).
+ */
+function aggregateValues(aggregate: AggregateFunction, values: unknown[]): number | undefined {
+  const present = values.filter((value) => value != null && value !== '')
+
+  if (aggregate === 'count') return present.length
+
+  const numbers = present.map(Number).filter((n) => !isNaN(n))
+
+  switch (aggregate) {
+    case 'sum':
+      return numbers.reduce((sum, n) => sum + n, 0)
+    case 'min':
+      return numbers.length > 0 ? Math.min(...numbers) : undefined
+    case 'max':
+      return numbers.length > 0 ? Math.max(...numbers) : undefined
+    case 'avg':
+      return numbers.length > 0 ? numbers.reduce((sum, n) => sum + n, 0) / numbers.length : undefined
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Visit every field/metadata/expression reference in a condition value,
+ * including those nested in range pairs and date operator objects
+ */
+function collectReferences(value: unknown, visit: (reference: ConditionReference) => void): void {
+  if (isConditionReference(value)) {
+    visit(value)
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectReferences(item, visit))
+  } else if (isPlainObject(value)) {
+    Object.values(value).forEach((item) => collectReferences(item, visit))
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Check min/max bounds (inclusive, either may be omitted but not both)
+ */
+function isWithinBounds(value: number, min: unknown, max: unknown): boolean {
+  const hasMin = min != null && min !== ''
+  const hasMax = max != null && max !== ''
+  if (!hasMin && !hasMax) return false
+
+  return (!hasMin || value >= Number(min)) && (!hasMax || value <= Number(max))
+}
+
+/**
+ * Read a dotted path (`policy.startDate`) from an object
+ */
+function getPath(source: Record<string, unknown> | undefined, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) =>
+      typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined,
+    source
+  )
+}
+
+/**
+ * Serialize field values with sorted keys so equal maps compare equal
+ */
+function stableSerialize(values: Record<string, unknown>): string {
+  return JSON.stringify(Object.keys(values).sort().map((key) => [key, values[key]]))
+}
+
+/**
+ * Keys whose values differ between two field value maps
+ */
+function changedFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+  return [...keys].filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key])).sort()
 }
@@ -0,0 +1,681 @@
+/**
+ * Formula language for `calculate_value` actions
+ *
+ * A small, sandboxed expression language. Formulas are tokenized and parsed
+ * into an AST that is walked by `evaluateFormula` - nothing is ever passed to
+ * `eval` or `Function`, and only the functions listed in `formulaFunctions`
+ * can be called.
+ *
+ * Supports:
+ * - Arithmetic: + - * / % and parentheses
+ * - Comparison and logic: == != < <= > >= && || !
+ * - Conditionals: `cond ? a : b` and `if(cond, a, b)`
+ * - References: `claim_amount`, `metadata.coverageLimit`, or `{question-uuid}`
+ * - Functions: min, max, round, floor, ceil, abs, coalesce, days_between, today
+ * - Aggregates over repeatable group fields: sum, count, avg
+ *   (e.g. `sum(receipts.amount)`; list arguments are flattened)
+ *
+ * Missing values (null, undefined, '') propagate through arithmetic as null,
+ * so a formula over unanswered questions yields null instead of NaN.
+ *
+ * Dates are calendar dates in the evaluation time zone (see ./dates), the same
+ * as the engine's date operators.
+ */
+
+import { DEFAULT_TIME_ZONE, daysBetween, toCalendarDate, todayInTimeZone } from './dates'
+
+export type FormulaNode =
+  | { kind: 'literal'; value: number | string | boolean | null }
+  | { kind: 'reference'; name: string }
+  | { kind: 'unary'; operator: '-' | '!'; operand: FormulaNode }
+  | { kind: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { kind: 'conditional'; test: FormulaNode; consequent: FormulaNode; alternate: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] }
+
+type BinaryOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '%'
+  | '=='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | '&&'
+  | '||'
+
+/**
+ * Resolves a reference name (question ID, field name or `metadata.*` path) to a value
+ */
+export type FormulaResolver = (name: string) => unknown
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'reference'; value: string; position: number }
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'eof'; position: number }
+
+const MAX_FORMULA_LENGTH = 2000
+const MAX_NESTING_DEPTH = 64
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '(', ')', ',']
+
+// ========================================
+// TOKENIZER
+// ========================================
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    // Numbers: 12, 12.5, .5
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i))!
+      tokens.push({ type: 'number', value: Number(match[0]), position: i })
+      i += match[0].length
+      continue
+    }
+
+    // Strings: 'text' or "text"
+    if (char === '"' || char === "'") {
+      let j = i + 1
+      let value = ''
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          j++
+        }
+        value += source[j]
+        j++
+      }
+      if (j >= source.length) {
+        throw new Error(`Unterminated string starting at position ${i}`)
+      }
+      tokens.push({ type: 'string', value, position: i })
+      i = j + 1
+      continue
+    }
+
+    // Braced references: {question-id} (allows IDs with dashes, e.g. UUIDs)
+    if (char === '{') {
+      const end = source.indexOf('}', i)
+      if (end === -1) {
+        throw new Error(`Unterminated reference starting at position ${i}`)
+      }
+      const name = source.slice(i + 1, end).trim()
+      if (!name) {
+        throw new Error(`Empty reference at position ${i}`)
+      }
+      tokens.push({ type: 'reference', value: name, position: i })
+      i = end + 1
+      continue
+    }
+
+    // Identifiers: claim_amount, metadata.coverageLimit
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(source.slice(i))!
+      tokens.push({ type: 'identifier', value: match[0], position: i })
+      i += match[0].length
+      continue
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i))
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: i })
+      i += operator.length
+      continue
+    }
+
+    throw new Error(`Unexpected character '${char}' at position ${i}`)
+  }
+
+  tokens.push({ type: 'eof', position: source.length })
+  return tokens
+}
+
+// ========================================
+// PARSER
+// ========================================
+
+class FormulaParser {
+  private tokens: Token[]
+  private index = 0
+  private depth = 0
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens
+  }
+
+  parse(): FormulaNode {
+    const node = this.parseExpression()
+    const token = this.peek()
+    if (token.type !== 'eof') {
+      throw new Error(`Unexpected '${this.describe(token)}' at position ${token.position}`)
+    }
+    return node
+  }
+
+  private parseExpression(): FormulaNode {
+    this.depth++
+    if (this.depth > MAX_NESTING_DEPTH) {
+      throw new Error('Formula is nested too deeply')
+    }
+
+    const node = this.parseConditional()
+    this.depth--
+    return node
+  }
+
+  private parseConditional(): FormulaNode {
+    const test = this.parseBinary(0)
+
+    if (this.matchOperator('?')) {
+      const consequent = this.parseExpression()
+      this.expectOperator(':')
+      const alternate = this.parseExpression()
+      return { kind: 'conditional', test, consequent, alternate }
+    }
+
+    return test
+  }
+
+  /**
+   * Precedence climbing over binary operators (lowest precedence first)
+   */
+  private static readonly precedence: BinaryOperator[][] = [
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+  ]
+
+  private parseBinary(level: number): FormulaNode {
+    if (level >= FormulaParser.precedence.length) {
+      return this.parseUnary()
+    }
+
+    let left = this.parseBinary(level + 1)
+    const operators = FormulaParser.precedence[level]
+
+    for (;;) {
+      const token = this.peek()
+      if (token.type !== 'operator' || !operators.includes(token.value as BinaryOperator)) {
+        return left
+      }
+      this.index++
+      const right = this.parseBinary(level + 1)
+      left = { kind: 'binary', operator: token.value as BinaryOperator, left, right }
+    }
+  }
+
+  private parseUnary(): FormulaNode {
+    if (this.matchOperator('-')) {
+      return { kind: 'unary', operator: '-', operand: this.parseUnary() }
+    }
+    if (this.matchOperator('!')) {
+      return { kind: 'unary', operator: '!', operand: this.parseUnary() }
+    }
+    if (this.matchOperator('+')) {
+      return this.parseUnary()
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next()
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: token.value }
+
+      case 'string':
+        return { kind: 'literal', value: token.value }
+
+      case 'reference':
+        return { kind: 'reference', name: token.value }
+
+      case 'identifier': {
+        if (token.value === 'true') return { kind: 'literal', value: true }
+        if (token.value === 'false') return { kind: 'literal', value: false }
+        if (token.value === 'null') return { kind: 'literal', value: null }
+
+        if (this.matchOperator('(')) {
+          return this.parseCall(token.value, token.position)
+        }
+
+        return { kind: 'reference', name: token.value }
+      }
+
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parseExpression()
+          this.expectOperator(')')
+          return node
+        }
+        throw new Error(`Unexpected '${token.value}' at position ${token.position}`)
+
+      case 'eof':
+        throw new Error('Unexpected end of formula')
+    }
+  }
+
+  private parseCall(name: string, position: number): FormulaNode {
+    // Own properties only, so names like `toString` are not resolved from Object.prototype
+    const fn = Object.hasOwn(formulaFunctions, name) ? formulaFunctions[name] : undefined
+    if (!fn) {
+      throw new Error(`Unknown function '${name}' at position ${position}`)
+    }
+
+    const args: FormulaNode[] = []
+    if (!this.matchOperator(')')) {
+      do {
+        args.push(this.parseExpression())
+      } while (this.matchOperator(','))
+      this.expectOperator(')')
+    }
+
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      const expected =
+        fn.minArgs === fn.maxArgs
+          ? `${fn.minArgs}`
+          : fn.maxArgs === Infinity
+            ? `at least ${fn.minArgs}`
+            : `${fn.minArgs}-${fn.maxArgs}`
+      throw new Error(`Function '${name}' expects ${expected} argument(s), got ${args.length}`)
+    }
+
+    return { kind: 'call', name, args }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]
+    if (token.type !== 'eof') this.index++
+    return token
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek()
+    if (token.type === 'operator' && token.value === value) {
+      this.index++
+      return true
+    }
+    return false
+  }
+
+  private expectOperator(value: string): void {
+    const token = this.peek()
+    if (!this.matchOperator(value)) {
+      throw new Error(`Expected '${value}' but found '${this.describe(token)}' at position ${token.position}`)
+    }
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'eof' ? 'end of formula' : String(token.value)
+  }
+}
+
+/**
+ * Parse a formula into an AST
+ * @throws Error with a position-aware message if the formula is invalid
+ */
+export function parseFormula(source: string): FormulaNode {
+  if (typeof source !== 'string' || source.trim() === '') {
+    throw new Error('Formula is empty')
+  }
+  if (source.length > MAX_FORMULA_LENGTH) {
+    throw new Error(`Formula exceeds ${MAX_FORMULA_LENGTH} characters`)
+  }
+
+  return new FormulaParser(tokenize(source)).parse()
+}
+
+/**
+ * Check a formula for syntax errors without evaluating it
+ */
+export function validateFormula(source: string): { valid: boolean; error?: string } {
+  try {
+    parseFormula(source)
+    return { valid: true }
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : 'Invalid formula' }
+  }
+}
+
+/**
+ * Collect all reference names used by a formula
+ */
+export function getFormulaReferences(node: FormulaNode): string[] {
+  const names = new Set<string>()
+
+  const visit = (n: FormulaNode) => {
+    switch (n.kind) {
+      case 'reference':
+        names.add(n.name)
+        break
+      case 'unary':
+        visit(n.operand)
+        break
+      case 'binary':
+        visit(n.left)
+        visit(n.right)
+        break
+      case 'conditional':
+        visit(n.test)
+        visit(n.consequent)
+        visit(n.alternate)
+        break
+      case 'call':
+        n.args.forEach(visit)
+        break
+    }
+  }
+
+  visit(node)
+  return [...names]
+}
+
+// ========================================
+// EVALUATOR
+// ========================================
+
+/**
+ * Evaluate a formula (source or pre-parsed AST) against a resolver. Date
+ * functions use `options.timeZone` (UTC by default).
+ * @throws Error on type errors (e.g. arithmetic on text) or division by zero
+ */
+export function evaluateFormula(
+  formula: string | FormulaNode,
+  resolve: FormulaResolver,
+  options: { timeZone?: string } = {}
+): unknown {
+  const node = typeof formula === 'string' ? parseFormula(formula) : formula
+  return evaluateNode(node, resolve, options.timeZone || DEFAULT_TIME_ZONE)
+}
+
+function evaluateNode(node: FormulaNode, resolve: FormulaResolver, timeZone: string): unknown {
+  switch (node.kind) {
+    case 'literal':
+      return node.value
+
+    case 'reference': {
+      const value = resolve(node.name)
+      return value === undefined || value === '' ? null : value
+    }
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, resolve, timeZone)
+      if (node.operator === '!') return !isTruthy(operand)
+      if (operand === null) return null
+      return -toNumber(operand, 'unary -')
+    }
+
+    case 'binary':
+      return evaluateBinary(node, resolve, timeZone)
+
+    case 'conditional':
+      return isTruthy(evaluateNode(node.test, resolve, timeZone))
+        ? evaluateNode(node.consequent, resolve, timeZone)
+        : evaluateNode(node.alternate, resolve, timeZone)
+
+    case 'call': {
+      // if() is lazy so the untaken branch is never evaluated
+      if (node.name === 'if') {
+        return isTruthy(evaluateNode(node.args[0], resolve, timeZone))
+          ? evaluateNode(node.args[1], resolve, timeZone)
+          : node.args.length > 2
+            ? evaluateNode(node.args[2], resolve, timeZone)
+            : null
+      }
+
+      const args = node.args.map((arg) => evaluateNode(arg, resolve, timeZone))
+      return formulaFunctions[node.name].call(args, timeZone)
+    }
+  }
+}
+
+function evaluateBinary(
+  node: Extract<FormulaNode, { kind: 'binary' }>,
+  resolve: FormulaResolver,
+  timeZone: string
+): unknown {
+  // Short-circuit logical operators
+  if (node.operator === '&&') {
+    return isTruthy(evaluateNode(node.left, resolve, timeZone)) && isTruthy(evaluateNode(node.right, resolve, timeZone))
+  }
+  if (node.operator === '||') {
+    return isTruthy(evaluateNode(node.left, resolve, timeZone)) || isTruthy(evaluateNode(node.right, resolve, timeZone))
+  }
+
+  const left = evaluateNode(node.left, resolve, timeZone)
+  const right = evaluateNode(node.right, resolve, timeZone)
+
+  switch (node.operator) {
+    case '==':
+      return valuesEqual(left, right)
+    case '!=':
+      return !valuesEqual(left, right)
+    case '<':
+    case '<=':
+    case '>':
+    case '>=':
+      return compareValues(left, right, node.operator)
+  }
+
+  // Arithmetic - missing operands propagate as null
+  if (left === null || right === null) return null
+
+  // + concatenates when either side is non-numeric text
+  if (node.operator === '+' && (isNonNumericString(left) || isNonNumericString(right))) {
+    return `${left}${right}`
+  }
+
+  const l = toNumber(left, node.operator)
+  const r = toNumber(right, node.operator)
+
+  switch (node.operator) {
+    case '+':
+      return l + r
+    case '-':
+      return l - r
+    case '*':
+      return l * r
+    case '/':
+      if (r === 0) throw new Error('Division by zero')
+      return l / r
+    case '%':
+      if (r === 0) throw new Error('Division by zero')
+      return l % r
+  }
+}
+
+// ========================================
+// FUNCTIONS
+// ========================================
+
+interface FormulaFunction {
+  minArgs: number
+  maxArgs: number
+  call: (args: unknown[], timeZone: string) => unknown
+}
+
+const formulaFunctions: Record<string, FormulaFunction> = {
+  min: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: (args) => (args.includes(null) ? null : Math.min(...args.map((a) => toNumber(a, 'min')))),
+  },
+  max: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: (args) => (args.includes(null) ? null : Math.max(...args.map((a) => toNumber(a, 'max')))),
+  },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([value, digits]) => {
+      if (value === null) return null
+      const factor = Math.pow(10, digits == null ? 0 : toNumber(digits, 'round'))
+      return Math.round(toNumber(value, 'round') * factor) / factor
+    },
+  },
+  floor: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => (value === null ? null : Math.floor(toNumber(value, 'floor'))),
+  },
+  ceil: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => (value === null ? null : Math.ceil(toNumber(value, 'ceil'))),
+  },
+  abs: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => (value === null ? null : Math.abs(toNumber(value, 'abs'))),
+  },
+  coalesce: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: (args) => args.find((a) => a !== null) ?? null,
+  },
+  if: {
+    minArgs: 2,
+    maxArgs: 3,
+    // Evaluated lazily in evaluateNode
+    call: () => null,
+  },
+  days_between: {
+    minArgs: 2,
+    maxArgs: 2,
+    call: ([start, end], timeZone) => {
+      if (start === null || end === null) return null
+      return daysBetween(toDate(start, timeZone, 'days_between'), toDate(end, timeZone, 'days_between'))
+    },
+  },
+  today: {
+    minArgs: 0,
+    maxArgs: 0,
+    call: (_args, timeZone) => todayInTimeZone(timeZone),
+  },
+  sum: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: (args) => presentValues(args).reduce<number>((sum, a) => sum + toNumber(a, 'sum'), 0),
+  },
+  count: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: (args) => presentValues(args).length,
+  },
+  avg: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: (args) => {
+      const values = presentValues(args)
+      if (values.length === 0) return null
+      return values.reduce<number>((sum, a) => sum + toNumber(a, 'avg'), 0) / values.length
+    },
+  },
+}
+
+/**
+ * Names of the functions available in formulas (for editor hints)
+ */
+export const FORMULA_FUNCTIONS = Object.keys(formulaFunctions)
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * Flatten list arguments (group item values) and drop missing values
+ */
+function presentValues(args: unknown[]): unknown[] {
+  return args.flat().filter((a) => a !== null && a !== undefined && a !== '')
+}
+
+function isTruthy(value: unknown): boolean {
+  if (value === null || value === undefined) return false
+  return Boolean(value)
+}
+
+function isNonNumericString(value: unknown): boolean {
+  return typeof value === 'string' && (value.trim() === '' || isNaN(Number(value)))
+}
+
+function toNumber(value: unknown, context: string): number {
+  if (typeof value === 'number') return value
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value)
+  }
+  throw new Error(`'${context}' expects a number but got ${JSON.stringify(value)}`)
+}
+
+/**
+ * Convert a value to a calendar date (YYYY-MM-DD) in the evaluation time zone
+ */
+function toDate(value: unknown, timeZone: string, context: string): string {
+  const date = toCalendarDate(value, timeZone)
+  if (!date) {
+    throw new Error(`'${context}' expects a date but got ${JSON.stringify(value)}`)
+  }
+  return date
+}
+
+function valuesEqual(left: unknown, right: unknown): boolean {
+  if (left === null || right === null) return left === right
+
+  // Compare numerically when both sides look like numbers ('100' == 100)
+  if (!isNonNumericString(left) && !isNonNumericString(right)) {
+    const l = Number(left)
+    const r = Number(right)
+    if (!isNaN(l) && !isNaN(r)) return l === r
+  }
+
+  return left === right
+}
+
+function compareValues(left: unknown, right: unknown, operator: '<' | '<=' | '>' | '>='): boolean {
+  if (left === null || right === null) return false
+
+  let l: number | string
+  let r: number | string
+
+  if (!isNonNumericString(left) && !isNonNumericString(right)) {
+    l = toNumber(left, operator)
+    r = toNumber(right, operator)
+  } else {
+    l = String(left)
+    r = String(right)
+  }
+
+  switch (operator) {
+    case '<':
+      return l < r
+    case '<=':
+      return l <= r
+    case '>':
+      return l > r
+    case '>=':
+      return l >= r
+  }
+}
@@ -3,10 +3,34 @@ import type {
   RuleCondition,
   RuleAction,
   RuleOperator,
+  BuiltInRuleOperator,
   ActionType,
   LogicalOperator,
   RuleTemplate,
+  StoredRuleConditions,
+  ConditionNode,
+  RuleCategory,
+  RuleConfiguration,
+  RuleEvaluationContext,
+  RuleEvaluationResult,
+  RuleSetStats,
+  RuleValidationError,
+  SerializedRuleEvaluationResult,
+  EligibilityDecision,
+  EligibilityStatus,
+  EligibilitySummary,
 } from '@/types/rules'
+import type { Rule } from '@/types/policies'
+import type { Profile } from '@/types/auth'
+import {
+  isConditionGroup,
+  isNotCondition,
+  isConditionReference,
+  formatConditionValue,
+  formatConditionField,
+} from './conditions'
+import { getCustomOperator, getCustomOperators } from './operators'
+import { DEFAULT_TIME_ZONE, ageAtDate, isValidTimeZone, toCalendarDate, todayInTimeZone } from './dates'
 
 /**
  * Serialize rule conditions for JSONB storage
@@ -49,6 +73,32 @@ export function deserializeRuleActions(json: Json): RuleAction[] {
   ) as unknown as RuleAction[]
 }
 
+/**
+ * Serialize an evaluation result for the client (Sets become arrays)
+ */
+export function serializeRuleEvaluationResult(
+  result: RuleEvaluationResult
+): SerializedRuleEvaluationResult {
+  return {
+    ...result,
+    visibleQuestions: [...result.visibleQuestions],
+    hiddenQuestions: [...result.hiddenQuestions],
+  }
+}
+
+/**
+ * Restore an evaluation result received from the server
+ */
+export function deserializeRuleEvaluationResult(
+  serialized: SerializedRuleEvaluationResult
+): RuleEvaluationResult {
+  return {
+    ...serialized,
+    visibleQuestions: new Set(serialized.visibleQuestions),
+    hiddenQuestions: new Set(serialized.hiddenQuestions),
+  }
+}
+
 /**
  * Validate rule condition structure
  */
@@ -67,6 +117,24 @@ export function validateRuleCondition(condition: unknown): condition is RuleCond
   )
 }
 
+/**
+ * Validate a condition tree node (leaf condition, group or NOT) recursively
+ */
+export function validateConditionNode(node: unknown): node is ConditionNode {
+  if (isConditionGroup(node)) {
+    return (
+      (node.operator === 'AND' || node.operator === 'OR') &&
+      node.conditions.every(validateConditionNode)
+    )
+  }
+
+  if (isNotCondition(node)) {
+    return validateConditionNode(node.condition)
+  }
+
+  return validateRuleCondition(node)
+}
+
 /**
  * Validate rule action structure
  */
@@ -112,7 +180,7 @@ export function createAction(
  * Get operator display name
  */
 export function getOperatorDisplayName(operator: RuleOperator): string {
-  const displayNames: Record<RuleOperator, string> = {
+  const displayNames: Record<BuiltInRuleOperator, string> = {
     equals: 'Equals',
     not_equals: 'Not Equals',
     contains: 'Contains',
@@ -130,9 +198,13 @@ export function getOperatorDisplayName(operator: RuleOperator): string {
     date_before: 'Date Before',
     date_after: 'Date After',
     date_between: 'Date Between',
+    within_last_n_days: 'Within Last N Days',
+    business_days_between: 'Business Days Between',
+    age_at_date: 'Age At Date',
+    duration_greater_than: 'Duration Greater Than',
   }
 
-  return displayNames[operator] || operator
+  return displayNames[operator as BuiltInRuleOperator] || getCustomOperator(operator)?.label || operator
 }
 
 /**
@@ -148,11 +220,105 @@ export function getActionTypeDisplayName(type: ActionType): string {
     set_value: 'Set Value',
     show_warning: 'Show Warning',
     calculate_value: 'Calculate Value',
+    mark_eligible: 'Mark Eligible',
+    mark_ineligible: 'Mark Ineligible',
+    mark_partially_eligible: 'Mark Partially Eligible',
   }
 
   return displayNames[type] || type
 }
 
+/**
+ * Common eligibility reason codes. Rules may use other codes too; these are
+ * offered in the rule editor and shown with a readable label.
+ */
+export const eligibilityReasonCodes: { code: string; label: string }[] = [
+  { code: 'PRE_EXISTING_CONDITION', label: 'Pre-existing condition' },
+  { code: 'OUTSIDE_COVERAGE_PERIOD', label: 'Outside coverage period' },
+  { code: 'WAITING_PERIOD', label: 'Within waiting period' },
+  { code: 'LATE_FILING', label: 'Filed after deadline' },
+  { code: 'EXCLUDED_EVENT', label: 'Excluded event' },
+  { code: 'POLICY_INACTIVE', label: 'Policy not active' },
+  { code: 'COVERAGE_LIMIT_EXCEEDED', label: 'Coverage limit exceeded' },
+  { code: 'SUB_LIMIT_APPLIES', label: 'Sub-limit applies' },
+  { code: 'MISSING_DOCUMENTATION', label: 'Missing documentation' },
+]
+
+/**
+ * Get eligibility reason code display label
+ */
+export function getEligibilityReasonLabel(code: string): string {
+  return eligibilityReasonCodes.find((r) => r.code === code)?.label || code
+}
+
+/**
+ * Get eligibility status display name
+ */
+export function getEligibilityStatusDisplayName(status: EligibilityStatus): string {
+  const displayNames: Record<EligibilityStatus, string> = {
+    eligible: 'Eligible',
+    partially_eligible: 'Partially Eligible',
+    ineligible: 'Ineligible',
+  }
+
+  return displayNames[status] || status
+}
+
+const ELIGIBILITY_SEVERITY: Record<EligibilityStatus, number> = {
+  eligible: 0,
+  partially_eligible: 1,
+  ineligible: 2,
+}
+
+/**
+ * Combine eligibility decisions into a summary (see EligibilitySummary).
+ * Returns undefined when no eligibility action fired.
+ */
+export function summarizeEligibility(decisions: EligibilityDecision[]): EligibilitySummary | undefined {
+  if (decisions.length === 0) return undefined
+
+  const status = decisions.reduce<EligibilityStatus>(
+    (worst, decision) =>
+      ELIGIBILITY_SEVERITY[decision.status] > ELIGIBILITY_SEVERITY[worst] ? decision.status : worst,
+    'eligible'
+  )
+  const deciding = decisions.filter((decision) => decision.status === status)
+  const summary: EligibilitySummary = {
+    status,
+    reasonCodes: [...new Set(deciding.flatMap((decision) => decision.reasonCodes))],
+    decisions,
+  }
+
+  if (status === 'partially_eligible') {
+    const caps = deciding.map((d) => d.coverageCap).filter((v): v is number => typeof v === 'number')
+    const percentages = deciding
+      .map((d) => d.coveragePercentage)
+      .filter((v): v is number => typeof v === 'number')
+    if (caps.length > 0) summary.coverageCap = Math.min(...caps)
+    if (percentages.length > 0) summary.coveragePercentage = Math.min(...percentages)
+  }
+
+  return summary
+}
+
+/**
+ * Get the payable amount of a claim under an eligibility summary: nothing
+ * when ineligible, the percentage and then the cap when partially eligible
+ */
+export function getEligibleAmount(amount: number, eligibility: EligibilitySummary | undefined): number {
+  if (!eligibility || eligibility.status === 'eligible') return amount
+  if (eligibility.status === 'ineligible') return 0
+
+  let payable = amount
+  if (eligibility.coveragePercentage !== undefined) {
+    payable = (payable * eligibility.coveragePercentage) / 100
+  }
+  if (eligibility.coverageCap !== undefined) {
+    payable = Math.min(payable, eligibility.coverageCap)
+  }
+  return Math.max(0, payable)
+}
+
 /**
  * Get operators applicable to a field type
  */
@@ -184,35 +350,54 @@ export function getOperatorsForFieldType(fieldType: string): RuleOperator[] {
       'date_before',
       'date_after',
       'date_between',
+      'within_last_n_days',
+      'business_days_between',
+      'age_at_date',
+      'duration_greater_than',
       'is_empty',
       'is_not_empty',
     ],
     select: ['equals', 'not_equals', 'in', 'not_in', 'is_empty', 'is_not_empty'],
     file: ['is_empty', 'is_not_empty'],
+    group: ['is_empty', 'is_not_empty'], // Aggregate conditions compare item fields instead
   }
 
-  return operatorsByFieldType[fieldType] || []
+  return [
+    ...(operatorsByFieldType[fieldType] || []),
+    ...getCustomOperators(fieldType).map((op) => op.name),
+  ]
 }
 
 /**
  * Check if operator requires an array value
  */
 export function operatorRequiresArray(operator: RuleOperator): boolean {
-  return ['in', 'not_in', 'between', 'date_between'].includes(operator)
+  return (
+    ['in', 'not_in', 'between', 'date_between'].includes(operator) ||
+    getCustomOperator(operator)?.valueType === 'array'
+  )
 }
 
 /**
  * Check if operator requires a date value
  */
 export function operatorRequiresDate(operator: RuleOperator): boolean {
-  return ['date_before', 'date_after', 'date_between'].includes(operator)
+  return [
+    'date_before',
+    'date_after',
+    'date_between',
+    'within_last_n_days',
+    'business_days_between',
+    'age_at_date',
+    'duration_greater_than',
+  ].includes(operator)
 }
 
 /**
  * Check if operator requires no value
  */
 export function operatorRequiresNoValue(operator: RuleOperator): boolean {
-  return ['is_empty', 'is_not_empty'].includes(operator)
+  return ['is_empty', 'is_not_empty'].includes(operator) || getCustomOperator(operator)?.valueType === 'none'
 }
 
 /**
@@ -220,16 +405,27 @@ export function operatorRequiresNoValue(operator: RuleOperator): boolean {
  */
 export function formatConditionForDisplay(condition: RuleCondition): string {
   const operator = getOperatorDisplayName(condition.operator)
+  const field = formatConditionField(condition)
 
   if (operatorRequiresNoValue(condition.operator)) {
-    return `${condition.field} ${operator}`
+    return `${field} ${operator}`
+  }
+
+  if (isConditionReference(condition.value)) {
+    return `${field} ${operator} ${formatConditionValue(condition.value)}`
   }
 
   if (Array.isArray(condition.value)) {
-    return `${condition.field} ${operator} [${condition.value.join(', ')}]`
+    return `${field} ${operator} [${condition.value
+      .map((value) => (isConditionReference(value) ? formatConditionValue(value) : value))
+      .join(', ')}]`
   }
 
-  return `${condition.field} ${operator} ${condition.value}`
+  if (typeof condition.value === 'object' && condition.value !== null) {
+    return `${field} ${operator} ${formatConditionValue(condition.value)}`
+  }
+
+  return `${field} ${operator} ${condition.value}`
 }
 
 /**
@@ -258,6 +454,22 @@ export function formatActionForDisplay(action: RuleAction): string {
     case 'show_warning':
       return `${type}: ${action.warningMessage || action.errorMessage || 'Warning'}`
 
+    case 'calculate_value':
+      return `${type}: ${action.targetField} = ${action.formula}`
+
+    case 'mark_eligible':
+    case 'mark_ineligible':
+      return action.reasonCodes?.length ? `${type}: ${action.reasonCodes.join(', ')}` : type
+
+    case 'mark_partially_eligible': {
+      const limits = [
+        action.coveragePercentage !== undefined && `${action.coveragePercentage}%`,
+        action.coverageCap !== undefined && `up to ${action.coverageCap}`,
+      ].filter(Boolean)
+      const reasons = action.reasonCodes?.length ? ` (${action.reasonCodes.join(', ')})` : ''
+      return `${type}: ${limits.join(' ') || 'limited coverage'}${reasons}`
+    }
+
     default:
       return type
   }
@@ -287,7 +499,12 @@ export const ruleTemplates: RuleTemplate[] = [
         targetQuestionId: '{target_question}',
       },
     ],
-    placeholders: ['source_field', 'expected_value', 'target_question'],
+    placeholders: [
+      { key: 'source_field', label: 'Question to check', type: 'question' },
+      { key: 'expected_value', label: 'Expected answer', type: 'text' },
+      { key: 'target_question', label: 'Question to show', type: 'question' },
+    ],
+    builtIn: true,
   },
   {
     id: 'show_on_amount_threshold',
@@ -297,9 +514,9 @@ export const ruleTemplates: RuleTemplate[] = [
     ruleType: 'conditional',
     conditions: [
       {
-        field: 'claim_amount',
+        field: '{amount_field}',
         operator: 'greater_than',
-        value: 1000,
+        value: '{threshold}',
       },
     ],
     actions: [
@@ -308,7 +525,12 @@ export const ruleTemplates: RuleTemplate[] = [
         targetQuestionId: '{target_question}',
       },
     ],
-    placeholders: ['target_question'],
+    placeholders: [
+      { key: 'amount_field', label: 'Amount question', type: 'question', defaultValue: 'claim_amount' },
+      { key: 'threshold', label: 'Threshold', type: 'number', defaultValue: 1000 },
+      { key: 'target_question', label: 'Question to show', type: 'question' },
+    ],
+    builtIn: true,
   },
 
   // Validation Templates
@@ -320,18 +542,23 @@ export const ruleTemplates: RuleTemplate[] = [
     ruleType: 'validation',
     conditions: [
       {
-        field: 'claim_amount',
+        field: '{amount_field}',
         operator: 'between',
-        value: [100, 50000],
+        value: ['{min_amount}', '{max_amount}'],
       },
     ],
     actions: [
       {
         type: 'validate',
-        errorMessage: 'Amount must be between $100 and $50,000',
+        errorMessage: 'Amount must be between {min_amount} and {max_amount}',
       },
     ],
-    placeholders: [],
+    placeholders: [
+      { key: 'amount_field', label: 'Amount question', type: 'question', defaultValue: 'claim_amount' },
+      { key: 'min_amount', label: 'Minimum amount', type: 'number', defaultValue: 100 },
+      { key: 'max_amount', label: 'Maximum amount', type: 'number', defaultValue: 50000 },
+    ],
+    builtIn: true,
   },
   {
     id: 'validate_future_date',
@@ -352,7 +579,8 @@ export const ruleTemplates: RuleTemplate[] = [
         errorMessage: 'Date must be in the future',
       },
     ],
-    placeholders: ['date_field'],
+    placeholders: [{ key: 'date_field', label: 'Date question', type: 'question' }],
+    builtIn: true,
   },
 
   // Document Templates
@@ -364,23 +592,29 @@ export const ruleTemplates: RuleTemplate[] = [
     ruleType: 'document',
     conditions: [
       {
-        field: 'claim_amount',
+        field: '{amount_field}',
         operator: 'greater_than',
-        value: 1000,
+        value: '{threshold}',
       },
     ],
     actions: [
       {
         type: 'require_document',
-        targetQuestionId: 'receipts',
-        documentTypes: ['receipt', 'invoice'],
+        targetQuestionId: '{upload_question}',
+        documentTypes: '{document_types}' as unknown as string[],
         minFiles: 1,
         maxFiles: 10,
         allowedFormats: ['pdf', 'jpg', 'jpeg', 'png'],
-        errorMessage: 'Please upload receipts for amounts over $1,000',
+        errorMessage: 'Please upload receipts for amounts over {threshold}',
       },
     ],
-    placeholders: [],
+    placeholders: [
+      { key: 'amount_field', label: 'Amount question', type: 'question', defaultValue: 'claim_amount' },
+      { key: 'threshold', label: 'Threshold', type: 'number', defaultValue: 1000 },
+      { key: 'upload_question', label: 'Upload question', type: 'question', defaultValue: 'receipts' },
+      { key: 'document_types', label: 'Document types', type: 'document_types', defaultValue: ['receipt', 'invoice'] },
+    ],
+    builtIn: true,
   },
 
   // Eligibility Templates
@@ -392,7 +626,7 @@ export const ruleTemplates: RuleTemplate[] = [
     ruleType: 'eligibility',
     conditions: [
       {
-        field: 'incident_date',
+        field: '{incident_date_field}',
         operator: 'date_after',
         value: { type: 'relative', days: -90, from: 'now' },
       },
@@ -403,7 +637,10 @@ export const ruleTemplates: RuleTemplate[] = [
         errorMessage: 'Claims must be filed within 90 days of the incident',
       },
     ],
-    placeholders: [],
+    placeholders: [
+      { key: 'incident_date_field', label: 'Incident date question', type: 'question', defaultValue: 'incident_date' },
+    ],
+    builtIn: true,
   },
   {
     id: 'minimum_delay_duration',
@@ -413,18 +650,47 @@ export const ruleTemplates: RuleTemplate[] = [
     ruleType: 'eligibility',
     conditions: [
       {
-        field: 'delay_duration',
+        field: '{delay_field}',
         operator: 'greater_than_or_equal',
-        value: 180,
+        value: '{minimum_minutes}',
       },
     ],
     actions: [
       {
         type: 'block_submission',
-        errorMessage: 'Delay must be at least 3 hours (180 minutes) to be eligible',
+        errorMessage: 'Delay must be at least {minimum_minutes} minutes to be eligible',
       },
     ],
-    placeholders: [],
+    placeholders: [
+      { key: 'delay_field', label: 'Delay question (minutes)', type: 'question', defaultValue: 'delay_duration' },
+      { key: 'minimum_minutes', label: 'Minimum delay (minutes)', type: 'number', defaultValue: 180 },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'incident_before_policy_start',
+    name: 'Incident Before Policy Start',
+    description: 'Mark claims ineligible when the incident happened before the policy started',
+    category: 'eligibility',
+    ruleType: 'eligibility',
+    conditions: [
+      {
+        field: '{incident_date_field}',
+        operator: 'date_before',
+        value: { type: 'metadata', path: 'policyStartDate' },
+      },
+    ],
+    actions: [
+      {
+        type: 'mark_ineligible',
+        reasonCodes: ['OUTSIDE_COVERAGE_PERIOD'],
+        errorMessage: 'The incident happened before the policy start date',
+      },
+    ],
+    placeholders: [
+      { key: 'incident_date_field', label: 'Incident date question', type: 'question', defaultValue: 'incident_date' },
+    ],
+    builtIn: true,
   },
 ]
 
@@ -443,54 +709,89 @@ export function getTemplatesByCategory(category: RuleTemplate['category']): Rule
 }
 
 /**
- * Apply template with values
+ * Placeholder values for a template: the given values over the defaults
+ */
+export function getTemplateValues(
+  template: RuleTemplate,
+  values: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = {}
+
+  for (const placeholder of template.placeholders || []) {
+    if (placeholder.defaultValue !== undefined) {
+      merged[placeholder.key] = placeholder.defaultValue
+    }
+  }
+
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined && value !== '') merged[key] = value
+  }
+
+  return merged
+}
+
+/**
+ * Apply template with values.
+ *
+ * Placeholders are replaced anywhere in the conditions and actions. A string
+ * that is exactly `{key}` takes the value as it is, so numbers stay numbers
+ * and document type lists stay lists; inside longer strings the value is
+ * written out. In formulas a question placeholder becomes a `{question}`
+ * reference. Placeholders without a value are left in place.
  */
 export function applyTemplate(
   template: RuleTemplate,
   values: Record<string, unknown>
 ): {
-  conditions: RuleCondition[]
+  conditions: StoredRuleConditions
   actions: RuleAction[]
 } {
-  // Deep clone template
-  const conditions = JSON.parse(JSON.stringify(template.conditions)) as RuleCondition[]
-  const actions = JSON.parse(JSON.stringify(template.actions)) as RuleAction[]
-
-  // Replace placeholders in conditions
-  for (const condition of conditions) {
-    if (typeof condition.field === 'string') {
-      condition.field = replacePlaceholders(condition.field, values)
-    }
-    if (typeof condition.value === 'string') {
-      condition.value = replacePlaceholders(condition.value, values)
-    }
-  }
+  const merged = getTemplateValues(template, values)
+  const questionKeys = new Set(
+    (template.placeholders || []).filter((p) => p.type === 'question').map((p) => p.key)
+  )
 
-  // Replace placeholders in actions
-  for (const action of actions) {
-    if (action.targetQuestionId && typeof action.targetQuestionId === 'string') {
-      action.targetQuestionId = replacePlaceholders(action.targetQuestionId, values)
-    }
-    if (action.errorMessage && typeof action.errorMessage === 'string') {
-      action.errorMessage = replacePlaceholders(action.errorMessage, values)
-    }
+  return {
+    conditions: replacePlaceholders(template.conditions, merged, questionKeys) as StoredRuleConditions,
+    actions: replacePlaceholders(template.actions, merged, questionKeys) as RuleAction[],
   }
-
-  return { conditions, actions }
 }
 
+const PLACEHOLDER_PATTERN = /\{([A-Za-z0-9_]+)\}/g
+
 /**
- * Replace placeholders in a string
+ * Replace placeholders in a template value (deep)
  */
-function replacePlaceholders(text: string, values: Record<string, unknown>): string {
-  let result = text
+function replacePlaceholders(
+  value: unknown,
+  values: Record<string, unknown>,
+  questionKeys: Set<string>,
+  key?: string
+): unknown {
+  if (typeof value === 'string') {
+    const exact = value.match(/^\{([A-Za-z0-9_]+)\}$/)
+    if (exact && key !== 'formula' && values[exact[1]] !== undefined) {
+      return values[exact[1]]
+    }
 
-  for (const [key, value] of Object.entries(values)) {
-    const placeholder = `{${key}}`
-    result = result.replace(new RegExp(placeholder, 'g'), String(value))
+    return value.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+      if (values[name] === undefined) return match
+      const text = Array.isArray(values[name]) ? (values[name] as unknown[]).join(', ') : String(values[name])
+      return key === 'formula' && questionKeys.has(name) ? `{${text}}` : text
+    })
   }
 
-  return result
+  if (Array.isArray(value)) {
+    return value.map((item) => replacePlaceholders(item, values, questionKeys))
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, replacePlaceholders(v, values, questionKeys, k)])
+    )
+  }
+
+  return value
 }
 
 /**
@@ -508,7 +809,10 @@ export function cloneAction(action: RuleAction): RuleAction {
 }
 
 /**
- * Merge multiple rule evaluation results
+ * Merge multiple rule evaluation results. Structured validation errors are
+ * deduplicated per question, so the same message on two questions is kept
+ * for each; the string lists are deduplicated by text. Eligibility decisions
+ * of all results are deduplicated per rule and combined into one summary.
  */
 export function mergeRuleResults(
   results: Array<{
@@ -517,6 +821,8 @@ export function mergeRuleResults(
     warnings: string[]
     visibleQuestions: Set<string>
     hiddenQuestions: Set<string>
+    validationErrors?: RuleValidationError[]
+    eligibility?: EligibilitySummary
   }>
 ): {
   passed: boolean
@@ -524,6 +830,8 @@ export function mergeRuleResults(
   warnings: string[]
   visibleQuestions: Set<string>
   hiddenQuestions: Set<string>
+  validationErrors: RuleValidationError[]
+  eligibility?: EligibilitySummary
 } {
   const merged = {
     passed: true,
@@ -531,7 +839,10 @@ export function mergeRuleResults(
     warnings: [] as string[],
     visibleQuestions: new Set<string>(),
     hiddenQuestions: new Set<string>(),
+    validationErrors: [] as RuleValidationError[],
   }
+  const seen = new Set<string>()
+  const decisions: EligibilityDecision[] = []
 
   for (const result of results) {
     if (!result.passed) merged.passed = false
@@ -540,13 +851,45 @@ export function mergeRuleResults(
 
     result.visibleQuestions.forEach((q) => merged.visibleQuestions.add(q))
     result.hiddenQuestions.forEach((q) => merged.hiddenQuestions.add(q))
+
+    for (const error of result.validationErrors || []) {
+      const key = JSON.stringify([error.questionId ?? null, error.itemIndex ?? null, error.severity, error.message])
+      if (seen.has(key)) continue
+      seen.add(key)
+      merged.validationErrors.push(error)
+    }
+
+    for (const decision of result.eligibility?.decisions || []) {
+      const key = JSON.stringify(['eligibility', decision.ruleId, decision.itemIndex ?? null, decision.status])
+      if (seen.has(key)) continue
+      seen.add(key)
+      decisions.push(decision)
+    }
   }
 
   // Remove duplicates
   merged.errors = [...new Set(merged.errors)]
   merged.warnings = [...new Set(merged.warnings)]
 
-  return merged
+  const eligibility = summarizeEligibility(decisions)
+  return eligibility ? { ...merged, eligibility } : merged
+}
+
+/**
+ * Group validation errors by the question they belong to, for showing them
+ * inline next to each field. Errors not linked to a question are under ''.
+ */
+export function getValidationErrorsByQuestion(
+  result: Pick<RuleEvaluationResult, 'validationErrors'>
+): Record<string, RuleValidationError[]> {
+  return (result.validationErrors || []).reduce(
+    (acc, error) => {
+      const key = error.questionId || ''
+      acc[key] = [...(acc[key] || []), error]
+      return acc
+    },
+    {} as Record<string, RuleValidationError[]>
+  )
 }
 
 /**
@@ -574,3 +917,175 @@ export function suggestPriority(ruleType: string): number {
 
   return priorityMap[ruleType] || 0
 }
+
+/**
+ * Count rules by status and type
+ */
+export function getRuleSetStats(rules: Rule[]): RuleSetStats {
+  const byType = rules.reduce(
+    (acc, rule) => {
+      acc[rule.rule_type] = (acc[rule.rule_type] || 0) + 1
+      return acc
+    },
+    {} as Record<string, number>
+  )
+
+  const priorities = rules.map((r) => r.priority)
+
+  return {
+    total: rules.length,
+    active: rules.filter((r) => r.is_active).length,
+    inactive: rules.filter((r) => !r.is_active).length,
+    byType,
+    highestPriority: priorities.length > 0 ? Math.max(...priorities) : 0,
+    lowestPriority: priorities.length > 0 ? Math.min(...priorities) : 0,
+  }
+}
+
+/**
+ * Default category for a rule type (used when a rule has no explicit category)
+ */
+const categoryByRuleType: Record<Rule['rule_type'], RuleCategory> = {
+  eligibility: 'eligibility',
+  validation: 'validation',
+  conditional: 'conditional_display',
+  document: 'document_requirements',
+  calculation: 'calculation',
+}
+
+/**
+ * Read a stored rule's extended configuration
+ */
+export function getRuleConfiguration(rule: Rule): RuleConfiguration {
+  const appliesTo = (rule.applies_to || {}) as NonNullable<RuleConfiguration['appliesTo']>
+
+  return {
+    enabled: rule.is_active,
+    priority: rule.priority,
+    category: (rule.category as RuleCategory) || categoryByRuleType[rule.rule_type] || 'custom',
+    tags: rule.tags || [],
+    effectiveFrom: rule.effective_from || undefined,
+    effectiveUntil: rule.effective_until || undefined,
+    appliesTo: {
+      coverageTypes: appliesTo.coverageTypes?.length ? appliesTo.coverageTypes : undefined,
+      questionIds: appliesTo.questionIds?.length ? appliesTo.questionIds : undefined,
+      userTypes: appliesTo.userTypes?.length ? appliesTo.userTypes : undefined,
+    },
+  }
+}
+
+/**
+ * Where a date falls relative to a rule's effective window.
+ * effectiveFrom is inclusive; a date-only effectiveUntil includes that whole
+ * day. Date-only bounds are calendar dates in the evaluation time zone;
+ * timestamps are exact instants.
+ */
+export function getRuleScheduleStatus(
+  rule: Rule,
+  at: Date = new Date(),
+  timeZone: string = DEFAULT_TIME_ZONE
+): 'scheduled' | 'effective' | 'expired' {
+  const atDate = todayInTimeZone(timeZone, at)
+
+  if (rule.effective_from) {
+    if (isDateOnly(rule.effective_from)) {
+      if (atDate < rule.effective_from) return 'scheduled'
+    } else {
+      const from = new Date(rule.effective_from)
+      if (!isNaN(from.getTime()) && at < from) return 'scheduled'
+    }
+  }
+
+  if (rule.effective_until) {
+    if (isDateOnly(rule.effective_until)) {
+      if (atDate > rule.effective_until) return 'expired'
+    } else {
+      const until = new Date(rule.effective_until)
+      if (!isNaN(until.getTime()) && at >= until) return 'expired'
+    }
+  }
+
+  return 'effective'
+}
+
+const isDateOnly = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value)
+
+/**
+ * Check whether an active rule applies to an evaluation: its effective window
+ * must include the submission date (or today), and any appliesTo scoping must
+ * match the context. A user-type scope never matches an unknown user type.
+ * Dates are compared in the context's time zone, falling back to `timeZone`
+ * (the engine's) like the engine does.
+ */
+export function isRuleApplicable(
+  rule: Rule,
+  context: RuleEvaluationContext,
+  timeZone: string = DEFAULT_TIME_ZONE
+): boolean {
+  const submissionDate = context.metadata?.submissionDate
+    ? new Date(context.metadata.submissionDate)
+    : new Date()
+  const contextTimeZone = context.metadata?.timeZone
+
+  if (
+    getRuleScheduleStatus(
+      rule,
+      isNaN(submissionDate.getTime()) ? new Date() : submissionDate,
+      typeof contextTimeZone === 'string' && contextTimeZone && isValidTimeZone(contextTimeZone)
+        ? contextTimeZone
+        : timeZone
+    ) !== 'effective'
+  ) {
+    return false
+  }
+
+  const { appliesTo } = getRuleConfiguration(rule)
+
+  const coverageTypeId = context.metadata?.coverageTypeId
+  if (appliesTo?.coverageTypes && coverageTypeId && !appliesTo.coverageTypes.includes(coverageTypeId)) {
+    return false
+  }
+
+  if (appliesTo?.userTypes) {
+    const userType = context.metadata?.userType
+    if (!userType || !appliesTo.userTypes.includes(userType)) return false
+  }
+
+  if (appliesTo?.questionIds && !appliesTo.questionIds.some((id) => id in context.answers)) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Build the profile-derived evaluation metadata (e.g. `userAge`) that
+ * condition values can reference as `metadata.userAge`. The country picks the
+ * message locale when the caller does not set one, and the user type is what
+ * rules scoped by `appliesTo.userTypes` match against. Age is counted on the
+ * calendar date of `at` in the evaluation time zone.
+ */
+export function buildProfileMetadata(
+  profile: Pick<Profile, 'id' | 'date_of_birth' | 'country' | 'user_type'>,
+  at: Date = new Date(),
+  timeZone: string = DEFAULT_TIME_ZONE
+): NonNullable<RuleEvaluationContext['metadata']> {
+  const metadata: NonNullable<RuleEvaluationContext['metadata']> = { userId: profile.id }
+
+  if (profile.country) {
+    metadata.country = profile.country
+  }
+
+  if (profile.user_type) {
+    metadata.userType = profile.user_type
+  }
+
+  if (profile.date_of_birth) {
+    const dob = toCalendarDate(profile.date_of_birth, timeZone)
+    if (dob) {
+      metadata.userAge = ageAtDate(dob, todayInTimeZone(timeZone, at))
+    }
+  }
+
+  return metadata
+}
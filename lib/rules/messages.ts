@@ -0,0 +1,105 @@
+import type { LocalizedMessages, RuleEvaluationContext } from '@/types/rules'
+
+/**
+ * Localized rule messages
+ *
+ * Rule and action messages have a default text plus optional translations
+ * keyed by locale. The evaluation locale comes from context metadata: an
+ * explicit `locale`, otherwise the default locale of the claimant's
+ * `country`. A translation for 'fr' serves 'fr-CA' when there is no exact
+ * match; without a translation the default text is used.
+ *
+ * Placeholders like {claim_amount} are filled with the answer (question ID or
+ * calculated field name) of that name, then with metadata - snake_case names
+ * read the camelCase key, so {coverage_limit} is metadata.coverageLimit.
+ * {metadata.userAge} reads metadata explicitly. Unknown placeholders are kept.
+ */
+
+type Metadata = RuleEvaluationContext['metadata']
+
+// Country codes offered at onboarding
+const COUNTRY_LOCALES: Record<string, string> = {
+  US: 'en-US',
+  CA: 'en-CA',
+  GB: 'en-GB',
+  AU: 'en-AU',
+  IN: 'en-IN',
+}
+
+const PLACEHOLDER_PATTERN = /\{([^{}]+)\}/g
+
+/**
+ * Get the locale messages should be shown in
+ */
+export function getEvaluationLocale(metadata: Metadata): string | undefined {
+  if (typeof metadata?.locale === 'string' && metadata.locale) return metadata.locale
+  if (typeof metadata?.country === 'string') return COUNTRY_LOCALES[metadata.country.toUpperCase()]
+  return undefined
+}
+
+/**
+ * Pick the translation of a message for a locale: exact match, then the
+ * language alone, then any variant of the language, then the default text
+ */
+export function localizeMessage(
+  message: string | null | undefined,
+  translations: LocalizedMessages | null | undefined,
+  locale: string | undefined
+): string | undefined {
+  if (locale && translations) {
+    const entries = Object.entries(translations).filter(([, text]) => typeof text === 'string' && text.trim())
+    const wanted = locale.toLowerCase()
+    const language = wanted.split('-')[0]
+
+    const match =
+      entries.find(([key]) => key.toLowerCase() === wanted) ??
+      entries.find(([key]) => key.toLowerCase() === language) ??
+      entries.find(([key]) => key.toLowerCase().split('-')[0] === language)
+    if (match) return match[1]
+  }
+
+  return message || undefined
+}
+
+/**
+ * Fill {placeholders} in a message with answer and metadata values
+ */
+export function interpolateMessage(
+  message: string,
+  values: Record<string, unknown>,
+  metadata?: Metadata,
+  locale?: string
+): string {
+  return message.replace(PLACEHOLDER_PATTERN, (match, raw: string) => {
+    const value = resolvePlaceholder(raw.trim(), values, metadata)
+    return value === undefined ? match : formatMessageValue(value, locale)
+  })
+}
+
+function resolvePlaceholder(name: string, values: Record<string, unknown>, metadata: Metadata): unknown {
+  if (name.startsWith('metadata.')) {
+    return metadata?.[name.slice('metadata.'.length)]
+  }
+  if (name in values) {
+    return values[name]
+  }
+
+  const camelCase = name.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase())
+  return metadata?.[name] ?? metadata?.[camelCase]
+}
+
+function formatMessageValue(value: unknown, locale: string | undefined): string {
+  if (value === null || value === undefined) return ''
+  if (Array.isArray(value)) return value.map((item) => formatMessageValue(item, locale)).join(', ')
+
+  if (typeof value === 'number') {
+    try {
+      return new Intl.NumberFormat(locale).format(value)
+    } catch {
+      // Unsupported locale tag
+      return String(value)
+    }
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
@@ -0,0 +1,163 @@
+import type {
+  BuiltInRuleOperator,
+  CustomOperatorDefinition,
+  RuleOperator,
+} from '@/types/rules'
+import {
+  validateEmail,
+  validatePhone,
+  validateUrl,
+  validateZipCode,
+  validateCreditCard,
+  validatePassport,
+  validateSSN,
+  validateIBAN,
+  validateFlightNumber,
+  validateBaggageTag,
+} from './validators'
+
+/**
+ * Custom operator registry
+ *
+ * Operators registered here can be used in RuleCondition.operator next to the
+ * built-in ones. Their metadata (label, field types, value type) is how the
+ * condition builder, getOperatorsForFieldType and the analyzer offer and check
+ * them. The registry lives in module scope, so an operator must be registered
+ * in a module both the admin UI and the server import - rules that use an
+ * operator missing from the registry never match.
+ */
+
+export const BUILT_IN_OPERATORS: readonly BuiltInRuleOperator[] = [
+  'equals',
+  'not_equals',
+  'contains',
+  'not_contains',
+  'greater_than',
+  'greater_than_or_equal',
+  'less_than',
+  'less_than_or_equal',
+  'in',
+  'not_in',
+  'between',
+  'regex',
+  'is_empty',
+  'is_not_empty',
+  'date_before',
+  'date_after',
+  'date_between',
+  'within_last_n_days',
+  'business_days_between',
+  'age_at_date',
+  'duration_greater_than',
+]
+
+const registry = new Map<string, CustomOperatorDefinition>()
+
+/**
+ * Check if an operator is one the engine implements itself
+ */
+export function isBuiltInOperator(operator: RuleOperator): operator is BuiltInRuleOperator {
+  return (BUILT_IN_OPERATORS as readonly string[]).includes(operator)
+}
+
+/**
+ * Register a custom operator. Registering a name again replaces it; built-in
+ * names cannot be overridden.
+ */
+export function registerOperator(definition: CustomOperatorDefinition): void {
+  if (isBuiltInOperator(definition.name)) {
+    throw new Error(`Cannot register "${definition.name}": it is a built-in operator`)
+  }
+  if (!/^[a-z][a-z0-9_]*$/.test(definition.name)) {
+    throw new Error(`Invalid operator name "${definition.name}": use lowercase letters, digits and _`)
+  }
+
+  registry.set(definition.name, definition)
+}
+
+/**
+ * Register a format validator as a pair of operators, `is_valid_<name>` and
+ * `is_not_valid_<name>`. Validation rules fire when their conditions match,
+ * so they use the `is_not_valid_` form. Empty answers match neither - combine
+ * with is_empty when the field is required.
+ */
+export function registerValidator(
+  name: string,
+  label: string,
+  validator: (value: string) => boolean,
+  options: { fieldTypes?: string[]; description?: string } = {}
+): void {
+  const fieldTypes = options.fieldTypes || ['text']
+  const check = (fieldValue: unknown): boolean | null => {
+    if (fieldValue === null || fieldValue === undefined || fieldValue === '') return null
+    if (typeof fieldValue !== 'string' && typeof fieldValue !== 'number') return false
+    return validator(String(fieldValue))
+  }
+
+  registerOperator({
+    name: `is_valid_${name}`,
+    label: `Is Valid ${label}`,
+    description: options.description,
+    fieldTypes,
+    valueType: 'none',
+    evaluate: (fieldValue) => check(fieldValue) === true,
+  })
+  registerOperator({
+    name: `is_not_valid_${name}`,
+    label: `Is Not Valid ${label}`,
+    description: options.description,
+    fieldTypes,
+    valueType: 'none',
+    evaluate: (fieldValue) => check(fieldValue) === false,
+  })
+}
+
+/**
+ * Remove a custom operator
+ */
+export function unregisterOperator(name: string): void {
+  registry.delete(name)
+}
+
+/**
+ * Get a registered custom operator
+ */
+export function getCustomOperator(name: RuleOperator): CustomOperatorDefinition | undefined {
+  return registry.get(name)
+}
+
+/**
+ * Get registered custom operators, optionally only those for a field type
+ */
+export function getCustomOperators(fieldType?: string): CustomOperatorDefinition[] {
+  const operators = [...registry.values()]
+  return fieldType ? operators.filter((op) => op.fieldTypes.includes(fieldType)) : operators
+}
+
+/**
+ * Check if an operator is built in or registered
+ */
+export function isKnownOperator(operator: RuleOperator): boolean {
+  return isBuiltInOperator(operator) || registry.has(operator)
+}
+
+// ========================================
+// BUILT-IN VALIDATORS
+// ========================================
+
+registerValidator('email', 'Email', validateEmail)
+registerValidator('phone', 'Phone Number', validatePhone)
+registerValidator('url', 'URL', validateUrl)
+registerValidator('zip_code', 'ZIP Code', validateZipCode)
+registerValidator('credit_card', 'Credit Card Number', validateCreditCard, {
+  description: 'Card number with a valid Luhn checksum',
+})
+registerValidator('passport', 'Passport Number', validatePassport)
+registerValidator('ssn', 'SSN', validateSSN)
+registerValidator('iban', 'IBAN', validateIBAN, {
+  description: 'International bank account number with a valid checksum',
+})
+registerValidator('flight_number', 'Flight Number', validateFlightNumber, {
+  description: 'Airline code and number, e.g. BA123',
+})
+registerValidator('baggage_tag', 'Baggage Tag', validateBaggageTag)
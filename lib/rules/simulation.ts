@@ -0,0 +1,171 @@
+import type { Rule } from '@/types/policies'
+import type {
+  DocumentRequirement,
+  RuleClaimImpact,
+  RuleEvaluationContext,
+  RuleEvaluationResult,
+  RuleSimulationClaim,
+  RuleSimulationOutcome,
+  RuleSimulationReport,
+  RulesEngineOptions,
+} from '@/types/rules'
+import { compileRules } from './engine'
+import { getRuleSetStats, isRuleApplicable } from './helpers'
+import { diffRuleSets, stableStringify } from './versioning'
+
+/**
+ * Rule impact simulation
+ *
+ * Replays stored claim answers against the current rules and a draft rule set
+ * and reports which claims would change outcome. Each claim is evaluated as of
+ * its submission date, so relative-date rules see the same "today" the claim
+ * did. Outcomes follow evaluateClaimAction: a blocked submission or any error
+ * rejects the claim.
+ */
+
+/**
+ * Simulate a draft rule set against past claims
+ */
+export function simulateRuleImpact(
+  currentRules: Rule[],
+  draftRules: Rule[],
+  claims: RuleSimulationClaim[],
+  options: RulesEngineOptions = {}
+): RuleSimulationReport {
+  const currentEngine = compileRules(currentRules, options)
+  const draftEngine = compileRules(draftRules, options)
+
+  // Only added or changed rules are interesting to count triggers for.
+  // Per-item rules are skipped: their conditions read item fields, not answers.
+  const changedRules = diffRuleSets({ rules: currentRules, questions: [] }, { rules: draftRules, questions: [] })
+    .rules.filter((entry) => entry.after && entry.after.is_active && !entry.after.for_each)
+  const triggerCounts = new Map(changedRules.map((entry) => [entry.id, 0]))
+
+  const report: RuleSimulationReport = {
+    total: claims.length,
+    unchanged: 0,
+    newlyBlocked: 0,
+    newlyPassed: 0,
+    newlyFailed: 0,
+    withNewWarnings: 0,
+    withDocumentChanges: 0,
+    failedToEvaluate: 0,
+    ruleTriggers: [],
+    ruleStats: { current: getRuleSetStats(currentRules), draft: getRuleSetStats(draftRules) },
+    claims: [],
+  }
+
+  for (const claim of claims) {
+    const context: RuleEvaluationContext = {
+      answers: claim.answers,
+      metadata: { ...claim.metadata, submissionDate: claim.metadata?.submissionDate ?? claim.submittedAt },
+    }
+
+    let before: RuleEvaluationResult
+    let after: RuleEvaluationResult
+    try {
+      before = currentEngine.evaluate(context)
+      after = draftEngine.evaluate(context)
+    } catch (error) {
+      report.failedToEvaluate++
+      report.claims.push({
+        ...emptyImpact(claim),
+        error: error instanceof Error ? error.message : String(error),
+      })
+      continue
+    }
+
+    // Computed fields are visible to the rules, so test against them too
+    const triggerContext = { ...context, answers: { ...context.answers, ...after.fieldValues } }
+    const triggeredRuleIds = changedRules
+      .filter((entry) => isRuleApplicable(entry.after!, triggerContext, options.timeZone))
+      .filter((entry) => draftEngine.testRule(entry.after!, triggerContext).triggered)
+      .map((entry) => entry.id)
+    triggeredRuleIds.forEach((id) => triggerCounts.set(id, triggerCounts.get(id)! + 1))
+
+    const impact: RuleClaimImpact = {
+      ...emptyImpact(claim),
+      before: getOutcome(before),
+      after: getOutcome(after),
+      newErrors: subtract(after.errors, before.errors),
+      resolvedErrors: subtract(before.errors, after.errors),
+      newWarnings: subtract(after.warnings, before.warnings),
+      resolvedWarnings: subtract(before.warnings, after.warnings),
+      addedDocuments: subtractDocuments(after.requiredDocuments, before.requiredDocuments),
+      removedDocuments: subtractDocuments(before.requiredDocuments, after.requiredDocuments),
+      triggeredRuleIds,
+    }
+
+    if (impact.after === 'blocked') {
+      impact.blockReason = after.blockReason
+    }
+
+    if (impact.before !== 'blocked' && impact.after === 'blocked') report.newlyBlocked++
+    if (impact.before !== 'passed' && impact.after === 'passed') report.newlyPassed++
+    if (impact.before === 'passed' && impact.after === 'failed') report.newlyFailed++
+    if (impact.newWarnings.length > 0) report.withNewWarnings++
+    if (impact.addedDocuments.length > 0 || impact.removedDocuments.length > 0) report.withDocumentChanges++
+
+    if (hasChanges(impact)) {
+      report.claims.push(impact)
+    } else {
+      report.unchanged++
+    }
+  }
+
+  report.ruleTriggers = changedRules.map((entry) => ({
+    ruleId: entry.id,
+    ruleName: entry.name,
+    change: entry.change as 'added' | 'changed',
+    triggered: triggerCounts.get(entry.id)!,
+  }))
+
+  return report
+}
+
+function getOutcome(result: RuleEvaluationResult): RuleSimulationOutcome {
+  if (result.blockedSubmission) return 'blocked'
+  return result.passed && result.errors.length === 0 ? 'passed' : 'failed'
+}
+
+function emptyImpact(claim: RuleSimulationClaim): RuleClaimImpact {
+  return {
+    claimId: claim.id,
+    claimNumber: claim.claimNumber,
+    submittedAt: claim.submittedAt,
+    before: 'failed',
+    after: 'failed',
+    newErrors: [],
+    resolvedErrors: [],
+    newWarnings: [],
+    resolvedWarnings: [],
+    addedDocuments: [],
+    removedDocuments: [],
+    triggeredRuleIds: [],
+  }
+}
+
+function hasChanges(impact: RuleClaimImpact): boolean {
+  return (
+    impact.before !== impact.after ||
+    impact.newErrors.length > 0 ||
+    impact.resolvedErrors.length > 0 ||
+    impact.newWarnings.length > 0 ||
+    impact.resolvedWarnings.length > 0 ||
+    impact.addedDocuments.length > 0 ||
+    impact.removedDocuments.length > 0
+  )
+}
+
+function subtract(values: string[], other: string[]): string[] {
+  const exclude = new Set(other)
+  return [...new Set(values)].filter((value) => !exclude.has(value))
+}
+
+function subtractDocuments(
+  requirements: DocumentRequirement[],
+  other: DocumentRequirement[]
+): DocumentRequirement[] {
+  const exclude = new Set(other.map(stableStringify))
+  return requirements.filter((requirement) => !exclude.has(stableStringify(requirement)))
+}
@@ -0,0 +1,319 @@
+import type { Question, Rule, RuleTemplateRecord, RuleTemplateInsert } from '@/types/policies'
+import type {
+  RuleAction,
+  RuleTemplate,
+  RuleTemplateParameter,
+  RuleTemplatePlaceholder,
+  RuleTemplatePlaceholderType,
+} from '@/types/rules'
+import { isConditionReference, isLeafCondition } from './conditions'
+import { getTemplateValues } from './helpers'
+
+/**
+ * Admin-managed rule templates
+ *
+ * Saving a rule as a template swaps chosen values for `{key}` placeholders:
+ * question references (condition fields, field references, `{id}` in
+ * formulas, action targets), condition values (numbers, dates, text) and
+ * document type lists. Templates are not tied to a coverage type, so question
+ * placeholders are picked again when the template is applied; other values
+ * keep the rule's value as their default. See applyTemplate in helpers.
+ */
+
+type TemplateValue = string | number | string[]
+
+/**
+ * Called for every value that can become a placeholder; returns the
+ * replacement (`{key}`) or undefined to keep the value
+ */
+type TemplateValueVisitor = (
+  type: RuleTemplatePlaceholderType,
+  value: TemplateValue,
+  hint: string
+) => string | undefined
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/
+
+// ========================================
+// SAVING RULES AS TEMPLATES
+// ========================================
+
+/**
+ * Find the values in a rule that can become placeholders. Equal values of the
+ * same type are one parameter (a question used in a condition and a formula).
+ */
+export function getTemplateParameters(
+  rule: Pick<Rule, 'conditions' | 'actions'>,
+  questions: Question[] = []
+): RuleTemplateParameter[] {
+  const parameters = new Map<string, RuleTemplateParameter>()
+  const keys = new Set<string>()
+  const questionText = new Map(questions.map((q) => [q.id, q.question_text]))
+
+  visitTemplateValues(rule, questions, (type, value, hint) => {
+    const id = `${type}:${JSON.stringify(value)}`
+    const existing = parameters.get(id)
+
+    if (existing) {
+      existing.occurrences++
+      return undefined
+    }
+
+    let key = hint || type
+    for (let suffix = 2; keys.has(key); suffix++) {
+      key = `${hint || type}_${suffix}`
+    }
+    keys.add(key)
+
+    parameters.set(id, {
+      key,
+      label:
+        type === 'question' && typeof value === 'string'
+          ? questionText.get(value) || value
+          : humanize(key),
+      type,
+      value,
+      occurrences: 1,
+      ...(type !== 'question' && { defaultValue: value }),
+    })
+    return undefined
+  })
+
+  return [...parameters.values()]
+}
+
+/**
+ * Build a template from a rule, replacing the chosen parameters with placeholders
+ */
+export function createTemplateFromRule(
+  rule: Pick<Rule, 'rule_type' | 'conditions' | 'actions'>,
+  details: { name: string; description?: string | null; tags?: string[] },
+  parameters: RuleTemplateParameter[],
+  questions: Question[] = []
+): RuleTemplateInsert {
+  const chosen = new Map(parameters.map((p) => [`${p.type}:${JSON.stringify(p.value)}`, p]))
+
+  const { conditions, actions } = visitTemplateValues(rule, questions, (type, value) => {
+    const parameter = chosen.get(`${type}:${JSON.stringify(value)}`)
+    return parameter ? `{${parameter.key}}` : undefined
+  })
+
+  const placeholders: RuleTemplatePlaceholder[] = parameters.map((p) => ({
+    key: p.key,
+    label: p.label,
+    type: p.type,
+    ...(p.description && { description: p.description }),
+    ...(p.defaultValue !== undefined && { defaultValue: p.defaultValue }),
+  }))
+
+  return {
+    name: details.name,
+    description: details.description ?? null,
+    rule_type: rule.rule_type,
+    conditions,
+    actions,
+    placeholders,
+    tags: details.tags ?? [],
+  }
+}
+
+// ========================================
+// LIBRARY
+// ========================================
+
+/**
+ * Convert a stored template to the shape the editor works with
+ */
+export function toRuleTemplate(record: RuleTemplateRecord): RuleTemplate {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description || '',
+    category: record.rule_type,
+    ruleType: record.rule_type,
+    conditions: (record.conditions as RuleTemplate['conditions']) || [],
+    actions: Array.isArray(record.actions) ? (record.actions as RuleAction[]) : [],
+    placeholders: Array.isArray(record.placeholders)
+      ? (record.placeholders as RuleTemplatePlaceholder[])
+      : [],
+    tags: record.tags || [],
+  }
+}
+
+/**
+ * Filter templates by a search query; every word must match the name,
+ * description, rule type or a tag
+ */
+export function searchRuleTemplates(templates: RuleTemplate[], query: string): RuleTemplate[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (terms.length === 0) return templates
+
+  return templates.filter((template) => {
+    const haystack = [template.name, template.description, template.ruleType, ...(template.tags || [])]
+      .join(' ')
+      .toLowerCase()
+    return terms.every((term) => haystack.includes(term))
+  })
+}
+
+/**
+ * Placeholders that have neither a value nor a default
+ */
+export function getMissingTemplateValues(
+  template: RuleTemplate,
+  values: Record<string, unknown>
+): RuleTemplatePlaceholder[] {
+  const merged = getTemplateValues(template, values)
+  return (template.placeholders || []).filter((p) => {
+    const value = merged[p.key]
+    return value === undefined || (Array.isArray(value) && value.length === 0)
+  })
+}
+
+// ========================================
+// TRAVERSAL
+// ========================================
+
+function visitTemplateValues(
+  rule: Pick<Rule, 'conditions' | 'actions'>,
+  questions: Question[],
+  visit: TemplateValueVisitor
+): { conditions: unknown; actions: unknown } {
+  const nameOf = getNameResolver(questions)
+
+  return {
+    conditions: mapConditions(rule.conditions, visit, nameOf),
+    actions: Array.isArray(rule.actions)
+      ? (rule.actions as RuleAction[]).map((action) => mapAction(action, visit, nameOf))
+      : rule.actions,
+  }
+}
+
+function mapConditions(node: unknown, visit: TemplateValueVisitor, nameOf: (id: string) => string): unknown {
+  if (Array.isArray(node)) {
+    return node.map((child) => mapConditions(child, visit, nameOf))
+  }
+  if (typeof node !== 'object' || node === null) return node
+
+  if (isLeafCondition(node)) {
+    const base = nameOf(node.field)
+    return {
+      ...node,
+      field: visit('question', node.field, base) ?? node.field,
+      value: mapConditionValue(node.value, base, visit, nameOf),
+    }
+  }
+
+  // Groups, NOT and the legacy { all } / { any } / { not } shapes
+  return Object.fromEntries(
+    Object.entries(node).map(([key, value]) => [key, mapConditions(value, visit, nameOf)])
+  )
+}
+
+function mapConditionValue(
+  value: unknown,
+  base: string,
+  visit: TemplateValueVisitor,
+  nameOf: (id: string) => string
+): unknown {
+  if (isConditionReference(value)) {
+    if (value.type === 'field') {
+      return { ...value, field: visit('question', value.field, nameOf(value.field)) ?? value.field }
+    }
+    if (value.type === 'expression') {
+      return { ...value, formula: mapFormula(value.formula, visit, nameOf) }
+    }
+    return value
+  }
+
+  if (Array.isArray(value)) {
+    const suffixes = value.length === 2 ? ['min', 'max'] : value.map((_, i) => String(i + 1))
+    return value.map((item, i) => mapScalar(item, `${base}_${suffixes[i]}`, visit, true))
+  }
+
+  // Date and duration specs: { type: 'relative', days }, { min, max }, ...
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapScalar(item, `${base}_${key}`, visit, false)])
+    )
+  }
+
+  return mapScalar(value, `${base}_value`, visit, true)
+}
+
+/**
+ * Numbers, date strings and (where free text is expected) other strings
+ */
+function mapScalar(value: unknown, hint: string, visit: TemplateValueVisitor, allowText: boolean): unknown {
+  if (typeof value === 'number') {
+    return visit('number', value, hint) ?? value
+  }
+  if (typeof value === 'string' && value !== '') {
+    if (DATE_PATTERN.test(value)) return visit('date', value, hint) ?? value
+    if (allowText) return visit('text', value, hint) ?? value
+  }
+  return value
+}
+
+function mapAction(action: RuleAction, visit: TemplateValueVisitor, nameOf: (id: string) => string): RuleAction {
+  const mapped: Record<string, unknown> = { ...action }
+  const target = action.targetQuestionId || action.targetField
+
+  if (action.targetQuestionId) {
+    mapped.targetQuestionId =
+      visit('question', action.targetQuestionId, nameOf(action.targetQuestionId)) ?? action.targetQuestionId
+  }
+  if (action.targetField) {
+    mapped.targetField = visit('question', action.targetField, nameOf(action.targetField)) ?? action.targetField
+  }
+  if (Array.isArray(action.documentTypes) && action.documentTypes.length > 0) {
+    mapped.documentTypes = visit('document_types', action.documentTypes, 'document_types') ?? action.documentTypes
+  }
+  if (typeof action.formula === 'string') {
+    mapped.formula = mapFormula(action.formula, visit, nameOf)
+  }
+  if (action.type === 'set_value' && action.value !== undefined) {
+    mapped.value = mapScalar(action.value, `${target ? nameOf(target) : 'set'}_value`, visit, true)
+  }
+
+  return mapped as unknown as RuleAction
+}
+
+/**
+ * Only braced `{id}` references are replaced; bare names in formulas are
+ * calculated fields or functions more often than questions
+ */
+function mapFormula(formula: string, visit: TemplateValueVisitor, nameOf: (id: string) => string): string {
+  return formula.replace(/\{([^{}]+)\}/g, (match, name: string) => {
+    const ref = name.trim()
+    if (ref.startsWith('metadata.')) return match
+    return visit('question', ref, nameOf(ref)) ?? match
+  })
+}
+
+/**
+ * Readable placeholder key base for a question ID (`group.child` maps both parts)
+ */
+function getNameResolver(questions: Question[]): (id: string) => string {
+  const byId = new Map(questions.map((q) => [q.id, slugify(q.question_text)]))
+  return (id) =>
+    id
+      .split('.')
+      .map((part) => byId.get(part) || slugify(part))
+      .filter(Boolean)
+      .join('_')
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 32)
+    .replace(/_+$/, '')
+}
+
+function humanize(key: string): string {
+  const text = key.replace(/_/g, ' ')
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
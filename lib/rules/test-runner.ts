@@ -0,0 +1,136 @@
+import type { Rule, RuleTestCaseRecord } from '@/types/policies'
+import type {
+  RuleTestCase,
+  RuleTestCaseResult,
+  RuleTestDiff,
+  RuleEvaluationResult,
+  RulesEngineOptions,
+} from '@/types/rules'
+import { compileRules } from './engine'
+
+/**
+ * Rule test runner
+ *
+ * Runs stored test cases through the RulesEngine and diffs the outcome against
+ * each case's expectedResult. Only expectations that are set are compared;
+ * list expectations (questions, errors, warnings) ignore ordering.
+ */
+
+/**
+ * Convert a stored test case row into a RuleTestCase
+ */
+export function toRuleTestCase(record: RuleTestCaseRecord): RuleTestCase {
+  const expected = (record.expected_result || {}) as Partial<RuleTestCase['expectedResult']>
+
+  return {
+    name: record.name,
+    description: record.description || undefined,
+    answers: (record.answers as Record<string, unknown>) || {},
+    metadata: (record.metadata as Record<string, unknown>) || undefined,
+    expectedResult: { ...expected, passed: expected.passed ?? true },
+  }
+}
+
+/**
+ * Run a single test case against a rule set. Pass the coverage type's engine
+ * options (time zone, holiday calendar) so cases see the same dates as claims.
+ */
+export function runRuleTestCase(
+  rules: Rule[],
+  testCase: RuleTestCase,
+  options: RulesEngineOptions = {}
+): RuleTestCaseResult {
+  let result: RuleEvaluationResult
+
+  try {
+    // Compiled once per rule set, so a suite does not re-parse rules per case
+    result = compileRules(rules, options).evaluate({ answers: testCase.answers, metadata: testCase.metadata })
+  } catch (error) {
+    return {
+      name: testCase.name,
+      passed: false,
+      diffs: [],
+      error: error instanceof Error ? error.message : String(error),
+    }
+  }
+
+  const expected = testCase.expectedResult
+  const diffs: RuleTestDiff[] = []
+
+  if (result.passed !== expected.passed) {
+    diffs.push({ field: 'passed', expected: expected.passed, actual: result.passed })
+  }
+
+  if (
+    expected.blockedSubmission !== undefined &&
+    result.blockedSubmission !== expected.blockedSubmission
+  ) {
+    diffs.push({
+      field: 'blockedSubmission',
+      expected: expected.blockedSubmission,
+      actual: result.blockedSubmission,
+    })
+  }
+
+  const listFields = {
+    visibleQuestions: [...result.visibleQuestions],
+    hiddenQuestions: [...result.hiddenQuestions],
+    errors: result.errors,
+    warnings: result.warnings,
+  }
+
+  for (const field of Object.keys(listFields) as Array<keyof typeof listFields>) {
+    const expectedList = expected[field]
+    if (expectedList === undefined) continue
+
+    const diff = diffLists(expectedList, listFields[field])
+    if (diff) {
+      diffs.push({ field, expected: expectedList, actual: listFields[field], ...diff })
+    }
+  }
+
+  return { name: testCase.name, passed: diffs.length === 0, diffs }
+}
+
+/**
+ * Run every test case against a rule set
+ */
+export function runRuleTestSuite(
+  rules: Rule[],
+  testCases: RuleTestCase[],
+  options: RulesEngineOptions = {}
+): RuleTestCaseResult[] {
+  return testCases.map((testCase) => runRuleTestCase(rules, testCase, options))
+}
+
+/**
+ * Find test cases that pass with the current rules but fail with the proposed
+ * ones, so a rule edit can warn before it breaks the regression suite
+ */
+export function findBrokenTestCases(
+  currentRules: Rule[],
+  proposedRules: Rule[],
+  testCases: RuleTestCase[],
+  options: RulesEngineOptions = {}
+): RuleTestCaseResult[] {
+  return testCases
+    .filter((testCase) => runRuleTestCase(currentRules, testCase, options).passed)
+    .map((testCase) => runRuleTestCase(proposedRules, testCase, options))
+    .filter((result) => !result.passed)
+}
+
+/**
+ * Compare two lists ignoring order and duplicates
+ */
+function diffLists(
+  expected: string[],
+  actual: string[]
+): { missing: string[]; unexpected: string[] } | null {
+  const actualSet = new Set(actual)
+  const expectedSet = new Set(expected)
+
+  const missing = [...expectedSet].filter((item) => !actualSet.has(item))
+  const unexpected = [...actualSet].filter((item) => !expectedSet.has(item))
+
+  return missing.length > 0 || unexpected.length > 0 ? { missing, unexpected } : null
+}
@@ -0,0 +1,93 @@
+import type { Rule, Question, RuleSetDiff, RuleSetDiffEntry } from '@/types/policies'
+
+/**
+ * Rule set version diffing
+ *
+ * Compares the draft (live rules and questions) against a published snapshot.
+ * Timestamps are ignored so republishing an unchanged draft shows no changes.
+ */
+
+const IGNORED_FIELDS = new Set(['created_at', 'updated_at'])
+
+/**
+ * Diff a draft rule set against a published one (null = never published)
+ */
+export function diffRuleSets(
+  published: { rules: Rule[]; questions: Question[] } | null,
+  draft: { rules: Rule[]; questions: Question[] }
+): RuleSetDiff {
+  return {
+    rules: diffRecords(published?.rules || [], draft.rules, (rule) => rule.name),
+    questions: diffRecords(published?.questions || [], draft.questions, (q) => q.question_text),
+  }
+}
+
+/**
+ * Check whether a diff has any changes
+ */
+export function hasRuleSetChanges(diff: RuleSetDiff): boolean {
+  return diff.rules.length > 0 || diff.questions.length > 0
+}
+
+function diffRecords<T extends { id: string }>(
+  before: T[],
+  after: T[],
+  getName: (record: T) => string
+): RuleSetDiffEntry<T>[] {
+  const beforeById = new Map(before.map((record) => [record.id, record]))
+  const afterById = new Map(after.map((record) => [record.id, record]))
+  const entries: RuleSetDiffEntry<T>[] = []
+
+  for (const record of after) {
+    const previous = beforeById.get(record.id)
+
+    if (!previous) {
+      entries.push({ id: record.id, name: getName(record), change: 'added', fields: [], before: null, after: record })
+      continue
+    }
+
+    const fields = changedFields(previous, record)
+    if (fields.length > 0) {
+      entries.push({ id: record.id, name: getName(record), change: 'changed', fields, before: previous, after: record })
+    }
+  }
+
+  for (const record of before) {
+    if (!afterById.has(record.id)) {
+      entries.push({ id: record.id, name: getName(record), change: 'removed', fields: [], before: record, after: null })
+    }
+  }
+
+  return entries
+}
+
+function changedFields<T extends object>(before: T, after: T): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+
+  return [...keys]
+    .filter((key) => !IGNORED_FIELDS.has(key))
+    .filter(
+      (key) =>
+        stableStringify((before as Record<string, unknown>)[key] ?? null) !==
+        stableStringify((after as Record<string, unknown>)[key] ?? null)
+    )
+    .sort()
+}
+
+/**
+ * JSON.stringify with sorted object keys - JSONB does not preserve key order,
+ * so snapshots read back from the database must compare equal to live rows
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
@@ -88,6 +88,42 @@ export async function archiveChatSession(
   })
 }
 
+/**
+ * Archive a chat session a claim is being submitted from, unless it already
+ * is. The update is conditional, so of two concurrent submissions only one
+ * archives the session; the other gets null.
+ */
+export async function archiveChatSessionIfOpen(sessionId: string): Promise<ChatSession | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .update({ is_archived: true, archived_at: new Date().toISOString() } as never)
+    .eq('id', sessionId)
+    .eq('is_archived', false)
+    .select()
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to archive chat session: ${error.message}`)
+  return (data as ChatSession | null) || null
+}
+
+/**
+ * Reopen a session archived by archiveChatSessionIfOpen whose claim could not
+ * be created. Sessions already linked to a claim stay archived.
+ */
+export async function reopenChatSession(sessionId: string): Promise<void> {
+  const supabase = await createClient()
+
+  const { error } = await supabase
+    .from('chat_sessions')
+    .update({ is_archived: false, archived_at: null } as never)
+    .eq('id', sessionId)
+    .is('claim_id', null)
+
+  if (error) throw new Error(`Failed to reopen chat session: ${error.message}`)
+}
+
 /**
  * Delete a chat session (only if not archived)
  */
@@ -0,0 +1,204 @@
+import { createClient } from './server'
+import { updateOne } from './helpers'
+import { getUserPolicy } from './user-policies'
+import { getPolicy } from './policies'
+import { getPolicyCoverageType } from './policy-coverage-types'
+import { getCoverageType } from './coverage-types'
+import { findCoverageItem, getAvailableLimit, getCommittedAmount, roundAmount } from '@/lib/claims/coverage'
+import {
+  SETTLEMENT_STATUSES,
+  calculateSettlement,
+  getPolicyYearStart,
+  getSettlementSettings,
+  validateSettlementLineItems,
+} from '@/lib/claims/settlement'
+import { getClaimStatusDisplayName } from '@/lib/claims/workflow'
+import type { Json } from '@/types/database'
+import type { EligibilitySummary } from '@/types/rules'
+import type { CoverageUsageEntry } from '@/types/user-policies'
+import type { ClaimRecord, ClaimSettlement, SettlementLineItem, SettlementTerms } from '@/types/claims'
+
+type SettlementClaim = Pick<
+  ClaimRecord,
+  | 'id'
+  | 'status'
+  | 'amount'
+  | 'currency'
+  | 'eligibility'
+  | 'settlement'
+  | 'user_policy_id'
+  | 'coverage_type_id'
+  | 'submitted_at'
+>
+
+async function getSettlementClaim(claimId: string): Promise<SettlementClaim> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('claims')
+    .select('id, status, amount, currency, eligibility, settlement, user_policy_id, coverage_type_id, submitted_at')
+    .eq('id', claimId)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to fetch claim: ${error.message}`)
+  }
+
+  return data as unknown as SettlementClaim
+}
+
+/**
+ * Get the policy terms a claim is settled under: the deductible and coverage
+ * limit of the policy's coverage type (deductible falling back to the
+ * policy's), the coverage type's co-insurance and annual/per-incident
+ * settings, what other claims used this policy year, and what is left of
+ * the policy's coverage item.
+ *
+ * What other claims used comes from the coverage usage ledger rather than
+ * their status: a claim counts once it holds limit (approved and reserved, or
+ * paid) and keeps counting after it is closed, while claims that never got a
+ * reservation or had it released do not.
+ */
+export async function getSettlementTerms(claimId: string): Promise<SettlementTerms> {
+  return loadSettlementTerms(await getSettlementClaim(claimId))
+}
+
+async function loadSettlementTerms(claim: SettlementClaim): Promise<SettlementTerms> {
+  const supabase = await createClient()
+
+  const [userPolicy, coverageType] = await Promise.all([
+    getUserPolicy(claim.user_policy_id),
+    getCoverageType(claim.coverage_type_id),
+  ])
+
+  if (!userPolicy) {
+    throw new Error('Policy not found')
+  }
+  if (!coverageType) {
+    throw new Error('Coverage type not found')
+  }
+
+  const [policy, policyCoverage] = await Promise.all([
+    getPolicy(userPolicy.policy_id),
+    getPolicyCoverageType(userPolicy.policy_id, claim.coverage_type_id),
+  ])
+  const settings = getSettlementSettings(coverageType.metadata)
+
+  const [{ data: claimsThisYear, error }, { data: entries, error: entriesError }] = await Promise.all([
+    supabase
+      .from('claims')
+      .select('id, settlement')
+      .eq('user_policy_id', claim.user_policy_id)
+      .eq('coverage_type_id', claim.coverage_type_id)
+      .neq('id', claim.id)
+      .gte('submitted_at', getPolicyYearStart(userPolicy.enrolled_at, claim.submitted_at).toISOString()),
+    supabase
+      .from('coverage_usage_entries')
+      .select('*')
+      .eq('user_policy_id', claim.user_policy_id)
+      .eq('coverage_name', coverageType.name),
+  ])
+
+  if (error) {
+    throw new Error(`Failed to fetch settled claims: ${error.message}`)
+  }
+  if (entriesError) {
+    throw new Error(`Failed to fetch coverage usage: ${entriesError.message}`)
+  }
+
+  const ledger = (entries || []) as CoverageUsageEntry[]
+  const settled = ((claimsThisYear as unknown as Array<Pick<ClaimRecord, 'id' | 'settlement'>>) || [])
+    .map((row) => ({
+      committed: getCommittedAmount(ledger.filter((entry) => entry.claim_id === row.id)),
+      settlement: row.settlement as unknown as ClaimSettlement | null,
+    }))
+    .filter((row) => row.committed > 0)
+  const coverageDeductible = policyCoverage?.deductible ?? null
+  const policyDeductible = policy?.deductible ?? null
+  const coverageItem = findCoverageItem(userPolicy.coverage_items, coverageType.name)
+
+  return {
+    currency: claim.currency,
+    deductible: coverageDeductible ?? policyDeductible ?? 0,
+    deductibleSource: coverageDeductible !== null ? 'coverage' : policyDeductible !== null ? 'policy' : null,
+    deductibleBasis: settings.deductibleBasis,
+    deductibleMetToDate: roundAmount(settled.reduce((sum, row) => sum + (row.settlement?.deductibleApplied ?? 0), 0)),
+    coverageLimit: policyCoverage?.coverage_limit ?? null,
+    limitBasis: settings.limitBasis,
+    paidToDate: roundAmount(settled.reduce((sum, row) => sum + row.committed, 0)),
+    coinsurancePercentage: settings.coinsurancePercentage,
+    remainingPolicyLimit: coverageItem ? getAvailableLimit(coverageItem) : null,
+  }
+}
+
+/**
+ * Calculate and store a claim's settlement. The calculation runs here against
+ * the current policy terms; the client's preview is not trusted. Overrides
+ * are stamped with the adjuster and time they were made; unchanged overrides
+ * keep their original stamp.
+ */
+export async function saveClaimSettlement(
+  claimId: string,
+  lineItems: SettlementLineItem[],
+  settledBy: string
+): Promise<ClaimSettlement> {
+  const supabase = await createClient()
+  const claim = await getSettlementClaim(claimId)
+
+  if (!SETTLEMENT_STATUSES.includes(claim.status)) {
+    throw new Error(
+      `The settlement of a claim that is ${getClaimStatusDisplayName(claim.status).toLowerCase()} cannot be changed`
+    )
+  }
+
+  const invalid = validateSettlementLineItems(lineItems, Number(claim.amount) || 0)
+  if (invalid) {
+    throw new Error(invalid)
+  }
+
+  const now = new Date().toISOString()
+  const previous = (claim.settlement as unknown as ClaimSettlement | null)?.lineItems || []
+  const items: SettlementLineItem[] = lineItems.map((item) => {
+    const base = {
+      id: item.id,
+      description: item.description.trim(),
+      amount: roundAmount(item.amount),
+      covered: item.covered,
+    }
+    if (!item.override) return base
+
+    const override = {
+      amount: roundAmount(item.override.amount),
+      justification: item.override.justification.trim(),
+    }
+    const existing = previous.find((p) => p.id === item.id)?.override
+    const unchanged =
+      existing && existing.amount === override.amount && existing.justification === override.justification
+    return {
+      ...base,
+      override: {
+        ...override,
+        by: unchanged ? existing.by : settledBy,
+        at: unchanged ? existing.at : now,
+      },
+    }
+  })
+
+  const terms = await loadSettlementTerms(claim)
+  const eligibility = (claim.eligibility as unknown as EligibilitySummary | null) ?? undefined
+  const settlement: ClaimSettlement = {
+    ...calculateSettlement(Number(claim.amount) || 0, items, terms, eligibility),
+    lineItems: items,
+    terms,
+    settledBy,
+    settledAt: now,
+  }
+
+  await updateOne(supabase, 'claims', claimId, {
+    settlement: settlement as unknown as Json,
+    settled_amount: settlement.payableAmount,
+    updated_at: now,
+  })
+
+  return settlement
+}
@@ -0,0 +1,497 @@
+import { createClient } from './server'
+import { insertOne, updateOne } from './helpers'
+import { getEligibleAmount } from '@/lib/rules/helpers'
+import {
+  CLAIM_STATUSES,
+  findTransition,
+  getClaimStatusDisplayName,
+  getClaimTransitionDisplayName,
+} from '@/lib/claims/workflow'
+import type {
+  Claim,
+  ClaimDocument,
+  ClaimDocumentInsert,
+  ClaimDocumentRecord,
+  ClaimFilters,
+  ClaimListItem,
+  ClaimMessage,
+  ClaimMessageInsert,
+  ClaimMessageRecord,
+  ClaimPagination,
+  ClaimRecord,
+  ClaimRecordInsert,
+  ClaimRecordUpdate,
+  ClaimSettlement,
+  ClaimStatusChange,
+  ClaimStatusCounts,
+  ClaimStatusHistoryInsert,
+  ClaimStatusHistoryRecord,
+  ClaimTransition,
+  ClaimTransitionAction,
+  ClaimTransitionInput,
+  PaginatedClaims,
+} from '@/types/claims'
+import type { EligibilitySummary, RuleSimulationClaim } from '@/types/rules'
+
+const DEFAULT_PAGE_SIZE = 20
+
+// Status change columns plus who made the change
+const STATUS_HISTORY_SELECT = `
+  *,
+  actor:profiles (id, full_name)
+`
+
+// Claim columns plus the customer, coverage type and status history shown with every claim
+const CLAIM_LIST_SELECT = `
+  *,
+  customer:profiles (full_name, email),
+  coverage_type:coverage_types (name),
+  status_history:claim_status_history (${STATUS_HISTORY_SELECT})
+`
+
+type StatusHistoryWithActor = ClaimStatusHistoryRecord & {
+  actor: { id: string; full_name: string } | null
+}
+
+type ClaimWithRelations = ClaimRecord & {
+  customer: { full_name: string; email: string } | null
+  coverage_type: { name: string } | null
+  status_history: StatusHistoryWithActor[] | null
+}
+
+function toClaimStatusChange(row: StatusHistoryWithActor): ClaimStatusChange {
+  return {
+    id: row.id,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    action: row.action as ClaimTransitionAction,
+    changedBy: row.actor ? { id: row.actor.id, name: row.actor.full_name } : null,
+    reason: row.reason,
+    notes: row.notes,
+    changedAt: new Date(row.created_at),
+  }
+}
+
+function toClaimListItem(row: ClaimWithRelations): ClaimListItem {
+  return {
+    id: row.id,
+    claimNumber: row.claim_number,
+    customerId: row.user_id,
+    customerName: row.customer?.full_name || 'Unknown customer',
+    customerEmail: row.customer?.email || '',
+    userPolicyId: row.user_policy_id,
+    coverageTypeId: row.coverage_type_id,
+    coverageTypeName: row.coverage_type?.name || 'Unknown coverage',
+    status: row.status,
+    amount: Number(row.amount) || 0,
+    currency: row.currency,
+    submittedAt: new Date(row.submitted_at),
+    description: row.description || '',
+    statusHistory: (row.status_history || [])
+      .map(toClaimStatusChange)
+      .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime()),
+  }
+}
+
+function toClaimDocument(row: ClaimDocumentRecord): ClaimDocument {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.file_type,
+    url: row.url,
+    ...(row.question_id && { questionId: row.question_id }),
+    uploadedAt: new Date(row.uploaded_at),
+  }
+}
+
+function toClaimMessage(row: ClaimMessageRecord): ClaimMessage {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    timestamp: new Date(row.created_at),
+  }
+}
+
+/**
+ * Get claims matching the filters (newest first), one page at a time
+ */
+export async function getClaims(
+  filters: ClaimFilters = {},
+  pagination: ClaimPagination = {}
+): Promise<PaginatedClaims> {
+  const supabase = await createClient()
+  const page = Math.max(1, pagination.page ?? 1)
+  const pageSize = pagination.pageSize ?? DEFAULT_PAGE_SIZE
+  const from = (page - 1) * pageSize
+
+  let query = supabase
+    .from('claims')
+    .select(CLAIM_LIST_SELECT, { count: 'exact' })
+    .order('submitted_at', { ascending: false })
+    .range(from, from + pageSize - 1)
+
+  if (filters.status) {
+    query = query.eq('status', filters.status)
+  }
+  if (filters.coverageTypeId) {
+    query = query.eq('coverage_type_id', filters.coverageTypeId)
+  }
+  if (filters.userId) {
+    query = query.eq('user_id', filters.userId)
+  }
+  if (filters.submittedFrom) {
+    query = query.gte('submitted_at', filters.submittedFrom)
+  }
+  if (filters.submittedTo) {
+    query = query.lte('submitted_at', filters.submittedTo)
+  }
+  if (filters.search?.trim()) {
+    // Commas and parentheses would break the or() filter syntax
+    const search = filters.search.trim().replace(/[,()]/g, ' ')
+    query = query.or(`claim_number.ilike.%${search}%,description.ilike.%${search}%`)
+  }
+
+  const { data, error, count } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch claims: ${error.message}`)
+  }
+
+  return {
+    claims: ((data as unknown as ClaimWithRelations[]) || []).map(toClaimListItem),
+    total: count ?? 0,
+    page,
+    pageSize,
+  }
+}
+
+/**
+ * Count claims per status. Counted in the database (one head request per
+ * status) rather than by fetching rows, which PostgREST caps.
+ */
+export async function getClaimStatusCounts(): Promise<ClaimStatusCounts> {
+  const supabase = await createClient()
+
+  const results = await Promise.all(
+    CLAIM_STATUSES.map(async (status) => {
+      const { count, error } = await supabase
+        .from('claims')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', status)
+
+      if (error) {
+        throw new Error(`Failed to count claims: ${error.message}`)
+      }
+      return [status, count ?? 0] as const
+    })
+  )
+
+  const counts = Object.fromEntries(results) as ClaimStatusCounts
+  counts.total = results.reduce((sum, [, count]) => sum + count, 0)
+  return counts
+}
+
+/**
+ * Get a single claim with its documents and messages
+ */
+export async function getClaim(id: string): Promise<Claim | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.from('claims').select(CLAIM_LIST_SELECT).eq('id', id).single()
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null
+    }
+    throw new Error(`Failed to fetch claim: ${error.message}`)
+  }
+
+  const row = data as unknown as ClaimWithRelations
+  const [documents, messages] = await Promise.all([getClaimDocuments(id), getClaimMessages(id)])
+
+  return {
+    ...toClaimListItem(row),
+    documents,
+    messages,
+    answers: (row.answers as Record<string, unknown>) || {},
+    ruleSetVersionId: row.rule_set_version_id,
+    ...(row.eligibility && { eligibility: row.eligibility as unknown as EligibilitySummary }),
+    ...(row.settlement && { settlement: row.settlement as unknown as ClaimSettlement }),
+  }
+}
+
+/**
+ * Create a claim
+ */
+export async function createClaim(claim: ClaimRecordInsert): Promise<ClaimRecord> {
+  const supabase = await createClient()
+  return insertOne(supabase, 'claims', claim)
+}
+
+/**
+ * Update a claim
+ */
+export async function updateClaim(id: string, updates: ClaimRecordUpdate): Promise<ClaimRecord> {
+  const supabase = await createClient()
+  return updateOne(supabase, 'claims', id, updates)
+}
+
+/**
+ * Delete a claim (its documents and messages are removed with it)
+ */
+export async function deleteClaim(id: string): Promise<void> {
+  const supabase = await createClient()
+
+  const { error } = await supabase.from('claims').delete().eq('id', id)
+
+  if (error) {
+    throw new Error(`Failed to delete claim: ${error.message}`)
+  }
+}
+
+/**
+ * Record a status change in a claim's history
+ */
+export async function addClaimStatusChange(change: ClaimStatusHistoryInsert): Promise<ClaimStatusChange> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('claim_status_history')
+    .insert(change as never)
+    .select(STATUS_HISTORY_SELECT)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to record claim status change: ${error.message}`)
+  }
+
+  return toClaimStatusChange(data as unknown as StatusHistoryWithActor)
+}
+
+/**
+ * Get the limit an approval reserves: the adjuster's settlement when there
+ * is one, otherwise what the rules made eligible
+ */
+function getReservationAmount(claim: Pick<ClaimRecord, 'amount' | 'eligibility' | 'settled_amount'>): number {
+  if (claim.settled_amount !== null) return Number(claim.settled_amount)
+  const eligibility = (claim.eligibility as unknown as EligibilitySummary | null) ?? undefined
+  return getEligibleAmount(Number(claim.amount) || 0, eligibility)
+}
+
+/**
+ * Move a claim through the workflow and record who did it and why. The
+ * transition must be allowed from the claim's current status, and the update
+ * only applies while the claim still has that status, so two reviewers
+ * acting at once cannot both move it. Approving, paying and releasing a
+ * claim also update its policy's coverage limit (see lib/claims/workflow.ts);
+ * the status and the limit change in one transaction in the
+ * transition_claim_status database function (supabase/migrations), so a
+ * failed limit change leaves the status as it was. The history row is
+ * written in the same transaction.
+ */
+export async function transitionClaimStatus(
+  claimId: string,
+  action: ClaimTransitionAction,
+  changedBy: string,
+  input: ClaimTransitionInput = {}
+): Promise<{ claim: ClaimRecord; change: ClaimStatusChange }> {
+  const supabase = await createClient()
+
+  const { data: current, error: fetchError } = await supabase
+    .from('claims')
+    .select('status, amount, eligibility, settled_amount')
+    .eq('id', claimId)
+    .single()
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch claim: ${fetchError.message}`)
+  }
+
+  const claim = current as unknown as Pick<ClaimRecord, 'status' | 'amount' | 'eligibility' | 'settled_amount'>
+  const fromStatus = claim.status
+  const transition = findTransition(fromStatus, action)
+  if (!transition) {
+    throw new Error(
+      `"${getClaimTransitionDisplayName(action)}" is not allowed for a claim that is ${getClaimStatusDisplayName(fromStatus).toLowerCase()}`
+    )
+  }
+
+  const reason = input.reason?.trim() || null
+  const notes = input.notes?.trim() || null
+  if (transition.requiresReason && !reason) {
+    throw new Error(`A reason is required to ${transition.label.toLowerCase()} a claim`)
+  }
+
+  const { data, error } = await supabase
+    .rpc('transition_claim_status', {
+      p_claim_id: claimId,
+      p_from_status: fromStatus,
+      p_to_status: transition.to,
+      p_action: action,
+      p_changed_by: changedBy,
+      p_reason: reason,
+      p_notes: notes,
+      p_coverage_effect: transition.coverage ?? null,
+      p_coverage_amount: transition.coverage === 'reserve' ? getReservationAmount(claim) : 0,
+    } as never)
+
+  if (error) {
+    if (error.code === '40001') {
+      throw new Error('The claim status was changed by someone else. Reload the claim and try again.')
+    }
+    // Raised by the coverage ledger: the limit is exceeded, no such coverage, ...
+    if (error.code === 'P0001') throw new Error(error.message)
+    if (error.code === '23505') throw new Error('Coverage is already reserved for this claim')
+    throw new Error(`Failed to update claim status: ${error.message}`)
+  }
+
+  const result = data as unknown as { claim: ClaimRecord; change: StatusHistoryWithActor }
+  return { claim: result.claim, change: toClaimStatusChange(result.change) }
+}
+
+/**
+ * Get the documents of a claim (oldest first)
+ */
+export async function getClaimDocuments(claimId: string): Promise<ClaimDocument[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('claim_documents')
+    .select('*')
+    .eq('claim_id', claimId)
+    .order('uploaded_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch claim documents: ${error.message}`)
+  }
+
+  return ((data as unknown as ClaimDocumentRecord[]) || []).map(toClaimDocument)
+}
+
+/**
+ * Attach an uploaded document to a claim
+ */
+export async function addClaimDocument(document: ClaimDocumentInsert): Promise<ClaimDocument> {
+  const supabase = await createClient()
+  const data = await insertOne(supabase, 'claim_documents', document)
+  return toClaimDocument(data)
+}
+
+/**
+ * Remove a document from a claim (the stored file is left to the caller)
+ */
+export async function deleteClaimDocument(id: string): Promise<void> {
+  const supabase = await createClient()
+
+  const { error } = await supabase.from('claim_documents').delete().eq('id', id)
+
+  if (error) {
+    throw new Error(`Failed to delete claim document: ${error.message}`)
+  }
+}
+
+/**
+ * Get the conversation of a claim (oldest first)
+ */
+export async function getClaimMessages(claimId: string): Promise<ClaimMessage[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('claim_messages')
+    .select('*')
+    .eq('claim_id', claimId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch claim messages: ${error.message}`)
+  }
+
+  return ((data as unknown as ClaimMessageRecord[]) || []).map(toClaimMessage)
+}
+
+/**
+ * Add a message to a claim's conversation
+ */
+export async function addClaimMessage(message: ClaimMessageInsert): Promise<ClaimMessage> {
+  const supabase = await createClient()
+  const data = await insertOne(supabase, 'claim_messages', message)
+  return toClaimMessage(data)
+}
+
+/**
+ * Get what a claim was evaluated with at submission (answers, metadata and
+ * rule set version), for replaying its rules
+ */
+export async function getClaimEvaluationInput(id: string): Promise<{
+  coverageTypeId: string
+  ruleSetVersionId: string | null
+  answers: Record<string, unknown>
+  metadata: NonNullable<RuleSimulationClaim['metadata']>
+} | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('claims')
+    .select('coverage_type_id, rule_set_version_id, answers, metadata, submitted_at')
+    .eq('id', id)
+    .single()
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null
+    }
+    throw new Error(`Failed to fetch claim: ${error.message}`)
+  }
+
+  const row = data as unknown as Pick<
+    ClaimRecord,
+    'coverage_type_id' | 'rule_set_version_id' | 'answers' | 'metadata' | 'submitted_at'
+  >
+  const metadata = (row.metadata as RuleSimulationClaim['metadata']) || {}
+
+  return {
+    coverageTypeId: row.coverage_type_id,
+    ruleSetVersionId: row.rule_set_version_id,
+    answers: (row.answers as Record<string, unknown>) || {},
+    metadata: { ...metadata, submissionDate: metadata.submissionDate ?? row.submitted_at },
+  }
+}
+
+/**
+ * Get the stored answers of submitted claims for a coverage type (newest
+ * first), for replaying them against a draft rule set
+ */
+export async function getClaimsForSimulation(
+  coverageTypeId: string,
+  options: { since?: string; limit?: number } = {}
+): Promise<RuleSimulationClaim[]> {
+  const supabase = await createClient()
+
+  let query = supabase
+    .from('claims')
+    .select('id, claim_number, answers, metadata, submitted_at')
+    .eq('coverage_type_id', coverageTypeId)
+    .order('submitted_at', { ascending: false })
+    .limit(options.limit ?? 500)
+
+  if (options.since) {
+    query = query.gte('submitted_at', options.since)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch claims for simulation: ${error.message}`)
+  }
+
+  const rows = (data as unknown as Array<Pick<ClaimRecord, 'id' | 'claim_number' | 'answers' | 'metadata' | 'submitted_at'>>) || []
+
+  return rows.map((row) => ({
+    id: row.id,
+    claimNumber: row.claim_number,
+    submittedAt: row.submitted_at,
+    answers: (row.answers as Record<string, unknown>) || {},
+    metadata: (row.metadata as RuleSimulationClaim['metadata']) || undefined,
+  }))
+}
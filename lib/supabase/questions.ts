@@ -61,6 +61,8 @@ export async function createQuestion(question: QuestionInsert): Promise<Question
     order_index: question.order_index,
     placeholder: question.placeholder ?? null,
     help_text: question.help_text ?? null,
+    parent_question_id: question.parent_question_id ?? null,
+    max_items: question.max_items ?? null,
   })
 
   return data as Question
@@ -0,0 +1,140 @@
+import { getCoverageType, getCoverageTypes } from './coverage-types'
+import { getQuestionsByCoverageType, createQuestion, updateQuestion } from './questions'
+import { getRulesByCoverageType, createRule, updateRule } from './rules'
+import { createRuleBundle, planRuleBundleImport, resolveBundleRule } from '@/lib/rules/bundles'
+import type {
+  Question,
+  Rule,
+  RuleBundle,
+  RuleBundleConflictStrategy,
+  RuleBundleImportPlan,
+} from '@/types/policies'
+
+/**
+ * Export a coverage type with its questions and rules as a bundle
+ */
+export async function exportCoverageTypeBundle(coverageTypeId: string): Promise<RuleBundle> {
+  const [coverageType, questions, rules, coverageTypes] = await Promise.all([
+    getCoverageType(coverageTypeId),
+    getQuestionsByCoverageType(coverageTypeId),
+    getRulesByCoverageType(coverageTypeId),
+    getCoverageTypes(),
+  ])
+
+  if (!coverageType) {
+    throw new Error('Coverage type not found')
+  }
+
+  return createRuleBundle(coverageType, questions, rules, coverageTypes)
+}
+
+/**
+ * Plan importing a bundle into a coverage type without writing anything
+ */
+export async function previewCoverageTypeBundleImport(
+  coverageTypeId: string,
+  bundle: RuleBundle,
+  strategy: RuleBundleConflictStrategy
+): Promise<RuleBundleImportPlan> {
+  const [questions, rules, coverageTypes] = await Promise.all([
+    getQuestionsByCoverageType(coverageTypeId),
+    getRulesByCoverageType(coverageTypeId),
+    getCoverageTypes(),
+  ])
+
+  return planRuleBundleImport(bundle, { coverageTypeId, questions, rules }, strategy, coverageTypes)
+}
+
+/**
+ * Import a bundle into a coverage type following the import plan.
+ *
+ * Questions are written first (groups before their items) so rules can be
+ * resolved to the new question IDs. The import is not atomic: if a write
+ * fails part-way, re-running it with 'skip' completes it, since everything
+ * already imported now matches and is left unchanged.
+ */
+export async function importCoverageTypeBundle(
+  coverageTypeId: string,
+  bundle: RuleBundle,
+  strategy: RuleBundleConflictStrategy
+): Promise<{ plan: RuleBundleImportPlan; questions: Question[]; rules: Rule[] }> {
+  const [existingQuestions, coverageTypes] = await Promise.all([
+    getQuestionsByCoverageType(coverageTypeId),
+    getCoverageTypes(),
+  ])
+  const plan = await previewCoverageTypeBundleImport(coverageTypeId, bundle, strategy)
+
+  const idByKey = new Map<string, string>()
+  const questionEntries = new Map(plan.questions.map((entry) => [entry.key, entry]))
+  const ordered = [...bundle.questions].sort((a, b) => Number(!!a.parent_key) - Number(!!b.parent_key))
+
+  for (const [index, question] of ordered.entries()) {
+    const entry = questionEntries.get(question.key)!
+    const data = {
+      question_text: question.question_text,
+      field_type: question.field_type,
+      is_required: question.is_required ?? false,
+      options: question.options ?? null,
+      placeholder: question.placeholder ?? null,
+      help_text: question.help_text ?? null,
+      parent_question_id: question.parent_key ? (idByKey.get(question.parent_key) ?? null) : null,
+      max_items: question.max_items ?? null,
+    }
+
+    switch (entry.action) {
+      case 'create':
+      case 'duplicate': {
+        const created = await createQuestion({
+          ...data,
+          coverage_type_id: coverageTypeId,
+          order_index: existingQuestions.length + index,
+        })
+        idByKey.set(question.key, created.id)
+        break
+      }
+
+      case 'update':
+        await updateQuestion(entry.existing_id!, data)
+        idByKey.set(question.key, entry.existing_id!)
+        break
+
+      default:
+        idByKey.set(question.key, entry.existing_id!)
+    }
+  }
+
+  const idBySlug = new Map(coverageTypes.map((ct) => [ct.slug, ct.id]))
+  idBySlug.set(bundle.coverage_type.slug, coverageTypeId)
+  const ruleEntries = new Map(plan.rules.map((entry) => [entry.key, entry]))
+
+  for (const bundleRule of bundle.rules) {
+    const entry = ruleEntries.get(bundleRule.name)!
+    const rule = resolveBundleRule(bundleRule, idByKey, idBySlug)
+
+    switch (entry.action) {
+      case 'create':
+        await createRule({ ...rule, coverage_type_id: coverageTypeId })
+        break
+
+      case 'duplicate':
+        await createRule({
+          ...rule,
+          coverage_type_id: coverageTypeId,
+          name: `${rule.name} (Imported)`,
+          is_active: false,
+        })
+        break
+
+      case 'update':
+        await updateRule(entry.existing_id!, rule)
+        break
+    }
+  }
+
+  const [questions, rules] = await Promise.all([
+    getQuestionsByCoverageType(coverageTypeId),
+    getRulesByCoverageType(coverageTypeId),
+  ])
+
+  return { plan, questions, rules }
+}
@@ -0,0 +1,190 @@
+import { createClient } from './server'
+import { getRulesByCoverageType, getActiveRulesByCoverageType } from './rules'
+import { getQuestionsByCoverageType } from './questions'
+import type { Question, Rule, RuleSetVersion } from '@/types/policies'
+import type { Json } from '@/types/database'
+
+/**
+ * Get all rule set versions (newest first)
+ */
+export async function getRuleSetVersions(): Promise<RuleSetVersion[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('rule_set_versions')
+    .select('*')
+    .order('version', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch rule set versions: ${error.message}`)
+  }
+
+  return (data as unknown as RuleSetVersion[]) || []
+}
+
+/**
+ * Get all versions for a coverage type (newest first)
+ */
+export async function getRuleSetVersionsByCoverageType(
+  coverageTypeId: string
+): Promise<RuleSetVersion[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('rule_set_versions')
+    .select('*')
+    .eq('coverage_type_id', coverageTypeId)
+    .order('version', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch rule set versions for coverage type: ${error.message}`)
+  }
+
+  return (data as unknown as RuleSetVersion[]) || []
+}
+
+/**
+ * Get a single version by ID
+ */
+export async function getRuleSetVersion(id: string): Promise<RuleSetVersion | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.from('rule_set_versions').select('*').eq('id', id).single()
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null
+    }
+    throw new Error(`Failed to fetch rule set version: ${error.message}`)
+  }
+
+  return data as unknown as RuleSetVersion
+}
+
+/**
+ * Get the published (latest) version for a coverage type
+ */
+export async function getPublishedRuleSetVersion(
+  coverageTypeId: string
+): Promise<RuleSetVersion | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('rule_set_versions')
+    .select('*')
+    .eq('coverage_type_id', coverageTypeId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch published rule set: ${error.message}`)
+  }
+
+  return (data as unknown as RuleSetVersion) || null
+}
+
+/**
+ * Get the rules and questions claims should be evaluated against: a specific
+ * version when given, otherwise the published one. Coverage types that were
+ * never published fall back to the live rules and questions.
+ */
+export async function getEvaluationRuleSet(
+  coverageTypeId: string,
+  versionId?: string | null
+): Promise<{ rules: Rule[]; questions: Question[]; version: RuleSetVersion | null }> {
+  const version = versionId
+    ? await getRuleSetVersion(versionId)
+    : await getPublishedRuleSetVersion(coverageTypeId)
+
+  if (!version) {
+    if (versionId) {
+      throw new Error('Rule set version not found')
+    }
+    const [rules, questions] = await Promise.all([
+      getActiveRulesByCoverageType(coverageTypeId),
+      getQuestionsByCoverageType(coverageTypeId),
+    ])
+    return { rules, questions, version: null }
+  }
+
+  return { rules: version.rules, questions: version.questions || [], version }
+}
+
+/**
+ * Insert a new published version. Publishing is a single insert, so it either
+ * fully happens or not at all; the unique (coverage_type_id, version)
+ * constraint (supabase/migrations) rejects a concurrent publish that computed
+ * the same version number.
+ */
+async function insertVersion(
+  coverageTypeId: string,
+  snapshot: Pick<RuleSetVersion, 'rules' | 'questions'>,
+  options: { notes?: string | null; publishedBy?: string | null; parentVersionId?: string | null }
+): Promise<RuleSetVersion> {
+  const supabase = await createClient()
+  const current = await getPublishedRuleSetVersion(coverageTypeId)
+
+  const { data, error } = await supabase
+    .from('rule_set_versions')
+    .insert({
+      coverage_type_id: coverageTypeId,
+      version: (current?.version ?? 0) + 1,
+      parent_version_id: options.parentVersionId ?? null,
+      rules: snapshot.rules as unknown as Json,
+      questions: snapshot.questions as unknown as Json,
+      notes: options.notes ?? null,
+      published_by: options.publishedBy ?? null,
+    } as never)
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('Another version was published at the same time. Reload and try again.')
+    }
+    throw new Error(`Failed to publish rule set version: ${error.message}`)
+  }
+
+  return data as unknown as RuleSetVersion
+}
+
+/**
+ * Publish the current draft (live rules and questions) as a new version
+ */
+export async function publishRuleSetVersion(
+  coverageTypeId: string,
+  options: { notes?: string | null; publishedBy?: string | null } = {}
+): Promise<RuleSetVersion> {
+  const [rules, questions] = await Promise.all([
+    getRulesByCoverageType(coverageTypeId),
+    getQuestionsByCoverageType(coverageTypeId),
+  ])
+
+  return insertVersion(coverageTypeId, { rules, questions }, options)
+}
+
+/**
+ * Roll back by re-publishing an earlier version's snapshot as a new version.
+ * The draft is left untouched so the faulty change can be fixed and republished.
+ */
+export async function rollbackRuleSetVersion(
+  versionId: string,
+  options: { publishedBy?: string | null } = {}
+): Promise<RuleSetVersion> {
+  const target = await getRuleSetVersion(versionId)
+
+  if (!target) {
+    throw new Error('Rule set version not found')
+  }
+
+  return insertVersion(
+    target.coverage_type_id,
+    { rules: target.rules, questions: target.questions },
+    {
+      notes: `Rollback to version ${target.version}`,
+      publishedBy: options.publishedBy,
+      parentVersionId: target.id,
+    }
+  )
+}
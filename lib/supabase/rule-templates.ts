@@ -0,0 +1,79 @@
+import { createClient } from './server'
+import { insertOne, updateOne } from './helpers'
+import type { RuleTemplateRecord, RuleTemplateInsert, RuleTemplateUpdate } from '@/types/policies'
+import type { Json } from '@/types/database'
+
+/**
+ * Get all saved rule templates
+ */
+export async function getRuleTemplates(): Promise<RuleTemplateRecord[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('rule_templates')
+    .select('*')
+    .order('name', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch rule templates: ${error.message}`)
+  }
+
+  return (data as unknown as RuleTemplateRecord[]) || []
+}
+
+/**
+ * Create a new rule template
+ */
+export async function createRuleTemplate(template: RuleTemplateInsert): Promise<RuleTemplateRecord> {
+  const supabase = await createClient()
+
+  const insertData = {
+    name: template.name,
+    description: template.description ?? null,
+    rule_type: template.rule_type,
+    conditions: template.conditions as Json,
+    actions: template.actions as Json,
+    placeholders: (template.placeholders ?? []) as Json,
+    tags: template.tags ?? [],
+    created_by: template.created_by ?? null,
+  }
+
+  const data = await insertOne(supabase, 'rule_templates', insertData)
+  return data as unknown as RuleTemplateRecord
+}
+
+/**
+ * Update a rule template
+ */
+export async function updateRuleTemplate(
+  id: string,
+  updates: RuleTemplateUpdate
+): Promise<RuleTemplateRecord> {
+  const supabase = await createClient()
+
+  const updateData: Record<string, unknown> = {}
+
+  if (updates.name !== undefined) updateData.name = updates.name
+  if (updates.description !== undefined) updateData.description = updates.description
+  if (updates.rule_type !== undefined) updateData.rule_type = updates.rule_type
+  if (updates.conditions !== undefined) updateData.conditions = updates.conditions as Json
+  if (updates.actions !== undefined) updateData.actions = updates.actions as Json
+  if (updates.placeholders !== undefined) updateData.placeholders = updates.placeholders as Json
+  if (updates.tags !== undefined) updateData.tags = updates.tags
+
+  const data = await updateOne(supabase, 'rule_templates', id, updateData)
+  return data as unknown as RuleTemplateRecord
+}
+
+/**
+ * Delete a rule template
+ */
+export async function deleteRuleTemplate(id: string): Promise<void> {
+  const supabase = await createClient()
+
+  const { error } = await supabase.from('rule_templates').delete().eq('id', id)
+
+  if (error) {
+    throw new Error(`Failed to delete rule template: ${error.message}`)
+  }
+}
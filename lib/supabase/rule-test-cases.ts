@@ -0,0 +1,96 @@
+import { createClient } from './server'
+import { insertOne, updateOne } from './helpers'
+import type { RuleTestCaseRecord, RuleTestCaseInsert, RuleTestCaseUpdate } from '@/types/policies'
+import type { Json } from '@/types/database'
+
+/**
+ * Get all rule test cases
+ */
+export async function getRuleTestCases(): Promise<RuleTestCaseRecord[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('rule_test_cases')
+    .select('*')
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch rule test cases: ${error.message}`)
+  }
+
+  return (data as unknown as RuleTestCaseRecord[]) || []
+}
+
+/**
+ * Get all rule test cases for a coverage type
+ */
+export async function getRuleTestCasesByCoverageType(
+  coverageTypeId: string
+): Promise<RuleTestCaseRecord[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('rule_test_cases')
+    .select('*')
+    .eq('coverage_type_id', coverageTypeId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch rule test cases for coverage type: ${error.message}`)
+  }
+
+  return (data as unknown as RuleTestCaseRecord[]) || []
+}
+
+/**
+ * Create a new rule test case
+ */
+export async function createRuleTestCase(testCase: RuleTestCaseInsert): Promise<RuleTestCaseRecord> {
+  const supabase = await createClient()
+
+  const insertData = {
+    coverage_type_id: testCase.coverage_type_id,
+    name: testCase.name,
+    description: testCase.description ?? null,
+    answers: (testCase.answers ?? {}) as Json,
+    metadata: (testCase.metadata ?? {}) as Json,
+    expected_result: testCase.expected_result as Json,
+  }
+
+  const data = await insertOne(supabase, 'rule_test_cases', insertData)
+  return data as unknown as RuleTestCaseRecord
+}
+
+/**
+ * Update a rule test case
+ */
+export async function updateRuleTestCase(
+  id: string,
+  updates: RuleTestCaseUpdate
+): Promise<RuleTestCaseRecord> {
+  const supabase = await createClient()
+
+  const updateData: Record<string, unknown> = {}
+
+  if (updates.name !== undefined) updateData.name = updates.name
+  if (updates.description !== undefined) updateData.description = updates.description
+  if (updates.answers !== undefined) updateData.answers = updates.answers as Json
+  if (updates.metadata !== undefined) updateData.metadata = updates.metadata as Json
+  if (updates.expected_result !== undefined) updateData.expected_result = updates.expected_result as Json
+
+  const data = await updateOne(supabase, 'rule_test_cases', id, updateData)
+  return data as unknown as RuleTestCaseRecord
+}
+
+/**
+ * Delete a rule test case
+ */
+export async function deleteRuleTestCase(id: string): Promise<void> {
+  const supabase = await createClient()
+
+  const { error } = await supabase.from('rule_test_cases').delete().eq('id', id)
+
+  if (error) {
+    throw new Error(`Failed to delete rule test case: ${error.message}`)
+  }
+}
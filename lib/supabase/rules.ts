@@ -1,6 +1,8 @@
 import { createClient } from './server'
 import { insertOne, updateOne } from './helpers'
+import { getRuleSetStats } from '@/lib/rules/helpers'
 import type { Rule, RuleInsert, RuleUpdate } from '@/types/policies'
+import type { RuleSetStats } from '@/types/rules'
 import type { Json } from '@/types/database'
 
 /**
@@ -105,6 +107,7 @@ export async function createRule(rule: RuleInsert): Promise<Rule> {
 
   const insertData = {
     coverage_type_id: rule.coverage_type_id,
+    question_id: rule.question_id ?? null,
     rule_type: rule.rule_type,
     name: rule.name,
     description: rule.description ?? null,
@@ -113,6 +116,13 @@ export async function createRule(rule: RuleInsert): Promise<Rule> {
     priority: rule.priority ?? 0,
     is_active: rule.is_active ?? true,
     error_message: rule.error_message ?? null,
+    error_messages: (rule.error_messages ?? null) as Json,
+    category: rule.category ?? null,
+    tags: rule.tags ?? [],
+    effective_from: rule.effective_from ?? null,
+    effective_until: rule.effective_until ?? null,
+    applies_to: (rule.applies_to ?? {}) as Json,
+    for_each: rule.for_each ?? null,
   }
 
   const data = await insertOne(supabase, 'rules', insertData)
@@ -128,6 +138,7 @@ export async function updateRule(id: string, updates: RuleUpdate): Promise<Rule>
   const updateData: Record<string, unknown> = {}
 
   if (updates.coverage_type_id !== undefined) updateData.coverage_type_id = updates.coverage_type_id
+  if (updates.question_id !== undefined) updateData.question_id = updates.question_id
   if (updates.rule_type !== undefined) updateData.rule_type = updates.rule_type
   if (updates.name !== undefined) updateData.name = updates.name
   if (updates.description !== undefined) updateData.description = updates.description
@@ -136,6 +147,13 @@ export async function updateRule(id: string, updates: RuleUpdate): Promise<Rule>
   if (updates.priority !== undefined) updateData.priority = updates.priority
   if (updates.is_active !== undefined) updateData.is_active = updates.is_active
   if (updates.error_message !== undefined) updateData.error_message = updates.error_message
+  if (updates.error_messages !== undefined) updateData.error_messages = updates.error_messages as Json
+  if (updates.category !== undefined) updateData.category = updates.category
+  if (updates.tags !== undefined) updateData.tags = updates.tags
+  if (updates.effective_from !== undefined) updateData.effective_from = updates.effective_from
+  if (updates.effective_until !== undefined) updateData.effective_until = updates.effective_until
+  if (updates.applies_to !== undefined) updateData.applies_to = updates.applies_to as Json
+  if (updates.for_each !== undefined) updateData.for_each = updates.for_each
 
   const data = await updateOne(supabase, 'rules', id, updateData)
   return data as unknown as Rule
@@ -189,6 +207,7 @@ export async function duplicateRule(id: string): Promise<Rule> {
 
   const newRule: RuleInsert = {
     coverage_type_id: originalRule.coverage_type_id,
+    question_id: originalRule.question_id,
     rule_type: originalRule.rule_type,
     name: `${originalRule.name} (Copy)`,
     description: originalRule.description,
@@ -197,6 +216,13 @@ export async function duplicateRule(id: string): Promise<Rule> {
     priority: originalRule.priority,
     is_active: false, // Duplicates are inactive by default
     error_message: originalRule.error_message,
+    error_messages: originalRule.error_messages,
+    category: originalRule.category,
+    tags: originalRule.tags,
+    effective_from: originalRule.effective_from,
+    effective_until: originalRule.effective_until,
+    applies_to: originalRule.applies_to,
+    for_each: originalRule.for_each,
   }
 
   return createRule(newRule)
@@ -205,34 +231,9 @@ export async function duplicateRule(id: string): Promise<Rule> {
 /**
  * Get rule statistics for a coverage type
  */
-export async function getRuleStats(coverageTypeId: string): Promise<{
-  total: number
-  active: number
-  inactive: number
-  byType: Record<string, number>
-  highestPriority: number
-  lowestPriority: number
-}> {
+export async function getRuleStats(coverageTypeId: string): Promise<RuleSetStats> {
   const rules = await getRulesByCoverageType(coverageTypeId)
-
-  const byType = rules.reduce(
-    (acc, rule) => {
-      acc[rule.rule_type] = (acc[rule.rule_type] || 0) + 1
-      return acc
-    },
-    {} as Record<string, number>
-  )
-
-  const priorities = rules.map((r) => r.priority)
-
-  return {
-    total: rules.length,
-    active: rules.filter((r) => r.is_active).length,
-    inactive: rules.filter((r) => !r.is_active).length,
-    byType,
-    highestPriority: priorities.length > 0 ? Math.max(...priorities) : 0,
-    lowestPriority: priorities.length > 0 ? Math.min(...priorities) : 0,
-  }
+  return getRuleSetStats(rules)
 }
 
 /**
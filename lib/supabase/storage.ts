@@ -92,22 +92,14 @@ export async function uploadFile(
 
   console.log('[Storage] Upload successful:', data)
 
-  // Generate signed URL (1 year expiry)
-  const { data: urlData, error: urlError } = await supabase.storage
-    .from(BUCKET_NAME)
-    .createSignedUrl(path, 60 * 60 * 24 * 365)
-
-  if (urlError || !urlData?.signedUrl) {
-    console.error('[Storage] Failed to generate signed URL:', urlError)
-    throw new Error('Failed to generate signed URL')
-  }
+  const url = await getSignedUrl(path)
 
   console.log('[Storage] Generated signed URL successfully')
 
   const result = {
     filename: file.name,
     path: path,
-    url: urlData.signedUrl,
+    url,
     type: file.type,
     size: file.size,
     uploaded_at: new Date().toISOString(),
@@ -118,6 +110,23 @@ export async function uploadFile(
   return result
 }
 
+/**
+ * Generate a signed URL (1 year expiry) for a file in the storage bucket
+ */
+export async function getSignedUrl(path: string): Promise<string> {
+  const supabase = await createClient()
+  const { data, error } = await supabase.storage
+    .from(BUCKET_NAME)
+    .createSignedUrl(path, 60 * 60 * 24 * 365)
+
+  if (error || !data?.signedUrl) {
+    console.error('[Storage] Failed to generate signed URL:', error)
+    throw new Error('Failed to generate signed URL')
+  }
+
+  return data.signedUrl
+}
+
 /**
  * Upload multiple files to storage bucket
  */
@@ -4,7 +4,6 @@ import type {
   UserPolicyInsert,
   UserPolicyUpdate,
   UserPolicyWithPolicy,
-  CoverageItem,
 } from '@/types/user-policies'
 
 /**
@@ -114,41 +113,6 @@ export async function updateUserPolicy(
   return data as UserPolicy
 }
 
-/**
- * Update coverage item usage (increment used_limit)
- */
-export async function updateCoverageUsage(
-  userPolicyId: string,
-  coverageName: string,
-  usedAmount: number
-): Promise<UserPolicy> {
-  const supabase = await createClient()
-
-  // Fetch current policy
-  const { data: currentPolicy, error: fetchError } = await supabase
-    .from('user_policies')
-    .select('coverage_items')
-    .eq('id', userPolicyId)
-    .single()
-
-  if (fetchError) throw new Error(`Failed to fetch policy: ${fetchError.message}`)
-
-  // Update the specific coverage item
-  const coverageItems = currentPolicy.coverage_items as CoverageItem[]
-  const updatedItems = coverageItems.map((item) => {
-    if (item.name === coverageName) {
-      return {
-        ...item,
-        used_limit: item.used_limit + usedAmount,
-      }
-    }
-    return item
-  })
-
-  // Save updated coverage items
-  return updateUserPolicy(userPolicyId, { coverage_items: updatedItems })
-}
-
 /**
  * Cancel/deactivate a user policy
  */
@@ -0,0 +1,5 @@
+-- One version number per coverage type: of two concurrent publishes that
+-- computed the same next version, the second insert fails (see
+-- lib/supabase/rule-set-versions.ts insertVersion)
+alter table public.rule_set_versions
+  add constraint rule_set_versions_coverage_type_id_version_key unique (coverage_type_id, version);
@@ -0,0 +1,4 @@
+-- The user segment rules can be scoped to (appliesTo.userTypes); passed to
+-- the rules engine as metadata.userType (see buildProfileMetadata)
+alter table public.profiles
+  add column user_type text not null default 'individual';
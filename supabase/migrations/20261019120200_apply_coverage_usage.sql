@@ -0,0 +1,138 @@
+-- A reserve entry stays open until the claim's reservation is consumed or
+-- released; a claim holds at most one open reservation
+alter table public.coverage_usage_entries
+  add column settled_at timestamptz;
+
+update public.coverage_usage_entries reservation
+set settled_at = now()
+where reservation.entry_type = 'reserve'
+  and exists (
+    select 1
+    from public.coverage_usage_entries settlement
+    where settlement.claim_id = reservation.claim_id
+      and settlement.entry_type <> 'reserve'
+      and settlement.created_at >= reservation.created_at
+  );
+
+create unique index coverage_usage_entries_open_reservation_key
+  on public.coverage_usage_entries (claim_id)
+  where entry_type = 'reserve' and settled_at is null;
+
+-- Record a coverage usage entry and apply it to the policy's coverage item
+-- in one transaction (called by transition_claim_status). The policy row is
+-- locked until commit, so two claims on the same policy cannot both spend
+-- the same limit.
+--
+-- reserve holds the part of p_amount the claim has not committed yet
+-- (reserved minus released) and fails when that exceeds the remaining limit.
+-- consume and release settle the claim's open reservation; p_amount is not
+-- used for them. Returns the updated policy, or no row when there was
+-- nothing to change.
+create or replace function public.apply_coverage_usage(
+  p_user_policy_id uuid,
+  p_claim_id uuid,
+  p_coverage_name text,
+  p_entry_type text,
+  p_amount numeric,
+  p_created_by uuid
+)
+returns setof public.user_policies
+language plpgsql
+as $$
+declare
+  v_items jsonb;
+  v_index integer;
+  v_item jsonb;
+  v_reserved numeric;
+  v_committed numeric;
+  v_amount numeric;
+  v_available numeric;
+begin
+  select coverage_items into v_items
+  from public.user_policies
+  where id = p_user_policy_id
+  for update;
+
+  if not found then
+    raise exception 'Policy not found';
+  end if;
+
+  -- Coverage items are named after the coverage type
+  select item.ordinality - 1, item.value into v_index, v_item
+  from jsonb_array_elements(v_items) with ordinality as item(value, ordinality)
+  where lower(trim(item.value ->> 'name')) = lower(trim(p_coverage_name))
+  limit 1;
+
+  if v_item is null then
+    raise exception 'Policy has no coverage limit for %', p_coverage_name;
+  end if;
+
+  select
+    coalesce(sum(amount) filter (where entry_type = 'reserve' and settled_at is null), 0),
+    coalesce(sum(case entry_type when 'reserve' then amount when 'release' then -amount else 0 end), 0)
+  into v_reserved, v_committed
+  from public.coverage_usage_entries
+  where claim_id = p_claim_id;
+
+  if p_entry_type = 'reserve' then
+    if v_reserved > 0 then
+      raise exception 'Coverage is already reserved for this claim';
+    end if;
+
+    v_amount := round(p_amount - v_committed, 2);
+    if v_amount <= 0 then
+      return;
+    end if;
+
+    v_available := round(
+      (v_item ->> 'total_limit')::numeric
+        - (v_item ->> 'used_limit')::numeric
+        - coalesce((v_item ->> 'reserved_limit')::numeric, 0),
+      2
+    );
+    if v_amount > v_available then
+      raise exception 'Exceeds the remaining % limit: % % available',
+        v_item ->> 'name', v_item ->> 'currency', v_available;
+    end if;
+
+    v_item := jsonb_set(
+      v_item,
+      '{reserved_limit}',
+      to_jsonb(round(coalesce((v_item ->> 'reserved_limit')::numeric, 0) + v_amount, 2))
+    );
+  elsif p_entry_type in ('consume', 'release') then
+    v_amount := v_reserved;
+    if v_amount <= 0 then
+      return;
+    end if;
+
+    update public.coverage_usage_entries
+    set settled_at = now()
+    where claim_id = p_claim_id and entry_type = 'reserve' and settled_at is null;
+
+    v_item := jsonb_set(
+      v_item,
+      '{reserved_limit}',
+      to_jsonb(greatest(0, round(coalesce((v_item ->> 'reserved_limit')::numeric, 0) - v_amount, 2)))
+    );
+    if p_entry_type = 'consume' then
+      v_item := jsonb_set(
+        v_item,
+        '{used_limit}',
+        to_jsonb(round((v_item ->> 'used_limit')::numeric + v_amount, 2))
+      );
+    end if;
+  else
+    raise exception 'Unknown coverage usage entry type: %', p_entry_type;
+  end if;
+
+  insert into public.coverage_usage_entries (user_policy_id, claim_id, coverage_name, entry_type, amount, created_by)
+  values (p_user_policy_id, p_claim_id, p_coverage_name, p_entry_type, v_amount, p_created_by);
+
+  return query
+    update public.user_policies
+    set coverage_items = jsonb_set(v_items, array[v_index::text], v_item), updated_at = now()
+    where id = p_user_policy_id
+    returning *;
+end;
+$$;
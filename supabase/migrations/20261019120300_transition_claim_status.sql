@@ -0,0 +1,72 @@
+-- Move a claim to a new status, apply the transition's coverage effect
+-- (reserve, consume or release, see apply_coverage_usage) and record the
+-- change in claim_status_history, all in one transaction (see
+-- lib/supabase/claims.ts transitionClaimStatus).
+--
+-- The update only applies while the claim still has p_from_status, so two
+-- reviewers acting at once cannot both move it; the second one fails with a
+-- serialization_failure. When the coverage effect fails (e.g. the approval
+-- exceeds the limit) the status change is rolled back with it.
+-- p_coverage_amount is the amount to reserve; it is not used otherwise.
+--
+-- Returns the updated claim and the history row with who made the change:
+-- { claim, change: { ...claim_status_history, actor: { id, full_name } } }
+create or replace function public.transition_claim_status(
+  p_claim_id uuid,
+  p_from_status text,
+  p_to_status text,
+  p_action text,
+  p_changed_by uuid,
+  p_reason text,
+  p_notes text,
+  p_coverage_effect text,
+  p_coverage_amount numeric
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_claim public.claims;
+  v_change public.claim_status_history;
+  v_coverage_name text;
+begin
+  update public.claims
+  set status = p_to_status, updated_at = now()
+  where id = p_claim_id and status = p_from_status
+  returning * into v_claim;
+
+  if not found then
+    raise exception 'The claim status was changed by someone else' using errcode = '40001';
+  end if;
+
+  if p_coverage_effect is not null then
+    select name into v_coverage_name
+    from public.coverage_types
+    where id = v_claim.coverage_type_id;
+
+    if v_coverage_name is null then
+      raise exception 'Claim has no coverage type';
+    end if;
+
+    perform public.apply_coverage_usage(
+      v_claim.user_policy_id,
+      p_claim_id,
+      v_coverage_name,
+      p_coverage_effect,
+      p_coverage_amount,
+      p_changed_by
+    );
+  end if;
+
+  insert into public.claim_status_history (claim_id, from_status, to_status, action, changed_by, reason, notes)
+  values (p_claim_id, p_from_status, p_to_status, p_action, p_changed_by, p_reason, p_notes)
+  returning * into v_change;
+
+  return jsonb_build_object(
+    'claim', to_jsonb(v_claim),
+    'change', to_jsonb(v_change) || jsonb_build_object(
+      'actor', (select jsonb_build_object('id', id, 'full_name', full_name) from public.profiles where id = p_changed_by)
+    )
+  );
+end;
+$$;
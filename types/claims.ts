@@ -0,0 +1,213 @@
+import type { Database } from './database'
+import type { EligibilitySummary } from './rules'
+
+// Database types (extracted from database.ts)
+export type ClaimRecord = Database['public']['Tables']['claims']['Row']
+export type ClaimRecordInsert = Database['public']['Tables']['claims']['Insert']
+export type ClaimRecordUpdate = Database['public']['Tables']['claims']['Update']
+export type ClaimDocumentRecord = Database['public']['Tables']['claim_documents']['Row']
+export type ClaimDocumentInsert = Database['public']['Tables']['claim_documents']['Insert']
+export type ClaimMessageRecord = Database['public']['Tables']['claim_messages']['Row']
+export type ClaimMessageInsert = Database['public']['Tables']['claim_messages']['Insert']
+export type ClaimStatusHistoryRecord = Database['public']['Tables']['claim_status_history']['Row']
+export type ClaimStatusHistoryInsert = Database['public']['Tables']['claim_status_history']['Insert']
+
+export type ClaimStatus = ClaimRecord['status']
+export type ClaimMessageRole = ClaimMessageRecord['role']
+
+// Claim workflow (see lib/claims/workflow.ts for the allowed transitions)
+export type ClaimTransitionAction =
+  | 'submit'
+  | 'start_review'
+  | 'request_info'
+  | 'provide_info'
+  | 'approve'
+  | 'partially_approve'
+  | 'reject'
+  | 'mark_paid'
+  | 'close'
+  | 'appeal'
+  | 'review_appeal'
+  | 'reopen'
+
+export interface ClaimTransition {
+  action: ClaimTransitionAction
+  label: string
+  from: ClaimStatus[] // Statuses the transition can be made from
+  to: ClaimStatus
+  requiresReason: boolean
+  tone: 'default' | 'positive' | 'negative'
+  coverage?: 'reserve' | 'consume' | 'release' // Effect on the policy's coverage limit
+}
+
+export interface ClaimTransitionInput {
+  reason?: string
+  notes?: string
+}
+
+// Frontend claim types (used in React state)
+export interface ClaimDocument {
+  id: string
+  name: string
+  type: string // MIME type
+  url: string
+  questionId?: string // Upload question the document answers
+  uploadedAt: Date
+}
+
+export interface ClaimMessage {
+  id: string
+  role: ClaimMessageRole
+  content: string
+  timestamp: Date
+}
+
+// One recorded status change of a claim
+export interface ClaimStatusChange {
+  id: string
+  fromStatus: ClaimStatus | null // null for the submission itself
+  toStatus: ClaimStatus
+  action: ClaimTransitionAction
+  changedBy: { id: string; name: string } | null
+  reason: string | null
+  notes: string | null
+  changedAt: Date
+}
+
+// Claim as shown in lists (no documents, messages or answers)
+export interface ClaimListItem {
+  id: string
+  claimNumber: string
+  customerId: string
+  customerName: string
+  customerEmail: string
+  userPolicyId: string
+  coverageTypeId: string
+  coverageTypeName: string
+  status: ClaimStatus
+  amount: number
+  currency: string
+  submittedAt: Date
+  description: string
+  statusHistory: ClaimStatusChange[] // Oldest first
+}
+
+export interface Claim extends ClaimListItem {
+  documents: ClaimDocument[]
+  messages: ClaimMessage[]
+  answers: Record<string, unknown> // question_id -> answer, as evaluated by the rules engine
+  ruleSetVersionId: string | null // Rule set version the claim was evaluated against
+  eligibility?: EligibilitySummary
+  settlement?: ClaimSettlement
+}
+
+// Claim list filtering and pagination
+export interface ClaimFilters {
+  status?: ClaimStatus
+  coverageTypeId?: string
+  userId?: string
+  search?: string // Matches the claim number or description
+  submittedFrom?: string
+  submittedTo?: string
+}
+
+export interface ClaimPagination {
+  page?: number // 1-based (default: 1)
+  pageSize?: number // default: 20
+}
+
+export interface PaginatedClaims {
+  claims: ClaimListItem[]
+  total: number
+  page: number
+  pageSize: number
+}
+
+export type ClaimStatusCounts = Record<ClaimStatus, number> & { total: number }
+
+// Claim submission (claim-mode chat)
+export interface ClaimSubmissionDocument {
+  questionId: string // File question the document answers
+  itemIndex?: number // Item of the repeatable group, when the question is in one (zero-based)
+  name: string
+  type: string // MIME type
+  path: string // Storage path (see lib/supabase/storage.ts); the URL is signed on the server
+  size: number
+}
+
+export interface ClaimSubmission {
+  userPolicyId: string
+  coverageTypeId: string
+  amount: number
+  description: string
+  answers: Record<string, unknown> // question_id -> answer; file questions hold storage paths
+  documents: ClaimSubmissionDocument[]
+  locale?: string
+}
+
+// An active policy of the claimant with the coverage types a claim can be filed under
+export interface ClaimPolicyOption {
+  userPolicyId: string
+  policyName: string
+  currency: string
+  coverageTypes: Array<{
+    id: string
+    name: string
+    description: string | null
+    coverageLimit: number | null
+  }>
+}
+
+// Settlement (see lib/claims/settlement.ts for the calculation)
+export type SettlementBasis = 'per_incident' | 'annual'
+
+export interface SettlementLineItem {
+  id: string
+  description: string
+  amount: number // Amount claimed for the item
+  covered: boolean
+  override?: {
+    amount: number // Covered amount set by the adjuster
+    justification: string
+    by?: string // Adjuster id (set by the server)
+    at?: string
+  }
+}
+
+// Policy terms the settlement is computed under
+export interface SettlementTerms {
+  currency: string
+  deductible: number
+  deductibleSource: 'coverage' | 'policy' | null // policy_coverage_types or policies
+  deductibleBasis: SettlementBasis
+  deductibleMetToDate: number // Annual basis: deductible applied to earlier claims this policy year
+  coverageLimit: number | null
+  limitBasis: SettlementBasis
+  paidToDate: number // Annual basis: settled on earlier claims this policy year
+  coinsurancePercentage: number | null // Share of the loss the insurer pays
+  remainingPolicyLimit: number | null // What is left of the policy's coverage item
+}
+
+export interface SettlementStep {
+  label: string
+  amount: number // Change applied by the step (negative for deductions)
+  total: number // Running amount after the step
+  note?: string
+}
+
+export interface SettlementBreakdown {
+  claimedAmount: number
+  nonCoveredAmount: number
+  adjustmentAmount: number // Net change from adjuster overrides
+  coveredAmount: number
+  deductibleApplied: number
+  payableAmount: number
+  steps: SettlementStep[]
+}
+
+export interface ClaimSettlement extends SettlementBreakdown {
+  lineItems: SettlementLineItem[]
+  terms: SettlementTerms
+  settledBy: string | null
+  settledAt: string
+}
@@ -25,6 +25,7 @@ export interface Database {
           state: string | null
           zip_code: string | null
           occupation: string | null
+          user_type: string // Segment rules can be scoped to (appliesTo.userTypes)
           is_admin: boolean
           created_at: string
           updated_at: string
@@ -45,6 +46,7 @@ export interface Database {
           state?: string | null
           zip_code?: string | null
           occupation?: string | null
+          user_type?: string
           is_admin?: boolean
           created_at?: string
           updated_at?: string
@@ -65,6 +67,7 @@ export interface Database {
           state?: string | null
           zip_code?: string | null
           occupation?: string | null
+          user_type?: string
           is_admin?: boolean
           created_at?: string
           updated_at?: string
@@ -275,6 +278,8 @@ export interface Database {
           order_index: number
           placeholder: string | null
           help_text: string | null
+          parent_question_id: string | null
+          max_items: number | null
           created_at: string
           updated_at: string
         }
@@ -288,6 +293,8 @@ export interface Database {
           order_index: number
           placeholder?: string | null
           help_text?: string | null
+          parent_question_id?: string | null
+          max_items?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -301,6 +308,8 @@ export interface Database {
           order_index?: number
           placeholder?: string | null
           help_text?: string | null
+          parent_question_id?: string | null
+          max_items?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -318,6 +327,13 @@ export interface Database {
           priority: number
           is_active: boolean
           error_message: string | null
+          error_messages: Json | null
+          category: string | null
+          tags: string[]
+          effective_from: string | null
+          effective_until: string | null
+          applies_to: Json
+          for_each: string | null
           created_at: string
           updated_at: string
         }
@@ -333,6 +349,13 @@ export interface Database {
           priority?: number
           is_active?: boolean
           error_message?: string | null
+          error_messages?: Json | null
+          category?: string | null
+          tags?: string[]
+          effective_from?: string | null
+          effective_until?: string | null
+          applies_to?: Json
+          for_each?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -348,10 +371,128 @@ export interface Database {
           priority?: number
           is_active?: boolean
           error_message?: string | null
+          error_messages?: Json | null
+          category?: string | null
+          tags?: string[]
+          effective_from?: string | null
+          effective_until?: string | null
+          applies_to?: Json
+          for_each?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      rule_test_cases: {
+        Row: {
+          id: string
+          coverage_type_id: string
+          name: string
+          description: string | null
+          answers: Json
+          metadata: Json
+          expected_result: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          coverage_type_id: string
+          name: string
+          description?: string | null
+          answers?: Json
+          metadata?: Json
+          expected_result: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          coverage_type_id?: string
+          name?: string
+          description?: string | null
+          answers?: Json
+          metadata?: Json
+          expected_result?: Json
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      rule_templates: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          rule_type: Database['public']['Enums']['rule_type']
+          conditions: Json
+          actions: Json
+          placeholders: Json
+          tags: string[]
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          rule_type: Database['public']['Enums']['rule_type']
+          conditions: Json
+          actions: Json
+          placeholders?: Json
+          tags?: string[]
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          rule_type?: Database['public']['Enums']['rule_type']
+          conditions?: Json
+          actions?: Json
+          placeholders?: Json
+          tags?: string[]
+          created_by?: string | null
           created_at?: string
           updated_at?: string
         }
       }
+      rule_set_versions: {
+        Row: {
+          id: string
+          coverage_type_id: string
+          version: number
+          parent_version_id: string | null
+          rules: Json
+          questions: Json
+          notes: string | null
+          published_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          coverage_type_id: string
+          version: number
+          parent_version_id?: string | null
+          rules: Json
+          questions: Json
+          notes?: string | null
+          published_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          coverage_type_id?: string
+          version?: number
+          parent_version_id?: string | null
+          rules?: Json
+          questions?: Json
+          notes?: string | null
+          published_by?: string | null
+          created_at?: string
+        }
+      }
       user_policies: {
         Row: {
           id: string
@@ -402,6 +543,215 @@ export interface Database {
           updated_at?: string
         }
       }
+      coverage_usage_entries: {
+        Row: {
+          id: string
+          user_policy_id: string
+          claim_id: string
+          coverage_name: string
+          entry_type: 'reserve' | 'consume' | 'release'
+          amount: number
+          settled_at: string | null // Reserve entries: set once consumed or released
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_policy_id: string
+          claim_id: string
+          coverage_name: string
+          entry_type: 'reserve' | 'consume' | 'release'
+          amount: number
+          settled_at?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          amount?: number
+          settled_at?: string | null
+        }
+      }
+      claims: {
+        Row: {
+          id: string
+          claim_number: string
+          user_id: string
+          user_policy_id: string
+          coverage_type_id: string
+          status:
+            | 'submitted'
+            | 'under-review'
+            | 'info-requested'
+            | 'approved'
+            | 'partially-approved'
+            | 'rejected'
+            | 'appealed'
+            | 'paid'
+            | 'closed'
+          amount: number
+          currency: string
+          description: string | null
+          answers: Json
+          metadata: Json
+          eligibility: Json | null
+          settlement: Json | null
+          settled_amount: number | null
+          rule_set_version_id: string | null
+          submitted_at: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          claim_number: string
+          user_id: string
+          user_policy_id: string
+          coverage_type_id: string
+          status?:
+            | 'submitted'
+            | 'under-review'
+            | 'info-requested'
+            | 'approved'
+            | 'partially-approved'
+            | 'rejected'
+            | 'appealed'
+            | 'paid'
+            | 'closed'
+          amount?: number
+          currency?: string
+          description?: string | null
+          answers?: Json
+          metadata?: Json
+          eligibility?: Json | null
+          settlement?: Json | null
+          settled_amount?: number | null
+          rule_set_version_id?: string | null
+          submitted_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          claim_number?: string
+          user_id?: string
+          user_policy_id?: string
+          coverage_type_id?: string
+          status?:
+            | 'submitted'
+            | 'under-review'
+            | 'info-requested'
+            | 'approved'
+            | 'partially-approved'
+            | 'rejected'
+            | 'appealed'
+            | 'paid'
+            | 'closed'
+          amount?: number
+          currency?: string
+          description?: string | null
+          answers?: Json
+          metadata?: Json
+          eligibility?: Json | null
+          settlement?: Json | null
+          settled_amount?: number | null
+          rule_set_version_id?: string | null
+          submitted_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      claim_status_history: {
+        Row: {
+          id: string
+          claim_id: string
+          from_status: Database['public']['Tables']['claims']['Row']['status'] | null
+          to_status: Database['public']['Tables']['claims']['Row']['status']
+          action: string
+          changed_by: string | null
+          reason: string | null
+          notes: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          claim_id: string
+          from_status?: Database['public']['Tables']['claims']['Row']['status'] | null
+          to_status: Database['public']['Tables']['claims']['Row']['status']
+          action: string
+          changed_by?: string | null
+          reason?: string | null
+          notes?: string | null
+          created_at?: string
+        }
+        Update: {
+          reason?: string | null
+          notes?: string | null
+        }
+      }
+      claim_documents: {
+        Row: {
+          id: string
+          claim_id: string
+          question_id: string | null
+          name: string
+          file_type: string
+          storage_path: string
+          url: string
+          size: number
+          uploaded_by: string | null
+          uploaded_at: string
+        }
+        Insert: {
+          id?: string
+          claim_id: string
+          question_id?: string | null
+          name: string
+          file_type: string
+          storage_path: string
+          url: string
+          size?: number
+          uploaded_by?: string | null
+          uploaded_at?: string
+        }
+        Update: {
+          id?: string
+          claim_id?: string
+          question_id?: string | null
+          name?: string
+          file_type?: string
+          storage_path?: string
+          url?: string
+          size?: number
+          uploaded_by?: string | null
+          uploaded_at?: string
+        }
+      }
+      claim_messages: {
+        Row: {
+          id: string
+          claim_id: string
+          sender_id: string | null
+          role: 'customer' | 'admin' | 'ai'
+          content: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          claim_id: string
+          sender_id?: string | null
+          role: 'customer' | 'admin' | 'ai'
+          content: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          claim_id?: string
+          sender_id?: string | null
+          role?: 'customer' | 'admin' | 'ai'
+          content?: string
+          created_at?: string
+        }
+      }
       chat_sessions: {
         Row: {
           id: string
@@ -466,11 +816,35 @@ export interface Database {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      apply_coverage_usage: {
+        Args: {
+          p_user_policy_id: string
+          p_claim_id: string
+          p_coverage_name: string
+          p_entry_type: 'reserve' | 'consume' | 'release'
+          p_amount: number
+          p_created_by: string | null
+        }
+        Returns: Database['public']['Tables']['user_policies']['Row'][]
+      }
+      transition_claim_status: {
+        Args: {
+          p_claim_id: string
+          p_from_status: Database['public']['Tables']['claims']['Row']['status']
+          p_to_status: Database['public']['Tables']['claims']['Row']['status']
+          p_action: string
+          p_changed_by: string | null
+          p_reason: string | null
+          p_notes: string | null
+          p_coverage_effect: 'reserve' | 'consume' | 'release' | null
+          p_coverage_amount: number
+        }
+        Returns: Json
+      }
     }
     Enums: {
       claim_type: 'travel' | 'medical' | 'baggage' | 'flight'
-      field_type: 'text' | 'number' | 'date' | 'file' | 'select'
+      field_type: 'text' | 'number' | 'date' | 'file' | 'select' | 'group'
       rule_type: 'conditional' | 'validation' | 'document' | 'eligibility' | 'calculation'
       rule_operator:
         | 'equals'
@@ -1,7 +1,7 @@
 // @deprecated - Use coverage_type_id instead. Kept for backward compatibility during migration
 export type ClaimType = 'travel' | 'medical' | 'baggage' | 'flight'
 
-export type FieldType = 'text' | 'number' | 'date' | 'file' | 'select'
+export type FieldType = 'text' | 'number' | 'date' | 'file' | 'select' | 'group' // group = repeatable set of child questions
 export type PremiumFrequency = 'monthly' | 'quarterly' | 'annually'
 
 // @deprecated - Use PolicyCoverageType instead. Kept for backward compatibility during migration
@@ -89,6 +89,7 @@ export interface PolicyCoverageTypeUpdate {
 export interface Rule {
   id: string
   coverage_type_id: string
+  question_id?: string | null // Question the rule's errors and warnings are shown on
   rule_type: 'conditional' | 'validation' | 'document' | 'eligibility' | 'calculation'
   name: string
   description: string | null
@@ -97,12 +98,20 @@ export interface Rule {
   priority: number
   is_active: boolean
   error_message: string | null
+  error_messages: Record<string, string> | null // JSONB - LocalizedMessages translations of error_message
+  category: string | null // RuleCategory - defaults from rule_type when null
+  tags: string[]
+  effective_from: string | null // Rule only applies to submissions on/after this date
+  effective_until: string | null // Rule stops applying after this date
+  applies_to: unknown // JSONB - { coverageTypes?, questionIds?, userTypes? }
+  for_each: string | null // Repeatable group question ID - rule runs once per item
   created_at: string
   updated_at: string
 }
 
 export interface RuleInsert {
   coverage_type_id: string
+  question_id?: string | null
   rule_type: 'conditional' | 'validation' | 'document' | 'eligibility' | 'calculation'
   name: string
   description?: string | null
@@ -111,10 +120,18 @@ export interface RuleInsert {
   priority?: number
   is_active?: boolean
   error_message?: string | null
+  error_messages?: Record<string, string> | null
+  category?: string | null
+  tags?: string[]
+  effective_from?: string | null
+  effective_until?: string | null
+  applies_to?: unknown
+  for_each?: string | null
 }
 
 export interface RuleUpdate {
   coverage_type_id?: string
+  question_id?: string | null
   rule_type?: 'conditional' | 'validation' | 'document' | 'eligibility' | 'calculation'
   name?: string
   description?: string | null
@@ -123,6 +140,167 @@ export interface RuleUpdate {
   priority?: number
   is_active?: boolean
   error_message?: string | null
+  error_messages?: Record<string, string> | null
+  category?: string | null
+  tags?: string[]
+  effective_from?: string | null
+  effective_until?: string | null
+  applies_to?: unknown
+  for_each?: string | null
+}
+
+// ============================================
+// Rule Test Cases
+// ============================================
+
+export interface RuleTestCaseRecord {
+  id: string
+  coverage_type_id: string
+  name: string
+  description: string | null
+  answers: unknown // JSONB - question_id -> answer
+  metadata: unknown // JSONB - evaluation metadata (submissionDate, policyId, ...)
+  expected_result: unknown // JSONB - RuleTestCase['expectedResult']
+  created_at: string
+  updated_at: string
+}
+
+export interface RuleTestCaseInsert {
+  coverage_type_id: string
+  name: string
+  description?: string | null
+  answers?: unknown
+  metadata?: unknown
+  expected_result: unknown
+}
+
+export interface RuleTestCaseUpdate {
+  name?: string
+  description?: string | null
+  answers?: unknown
+  metadata?: unknown
+  expected_result?: unknown
+}
+
+// ============================================
+// Rule Templates
+// ============================================
+
+export interface RuleTemplateRecord {
+  id: string
+  name: string
+  description: string | null
+  rule_type: Rule['rule_type']
+  conditions: unknown // JSONB - StoredRuleConditions with {placeholder} markers
+  actions: unknown // JSONB - array of RuleAction objects with {placeholder} markers
+  placeholders: unknown // JSONB - array of RuleTemplatePlaceholder objects
+  tags: string[]
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface RuleTemplateInsert {
+  name: string
+  description?: string | null
+  rule_type: Rule['rule_type']
+  conditions: unknown
+  actions: unknown
+  placeholders?: unknown
+  tags?: string[]
+  created_by?: string | null
+}
+
+export interface RuleTemplateUpdate {
+  name?: string
+  description?: string | null
+  rule_type?: Rule['rule_type']
+  conditions?: unknown
+  actions?: unknown
+  placeholders?: unknown
+  tags?: string[]
+}
+
+// ============================================
+// Rule Set Versions
+// ============================================
+
+/**
+ * Published snapshot of a coverage type's rules and questions.
+ * The live rules/questions tables are the draft; versions are immutable and
+ * the highest version number is the one claims are evaluated against.
+ */
+export interface RuleSetVersion {
+  id: string
+  coverage_type_id: string
+  version: number
+  parent_version_id: string | null // Version this one was rolled back to, if any
+  rules: Rule[] // JSONB snapshot
+  questions: Question[] // JSONB snapshot
+  notes: string | null
+  published_by: string | null
+  created_at: string
+}
+
+export interface RuleSetDiffEntry<T> {
+  id: string
+  name: string
+  change: 'added' | 'removed' | 'changed'
+  fields: string[] // Changed columns (for 'changed')
+  before: T | null
+  after: T | null
+}
+
+export interface RuleSetDiff {
+  rules: RuleSetDiffEntry<Rule>[]
+  questions: RuleSetDiffEntry<Question>[]
+}
+
+// ============================================
+// Rule Bundles (import/export)
+// ============================================
+
+/**
+ * Portable JSON export of a coverage type's questions and rules.
+ * Question IDs are replaced by stable keys everywhere (including inside rule
+ * conditions, actions and formulas) and coverage type IDs by slugs, so a
+ * bundle exported from staging can be imported into production.
+ */
+export interface RuleBundle {
+  format: 'claimly.rule-bundle'
+  version: number // Bundle schema version
+  exported_at: string
+  coverage_type: Pick<CoverageType, 'name' | 'slug' | 'description' | 'category' | 'icon' | 'metadata'>
+  questions: RuleBundleQuestion[]
+  rules: RuleBundleRule[]
+}
+
+export interface RuleBundleQuestion
+  extends Omit<Question, 'id' | 'coverage_type_id' | 'parent_question_id' | 'created_at' | 'updated_at'> {
+  key: string // Derived from the question text, unique within the bundle
+  parent_key: string | null
+}
+
+export type RuleBundleRule = Omit<Rule, 'id' | 'coverage_type_id' | 'created_at' | 'updated_at'>
+
+export type RuleBundleConflictStrategy = 'skip' | 'overwrite' | 'duplicate'
+
+export interface RuleBundleImportEntry {
+  key: string // Question key or rule name
+  label: string
+  action: 'create' | 'update' | 'duplicate' | 'skip' | 'unchanged'
+  existing_id: string | null
+}
+
+/**
+ * Dry-run result of importing a bundle: what would happen to each question
+ * and rule. Nothing is written while there are errors.
+ */
+export interface RuleBundleImportPlan {
+  errors: string[]
+  warnings: string[]
+  questions: RuleBundleImportEntry[]
+  rules: RuleBundleImportEntry[]
 }
 
 // ============================================
@@ -237,6 +415,8 @@ export interface Question {
   order_index: number
   placeholder: string | null
   help_text: string | null
+  parent_question_id: string | null // Set on questions that belong to a repeatable group
+  max_items: number | null // For group questions - null means unlimited
   created_at: string
   updated_at: string
 }
@@ -250,6 +430,8 @@ export interface QuestionInsert {
   order_index: number
   placeholder?: string | null
   help_text?: string | null
+  parent_question_id?: string | null
+  max_items?: number | null
 }
 
 export interface QuestionUpdate {
@@ -261,6 +443,8 @@ export interface QuestionUpdate {
   order_index?: number
   placeholder?: string | null
   help_text?: string | null
+  parent_question_id?: string | null
+  max_items?: number | null
 }
 
 // ============================================
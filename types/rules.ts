@@ -2,7 +2,7 @@
 
 export type RuleType = 'conditional' | 'validation' | 'document' | 'eligibility' | 'calculation'
 
-export type RuleOperator =
+export type BuiltInRuleOperator =
   | 'equals'
   | 'not_equals'
   | 'contains'
@@ -20,9 +20,44 @@ export type RuleOperator =
   | 'date_before'
   | 'date_after'
   | 'date_between'
+  | 'within_last_n_days'
+  | 'business_days_between'
+  | 'age_at_date'
+  | 'duration_greater_than'
+
+/**
+ * Rule Operator - a built-in operator or a custom one registered in
+ * lib/rules/operators (e.g. `is_valid_iban`)
+ */
+export type RuleOperator = BuiltInRuleOperator | (string & Record<never, never>)
+
+/**
+ * Value a custom operator takes, in ConditionBuilder's terms: nothing, a
+ * single string or number, or a list
+ */
+export type CustomOperatorValueType = 'none' | 'string' | 'number' | 'array'
+
+/**
+ * Custom Operator - registered by name and referenced from RuleCondition.operator
+ */
+export interface CustomOperatorDefinition {
+  name: string
+  label: string
+  description?: string
+  fieldTypes: string[] // Question field types the operator is offered for
+  valueType: CustomOperatorValueType
+  evaluate: (fieldValue: unknown, expected: unknown, context: RuleEvaluationContext) => boolean
+}
 
 export type LogicalOperator = 'AND' | 'OR'
 
+/**
+ * Aggregate Function - reduces a repeatable group's items to one value before
+ * the operator is applied. any/all test the operator against each item;
+ * count/sum/min/max/avg compare the aggregated number.
+ */
+export type AggregateFunction = 'any' | 'all' | 'count' | 'sum' | 'min' | 'max' | 'avg'
+
 export type ActionType =
   | 'show_question'
   | 'hide_question'
@@ -32,17 +67,56 @@ export type ActionType =
   | 'set_value'
   | 'show_warning'
   | 'calculate_value'
+  | 'mark_eligible'
+  | 'mark_ineligible'
+  | 'mark_partially_eligible'
 
 /**
  * Rule Condition - defines when a rule should be triggered
  */
 export interface RuleCondition {
-  field: string // question ID or field name
+  field: string // question ID or field name; `group.child` for item fields of a repeatable group
   operator: RuleOperator
-  value: unknown
+  aggregate?: AggregateFunction // For group fields - how items are combined (default: compare the raw list)
+  value: unknown // Literal, RelativeDateValue or ConditionReference (range operators: a pair of these)
   logicalOperator?: LogicalOperator // For chaining multiple conditions (default: 'AND')
 }
 
+/**
+ * Condition Group - combines child conditions with a single logical operator
+ */
+export interface ConditionGroup {
+  type: 'group'
+  operator: LogicalOperator
+  conditions: ConditionNode[]
+}
+
+/**
+ * Not Condition - negates a condition or group
+ */
+export interface NotCondition {
+  type: 'not'
+  condition: ConditionNode
+}
+
+/**
+ * Condition Node - any node of a (possibly nested) condition tree
+ */
+export type ConditionNode = RuleCondition | ConditionGroup | NotCondition
+
+/**
+ * Stored rule conditions (JSONB) - either the legacy flat array, chained
+ * left-to-right via logicalOperator, or a condition tree rooted at a group
+ */
+export type StoredRuleConditions = RuleCondition[] | ConditionGroup
+
+/**
+ * Localized Messages - translations of a message keyed by locale ('fr',
+ * 'fr-CA'). Messages may contain {placeholders} filled from answers and
+ * metadata, e.g. "Amount {claim_amount} exceeds {coverage_limit}".
+ */
+export type LocalizedMessages = Record<string, string>
+
 /**
  * Rule Action - defines what happens when conditions are met
  */
@@ -50,7 +124,9 @@ export interface RuleAction {
   type: ActionType
   targetQuestionId?: string // For show_question, hide_question, set_value
   errorMessage?: string // For validate, block_submission, show_warning
+  errorMessages?: LocalizedMessages // Translations of errorMessage
   warningMessage?: string // For show_warning
+  warningMessages?: LocalizedMessages // Translations of warningMessage
   documentTypes?: string[] // For require_document
   minFiles?: number // For require_document
   maxFiles?: number // For require_document
@@ -59,6 +135,9 @@ export interface RuleAction {
   value?: unknown // For set_value action
   targetField?: string // For calculate_value action - the field to set
   formula?: string // For calculate_value action - the calculation formula
+  reasonCodes?: string[] // For mark_* eligibility actions (e.g., ['PRE_EXISTING_CONDITION'])
+  coverageCap?: number // For mark_partially_eligible - maximum payable amount
+  coveragePercentage?: number // For mark_partially_eligible - payable share of the claim (0-100)
 }
 
 /**
@@ -71,6 +150,13 @@ export interface RuleEvaluationContext {
     policyId?: string
     coverageTypeId?: string
     submissionDate?: string
+    userType?: string // User segment, matched against RuleConfiguration.appliesTo.userTypes
+    policyStartDate?: string
+    coverageLimit?: number
+    userAge?: number
+    timeZone?: string // IANA zone dates are evaluated in (overrides RulesEngineOptions.timeZone)
+    locale?: string // BCP 47 tag messages are shown in (e.g. 'fr-CA')
+    country?: string // Claimant's country code, used for the locale when none is set
     [key: string]: unknown
   }
 }
@@ -86,6 +172,7 @@ export interface DocumentRequirement {
   allowedFormats: string[]
   maxFileSize?: number
   message?: string
+  itemIndex?: number // Set when required by a per-item rule (zero-based)
 }
 
 /**
@@ -101,19 +188,137 @@ export interface RuleEvaluationResult {
   blockedSubmission: boolean // Whether submission should be blocked
   blockReason?: string // Reason for blocking submission
   fieldValues?: Record<string, unknown> // Auto-populated field values
+  ruleErrors?: RuleExecutionError[] // Misconfigured rules (e.g. invalid formulas)
+  iterations?: number // Evaluation passes needed to settle fieldValues
+  executionLog?: RuleExecutionLog[] // Per-rule trace, only populated in explain mode
+  itemErrors?: RuleItemError[] // Errors and warnings raised by per-item rules, with the item index
+  validationErrors?: RuleValidationError[] // Errors and warnings with the rule and question they belong to
+  eligibility?: EligibilitySummary // Set when an eligibility action fired
+}
+
+/**
+ * Eligibility Status - the adjuster-facing coverage decision for a claim
+ */
+export type EligibilityStatus = 'eligible' | 'partially_eligible' | 'ineligible'
+
+/**
+ * Eligibility Decision - the outcome of one mark_* eligibility action
+ */
+export interface EligibilityDecision {
+  ruleId: string
+  ruleName: string
+  status: EligibilityStatus
+  reasonCodes: string[] // Machine-readable, e.g. OUTSIDE_COVERAGE_PERIOD
+  message?: string
+  coverageCap?: number
+  coveragePercentage?: number
+  itemIndex?: number // Set when decided by a per-item rule (zero-based)
+}
+
+/**
+ * Eligibility Summary - all eligibility decisions combined. The most
+ * restrictive status wins (ineligible, then partially eligible); for partial
+ * coverage the lowest cap and percentage apply. reasonCodes are the codes of
+ * the decisions behind the final status.
+ */
+export interface EligibilitySummary {
+  status: EligibilityStatus
+  reasonCodes: string[]
+  coverageCap?: number
+  coveragePercentage?: number
+  decisions: EligibilityDecision[]
+}
+
+/**
+ * Serialized Rule Evaluation Result - a RuleEvaluationResult that survives
+ * JSON / server action boundaries (question Sets become arrays)
+ */
+export type SerializedRuleEvaluationResult = Omit<
+  RuleEvaluationResult,
+  'visibleQuestions' | 'hiddenQuestions'
+> & {
+  visibleQuestions: string[]
+  hiddenQuestions: string[]
+}
+
+/**
+ * Rule Item Error - a message raised while evaluating a per-item (for_each) rule
+ */
+export interface RuleItemError {
+  ruleId: string
+  groupId: string // Repeatable group question ID
+  index: number // Zero-based item index
+  message: string
+  severity: 'error' | 'warning'
+}
+
+/**
+ * Rule Evaluation Options - per-call evaluation switches
+ */
+export interface RuleEvaluationOptions {
+  explain?: boolean // Record a RuleExecutionLog entry for every rule
+}
+
+/**
+ * Rule Evaluation Session - incremental evaluation for one claim (see
+ * RulesEngine.createSession); each call re-checks only the rules that read
+ * an answer changed since the previous call
+ */
+export interface RuleEvaluationSession {
+  evaluate(context: RuleEvaluationContext, options?: RuleEvaluationOptions): RuleEvaluationResult
+  reset(): void
+}
+
+/**
+ * Rule Execution Error - a rule that could not be applied because of its configuration
+ */
+export interface RuleExecutionError {
+  ruleId: string
+  ruleName: string
+  message: string
+}
+
+/**
+ * Rules Engine Options - tuning for multi-pass evaluation
+ */
+export interface RulesEngineOptions {
+  maxIterations?: number // Max evaluation passes before giving up on convergence (default: 10)
+  timeZone?: string // IANA zone for date-only comparisons (default: UTC)
+  holidayCalendar?: HolidayCalendar // Non-working days for business day operators
 }
 
 /**
- * Rule Validation Error - error during rule evaluation
+ * Holiday Calendar - non-working days for business day calculations
+ */
+export interface HolidayCalendar {
+  name?: string
+  holidays: string[] // Calendar dates (YYYY-MM-DD)
+  weekendDays?: number[] // 0 = Sunday ... 6 = Saturday (default: [0, 6])
+}
+
+/**
+ * Rule Validation Error - an error or warning raised by a rule, linked to the
+ * question it belongs to (the action's targetQuestionId, else the rule's
+ * question_id, else the repeatable group of a per-item rule)
  */
 export interface RuleValidationError {
   ruleId: string
   ruleName: string
   questionId?: string
+  itemIndex?: number // Item of the repeatable group (zero-based), for per-item rules
   message: string
   severity: 'error' | 'warning'
 }
 
+/**
+ * Condition Reference - a right-hand value resolved at evaluation time instead
+ * of a literal: another answer, a metadata field, or a formula expression
+ */
+export type ConditionReference =
+  | { type: 'field'; field: string } // Question ID or calculated field
+  | { type: 'metadata'; path: string } // e.g. policyStartDate, coverageLimit, userAge
+  | { type: 'expression'; formula: string } // See lib/rules/formula.ts
+
 /**
  * Relative Date Value - for date-based rules
  */
@@ -125,6 +330,52 @@ export interface RelativeDateValue {
   from?: 'now' | 'submission_date' | 'policy_start_date'
 }
 
+/**
+ * Date Operand - a date in a date operator's value: a calendar date, a
+ * relative date, or a reference to another answer or metadata field
+ */
+export type DateOperand = string | RelativeDateValue | ConditionReference
+
+/**
+ * within_last_n_days value - the field date lies 0..days before the reference
+ * date. A plain number means that many calendar days from the submission date.
+ */
+export interface WithinDaysValue {
+  days: number
+  businessDays?: boolean
+  from?: RelativeDateValue['from'] // Reference date (default: submission_date)
+}
+
+/**
+ * business_days_between value - business days from the field date to `to`
+ * (default: submission date) must lie within min..max
+ */
+export interface BusinessDaysValue {
+  to?: DateOperand
+  min?: number
+  max?: number
+}
+
+/**
+ * age_at_date value - the field is a birth date; the age in whole years on
+ * `at` (default: submission date) must lie within min..max
+ */
+export interface AgeAtDateValue {
+  at?: DateOperand
+  min?: number
+  max?: number
+}
+
+/**
+ * duration_greater_than value - the time from the field date to `to`
+ * (default: submission date) must exceed amount units
+ */
+export interface DurationValue {
+  to?: DateOperand
+  amount: number
+  unit: 'days' | 'business_days' | 'months' | 'years'
+}
+
 /**
  * Rule Test Case - for testing rules
  */
@@ -144,19 +395,168 @@ export interface RuleTestCase {
 }
 
 /**
- * Rule Template - predefined rule templates for common scenarios
+ * Rule Test Diff - one expectation that did not match the engine output
+ */
+export interface RuleTestDiff {
+  field: keyof RuleTestCase['expectedResult']
+  expected: unknown
+  actual: unknown
+  missing?: string[] // Expected entries the engine did not produce (list fields)
+  unexpected?: string[] // Entries the engine produced that were not expected (list fields)
+}
+
+/**
+ * Rule Test Case Result - outcome of running a test case through the engine
+ */
+export interface RuleTestCaseResult {
+  name: string
+  passed: boolean
+  diffs: RuleTestDiff[]
+  error?: string // Exception thrown while running the case
+}
+
+/**
+ * Rule Set Stats - rule counts by status and type
+ */
+export interface RuleSetStats {
+  total: number
+  active: number
+  inactive: number
+  byType: Record<string, number>
+  highestPriority: number
+  lowestPriority: number
+}
+
+/**
+ * Rule Simulation Claim - stored answers of a past claim, replayed when
+ * simulating the impact of a draft rule set
+ */
+export interface RuleSimulationClaim {
+  id: string
+  claimNumber: string
+  submittedAt: string
+  answers: Record<string, unknown>
+  metadata?: RuleEvaluationContext['metadata'] // As recorded at submission
+}
+
+export type RuleSimulationOutcome = 'passed' | 'failed' | 'blocked'
+
+/**
+ * Rule Claim Impact - how the outcome of one claim changes under the draft rules
+ */
+export interface RuleClaimImpact {
+  claimId: string
+  claimNumber: string
+  submittedAt: string
+  before: RuleSimulationOutcome
+  after: RuleSimulationOutcome
+  blockReason?: string // Draft block reason, when newly blocked
+  newErrors: string[]
+  resolvedErrors: string[]
+  newWarnings: string[]
+  resolvedWarnings: string[]
+  addedDocuments: DocumentRequirement[]
+  removedDocuments: DocumentRequirement[]
+  triggeredRuleIds: string[] // Added or changed draft rules whose conditions matched
+  error?: string // Exception thrown while evaluating the claim
+}
+
+/**
+ * Rule Simulation Report - outcome of replaying past claims against a draft
+ * rule set. `claims` only lists claims whose outcome changed.
+ */
+export interface RuleSimulationReport {
+  total: number // Claims replayed
+  unchanged: number
+  newlyBlocked: number
+  newlyPassed: number // Rejected (blocked or failed) before, passing now
+  newlyFailed: number // Passing before, failing with errors now (not blocked)
+  withNewWarnings: number
+  withDocumentChanges: number
+  failedToEvaluate: number
+  ruleTriggers: Array<{ ruleId: string; ruleName: string; change: 'added' | 'changed'; triggered: number }>
+  ruleStats: { current: RuleSetStats; draft: RuleSetStats }
+  claims: RuleClaimImpact[]
+}
+
+/**
+ * Rule Lint Finding - a problem reported by the static rule-set analyzer
+ */
+export type RuleLintCode =
+  | 'unknown_reference'
+  | 'contradictory_visibility'
+  | 'shadowed_rule'
+  | 'unreachable_condition'
+  | 'invalid_regex'
+  | 'operator_type_mismatch'
+  | 'unknown_operator'
+
+export interface RuleLintFinding {
+  ruleId: string
+  code: RuleLintCode
+  severity: 'error' | 'warning'
+  message: string
+  relatedRuleIds?: string[] // Other rules involved (conflicts, shadowing)
+}
+
+/**
+ * Rule Template Placeholder - a value filled in when the template is applied.
+ * `{key}` marks where it goes; a string that is exactly `{key}` takes the
+ * typed value (number, date string, document type list) as it is.
+ */
+export type RuleTemplatePlaceholderType = 'question' | 'number' | 'date' | 'document_types' | 'text'
+
+export interface RuleTemplatePlaceholder {
+  key: string
+  label: string
+  type: RuleTemplatePlaceholderType
+  description?: string
+  defaultValue?: string | number | string[]
+}
+
+/**
+ * A value found in a rule that can become a placeholder when the rule is
+ * saved as a template. `value` is the original value at every occurrence.
+ */
+export interface RuleTemplateParameter extends RuleTemplatePlaceholder {
+  value: string | number | string[]
+  occurrences: number
+}
+
+/**
+ * Rule Template - built-in templates for common scenarios, or saved by
+ * admins from existing rules (shared across coverage types)
  */
 export interface RuleTemplate {
   id: string
   name: string
   description: string
-  category: 'conditional' | 'validation' | 'document' | 'eligibility'
+  category: RuleType
   ruleType: RuleType
-  conditions: Partial<RuleCondition>[]
+  conditions: Partial<RuleCondition>[] | StoredRuleConditions
   actions: Partial<RuleAction>[]
-  placeholders?: string[] // Fields that need to be filled by user
+  placeholders?: RuleTemplatePlaceholder[] // Values that need to be filled by user
+  tags?: string[]
+  builtIn?: boolean // Predefined in code; cannot be edited or deleted
 }
 
+/**
+ * Condition Trace - how each node of a condition tree evaluated, with the
+ * resolved left (answer) and right (expected) values for leaf conditions
+ */
+export type ConditionTrace =
+  | {
+      type: 'condition'
+      field: string
+      operator: RuleOperator
+      aggregate?: AggregateFunction
+      actual: unknown
+      expected: unknown
+      matched: boolean
+    }
+  | { type: 'group'; operator: LogicalOperator; matched: boolean; children: ConditionTrace[] }
+  | { type: 'not'; matched: boolean; child: ConditionTrace }
+
 /**
  * Rule Execution Log - for debugging and auditing
  */
@@ -168,6 +568,10 @@ export interface RuleExecutionLog {
   actionsApplied: string[]
   executionTimeMs: number
   context: RuleEvaluationContext
+  conditionTrace?: ConditionTrace
+  error?: string // Exception thrown while evaluating the rule
+  iteration?: number // Evaluation pass that produced this entry
+  itemIndex?: number // Item of the for_each group this entry evaluated
 }
 
 /**
@@ -202,6 +606,7 @@ export interface RuleConfiguration {
   tags?: string[]
   effectiveFrom?: string
   effectiveUntil?: string
+  forEach?: string // Repeatable group question ID - the rule runs once per item
   appliesTo?: {
     coverageTypes?: string[]
     questionIds?: string[]
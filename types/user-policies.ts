@@ -18,10 +18,28 @@ export interface UserPolicy {
 export interface CoverageItem {
   name: string
   total_limit: number
-  used_limit: number
+  used_limit: number // Paid out on claims
+  reserved_limit?: number // Held for approved claims that are not paid yet
   currency: string
 }
 
+// Coverage usage ledger: every change to a coverage item's usage, per claim.
+// reserve holds limit for an approved claim, consume turns the hold into
+// usage when the claim is paid, release gives held limit back.
+export type CoverageUsageEntryType = 'reserve' | 'consume' | 'release'
+
+export interface CoverageUsageEntry {
+  id: string
+  user_policy_id: string
+  claim_id: string
+  coverage_name: string
+  entry_type: CoverageUsageEntryType
+  amount: number
+  settled_at: string | null // Reserve entries: set once consumed or released
+  created_by: string | null
+  created_at: string
+}
+
 export interface UserPolicyInsert {
   user_id: string
   policy_id: string